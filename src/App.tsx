@@ -4,6 +4,7 @@ import { useTasks } from './hooks/useTasks';
 import { useUsers } from './hooks/useUsers';
 import { useNotifications } from './hooks/useNotifications';
 import { useRoutines } from './hooks/useRoutines';
+import { useTaskViews } from './hooks/useTaskViews';
 import { AuthPage } from './pages/AuthPage';
 import { LoadingScreen } from './components/LoadingScreen';
 import { Navigation } from './components/Navigation';
@@ -14,9 +15,14 @@ import { InstallPWA } from './components/InstallPWA';
 import { OfflineIndicator } from './components/ui/OfflineIndicator';
 import { OfflineToast } from './components/ui/OfflineToast';
 import { OfflineSyncManager } from './components/ui/OfflineSyncManager';
+import { SectionFilterToggle } from './components/ui/SectionFilterToggle';
 import { ListTodo, CheckCircle2, Clock, AlertCircle } from 'lucide-react';
 import { TaskCategories } from './components/task/TaskCategories';
+import { TaskViews } from './components/task/TaskViews';
 import { isOverdue, isSameDay } from './utils/dateUtils';
+import { matchesUserSection } from './utils/sectionFilter';
+import { expandRecurringTasks } from './utils/recurrence';
+import { filterTasksByView } from './utils/taskViews';
 import { useOfflineStatus } from './hooks/useOfflineStatus';
 import { usePredictivePreload } from './hooks/usePredictivePreload';
 import { InstantTransition } from './components/InstantTransition';
@@ -56,13 +62,16 @@ export default function App() {
   const { user, loading: authLoading, error: authError, login, signup, logout, forgotPassword } = useAuth();
   const { users, loading: usersLoading } = useUsers();
   const { 
-    tasks, 
+    tasks: allTasks, 
     loading: tasksLoading, 
     createTask, 
     updateTask, 
     deleteTask,
     refreshTasks,
-    syncOfflineChanges
+    syncOfflineChanges,
+    outbox,
+    retryOperation,
+    discardOperation
   } = useTasks(user?.id);
   const {
     routines,
@@ -72,18 +81,38 @@ export default function App() {
   const { 
     notifications, 
     unreadCount,
+    loading: notificationsLoading,
+    hasMore: hasMoreNotifications,
+    loadMore: loadMoreNotifications,
     markAsRead, 
     markAllAsRead, 
     clearNotification 
   } = useNotifications(user?.id);
+  const {
+    views: taskViews,
+    createView,
+    updateView,
+    deleteView
+  } = useTaskViews(user?.id);
   const isOffline = useOfflineStatus();
   
   const [activePage, setActivePage] = useState<NavPage>('home');
   const [showNotifications, setShowNotifications] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<TaskCategory | null>(null);
   const [statFilter, setStatFilter] = useState<StatFilter>('all');
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isResetPasswordFlow, setIsResetPasswordFlow] = useState(false);
+  const [showAllSections, setShowAllSections] = useState(false);
+
+  // Hide admin tasks meant for other sections unless the student asked to see everything
+  // Recurring tasks are shown as their individual occurrences
+  const tasks = useMemo(() => {
+    const visible = showAllSections
+      ? allTasks
+      : allTasks.filter(task => !task.isAdminTask || matchesUserSection(task.section, user?.section));
+    return expandRecurringTasks(visible);
+  }, [allTasks, showAllSections, user?.section]);
 
   // Use predictive preloading based on navigation patterns
   const { predictedPages, recordAction } = usePredictivePreload(activePage, {
@@ -235,8 +264,26 @@ export default function App() {
     }
   };
 
+  const activeView = taskViews.find(view => view.id === activeViewId);
+
+  // Saved views replace the category and stat filters while selected
+  const selectView = (viewId: string | null) => {
+    setActiveViewId(viewId);
+    setSelectedCategory(null);
+    setStatFilter('all');
+  };
+
+  const selectStatFilter = (filter: StatFilter) => {
+    setStatFilter(filter);
+    setActiveViewId(null);
+  };
+
   // Filter tasks based on selected stat
   const getFilteredTasks = () => {
+    if (activeView) {
+      return filterTasksByView(tasks, activeView);
+    }
+
     let filtered = tasks;
 
     // First apply category filter if selected
@@ -258,6 +305,10 @@ export default function App() {
   };
 
   const getStatTitle = () => {
+    if (activeView) {
+      return activeView.name;
+    }
+
     switch (statFilter) {
       case 'overdue':
         return 'Due Tasks';
@@ -283,7 +334,7 @@ export default function App() {
       case 'search':
         return (
           <Suspense fallback={<LoadingScreen minimumLoadTime={300} />}>
-            <SearchPage tasks={tasks} />
+            <SearchPage tasks={tasks} onNavigate={setActivePage} />
           </Suspense>
         );
       case 'notifications':
@@ -294,13 +345,17 @@ export default function App() {
               onMarkAsRead={markAsRead}
               onMarkAllAsRead={markAllAsRead}
               onClear={clearNotification}
+              unreadCount={unreadCount}
+              hasMore={hasMoreNotifications}
+              loadingMore={notificationsLoading}
+              onLoadMore={loadMoreNotifications}
             />
           </Suspense>
         );
       case 'courses':
         return (
           <Suspense fallback={<LoadingScreen minimumLoadTime={300} />}>
-            <CoursePage />
+            <CoursePage tasks={tasks} />
           </Suspense>
         );
       case 'study-materials':
@@ -331,9 +386,9 @@ export default function App() {
             {/* Task Stats */}
             <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
               <button
-                onClick={() => setStatFilter('all')}
+                onClick={() => selectStatFilter('all')}
                 className={`bg-white dark:bg-gray-800 rounded-xl p-4 shadow-sm hover:shadow-md transition-all ${
-                  statFilter === 'all' ? 'ring-2 ring-blue-500 dark:ring-blue-400' : ''
+                  statFilter === 'all' && !activeView ? 'ring-2 ring-blue-500 dark:ring-blue-400' : ''
                 }`}
               >
                 <div className="flex items-center gap-3 mb-2">
@@ -348,7 +403,7 @@ export default function App() {
               </button>
 
               <button
-                onClick={() => setStatFilter('overdue')}
+                onClick={() => selectStatFilter('overdue')}
                 className={`bg-white dark:bg-gray-800 rounded-xl p-4 shadow-sm hover:shadow-md transition-all ${
                   statFilter === 'overdue' ? 'ring-2 ring-red-500 dark:ring-red-400' : ''
                 }`}
@@ -365,7 +420,7 @@ export default function App() {
               </button>
 
               <button
-                onClick={() => setStatFilter('in-progress')}
+                onClick={() => selectStatFilter('in-progress')}
                 className={`bg-white dark:bg-gray-800 rounded-xl p-4 shadow-sm hover:shadow-md transition-all ${
                   statFilter === 'in-progress' ? 'ring-2 ring-indigo-500 dark:ring-indigo-400' : ''
                 }`}
@@ -382,7 +437,7 @@ export default function App() {
               </button>
 
               <button
-                onClick={() => setStatFilter('completed')}
+                onClick={() => selectStatFilter('completed')}
                 className={`bg-white dark:bg-gray-800 rounded-xl p-4 shadow-sm hover:shadow-md transition-all ${
                   statFilter === 'completed' ? 'ring-2 ring-green-500 dark:ring-green-400' : ''
                 }`}
@@ -404,25 +459,45 @@ export default function App() {
               onCategorySelect={(category) => {
                 setSelectedCategory(category);
                 setStatFilter('all');
+                setActiveViewId(null);
               }}
               selectedCategory={selectedCategory}
               categoryCounts={categoryCounts}
             />
 
+            {/* Saved Views */}
+            <TaskViews
+              views={taskViews}
+              tasks={tasks}
+              activeViewId={activeViewId}
+              currentFilters={{ category: selectedCategory || undefined, status: statFilter }}
+              onSelectView={selectView}
+              onCreateView={createView}
+              onUpdateView={updateView}
+              onDeleteView={deleteView}
+            />
+
             {/* Task List */}
             <div>
               <div className="flex items-center justify-between mb-6">
                 <h2 className="text-xl font-bold text-gray-900 dark:text-white">
                   {getStatTitle()}
                 </h2>
-                {statFilter !== 'all' && (
-                  <button
-                    onClick={() => setStatFilter('all')}
-                    className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
-                  >
-                    View All Tasks
-                  </button>
-                )}
+                <div className="flex items-center gap-3">
+                  {(statFilter !== 'all' || activeView) && (
+                    <button
+                      onClick={() => selectStatFilter('all')}
+                      className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+                    >
+                      View All Tasks
+                    </button>
+                  )}
+                  <SectionFilterToggle
+                    section={user?.section}
+                    showAll={showAllSections}
+                    onChange={setShowAllSections}
+                  />
+                </div>
               </div>
               <TaskList
                 tasks={getFilteredTasks()}
@@ -460,9 +535,8 @@ export default function App() {
       <Suspense fallback={<LoadingScreen minimumLoadTime={300} />}>
         <AdminDashboard
           users={users}
-          tasks={tasks}
+          tasks={allTasks}
           onLogout={logout}
-          onDeleteUser={() => {}}
           onCreateTask={createTask}
           onDeleteTask={deleteTask}
           onUpdateTask={updateTask}
@@ -495,6 +569,10 @@ export default function App() {
           onMarkAsRead={markAsRead}
           onMarkAllAsRead={markAllAsRead}
           onClear={clearNotification}
+          unreadCount={unreadCount}
+          hasMore={hasMoreNotifications}
+          loadingMore={notificationsLoading}
+          onLoadMore={loadMoreNotifications}
         />
       )}
       
@@ -531,7 +609,12 @@ export default function App() {
       <InstallPWA />
       <OfflineIndicator />
       <OfflineToast />
-      <OfflineSyncManager onSync={syncAllOfflineChanges} />
+      <OfflineSyncManager
+        onSync={syncAllOfflineChanges}
+        operations={outbox}
+        onRetry={retryOperation}
+        onDiscard={discardOperation}
+      />
     </div>
   );
 }
\ No newline at end of file
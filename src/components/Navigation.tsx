@@ -154,7 +154,7 @@ export function Navigation({
 
                 {/* Profile Menu */}
                 <div className="ml-1">
-                  <ProfileMenu onLogout={onLogout} />
+                  <ProfileMenu onLogout={onLogout} tasks={tasks} />
                 </div>
               </div>
             </div>
@@ -19,12 +19,17 @@ import {
   CheckCircle2,
   MoreVertical,
   Trash2,
-  WifiOff
+  WifiOff,
+  Repeat
 } from 'lucide-react';
 import { isOverdue } from '../utils/dateUtils';
+import { describeRecurrence } from '../utils/recurrence';
 import { parseLinks } from '../utils/linkParser';
 import { useState, useMemo } from 'react';
 import { TaskDetailsPopup } from './task/TaskDetailsPopup';
+import { TaskCourseBadge } from './task/TaskCourseBadge';
+import { TaskCourseFilter } from './task/TaskCourseFilter';
+import { getCourseColor } from '../utils/courseColors';
 import { useOfflineStatus } from '../hooks/useOfflineStatus';
 
 interface TaskListProps {
@@ -37,6 +42,7 @@ export function TaskList({ tasks, onDeleteTask, showDeleteButton = false }: Task
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [deletingTaskId, setDeletingTaskId] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [selectedCourseId, setSelectedCourseId] = useState<string | null>(null);
   const isOffline = useOfflineStatus();
 
   // Sort tasks to move completed tasks to the bottom and handle overdue tasks
@@ -55,6 +61,10 @@ export function TaskList({ tasks, onDeleteTask, showDeleteButton = false }: Task
     return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
   });
 
+  // A course picked earlier no longer narrows the list once none of its tasks are left in it
+  const courseTasks = sortedTasks.filter(task => task.courseId === selectedCourseId);
+  const visibleTasks = courseTasks.length > 0 ? courseTasks : sortedTasks;
+
   const getCategoryIcon = (category: string) => {
     switch (category.toLowerCase()) {
       case 'quiz':
@@ -131,11 +141,17 @@ export function TaskList({ tasks, onDeleteTask, showDeleteButton = false }: Task
           <p>You're offline. Showing cached tasks.</p>
         </div>
       )}
+
+      <TaskCourseFilter
+        tasks={sortedTasks}
+        selectedCourseId={courseTasks.length > 0 ? selectedCourseId : null}
+        onSelect={setSelectedCourseId}
+      />
       
       <div className="w-full max-w-7xl mx-auto bg-gray-50 dark:bg-gray-900 md:bg-transparent">
         {/* Mobile-optimized container */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 p-3 md:gap-4 lg:gap-6 md:p-4 lg:p-6">
-          {sortedTasks.map((task, index) => {
+          {visibleTasks.map((task, index) => {
             const overdue = isOverdue(task.dueDate);
             const parsedLinks = parseLinks(task.description);
             const hasLinks = parsedLinks.some(part => part.type === 'link');
@@ -163,6 +179,10 @@ export function TaskList({ tasks, onDeleteTask, showDeleteButton = false }: Task
                   animationDelay: `${index * 50}ms`
                 }}
               >
+                {task.course && (
+                  <span className={`absolute left-0 top-4 bottom-4 w-1 rounded-r-full ${getCourseColor(task.course.id).dot}`} />
+                )}
+
                 {/* Category Tag - Desktop */}
                 <div className="hidden md:flex items-start justify-between mb-3.5 md:mb-2">
                   <span className={`inline-flex items-center gap-1.5 
@@ -280,8 +300,19 @@ export function TaskList({ tasks, onDeleteTask, showDeleteButton = false }: Task
                       </span>
                       {task.status === 'completed' ? 'Complete' : overdue ? 'Overdue' : 'In Progress'}
                     </span>
+                    {task.recurrence && (
+                      <span
+                        className="inline-flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400"
+                        title={describeRecurrence(task.recurrence)}
+                      >
+                        <Repeat className="w-3.5 h-3.5" />
+                        Repeats
+                      </span>
+                    )}
                   </div>
 
+                  {task.course && <TaskCourseBadge course={task.course} />}
+
                 </div>
 
                 {/* Mobile-only touch feedback */}
@@ -299,7 +330,7 @@ export function TaskList({ tasks, onDeleteTask, showDeleteButton = false }: Task
       {selectedTask && (
         <TaskDetailsPopup
           task={selectedTask}
-          tasks={sortedTasks}
+          tasks={visibleTasks}
           onClose={() => setSelectedTask(null)}
           onDelete={onDeleteTask}
           showDeleteButton={showDeleteButton}
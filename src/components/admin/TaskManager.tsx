@@ -1,22 +1,43 @@
 import { TaskForm } from './task/TaskForm';
 import { TaskTable } from './task/TaskTable';
 import type { Task } from '../../types';
+import type { NewTask } from '../../types/task';
+import type { Course } from '../../types/course';
+import type { User } from '../../types/auth';
+import type { TaskProgress, TaskProgressSummary } from '../../types/task';
 
 interface TaskManagerProps {
   tasks: Task[];
-  onCreateTask: (task: Omit<Task, 'id' | 'createdAt'>) => void;
+  courses: Course[];
+  users: User[];
+  progressSummaries: TaskProgressSummary[];
+  onCreateTask: (task: NewTask) => void | Promise<unknown>;
   onDeleteTask: (taskId: string) => void;
   onUpdateTask: (taskId: string, updates: Partial<Task>) => void;
+  onFetchTaskProgress: (taskId: string, occurrenceDate?: string) => Promise<TaskProgress[]>;
 }
 
-export function TaskManager({ tasks, onCreateTask, onDeleteTask, onUpdateTask }: TaskManagerProps) {
+export function TaskManager({
+  tasks,
+  courses,
+  users,
+  progressSummaries,
+  onCreateTask,
+  onDeleteTask,
+  onUpdateTask,
+  onFetchTaskProgress
+}: TaskManagerProps) {
   return (
     <div className="space-y-8">
-      <TaskForm onSubmit={onCreateTask} />
+      <TaskForm courses={courses} onSubmit={onCreateTask} />
       <TaskTable 
         tasks={tasks}
+        courses={courses}
+        users={users}
+        progressSummaries={progressSummaries}
         onDeleteTask={onDeleteTask}
         onUpdateTask={onUpdateTask}
+        onFetchTaskProgress={onFetchTaskProgress}
       />
     </div>
   );
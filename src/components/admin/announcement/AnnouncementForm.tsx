@@ -1,29 +1,70 @@
 import { useState } from 'react';
-import { Send, Megaphone } from 'lucide-react';
-import type { NewAnnouncement } from '../../../types/announcement';
+import { Send, Megaphone, Pin, Clock, Save } from 'lucide-react';
+import { RichTextField } from '../../ui/RichTextField';
+import { showErrorToast } from '../../../utils/notifications';
+import type { AnnouncementAudience, NewAnnouncement } from '../../../types/announcement';
+import type { Course } from '../../../types/course';
 
 interface AnnouncementFormProps {
+  courses: Course[];
   onSubmit: (announcement: NewAnnouncement) => Promise<void>;
 }
 
-export function AnnouncementForm({ onSubmit }: AnnouncementFormProps) {
-  const [announcement, setAnnouncement] = useState<NewAnnouncement>({
-    title: '',
-    content: ''
-  });
+type PublishMode = 'now' | 'schedule' | 'draft';
+
+const emptyAnnouncement: NewAnnouncement = {
+  title: '',
+  content: '',
+  pinned: false,
+  audience: 'all'
+};
+
+const inputClassName = 'w-full px-4 py-2.5 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white transition-colors';
+
+export function AnnouncementForm({ courses, onSubmit }: AnnouncementFormProps) {
+  const [announcement, setAnnouncement] = useState<NewAnnouncement>(emptyAnnouncement);
+  const [publishMode, setPublishMode] = useState<PublishMode>('now');
+  // datetime-local values, in the admin's time zone
+  const [publishAt, setPublishAt] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    const publishTime = publishMode === 'schedule' && publishAt ? new Date(publishAt) : new Date();
+    const expiryTime = expiresAt ? new Date(expiresAt) : undefined;
+
+    if (expiryTime && expiryTime <= publishTime) {
+      showErrorToast('The expiry time must be after the publish time');
+      return;
+    }
+
     setIsSubmitting(true);
     try {
-      await onSubmit(announcement);
-      setAnnouncement({ title: '', content: '' });
+      await onSubmit({
+        ...announcement,
+        isDraft: publishMode === 'draft',
+        publishAt: publishTime.toISOString(),
+        expiresAt: expiryTime?.toISOString()
+      });
+      setAnnouncement(emptyAnnouncement);
+      setPublishMode('now');
+      setPublishAt('');
+      setExpiresAt('');
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const submitLabel = {
+    now: isSubmitting ? 'Sending...' : 'Send Announcement',
+    schedule: isSubmitting ? 'Scheduling...' : 'Schedule Announcement',
+    draft: isSubmitting ? 'Saving...' : 'Save Draft'
+  }[publishMode];
+
+  const SubmitIcon = { now: Send, schedule: Clock, draft: Save }[publishMode];
+
   return (
     <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm p-4 sm:p-6">
       <div className="flex items-center gap-3 mb-6">
@@ -33,7 +74,7 @@ export function AnnouncementForm({ onSubmit }: AnnouncementFormProps) {
         <div>
           <h2 className="text-lg sm:text-xl font-semibold text-gray-900 dark:text-white">Create Announcement</h2>
           <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">
-            Send important updates to all users
+            Send important updates to everyone, a section or a course
           </p>
         </div>
       </div>
@@ -47,16 +88,13 @@ export function AnnouncementForm({ onSubmit }: AnnouncementFormProps) {
             type="text"
             value={announcement.title}
             onChange={(e) => setAnnouncement(prev => ({ ...prev, title: e.target.value }))}
-            className="w-full px-4 py-2.5 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white transition-colors"
+            className={inputClassName}
             placeholder="Enter announcement title"
             required
           />
         </div>
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
-            Content
-          </label>
+        <RichTextField label="Content" value={announcement.content}>
           <textarea
             value={announcement.content}
             onChange={(e) => setAnnouncement(prev => ({ ...prev, content: e.target.value }))}
@@ -64,8 +102,117 @@ export function AnnouncementForm({ onSubmit }: AnnouncementFormProps) {
             placeholder="Enter announcement content"
             required
           />
+        </RichTextField>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+              Audience
+            </label>
+            <select
+              value={announcement.audience}
+              onChange={(e) => setAnnouncement(prev => ({ ...prev, audience: e.target.value as AnnouncementAudience }))}
+              className={inputClassName}
+            >
+              <option value="all">Everyone</option>
+              <option value="section">A section</option>
+              <option value="course">Students of a course</option>
+            </select>
+          </div>
+
+          {announcement.audience === 'section' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+                Section
+              </label>
+              <input
+                type="text"
+                value={announcement.audienceSection || ''}
+                onChange={(e) => setAnnouncement(prev => ({ ...prev, audienceSection: e.target.value }))}
+                className={inputClassName}
+                placeholder="e.g. A"
+                required
+              />
+            </div>
+          )}
+
+          {announcement.audience === 'course' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+                Course
+              </label>
+              <select
+                value={announcement.audienceCourseId || ''}
+                onChange={(e) => setAnnouncement(prev => ({ ...prev, audienceCourseId: e.target.value }))}
+                className={inputClassName}
+                required
+              >
+                <option value="">Select a course</option>
+                {courses.map(course => (
+                  <option key={course.id} value={course.id}>
+                    {course.code} - {course.name}{course.section ? ` (Sec ${course.section})` : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
         </div>
 
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+              Publish
+            </label>
+            <select
+              value={publishMode}
+              onChange={(e) => setPublishMode(e.target.value as PublishMode)}
+              className={inputClassName}
+            >
+              <option value="now">Right away</option>
+              <option value="schedule">At a later time</option>
+              <option value="draft">Save as draft</option>
+            </select>
+          </div>
+
+          {publishMode === 'schedule' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+                Publish at
+              </label>
+              <input
+                type="datetime-local"
+                value={publishAt}
+                onChange={(e) => setPublishAt(e.target.value)}
+                className={inputClassName}
+                required
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+              Expires at <span className="text-gray-400 font-normal">(optional)</span>
+            </label>
+            <input
+              type="datetime-local"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={announcement.pinned || false}
+            onChange={(e) => setAnnouncement(prev => ({ ...prev, pinned: e.target.checked }))}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <Pin className="w-4 h-4" />
+          Pin to the top
+        </label>
+
         <button
           type="submit"
           disabled={isSubmitting}
@@ -78,8 +225,8 @@ export function AnnouncementForm({ onSubmit }: AnnouncementFormProps) {
             transition-colors duration-200 shadow-sm hover:shadow-md
           `}
         >
-          <Send className="w-4 h-4" />
-          {isSubmitting ? 'Sending...' : 'Send Announcement'}
+          <SubmitIcon className="w-4 h-4" />
+          {submitLabel}
         </button>
       </div>
     </form>
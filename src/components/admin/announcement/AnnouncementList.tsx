@@ -1,13 +1,47 @@
-import { Megaphone, Trash2, Calendar } from 'lucide-react';
-import type { Announcement } from '../../../types/announcement';
-import { parseLinks } from '../../../utils/linkParser';
+import { Megaphone, Trash2, Calendar, Pin, PinOff, Send, Users, Clock } from 'lucide-react';
+import type { Announcement, AnnouncementStatus, NewAnnouncement } from '../../../types/announcement';
+import type { Course } from '../../../types/course';
+import { RichText } from '../../ui/RichText';
+import { getAnnouncementStatus } from '../../../utils/announcementStatus';
 
 interface AnnouncementListProps {
   announcements: Announcement[];
+  courses: Course[];
+  onUpdate: (id: string, updates: Partial<NewAnnouncement>) => Promise<void>;
+  onPublish: (id: string) => Promise<void>;
   onDelete: (id: string) => Promise<void>;
 }
 
-export function AnnouncementList({ announcements, onDelete }: AnnouncementListProps) {
+const statusStyles: Record<AnnouncementStatus, { label: string; className: string }> = {
+  draft: { label: 'Draft', className: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300' },
+  scheduled: { label: 'Scheduled', className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400' },
+  live: { label: 'Live', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400' },
+  expired: { label: 'Expired', className: 'bg-red-100 text-red-600 dark:bg-red-900/30 dark:text-red-400' }
+};
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+export function AnnouncementList({ announcements, courses, onUpdate, onPublish, onDelete }: AnnouncementListProps) {
+  const liveCount = announcements.filter(announcement => getAnnouncementStatus(announcement) === 'live').length;
+
+  const getAudienceLabel = (announcement: Announcement) => {
+    if (announcement.audience === 'section') {
+      return `Section ${announcement.audienceSection}`;
+    }
+    if (announcement.audience === 'course') {
+      const course = courses.find(c => c.id === announcement.audienceCourseId);
+      return course ? `${course.code} students` : 'Deleted course';
+    }
+    return 'Everyone';
+  };
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm p-4 sm:p-6 mt-6">
       <div className="flex items-center gap-3 mb-6">
@@ -17,7 +51,7 @@ export function AnnouncementList({ announcements, onDelete }: AnnouncementListPr
         <div>
           <h2 className="text-lg sm:text-xl font-semibold text-gray-900 dark:text-white">Recent Announcements</h2>
           <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">
-            {announcements.length} {announcements.length === 1 ? 'announcement' : 'announcements'} sent
+            {announcements.length} {announcements.length === 1 ? 'announcement' : 'announcements'}, {liveCount} live
           </p>
         </div>
       </div>
@@ -31,49 +65,68 @@ export function AnnouncementList({ announcements, onDelete }: AnnouncementListPr
       ) : (
         <div className="space-y-4">
           {announcements.map((announcement) => {
-            const contentParts = parseLinks(announcement.content);
+            const status = getAnnouncementStatus(announcement);
             
             return (
               <div
                 key={announcement.id}
-                className="p-4 rounded-xl border border-gray-100 dark:border-gray-700 hover:border-gray-200 dark:hover:border-gray-600 transition-all duration-200 group hover:shadow-sm"
+                className={`p-4 rounded-xl border border-gray-100 dark:border-gray-700 hover:border-gray-200 dark:hover:border-gray-600 transition-all duration-200 group hover:shadow-sm ${
+                  status === 'expired' ? 'opacity-60' : ''
+                }`}
               >
                 <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
                   <div className="flex-grow space-y-2 min-w-0"> {/* Added min-w-0 */}
-                    <h3 className="font-medium text-gray-900 dark:text-white group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors break-words">
-                      {announcement.title}
-                    </h3>
-                    <div className="text-gray-600 dark:text-gray-300 text-sm sm:text-base break-words">
-                      {contentParts.map((part, index) => 
-                        part.type === 'link' ? (
-                          <a
-                            key={index}
-                            href={part.content}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-blue-600 dark:text-blue-400 hover:underline break-all"
-                          >
-                            {part.content}
-                          </a>
-                        ) : (
-                          <span key={index}>{part.content}</span>
-                        )
+                    <div className="flex flex-wrap items-center gap-2">
+                      {announcement.pinned && (
+                        <Pin className="w-4 h-4 text-blue-600 dark:text-blue-400 flex-shrink-0" />
                       )}
+                      <h3 className="font-medium text-gray-900 dark:text-white group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors break-words">
+                        {announcement.title}
+                      </h3>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[status].className}`}>
+                        {statusStyles[status].label}
+                      </span>
                     </div>
-                    <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
-                      <Calendar className="w-4 h-4" />
-                      <span>
-                        {new Date(announcement.createdAt).toLocaleDateString('en-US', {
-                          month: 'short',
-                          day: 'numeric',
-                          year: 'numeric',
-                          hour: '2-digit',
-                          minute: '2-digit'
-                        })}
+                    <RichText
+                      text={announcement.content}
+                      className="text-gray-600 dark:text-gray-300 text-sm sm:text-base"
+                    />
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-500 dark:text-gray-400">
+                      <span className="flex items-center gap-1.5">
+                        <Calendar className="w-4 h-4" />
+                        {status === 'draft'
+                          ? `Created ${formatDateTime(announcement.createdAt)}`
+                          : `${status === 'scheduled' ? 'Publishes' : 'Published'} ${formatDateTime(announcement.publishAt)}`}
+                      </span>
+                      {announcement.expiresAt && (
+                        <span className="flex items-center gap-1.5">
+                          <Clock className="w-4 h-4" />
+                          {status === 'expired' ? 'Expired' : 'Expires'} {formatDateTime(announcement.expiresAt)}
+                        </span>
+                      )}
+                      <span className="flex items-center gap-1.5">
+                        <Users className="w-4 h-4" />
+                        {getAudienceLabel(announcement)}
                       </span>
                     </div>
                   </div>
                   <div className="flex sm:flex-col items-center gap-2">
+                    {(status === 'draft' || status === 'scheduled') && (
+                      <button
+                        onClick={() => onPublish(announcement.id)}
+                        className="p-2 text-green-600 dark:text-green-500 hover:bg-green-50 dark:hover:bg-green-900/20 rounded-lg transition-colors"
+                        title="Publish now"
+                      >
+                        <Send className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onUpdate(announcement.id, { pinned: !announcement.pinned })}
+                      className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                      title={announcement.pinned ? 'Unpin announcement' : 'Pin announcement'}
+                    >
+                      {announcement.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                    </button>
                     <button
                       onClick={() => onDelete(announcement.id)}
                       className="p-2 text-red-600 dark:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
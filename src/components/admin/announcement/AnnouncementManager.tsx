@@ -1,23 +1,33 @@
 import { AnnouncementForm } from './AnnouncementForm';
 import { AnnouncementList } from './AnnouncementList';
 import type { Announcement, NewAnnouncement } from '../../../types/announcement';
+import type { Course } from '../../../types/course';
 
 interface AnnouncementManagerProps {
   announcements: Announcement[];
+  courses: Course[];
   onCreateAnnouncement: (announcement: NewAnnouncement) => Promise<void>;
+  onUpdateAnnouncement: (id: string, updates: Partial<NewAnnouncement>) => Promise<void>;
+  onPublishAnnouncement: (id: string) => Promise<void>;
   onDeleteAnnouncement: (id: string) => Promise<void>;
 }
 
 export function AnnouncementManager({
   announcements,
+  courses,
   onCreateAnnouncement,
+  onUpdateAnnouncement,
+  onPublishAnnouncement,
   onDeleteAnnouncement
 }: AnnouncementManagerProps) {
   return (
     <div>
-      <AnnouncementForm onSubmit={onCreateAnnouncement} />
+      <AnnouncementForm courses={courses} onSubmit={onCreateAnnouncement} />
       <AnnouncementList 
         announcements={announcements}
+        courses={courses}
+        onUpdate={onUpdateAnnouncement}
+        onPublish={onPublishAnnouncement}
         onDelete={onDeleteAnnouncement}
       />
     </div>
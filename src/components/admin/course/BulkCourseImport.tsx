@@ -2,10 +2,14 @@ import { useState, useRef } from 'react';
 import { Upload, CheckCircle, XCircle, File, AlertTriangle, Loader2, GraduationCap } from 'lucide-react';
 import type { Teacher } from '../../../types/teacher';
 import type { NewCourse } from '../../../types/course';
+import type { BulkImportOptions, BulkImportResult } from '../../../types/bulkImport';
+import { isSpreadsheetFile, readSpreadsheetFile, type ImportField } from '../../../utils/spreadsheet';
+import { SpreadsheetMapping } from '../import/SpreadsheetMapping';
+import { ImportOptions } from '../import/ImportOptions';
 
 interface BulkCourseImportProps {
   teachers: Teacher[];
-  onImportCourses: (courses: NewCourse[]) => Promise<{ success: number; errors: any[] }>;
+  onImportCourses: (courses: NewCourse[], options?: BulkImportOptions) => Promise<BulkImportResult>;
 }
 
 type ValidationResult = {
@@ -21,19 +25,54 @@ type ImportCourse = {
   teacher: string;
 };
 
+const COURSE_FIELDS: ImportField[] = [
+  { key: 'course_code', label: 'Course Code', required: true, aliases: ['code'] },
+  { key: 'course_title', label: 'Course Title', required: true, aliases: ['title', 'course', 'course name', 'name'] },
+  { key: 'teacher', label: 'Teacher', required: true, aliases: ['teacher name', 'instructor', 'faculty'] },
+  { key: 'credit', label: 'Credit', aliases: ['credits', 'credit hours'] },
+  { key: 'section', label: 'Section' }
+];
+
+const REQUIRED_COURSE_FIELDS = ['course_code', 'course_title', 'teacher'] as const;
+
+function getCourseRowErrors(course: ImportCourse): string[] {
+  const errors: string[] = [];
+
+  REQUIRED_COURSE_FIELDS.forEach(field => {
+    if (!course[field]) {
+      errors.push(`Missing required field "${field}"`);
+    }
+  });
+
+  if (course.credit != null && (typeof course.credit !== 'number' || Number.isNaN(course.credit))) {
+    errors.push('Credit must be a number');
+  }
+
+  return errors;
+}
+
+function toCourseItem(record: Record<string, string>): ImportCourse {
+  return {
+    course_code: record.course_code || '',
+    course_title: record.course_title || '',
+    credit: record.credit ? Number(record.credit) : undefined,
+    section: record.section,
+    teacher: record.teacher || ''
+  };
+}
+
 export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImportProps) {
   const [file, setFile] = useState<File | null>(null);
   const [data, setData] = useState<ImportCourse[] | null>(null);
   const [loading, setLoading] = useState(false);
   const [validating, setValidating] = useState(false);
   const [validation, setValidation] = useState<ValidationResult | null>(null);
-  const [importResult, setImportResult] = useState<{ 
-    success: number; 
-    errors: any[]; 
-    newTeacherCount?: number 
-  } | null>(null);
+  const [importResult, setImportResult] = useState<(BulkImportResult & { newTeacherCount?: number }) | null>(null);
+  const [importOptions, setImportOptions] = useState<BulkImportOptions>({});
   const [progressStatus, setProgressStatus] = useState('');
   const [teacherSelections, setTeacherSelections] = useState<Record<number, string>>({});
+  // Rows of a CSV or Excel file waiting for its columns to be matched
+  const [sheetRows, setSheetRows] = useState<string[][] | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const validateCourseData = (data: any[]): ValidationResult => {
@@ -47,23 +86,15 @@ export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImport
       return { valid: false, errors: ['Empty data: No courses to import'] };
     }
     
-    const requiredFields = ['course_code', 'course_title', 'teacher'];
-    
     data.forEach((course, index) => {
       if (!course) {
         errors.push(`Course #${index + 1}: Invalid course object`);
         return;
       }
       
-      requiredFields.forEach(field => {
-        if (!course[field]) {
-          errors.push(`Course #${index + 1}: Missing required field "${field}"`);
-        }
+      getCourseRowErrors(course).forEach(error => {
+        errors.push(`Course #${index + 1}: ${error}`);
       });
-      
-      if (course.credit && typeof course.credit !== 'number') {
-        errors.push(`Course #${index + 1}: Credit must be a number`);
-      }
     });
     
     return { valid: errors.length === 0, errors };
@@ -73,6 +104,7 @@ export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImport
     setImportResult(null);
     setValidation(null);
     setTeacherSelections({});
+    setSheetRows(null);
     
     const files = e.target.files;
     if (!files || files.length === 0) {
@@ -83,9 +115,14 @@ export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImport
     
     const selectedFile = files[0];
     
+    if (isSpreadsheetFile(selectedFile)) {
+      await handleSpreadsheetFile(selectedFile);
+      return;
+    }
+    
     // Check if file is JSON
     if (selectedFile.type !== 'application/json' && !selectedFile.name.endsWith('.json')) {
-      setValidation({ valid: false, errors: ['Invalid file format. Only JSON files are supported.'] });
+      setValidation({ valid: false, errors: ['Invalid file format. Only JSON, CSV and Excel (.xlsx) files are supported.'] });
       setFile(null);
       setData(null);
       return;
@@ -113,6 +150,33 @@ export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImport
     }
   };
 
+  const handleSpreadsheetFile = async (selectedFile: File) => {
+    setFile(selectedFile);
+    setData(null);
+    setValidating(true);
+    
+    try {
+      const rows = await readSpreadsheetFile(selectedFile);
+      if (rows.length < 2) {
+        throw new Error('Expected a header row and at least one course');
+      }
+      setSheetRows(rows);
+    } catch (err) {
+      setValidation({
+        valid: false,
+        errors: [`Could not read ${selectedFile.name}: ${(err as Error).message}`]
+      });
+    } finally {
+      setValidating(false);
+    }
+  };
+  
+  const handleSpreadsheetConfirm = (courses: ImportCourse[]) => {
+    setSheetRows(null);
+    setData(courses);
+    setValidation(validateCourseData(courses));
+  };
+
   const findMatchingTeacher = (teacherName: string): Teacher | undefined => {
     return teachers.find(teacher => 
       teacher.name.toLowerCase() === teacherName.toLowerCase() ||
@@ -169,7 +233,7 @@ export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImport
       });
       
       setProgressStatus('Importing courses...');
-      const result = await onImportCourses(coursesToImport);
+      const result = await onImportCourses(coursesToImport, importOptions);
       
       // Add information about created teachers
       const createdTeacherCount = result.errors.filter(err => 
@@ -210,6 +274,7 @@ export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImport
     setValidation(null);
     setImportResult(null);
     setTeacherSelections({});
+    setSheetRows(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -224,7 +289,7 @@ export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImport
       
       <div className="mb-4">
         <div className="text-sm text-gray-600 dark:text-gray-400 mb-2">
-          Import multiple courses at once using a JSON file. The file must be in the following format:
+          Import multiple courses at once using a JSON, CSV or Excel (.xlsx) file. CSV and Excel files need a header row, and you can match its columns to course fields before importing. JSON files must be in the following format:
         </div>
         <pre className="bg-gray-100 dark:bg-gray-700 p-3 rounded-md text-xs overflow-x-auto mb-4">
 {`[
@@ -244,11 +309,11 @@ export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImport
           <input
             ref={fileInputRef}
             type="file"
-            accept=".json,application/json"
+            accept=".json,application/json,.csv,text/csv,.tsv,.xlsx"
             onChange={handleFileChange}
             className="w-full max-w-xs text-sm text-gray-500 dark:text-gray-400 file:rounded-lg file:bg-blue-500 file:border-0 file:text-white file:px-3 file:py-2 file:mr-3 file:text-sm hover:file:bg-blue-600 cursor-pointer"
           />
-          {(validation || importResult) && (
+          {(validation || importResult || sheetRows) && (
             <button 
               onClick={handleReset}
               className="ml-2 text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
@@ -262,10 +327,22 @@ export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImport
       {validating && (
         <div className="flex items-center text-blue-500 text-sm mb-4">
           <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-          Validating JSON data...
+          Reading file...
         </div>
       )}
       
+      {file && sheetRows && (
+        <SpreadsheetMapping
+          fileName={file.name}
+          rows={sheetRows}
+          fields={COURSE_FIELDS}
+          toItem={toCourseItem}
+          getRowErrors={getCourseRowErrors}
+          onConfirm={handleSpreadsheetConfirm}
+          onCancel={handleReset}
+        />
+      )}
+      
       {validation && !validation.valid && (
         <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/30 rounded-md p-3">
           <h4 className="text-sm font-semibold text-red-600 dark:text-red-400 flex items-center mb-2">
@@ -284,7 +361,7 @@ export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImport
         <div className="mb-4">
           <div className="flex items-center text-green-500 text-sm mb-2">
             <CheckCircle className="w-4 h-4 mr-2" />
-            {`Valid JSON with ${data.length} course${data.length !== 1 ? 's' : ''}`}
+            {`${data.length} valid course${data.length !== 1 ? 's' : ''}`}
           </div>
           
           <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-900/30 rounded-md p-3 text-sm">
@@ -358,7 +435,7 @@ export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImport
             </div>
           </div>
           
-          <div className="mt-4">
+          <div className="mt-4 flex flex-col sm:flex-row sm:items-start gap-4">
             <button
               onClick={handleImport}
               disabled={loading || !validation.valid}
@@ -380,6 +457,12 @@ export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImport
                 </>
               )}
             </button>
+            <ImportOptions
+              options={importOptions}
+              onChange={setImportOptions}
+              upsertKey="course code and section"
+              disabled={loading}
+            />
           </div>
         </div>
       )}
@@ -388,6 +471,13 @@ export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImport
         <div className="mt-4">
           <h4 className="text-sm font-semibold mb-2 text-gray-900 dark:text-white">Import Results:</h4>
           
+          {importResult.rolledBack && (
+            <div className="mb-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-900/30 rounded-md p-3 text-sm text-amber-700 dark:text-amber-400 flex items-center">
+              <AlertTriangle className="w-4 h-4 mr-2" />
+              Nothing was imported, because this was an all or nothing import and some courses failed
+            </div>
+          )}
+          
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
             <div className="bg-green-50 dark:bg-green-900/20 p-4 rounded-lg border border-green-100 dark:border-green-800/30">
               <div className="text-2xl font-bold text-green-600 dark:text-green-400">{importResult.success}</div>
@@ -413,6 +503,7 @@ export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImport
             <div className="mb-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-900/30 rounded-md p-3 text-sm text-green-600 dark:text-green-400 flex items-center">
               <CheckCircle className="w-4 h-4 mr-2" />
               Successfully imported {importResult.success} {importResult.success === 1 ? 'course' : 'courses'}
+              {!!importResult.updated && ` (${importResult.updated} updated)`}
               {importResult.newTeacherCount && importResult.newTeacherCount > 0 && ` and created ${importResult.newTeacherCount} new ${importResult.newTeacherCount === 1 ? 'teacher' : 'teachers'}`}
             </div>
           )}
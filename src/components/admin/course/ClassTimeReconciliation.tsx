@@ -0,0 +1,102 @@
+import { useMemo, useState } from 'react';
+import { CheckCircle, Clock, Loader2, RefreshCw } from 'lucide-react';
+import type { ClassTime, Course } from '../../../types/course';
+import type { Routine } from '../../../types/routine';
+import { findClassTimeMismatches } from '../../../utils/courseClassTimes';
+import { showErrorToast, showSuccessToast } from '../../../utils/notifications';
+
+interface ClassTimeReconciliationProps {
+  courses: Course[];
+  routines: Routine[];
+  onSyncClassTimes: (courseIds?: string[]) => Promise<number>;
+}
+
+const formatClassTime = (classTime: ClassTime) =>
+  `${classTime.day} ${classTime.time}${classTime.classroom ? ` · ${classTime.classroom}` : ''}`;
+
+export function ClassTimeReconciliation({ courses, routines, onSyncClassTimes }: ClassTimeReconciliationProps) {
+  // Course ids being synced, or 'all'
+  const [syncing, setSyncing] = useState<string | null>(null);
+
+  const mismatches = useMemo(() => findClassTimeMismatches(courses, routines), [courses, routines]);
+  const hasActiveRoutine = routines.some(routine => routine.isActive);
+
+  const handleSync = async (courseIds: string[], key: string) => {
+    setSyncing(key);
+    try {
+      const updated = await onSyncClassTimes(courseIds);
+      showSuccessToast(`Updated class times of ${updated} ${updated === 1 ? 'course' : 'courses'} from the routine`);
+    } catch (error) {
+      showErrorToast(`Failed to sync class times: ${(error as Error).message}`);
+    } finally {
+      setSyncing(null);
+    }
+  };
+
+  if (!hasActiveRoutine) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No routine is active, so there are no class times to compare against.
+      </p>
+    );
+  }
+
+  if (mismatches.length === 0) {
+    return (
+      <div className="flex items-center gap-3 p-4 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400 rounded-lg text-sm">
+        <CheckCircle className="w-5 h-5 flex-shrink-0" />
+        <span>Every course's class times match the active routine</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {mismatches.length} {mismatches.length === 1 ? 'course has' : 'courses have'} class times that disagree with the active routine.
+          Syncing replaces them with the routine's slots.
+        </p>
+        <button
+          onClick={() => handleSync(mismatches.map(mismatch => mismatch.course.id), 'all')}
+          disabled={syncing !== null}
+          className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+        >
+          {syncing === 'all' ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          Sync all from routine
+        </button>
+      </div>
+
+      <div className="divide-y dark:divide-gray-700 border dark:border-gray-700 rounded-lg overflow-hidden">
+        {mismatches.map(({ course, missing, extra }) => (
+          <div key={course.id} className="flex items-start gap-3 p-3 bg-white dark:bg-gray-800 text-sm">
+            <Clock className="w-4 h-4 mt-0.5 text-amber-500 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-gray-900 dark:text-white">
+                {course.code} · {course.name}{course.section && ` (section ${course.section})`}
+              </p>
+              {missing.map((classTime, index) => (
+                <p key={`missing-${index}`} className="text-green-700 dark:text-green-400">
+                  + {formatClassTime(classTime)}
+                </p>
+              ))}
+              {extra.map((classTime, index) => (
+                <p key={`extra-${index}`} className="text-red-700 dark:text-red-400 line-through">
+                  {formatClassTime(classTime)}
+                </p>
+              ))}
+            </div>
+            <button
+              onClick={() => handleSync([course.id], course.id)}
+              disabled={syncing !== null}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-white dark:bg-gray-700 border dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50 rounded-lg text-xs font-medium"
+            >
+              {syncing === course.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />}
+              Fix
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
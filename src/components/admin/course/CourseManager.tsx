@@ -2,9 +2,12 @@ import { useState, useMemo } from 'react';
 import { CourseForm } from './CourseForm';
 import { CourseList } from './CourseList';
 import { BulkCourseImport } from './BulkCourseImport';
-import { BarChart3, BookOpen, Download, FilePlus, Filter, PlusCircle, Upload, User, X } from 'lucide-react';
+import { ClassTimeReconciliation } from './ClassTimeReconciliation';
+import { BarChart3, BookOpen, Clock, Download, FilePlus, Filter, PlusCircle, Upload, User, X } from 'lucide-react';
 import type { Course, NewCourse } from '../../../types/course';
 import type { Teacher } from '../../../types/teacher';
+import type { Routine } from '../../../types/routine';
+import type { BulkImportOptions, BulkImportResult } from '../../../types/bulkImport';
 
 interface CourseManagerProps {
   courses: Course[];
@@ -12,7 +15,9 @@ interface CourseManagerProps {
   onCreateCourse: (course: NewCourse) => Promise<Course | void>;
   onUpdateCourse: (id: string, updates: Partial<Course>) => Promise<Course | void>;
   onDeleteCourse: (id: string) => Promise<void>;
-  onBulkImportCourses?: (courses: NewCourse[]) => Promise<{ success: number; errors: any[] }>;
+  onBulkImportCourses?: (courses: NewCourse[], options?: BulkImportOptions) => Promise<BulkImportResult>;
+  routines?: Routine[];
+  onSyncClassTimes?: (courseIds?: string[]) => Promise<number>;
 }
 
 export function CourseManager({
@@ -21,10 +26,13 @@ export function CourseManager({
   onCreateCourse,
   onUpdateCourse,
   onDeleteCourse,
-  onBulkImportCourses
+  onBulkImportCourses,
+  routines,
+  onSyncClassTimes
 }: CourseManagerProps) {
   const [importMode, setImportMode] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
+  const [showClassTimes, setShowClassTimes] = useState(false);
   const [filterSection, setFilterSection] = useState<string>('');
   const [filterCredit, setFilterCredit] = useState<number | ''>('');
   const [sortField, setSortField] = useState<'name' | 'code' | 'credit'>('code');
@@ -120,7 +128,10 @@ export function CourseManager({
     return filtered;
   }, [courses, filterSection, filterCredit, sortField, sortDirection]);
 
-  const handleBulkImport = async (coursesToImport: NewCourse[]): Promise<{ success: number; errors: any[] }> => {
+  const handleBulkImport = async (
+    coursesToImport: NewCourse[],
+    options?: BulkImportOptions
+  ): Promise<BulkImportResult> => {
     if (!onBulkImportCourses) {
       return {
         success: 0,
@@ -128,7 +139,7 @@ export function CourseManager({
       };
     }
     
-    return await onBulkImportCourses(coursesToImport);
+    return await onBulkImportCourses(coursesToImport, options);
   };
 
   const handleExportCourses = () => {
@@ -255,6 +266,20 @@ export function CourseManager({
             <Filter className="w-4 h-4" />
             Filters {(filterSection || filterCredit !== '') && '(Active)'}
           </button>
+          
+          {routines && onSyncClassTimes && (
+            <button
+              onClick={() => setShowClassTimes(!showClassTimes)}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                showClassTimes
+                  ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              <Clock className="w-4 h-4" />
+              Class Times
+            </button>
+          )}
         </div>
         
         <div className="flex items-center gap-2">
@@ -330,6 +355,18 @@ export function CourseManager({
         </div>
       )}
 
+      {/* Class times from the active routines */}
+      {showClassTimes && routines && onSyncClassTimes && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-4 mb-4">
+          <h3 className="font-medium text-gray-900 dark:text-white mb-3">Class Times vs. Routine</h3>
+          <ClassTimeReconciliation
+            courses={courses}
+            routines={routines}
+            onSyncClassTimes={onSyncClassTimes}
+          />
+        </div>
+      )}
+
       {importMode ? (
         <BulkCourseImport
           teachers={teachers}
@@ -0,0 +1,46 @@
+import type { BulkImportOptions } from '../../../types/bulkImport';
+
+interface ImportOptionsProps {
+  options: BulkImportOptions;
+  onChange: (options: BulkImportOptions) => void;
+  // What rows are matched on when updating, e.g. "course code and section"
+  upsertKey: string;
+  disabled?: boolean;
+}
+
+export function ImportOptions({ options, onChange, upsertKey, disabled }: ImportOptionsProps) {
+  return (
+    <div className="space-y-2 text-sm">
+      <label className="flex items-start gap-2 text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={!!options.atomic}
+          onChange={(e) => onChange({ ...options, atomic: e.target.checked })}
+          disabled={disabled}
+          className="mt-0.5"
+        />
+        <span>
+          All or nothing
+          <span className="block text-xs text-gray-500 dark:text-gray-400">
+            Check every row first and import nothing if any row fails
+          </span>
+        </span>
+      </label>
+      <label className="flex items-start gap-2 text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={!!options.upsert}
+          onChange={(e) => onChange({ ...options, upsert: e.target.checked })}
+          disabled={disabled}
+          className="mt-0.5"
+        />
+        <span>
+          Update existing
+          <span className="block text-xs text-gray-500 dark:text-gray-400">
+            Rows with the same {upsertKey} update what's already there, so re-running a file doesn't add duplicates
+          </span>
+        </span>
+      </label>
+    </div>
+  );
+}
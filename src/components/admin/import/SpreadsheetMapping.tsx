@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { CheckCircle, FileSpreadsheet, XCircle, AlertTriangle } from 'lucide-react';
+import { applyColumnMapping, guessColumnMapping, type ColumnMapping, type ImportField } from '../../../utils/spreadsheet';
+
+interface SpreadsheetMappingProps<T> {
+  fileName: string;
+  // All rows of the sheet, the first one being the header row
+  rows: string[][];
+  fields: ImportField[];
+  // Turns a mapped row into the same item the JSON import produces
+  toItem: (record: Record<string, string>) => T;
+  getRowErrors: (item: T) => string[];
+  onConfirm: (items: T[]) => void;
+  onCancel: () => void;
+}
+
+export function SpreadsheetMapping<T>({
+  fileName,
+  rows,
+  fields,
+  toItem,
+  getRowErrors,
+  onConfirm,
+  onCancel
+}: SpreadsheetMappingProps<T>) {
+  const headers = rows[0] || [];
+  const dataRows = rows.slice(1);
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping(headers, fields));
+
+  const previewRows = applyColumnMapping(dataRows, mapping).map(record => {
+    const item = toItem(record);
+    return { record, item, errors: getRowErrors(item) };
+  });
+
+  const validItems = previewRows.filter(row => row.errors.length === 0).map(row => row.item);
+  const invalidCount = previewRows.length - validItems.length;
+  const unmappedRequired = fields.filter(field => field.required && mapping[field.key] === undefined);
+
+  const handleMappingChange = (key: string, value: string) => {
+    setMapping(prev => ({ ...prev, [key]: value === '' ? undefined : Number(value) }));
+  };
+
+  return (
+    <div className="mb-4 border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-4">
+      <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+        <FileSpreadsheet className="w-4 h-4 text-green-600 dark:text-green-400" />
+        <span className="font-medium">{fileName}</span>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {dataRows.length} {dataRows.length === 1 ? 'row' : 'rows'}
+        </span>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Match columns</h4>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {fields.map(field => (
+            <label key={field.key} className="flex items-center justify-between gap-3 text-sm">
+              <span className="text-gray-700 dark:text-gray-300">
+                {field.label}
+                {field.required && <span className="text-red-500 ml-0.5">*</span>}
+              </span>
+              <select
+                value={mapping[field.key] ?? ''}
+                onChange={(e) => handleMappingChange(field.key, e.target.value)}
+                className="w-44 text-sm rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                <option value="">Not in file</option>
+                {headers.map((header, index) => (
+                  <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+        {unmappedRequired.length > 0 && (
+          <p className="mt-2 text-xs text-amber-600 dark:text-amber-400 flex items-center">
+            <AlertTriangle className="w-3 h-3 mr-1" />
+            Pick a column for {unmappedRequired.map(field => field.label).join(', ')}
+          </p>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">
+          Preview
+          <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+            {validItems.length} valid, {invalidCount} with errors
+          </span>
+        </h4>
+        <div className="overflow-x-auto max-h-80 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-md">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-xs">
+            <thead className="bg-gray-50 dark:bg-gray-800 sticky top-0">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">Row</th>
+                {fields.map(field => (
+                  <th key={field.key} className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {field.label}
+                  </th>
+                ))}
+                <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">Status</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {previewRows.map((row, index) => (
+                <tr key={index} className={row.errors.length > 0 ? 'bg-red-50 dark:bg-red-900/20' : ''}>
+                  {/* Row numbers match the spreadsheet, where row 1 is the header */}
+                  <td className="px-3 py-2 text-gray-500 dark:text-gray-400">{index + 2}</td>
+                  {fields.map(field => (
+                    <td key={field.key} className="px-3 py-2 whitespace-nowrap text-gray-900 dark:text-white">
+                      {row.record[field.key] || <span className="text-gray-400">—</span>}
+                    </td>
+                  ))}
+                  <td className="px-3 py-2">
+                    {row.errors.length === 0 ? (
+                      <CheckCircle className="w-4 h-4 text-green-500" />
+                    ) : (
+                      <ul className="text-red-600 dark:text-red-400 space-y-0.5">
+                        {row.errors.map((error, errorIndex) => (
+                          <li key={errorIndex}>{error}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={() => onConfirm(validItems)}
+          disabled={validItems.length === 0}
+          className={`text-sm px-4 py-2 rounded-lg shadow-sm flex items-center ${
+            validItems.length === 0
+              ? 'bg-gray-300 text-gray-500 cursor-not-allowed dark:bg-gray-700 dark:text-gray-400'
+              : 'bg-blue-500 text-white hover:bg-blue-600 dark:bg-blue-600 dark:hover:bg-blue-700'
+          }`}
+        >
+          <CheckCircle className="w-4 h-4 mr-2" />
+          Use {validItems.length} valid {validItems.length === 1 ? 'row' : 'rows'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-sm px-4 py-2 rounded-lg flex items-center bg-gray-200 hover:bg-gray-300 text-gray-700 dark:bg-gray-700 dark:hover:bg-gray-600 dark:text-gray-300"
+        >
+          <XCircle className="w-4 h-4 mr-2" />
+          Cancel
+        </button>
+        {invalidCount > 0 && validItems.length > 0 && (
+          <span className="text-xs text-amber-600 dark:text-amber-400">
+            {invalidCount} {invalidCount === 1 ? 'row' : 'rows'} with errors will be skipped
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
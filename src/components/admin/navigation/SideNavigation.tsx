@@ -2,7 +2,7 @@ import { useState, useEffect } from 'react';
 import { 
   Users, ListTodo, Settings, LogOut, Megaphone, Moon, Sun,
   Book, GraduationCap, FileText, CalendarDays, User, LayoutDashboard,
-  BarChart2, Bell, HelpCircle, Globe
+  BarChart2, Bell, HelpCircle, Globe, Send
 } from 'lucide-react';
 import { SideNavLink } from './SideNavLink';
 import { MobileMenuButton } from './MobileMenuButton';
@@ -41,7 +41,8 @@ export function SideNavigation({ activeTab, onTabChange, onLogout }: SideNavigat
     { id: 'teachers' as const, label: 'Teachers', icon: User },
     { id: 'courses' as const, label: 'Courses', icon: GraduationCap },
     { id: 'study-materials' as const, label: 'Study Materials', icon: Book },
-    { id: 'routine' as const, label: 'Routine', icon: CalendarDays }
+    { id: 'routine' as const, label: 'Routine', icon: CalendarDays },
+    { id: 'telegram' as const, label: 'Telegram', icon: Send }
   ];
 
   const toggleMobileMenu = () => {
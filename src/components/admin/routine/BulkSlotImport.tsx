@@ -4,12 +4,16 @@ import { Teacher } from '../../../types/teacher';
 import { Course } from '../../../types/course';
 import Select, { SingleValue } from 'react-select';
 import { toast } from 'react-hot-toast';
+import { isSpreadsheetFile, readSpreadsheetFile, type ImportField } from '../../../utils/spreadsheet';
+import { SpreadsheetMapping } from '../import/SpreadsheetMapping';
+import { ImportOptions } from '../import/ImportOptions';
+import type { BulkImportOptions, BulkImportResult } from '../../../types/bulkImport';
 
 interface BulkSlotImportProps {
   routineId: string;
   teachers: Teacher[];
   courses: Course[];
-  onImportSlots: (routineId: string, slots: any[]) => Promise<{ success: number; errors: any[] }>;
+  onImportSlots: (routineId: string, slots: any[], options?: BulkImportOptions) => Promise<BulkImportResult>;
 }
 
 interface ImportSlot {
@@ -48,6 +52,98 @@ interface SlotProcessingState {
   autoAssignedTeacherName?: string;
 }
 
+const VALID_DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const SLOT_TIME_REGEX = /^(0?[1-9]|1[0-2]):[0-5][0-9] (AM|PM)$/;
+const REQUIRED_SLOT_FIELDS = ['day', 'start_time', 'end_time', 'teacher'] as const;
+
+const SLOT_FIELDS: ImportField[] = [
+  { key: 'day', label: 'Day', required: true, aliases: ['weekday', 'day of week'] },
+  { key: 'start_time', label: 'Start Time', required: true, aliases: ['start', 'from'] },
+  { key: 'end_time', label: 'End Time', required: true, aliases: ['end', 'to'] },
+  { key: 'course_code', label: 'Course Code', aliases: ['code'] },
+  { key: 'course_title', label: 'Course Title', aliases: ['course name', 'title'] },
+  { key: 'course', label: 'Course (Title - Code)' },
+  { key: 'teacher', label: 'Teacher', required: true, aliases: ['teacher name', 'instructor', 'faculty'] },
+  { key: 'room_number', label: 'Room', aliases: ['room number', 'room no'] },
+  { key: 'section', label: 'Section' }
+];
+
+function getSlotRowErrors(slot: ImportSlot): string[] {
+  const errors: string[] = [];
+  // Check required fields - support both new format and old format
+  const hasCourseInfo = (slot.course_title && slot.course_code) || slot.course;
+
+  REQUIRED_SLOT_FIELDS.forEach(field => {
+    if (!slot[field]) {
+      errors.push(`Missing required field '${field}'`);
+    }
+  });
+
+  if (!hasCourseInfo) {
+    errors.push(`Missing course information (either 'course' or 'course_title' and 'course_code')`);
+  }
+
+  if (slot.day && !VALID_DAYS.includes(slot.day)) {
+    errors.push(`Invalid day "${slot.day}". Must be one of: ${VALID_DAYS.join(', ')}`);
+  }
+
+  if (slot.start_time && !SLOT_TIME_REGEX.test(slot.start_time)) {
+    errors.push(`Invalid start time format "${slot.start_time}". Must be HH:MM AM/PM`);
+  }
+  if (slot.end_time && !SLOT_TIME_REGEX.test(slot.end_time)) {
+    errors.push(`Invalid end time format "${slot.end_time}". Must be HH:MM AM/PM`);
+  }
+
+  return errors;
+}
+
+// Spreadsheets write days as "mon" or "MONDAY"; match them on the first three letters
+function toSlotDay(value = ''): string {
+  const prefix = value.trim().slice(0, 3).toLowerCase();
+  return VALID_DAYS.find(day => day.slice(0, 3).toLowerCase() === prefix) || value;
+}
+
+// Accepts "8:30 am", 24-hour "14:00" and Excel's time cells, which are fractions of a day
+function toSlotTime(value = ''): string {
+  let hours: number;
+  let minutes: number;
+  let meridiem: string | undefined;
+
+  const fraction = Number(value);
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*([ap])\.?m?\.?$/i)
+    || value.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?$/);
+
+  if (value && fraction >= 0 && fraction < 1) {
+    const totalMinutes = Math.round(fraction * 24 * 60);
+    hours = Math.floor(totalMinutes / 60);
+    minutes = totalMinutes % 60;
+  } else if (match) {
+    hours = Number(match[1]);
+    minutes = Number(match[2]);
+    meridiem = match[3]?.toUpperCase();
+  } else {
+    return value;
+  }
+
+  if (!meridiem) {
+    if (hours > 23) return value;
+    meridiem = hours >= 12 ? 'P' : 'A';
+    hours = hours % 12 || 12;
+  }
+
+  return `${hours}:${String(minutes).padStart(2, '0')} ${meridiem}M`;
+}
+
+function toSlotItem(record: Record<string, string>): ImportSlot {
+  return {
+    ...record,
+    day: toSlotDay(record.day),
+    start_time: toSlotTime(record.start_time),
+    end_time: toSlotTime(record.end_time),
+    teacher: record.teacher || ''
+  };
+}
+
 export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }: BulkSlotImportProps) {
   const [file, setFile] = useState<File | null>(null);
   const [data, setData] = useState<ImportSlot[] | null>(null);
@@ -55,8 +151,11 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
   const [validating, setValidating] = useState(false);
   const [validation, setValidation] = useState<ValidationResult | null>(null);
   const [slotsWithStatus, setSlotsWithStatus] = useState<SlotItemWithStatus[]>([]);
-  const [importResult, setImportResult] = useState<{ success: number; errors: any[] } | null>(null);
+  const [importResult, setImportResult] = useState<BulkImportResult | null>(null);
+  const [importOptions, setImportOptions] = useState<BulkImportOptions>({});
   const [progressStatus, setProgressStatus] = useState('');
+  // Rows of a CSV or Excel file waiting for its columns to be matched
+  const [sheetRows, setSheetRows] = useState<string[][] | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Teacher and course select options
@@ -84,34 +183,9 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
     
     // Check each slot entry
     data.forEach((slot, index) => {
-      // Check required fields - support both new format and old format
-      const hasCourseInfo = (slot.course_title && slot.course_code) || slot.course;
-      
-      const requiredFields = ['day', 'start_time', 'end_time', 'teacher'];
-      requiredFields.forEach(field => {
-        if (!slot[field]) {
-          errors.push(`Slot #${index + 1}: Missing required field '${field}'`);
-        }
+      getSlotRowErrors(slot).forEach(error => {
+        errors.push(`Slot #${index + 1}: ${error}`);
       });
-      
-      if (!hasCourseInfo) {
-        errors.push(`Slot #${index + 1}: Missing course information (either 'course' or 'course_title' and 'course_code')`);
-      }
-      
-      // Validate day of week
-      const validDays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-      if (slot.day && !validDays.includes(slot.day)) {
-        errors.push(`Slot #${index + 1}: Invalid day "${slot.day}". Must be one of: ${validDays.join(', ')}`);
-      }
-      
-      // Validate time format (HH:MM AM/PM)
-      const timeRegex = /^(0?[1-9]|1[0-2]):[0-5][0-9] (AM|PM)$/;
-      if (slot.start_time && !timeRegex.test(slot.start_time)) {
-        errors.push(`Slot #${index + 1}: Invalid start time format "${slot.start_time}". Must be HH:MM AM/PM`);
-      }
-      if (slot.end_time && !timeRegex.test(slot.end_time)) {
-        errors.push(`Slot #${index + 1}: Invalid end time format "${slot.end_time}". Must be HH:MM AM/PM`);
-      }
     });
     
     return { valid: errors.length === 0, errors, warnings };
@@ -242,6 +316,7 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
     setImportResult(null);
     setValidation(null);
     setSlotsWithStatus([]);
+    setSheetRows(null);
     
     const files = e.target.files;
     if (!files || files.length === 0) {
@@ -252,9 +327,14 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
     
     const selectedFile = files[0];
     
+    if (isSpreadsheetFile(selectedFile)) {
+      await handleSpreadsheetFile(selectedFile);
+      return;
+    }
+    
     // Check if file is JSON
     if (selectedFile.type !== 'application/json' && !selectedFile.name.endsWith('.json')) {
-      setValidation({ valid: false, errors: ['Invalid file format. Only JSON files are supported.'], warnings: [] });
+      setValidation({ valid: false, errors: ['Invalid file format. Only JSON, CSV and Excel (.xlsx) files are supported.'], warnings: [] });
       setFile(null);
       setData(null);
       return;
@@ -283,6 +363,34 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
     }
   };
   
+  const handleSpreadsheetFile = async (selectedFile: File) => {
+    setFile(selectedFile);
+    setData(null);
+    setValidating(true);
+    
+    try {
+      const rows = await readSpreadsheetFile(selectedFile);
+      if (rows.length < 2) {
+        throw new Error('Expected a header row and at least one slot');
+      }
+      setSheetRows(rows);
+    } catch (err) {
+      setValidation({
+        valid: false,
+        errors: [`Could not read ${selectedFile.name}: ${(err as Error).message}`],
+        warnings: []
+      });
+    } finally {
+      setValidating(false);
+    }
+  };
+  
+  const handleSpreadsheetConfirm = (slots: ImportSlot[]) => {
+    setSheetRows(null);
+    setData(slots);
+    setValidation(validateSlotData(slots));
+  };
+  
   const handleTeacherChange = (slotIndex: number, teacherId: string | null) => {
     setSlotsWithStatus(prev => 
       prev.map((slot, idx) => 
@@ -367,7 +475,7 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
       });
       
       setProgressStatus('Importing slots...');
-      const result = await onImportSlots(routineId, preparedData);
+      const result = await onImportSlots(routineId, preparedData, importOptions);
       setImportResult(result);
       
       // Clear the file input if successful
@@ -400,6 +508,7 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
     setValidation(null);
     setImportResult(null);
     setSlotsWithStatus([]);
+    setSheetRows(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -414,7 +523,7 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
       
       <div className="mb-4">
         <div className="text-sm text-gray-600 dark:text-gray-400 mb-2">
-          Import multiple time slots at once using a JSON file. The file must be in the following format:
+          Import multiple time slots at once using a JSON, CSV or Excel (.xlsx) file. CSV and Excel files need a header row, and you can match its columns to slot fields before importing. JSON files must be in the following format:
         </div>
         <pre className="bg-gray-100 dark:bg-gray-700 p-3 rounded-md text-xs overflow-x-auto mb-4">
 {`[
@@ -437,11 +546,11 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
           <input
             ref={fileInputRef}
             type="file"
-            accept=".json,application/json"
+            accept=".json,application/json,.csv,text/csv,.tsv,.xlsx"
             onChange={handleFileChange}
             className="w-full max-w-xs text-sm text-gray-500 dark:text-gray-400 file:rounded-lg file:bg-blue-500 file:border-0 file:text-white file:px-3 file:py-2 file:mr-3 file:text-sm hover:file:bg-blue-600 cursor-pointer"
           />
-          {(validation || importResult) && (
+          {(validation || importResult || sheetRows) && (
             <button 
               onClick={handleReset}
               className="ml-2 text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
@@ -455,10 +564,22 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
       {validating && (
         <div className="flex items-center text-blue-500 text-sm mb-4">
           <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-          Validating JSON data...
+          Reading file...
         </div>
       )}
       
+      {file && sheetRows && (
+        <SpreadsheetMapping
+          fileName={file.name}
+          rows={sheetRows}
+          fields={SLOT_FIELDS}
+          toItem={toSlotItem}
+          getRowErrors={getSlotRowErrors}
+          onConfirm={handleSpreadsheetConfirm}
+          onCancel={handleReset}
+        />
+      )}
+      
       {validation && !validation.valid && (
         <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/30 rounded-md p-3">
           <h4 className="text-sm font-semibold text-red-600 dark:text-red-400 flex items-center mb-2">
@@ -491,7 +612,7 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
         <div className="mb-4">
           <div className="flex items-center text-green-500 text-sm mb-2">
             <CheckCircle className="w-4 h-4 mr-2" />
-            {`Valid JSON with ${slotsWithStatus.length} slot${slotsWithStatus.length !== 1 ? 's' : ''}`}
+            {`${slotsWithStatus.length} valid slot${slotsWithStatus.length !== 1 ? 's' : ''}`}
           </div>
           
           <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-900/30 rounded-md p-3 text-sm text-blue-700 dark:text-blue-400">
@@ -625,6 +746,15 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
             </div>
           </div>
           
+          <div className="mt-3">
+            <ImportOptions
+              options={importOptions}
+              onChange={setImportOptions}
+              upsertKey="day, start time and section"
+              disabled={loading}
+            />
+          </div>
+          
           <button
             onClick={handleImport}
             disabled={loading || slotsWithStatus.some(s => s.status === 'warning' && (!s._teacherId || !s._courseId))}
@@ -658,9 +788,11 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
               <AlertTriangle className="w-4 h-4 mr-2 text-yellow-500" />
             )}
             <span className={importResult.errors.length === 0 ? 'text-green-600 dark:text-green-400' : 'text-yellow-600 dark:text-yellow-400'}>
-              {importResult.success > 0 
-                ? `Successfully imported ${importResult.success} slot${importResult.success !== 1 ? 's' : ''}`
-                : 'Import completed with issues'}
+              {importResult.rolledBack
+                ? 'Nothing was imported, because this was an all or nothing import and some slots failed'
+                : importResult.success > 0 
+                  ? `Successfully imported ${importResult.success} slot${importResult.success !== 1 ? 's' : ''}${importResult.updated ? ` (${importResult.updated} updated)` : ''}`
+                  : 'Import completed with issues'}
             </span>
           </div>
           
@@ -669,7 +801,7 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
               <div className="font-medium mb-1">The following errors occurred:</div>
               <ul className="list-disc ml-5 space-y-1">
                 {importResult.errors.map((error, idx) => (
-                  <li key={idx}>{error.message || error}</li>
+                  <li key={idx}>{error.message}</li>
                 ))}
               </ul>
             </div>
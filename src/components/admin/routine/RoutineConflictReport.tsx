@@ -0,0 +1,126 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle, User, MapPin, Users } from 'lucide-react';
+import type { Routine, RoutineConflictType } from '../../../types/routine';
+import { detectRoutineConflicts } from '../../../utils/routineConflicts';
+
+interface RoutineConflictReportProps {
+  routines: Routine[];
+  selectedRoutine: Routine | null;
+}
+
+const conflictTypeLabels: Record<RoutineConflictType, string> = {
+  teacher: 'Teacher double-booked',
+  room: 'Room in use',
+  section: 'Section overlap'
+};
+
+const conflictTypeIcons: Record<RoutineConflictType, typeof User> = {
+  teacher: User,
+  room: MapPin,
+  section: Users
+};
+
+export function RoutineConflictReport({ routines, selectedRoutine }: RoutineConflictReportProps) {
+  const [typeFilter, setTypeFilter] = useState<RoutineConflictType | 'all'>('all');
+
+  // Active routines plus the selected one, so drafts can be checked before activation
+  const checkedRoutines = useMemo(
+    () => routines.filter(routine => routine.isActive || routine.id === selectedRoutine?.id),
+    [routines, selectedRoutine]
+  );
+
+  const conflicts = useMemo(() => detectRoutineConflicts(checkedRoutines), [checkedRoutines]);
+
+  const routineNames = useMemo(
+    () => new Map(routines.map(routine => [routine.id, routine.name])),
+    [routines]
+  );
+
+  const filteredConflicts = typeFilter === 'all'
+    ? conflicts
+    : conflicts.filter(conflict => conflict.type === typeFilter);
+
+  const countByType = (type: RoutineConflictType) =>
+    conflicts.filter(conflict => conflict.type === type).length;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white">Conflict Report</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Checking {checkedRoutines.length} routine{checkedRoutines.length !== 1 ? 's' : ''}
+          {checkedRoutines.length > 0 && `: ${checkedRoutines.map(r => r.name).join(', ')}`}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => setTypeFilter('all')}
+          className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+            typeFilter === 'all'
+              ? 'bg-blue-600 text-white'
+              : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+          }`}
+        >
+          All ({conflicts.length})
+        </button>
+        {(Object.keys(conflictTypeLabels) as RoutineConflictType[]).map(type => (
+          <button
+            key={type}
+            onClick={() => setTypeFilter(type)}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+              typeFilter === type
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+          >
+            {conflictTypeLabels[type]} ({countByType(type)})
+          </button>
+        ))}
+      </div>
+
+      {filteredConflicts.length === 0 ? (
+        <div className="flex items-center gap-3 p-4 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400 rounded-lg text-sm">
+          <CheckCircle className="w-5 h-5 flex-shrink-0" />
+          <span>No conflicts found</span>
+        </div>
+      ) : (
+        <div className="divide-y dark:divide-gray-700 border dark:border-gray-700 rounded-lg overflow-hidden">
+          {filteredConflicts.map((conflict, index) => {
+            const Icon = conflictTypeIcons[conflict.type];
+            const routineName = routineNames.get(conflict.slot.routineId);
+            const otherRoutineName = routineNames.get(conflict.conflictingSlot.routineId);
+
+            return (
+              <div
+                key={`${conflict.type}-${conflict.slot.id}-${conflict.conflictingSlot.id}-${index}`}
+                className="flex items-start gap-3 p-4 bg-white dark:bg-gray-800"
+              >
+                <div className="p-2 bg-amber-50 dark:bg-amber-900/20 rounded-lg">
+                  <Icon className="w-4 h-4 text-amber-600 dark:text-amber-400" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white">
+                    <AlertTriangle className="w-4 h-4 text-amber-500" />
+                    {conflictTypeLabels[conflict.type]} · {conflict.dayOfWeek}
+                  </div>
+                  <p className="text-sm text-gray-700 dark:text-gray-300 mt-1">
+                    {conflict.slot.courseName || 'Untitled slot'}
+                    {conflict.slot.section && ` (section ${conflict.slot.section})`}
+                    {' '}{conflict.slot.startTime.slice(0, 5)}-{conflict.slot.endTime.slice(0, 5)}
+                  </p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">{conflict.message}</p>
+                  {routineName !== otherRoutineName && (
+                    <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+                      {routineName} ↔ {otherRoutineName}
+                    </p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
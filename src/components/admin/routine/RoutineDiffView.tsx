@@ -0,0 +1,253 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, ArrowRight, CheckCircle, Loader2, Minus, Plus } from 'lucide-react';
+import type { Routine, RoutineSlot, RoutineSlotChange, RoutineSlotField } from '../../../types/routine';
+import type { Course } from '../../../types/course';
+import { diffRoutineSlots, getRoutineSlotsAt, groupRoutineVersions } from '../../../utils/routineDiff';
+
+// One side of a comparison: a routine as it is now, or as it was at a point in its history
+export interface RoutineDiffSource {
+  routineId: string;
+  at?: string;
+}
+
+interface RoutineDiffViewProps {
+  routines: Routine[];
+  courses: Course[];
+  onFetchHistory?: (routineId: string) => Promise<RoutineSlotChange[]>;
+  initialBefore?: RoutineDiffSource;
+  initialAfter?: RoutineDiffSource;
+}
+
+const fieldLabels: Record<RoutineSlotField, string> = {
+  day: 'Day',
+  time: 'Time',
+  room: 'Room',
+  teacher: 'Teacher'
+};
+
+const formatVersionTime = (at: string) => format(parseISO(at), 'MMM d, yyyy h:mm a');
+
+export function RoutineDiffView({
+  routines,
+  courses,
+  onFetchHistory,
+  initialBefore,
+  initialAfter
+}: RoutineDiffViewProps) {
+  const [before, setBefore] = useState<RoutineDiffSource>(
+    initialBefore || { routineId: routines[1]?.id || routines[0]?.id || '' }
+  );
+  const [after, setAfter] = useState<RoutineDiffSource>(
+    initialAfter || { routineId: routines[0]?.id || '' }
+  );
+  const [histories, setHistories] = useState<Record<string, RoutineSlotChange[]>>({});
+  const [loadingIds, setLoadingIds] = useState<string[]>([]);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  // Load the history of both routines so their earlier versions can be picked
+  useEffect(() => {
+    if (!onFetchHistory) return;
+
+    [before.routineId, after.routineId]
+      .filter((id, index, ids) => id && ids.indexOf(id) === index)
+      .filter(id => !histories[id] && !loadingIds.includes(id))
+      .forEach(async id => {
+        setLoadingIds(ids => [...ids, id]);
+        try {
+          const history = await onFetchHistory(id);
+          setHistories(current => ({ ...current, [id]: history }));
+        } catch (error) {
+          // Keep an empty history so the routine can still be compared as it is now
+          setHistories(current => ({ ...current, [id]: [] }));
+          setErrorMessage((error as Error).message || 'Failed to load routine history');
+        } finally {
+          setLoadingIds(ids => ids.filter(loadingId => loadingId !== id));
+        }
+      });
+  }, [before.routineId, after.routineId, onFetchHistory, histories, loadingIds]);
+
+  const courseNames = useMemo(
+    () => new Map(courses.map(course => [course.id, course.name])),
+    [courses]
+  );
+
+  const getSlots = (source: RoutineDiffSource): RoutineSlot[] | null => {
+    if (!source.at) {
+      return routines.find(routine => routine.id === source.routineId)?.slots || [];
+    }
+    const history = histories[source.routineId];
+    return history ? getRoutineSlotsAt(history, source.at) : null;
+  };
+
+  const beforeSlots = getSlots(before);
+  const afterSlots = getSlots(after);
+  const diff = beforeSlots && afterSlots ? diffRoutineSlots(beforeSlots, afterSlots) : null;
+
+  const slotName = (slot: RoutineSlot) =>
+    slot.courseName || (slot.courseId && courseNames.get(slot.courseId)) || 'Untitled slot';
+
+  const slotTime = (slot: RoutineSlot) =>
+    `${slot.dayOfWeek} ${slot.startTime.slice(0, 5)}-${slot.endTime.slice(0, 5)}`;
+
+  const slotDetails = (slot: RoutineSlot) =>
+    [slot.roomNumber && `Room ${slot.roomNumber}`, slot.teacherName].filter(Boolean).join(' · ');
+
+  const selectClass = 'w-full px-3 py-2 text-sm border dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white';
+
+  const renderSourcePicker = (
+    label: string,
+    source: RoutineDiffSource,
+    onChange: (source: RoutineDiffSource) => void
+  ) => {
+    const versions = groupRoutineVersions(histories[source.routineId] || []);
+
+    return (
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">{label}</label>
+        <select
+          value={source.routineId}
+          onChange={(e) => onChange({ routineId: e.target.value })}
+          className={selectClass}
+        >
+          {routines.map(routine => (
+            <option key={routine.id} value={routine.id}>
+              {routine.name} ({routine.semester})
+            </option>
+          ))}
+        </select>
+        {onFetchHistory && (
+          <select
+            value={source.at || ''}
+            onChange={(e) => onChange({ ...source, at: e.target.value || undefined })}
+            disabled={loadingIds.includes(source.routineId)}
+            className={selectClass}
+          >
+            <option value="">Current version</option>
+            {versions.map(version => (
+              <option key={version.at} value={version.at}>
+                {formatVersionTime(version.at)} ({version.changes.length} change{version.changes.length !== 1 ? 's' : ''})
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+    );
+  };
+
+  if (routines.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">Create a routine to compare versions.</p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white">Compare Routines</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          See which slots were added, removed or moved between two routines, or two versions of the same routine
+        </p>
+      </div>
+
+      {errorMessage && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 rounded-lg flex items-start gap-2 text-sm">
+          <AlertTriangle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <span>{errorMessage}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {renderSourcePicker('From', before, setBefore)}
+        {renderSourcePicker('To', after, setAfter)}
+      </div>
+
+      {!diff ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading history...
+        </div>
+      ) : diff.added.length === 0 && diff.removed.length === 0 && diff.moved.length === 0 ? (
+        <div className="flex items-center gap-3 p-4 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400 rounded-lg text-sm">
+          <CheckCircle className="w-5 h-5 flex-shrink-0" />
+          <span>No differences, {diff.unchanged} slot{diff.unchanged !== 1 ? 's' : ''} match</span>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {diff.added.length} added · {diff.removed.length} removed · {diff.moved.length} moved · {diff.unchanged} unchanged
+          </p>
+
+          {diff.added.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-green-700 dark:text-green-400 mb-2">Added</h4>
+              <div className="divide-y dark:divide-gray-700 border dark:border-gray-700 rounded-lg overflow-hidden">
+                {diff.added.map(slot => (
+                  <div key={slot.id} className="flex items-start gap-3 p-3 bg-white dark:bg-gray-800 text-sm">
+                    <Plus className="w-4 h-4 mt-0.5 text-green-600 dark:text-green-400 flex-shrink-0" />
+                    <div>
+                      <p className="font-medium text-gray-900 dark:text-white">
+                        {slotName(slot)}{slot.section && ` (section ${slot.section})`}
+                      </p>
+                      <p className="text-gray-500 dark:text-gray-400">
+                        {slotTime(slot)}{slotDetails(slot) && ` · ${slotDetails(slot)}`}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {diff.removed.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-red-700 dark:text-red-400 mb-2">Removed</h4>
+              <div className="divide-y dark:divide-gray-700 border dark:border-gray-700 rounded-lg overflow-hidden">
+                {diff.removed.map(slot => (
+                  <div key={slot.id} className="flex items-start gap-3 p-3 bg-white dark:bg-gray-800 text-sm">
+                    <Minus className="w-4 h-4 mt-0.5 text-red-600 dark:text-red-400 flex-shrink-0" />
+                    <div>
+                      <p className="font-medium text-gray-900 dark:text-white">
+                        {slotName(slot)}{slot.section && ` (section ${slot.section})`}
+                      </p>
+                      <p className="text-gray-500 dark:text-gray-400">
+                        {slotTime(slot)}{slotDetails(slot) && ` · ${slotDetails(slot)}`}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {diff.moved.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-amber-700 dark:text-amber-400 mb-2">Moved</h4>
+              <div className="divide-y dark:divide-gray-700 border dark:border-gray-700 rounded-lg overflow-hidden">
+                {diff.moved.map(({ from, to, changes }) => (
+                  <div key={`${from.id}-${to.id}`} className="flex items-start gap-3 p-3 bg-white dark:bg-gray-800 text-sm">
+                    <ArrowRight className="w-4 h-4 mt-0.5 text-amber-600 dark:text-amber-400 flex-shrink-0" />
+                    <div>
+                      <p className="font-medium text-gray-900 dark:text-white">
+                        {slotName(to)}{to.section && ` (section ${to.section})`}
+                        <span className="ml-2 text-xs font-normal text-amber-700 dark:text-amber-400">
+                          {changes.map(change => fieldLabels[change]).join(', ')} changed
+                        </span>
+                      </p>
+                      <p className="text-gray-500 dark:text-gray-400 line-through">
+                        {slotTime(from)}{slotDetails(from) && ` · ${slotDetails(from)}`}
+                      </p>
+                      <p className="text-gray-700 dark:text-gray-300">
+                        {slotTime(to)}{slotDetails(to) && ` · ${slotDetails(to)}`}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,399 @@
+import { useMemo, useState } from 'react';
+import { Wand2, Plus, Trash2, AlertTriangle, Check, Save, Clock, MapPin, User } from 'lucide-react';
+import type { Routine, RoutineTimeWindow, GeneratedRoutine } from '../../../types/routine';
+import type { Course } from '../../../types/course';
+import type { Teacher } from '../../../types/teacher';
+import { generateRoutine } from '../../../utils/routineGenerator';
+import { getConflictPool } from '../../../utils/routineConflicts';
+
+interface RoutineGeneratorProps {
+  routines: Routine[];
+  courses: Course[];
+  teachers: Teacher[];
+  onCreateDraft: (
+    routine: Omit<Routine, 'id' | 'createdAt' | 'createdBy' | 'isActive' | 'slots'>,
+    slots: GeneratedRoutine['slots']
+  ) => Promise<Routine>;
+  onDraftCreated?: (routine: Routine) => void;
+}
+
+const WEEK_DAYS = ['Saturday', 'Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
+
+type StatusType = 'idle' | 'loading' | 'success' | 'error';
+
+export function RoutineGenerator({
+  routines,
+  courses,
+  teachers,
+  onCreateDraft,
+  onDraftCreated
+}: RoutineGeneratorProps) {
+  const [name, setName] = useState('');
+  const [semester, setSemester] = useState('');
+  const [description, setDescription] = useState('');
+  const [sectionFilter, setSectionFilter] = useState('');
+  const [excludedCourseIds, setExcludedCourseIds] = useState<Set<string>>(new Set());
+  const [days, setDays] = useState<string[]>(WEEK_DAYS.slice(0, 6));
+  const [timeWindows, setTimeWindows] = useState<RoutineTimeWindow[]>([
+    { startTime: '08:30', endTime: '13:00' },
+    { startTime: '13:00', endTime: '16:00' }
+  ]);
+  const [slotDuration, setSlotDuration] = useState(90);
+  const [avoidActiveRoutines, setAvoidActiveRoutines] = useState(true);
+  const [result, setResult] = useState<GeneratedRoutine | null>(null);
+  const [status, setStatus] = useState<StatusType>('idle');
+  const [errorMessage, setErrorMessage] = useState('');
+
+  // Pre-fill rooms with the ones already used in existing routines
+  const [roomsInput, setRoomsInput] = useState(() =>
+    Array.from(new Set(
+      routines.flatMap(r => r.slots || []).map(slot => slot.roomNumber?.trim()).filter(Boolean)
+    )).sort().join(', ')
+  );
+
+  const sections = useMemo(
+    () => Array.from(new Set(courses.map(c => c.section).filter(Boolean) as string[])).sort(),
+    [courses]
+  );
+
+  const sectionCourses = sectionFilter
+    ? courses.filter(course => course.section === sectionFilter)
+    : courses;
+
+  const selectedCourses = sectionCourses.filter(course => !excludedCourseIds.has(course.id));
+
+  const toggleCourse = (courseId: string) => {
+    setExcludedCourseIds(prev => {
+      const next = new Set(prev);
+      if (next.has(courseId)) {
+        next.delete(courseId);
+      } else {
+        next.add(courseId);
+      }
+      return next;
+    });
+    setResult(null);
+  };
+
+  const toggleDay = (day: string) => {
+    setDays(prev => prev.includes(day)
+      ? prev.filter(d => d !== day)
+      : WEEK_DAYS.filter(d => d === day || prev.includes(d))
+    );
+    setResult(null);
+  };
+
+  const updateWindow = (index: number, updates: Partial<RoutineTimeWindow>) => {
+    setTimeWindows(prev => prev.map((window, i) => i === index ? { ...window, ...updates } : window));
+    setResult(null);
+  };
+
+  const handleGenerate = () => {
+    const rooms = roomsInput.split(',').map(room => room.trim()).filter(Boolean);
+
+    setResult(generateRoutine({
+      courses: selectedCourses,
+      teachers,
+      rooms,
+      days,
+      timeWindows,
+      slotDuration,
+      existingSlots: avoidActiveRoutines ? getConflictPool(routines) : []
+    }));
+    setStatus('idle');
+  };
+
+  const handleSaveDraft = async () => {
+    if (!result) return;
+
+    if (!name.trim() || !semester.trim()) {
+      setStatus('error');
+      setErrorMessage('Routine name and semester are required');
+      return;
+    }
+
+    setStatus('loading');
+    try {
+      const draft = await onCreateDraft(
+        { name: name.trim(), semester: semester.trim(), description: description.trim() || undefined },
+        result.slots
+      );
+      setStatus('success');
+      setResult(null);
+      onDraftCreated?.(draft);
+    } catch (error) {
+      setStatus('error');
+      setErrorMessage((error as Error).message || 'Failed to save the draft routine');
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 text-sm border dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-blue-50 dark:bg-blue-900/20 rounded-xl">
+          <Wand2 className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+        </div>
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Generate Routine</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Propose a clash-free weekly timetable from courses, teachers and rooms
+          </p>
+        </div>
+      </div>
+
+      {status === 'error' && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 rounded-lg flex items-start gap-2 text-sm">
+          <AlertTriangle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <span>{errorMessage}</span>
+        </div>
+      )}
+
+      {status === 'success' && (
+        <div className="p-3 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400 rounded-lg flex items-start gap-2 text-sm">
+          <Check className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <span>Draft routine saved. Review it in the routine list and activate it when ready.</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Routine Name<span className="text-red-500">*</span>
+          </label>
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., CSE Fall 2025" className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Semester<span className="text-red-500">*</span>
+          </label>
+          <input value={semester} onChange={(e) => setSemester(e.target.value)} placeholder="e.g., Fall 2025" className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Description</label>
+          <input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Optional" className={inputClass} />
+        </div>
+      </div>
+
+      {/* Courses */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Courses ({selectedCourses.length} of {sectionCourses.length})
+          </label>
+          {sections.length > 0 && (
+            <select
+              value={sectionFilter}
+              onChange={(e) => { setSectionFilter(e.target.value); setResult(null); }}
+              className="py-1.5 px-3 text-sm border dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+            >
+              <option value="">All Sections</option>
+              {sections.map(section => (
+                <option key={section} value={section}>Section {section}</option>
+              ))}
+            </select>
+          )}
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-60 overflow-y-auto p-1">
+          {sectionCourses.map(course => (
+            <label
+              key={course.id}
+              className="flex items-center gap-2 p-2 border dark:border-gray-700 rounded-lg text-sm text-gray-700 dark:text-gray-300 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50"
+            >
+              <input
+                type="checkbox"
+                checked={!excludedCourseIds.has(course.id)}
+                onChange={() => toggleCourse(course.id)}
+                className="rounded text-blue-600"
+              />
+              <span className="truncate">
+                {course.code} - {course.name}
+                {course.section && ` (${course.section})`}
+              </span>
+              <span className="ml-auto text-xs text-gray-400">{course.credit ?? 3} cr</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Days */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Class Days</label>
+        <div className="flex flex-wrap gap-2">
+          {WEEK_DAYS.map(day => (
+            <button
+              key={day}
+              type="button"
+              onClick={() => toggleDay(day)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                days.includes(day)
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              {day}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Time windows and slot length */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Allowed Time Windows</label>
+          <div className="space-y-2">
+            {timeWindows.map((window, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type="time"
+                  value={window.startTime}
+                  onChange={(e) => updateWindow(index, { startTime: e.target.value })}
+                  className={inputClass}
+                />
+                <span className="text-gray-400">–</span>
+                <input
+                  type="time"
+                  value={window.endTime}
+                  onChange={(e) => updateWindow(index, { endTime: e.target.value })}
+                  className={inputClass}
+                />
+                <button
+                  type="button"
+                  onClick={() => { setTimeWindows(prev => prev.filter((_, i) => i !== index)); setResult(null); }}
+                  className="p-2 text-gray-400 hover:text-red-500"
+                  aria-label="Remove time window"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setTimeWindows(prev => [...prev, { startTime: '16:00', endTime: '17:30' }])}
+              className="text-xs text-blue-600 dark:text-blue-400 hover:text-blue-700 flex items-center"
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              Add Time Window
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Slot Length (minutes)</label>
+            <input
+              type="number"
+              min="30"
+              step="5"
+              value={slotDuration}
+              onChange={(e) => { setSlotDuration(parseInt(e.target.value) || 0); setResult(null); }}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Available Rooms</label>
+            <textarea
+              value={roomsInput}
+              onChange={(e) => { setRoomsInput(e.target.value); setResult(null); }}
+              placeholder="Comma separated, e.g., KT-512, KT-513, Lab-3"
+              className={`${inputClass} resize-none h-20`}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={avoidActiveRoutines}
+              onChange={(e) => { setAvoidActiveRoutines(e.target.checked); setResult(null); }}
+              className="rounded text-blue-600"
+            />
+            Avoid clashes with active routines
+          </label>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={handleGenerate}
+          disabled={selectedCourses.length === 0 || days.length === 0 || timeWindows.length === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Wand2 className="w-4 h-4" />
+          Generate Preview
+        </button>
+      </div>
+
+      {result && (
+        <div className="space-y-4 border-t dark:border-gray-700 pt-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {result.slots.length} slots proposed
+              {result.unscheduled.length > 0 && `, ${result.unscheduled.length} course(s) not fully scheduled`}
+            </p>
+            <button
+              type="button"
+              onClick={handleSaveDraft}
+              disabled={status === 'loading' || result.slots.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save className="w-4 h-4" />
+              {status === 'loading' ? 'Saving...' : 'Save as Draft'}
+            </button>
+          </div>
+
+          {result.unscheduled.length > 0 && (
+            <div className="p-3 rounded-lg bg-amber-50 text-amber-800 dark:bg-amber-900/20 dark:text-amber-300 text-sm">
+              <div className="flex items-center gap-2 font-medium mb-1">
+                <AlertTriangle className="w-4 h-4" />
+                Unscheduled sessions
+              </div>
+              <ul className="list-disc pl-6 space-y-0.5 text-xs">
+                {result.unscheduled.map(item => (
+                  <li key={item.course.id}>
+                    {item.course.code} - {item.course.name}: {item.sessionsMissing} session(s) missing. {item.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {days.map(day => {
+            const daySlots = result.slots
+              .filter(slot => slot.dayOfWeek === day)
+              .sort((a, b) => a.startTime.localeCompare(b.startTime));
+            if (daySlots.length === 0) return null;
+
+            return (
+              <div key={day}>
+                <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">{day}</h4>
+                <div className="divide-y dark:divide-gray-700 border dark:border-gray-700 rounded-lg">
+                  {daySlots.map((slot, index) => (
+                    <div key={`${day}-${index}`} className="flex flex-wrap items-center gap-x-4 gap-y-1 p-3 text-sm">
+                      <span className="flex items-center gap-1 text-gray-500 dark:text-gray-400 w-28">
+                        <Clock className="w-3.5 h-3.5" />
+                        {slot.startTime}-{slot.endTime}
+                      </span>
+                      <span className="font-medium text-gray-900 dark:text-white flex-1 min-w-[10rem]">
+                        {slot.courseName}
+                        {slot.section && <span className="text-gray-400 font-normal"> ({slot.section})</span>}
+                      </span>
+                      <span className="flex items-center gap-1 text-gray-500 dark:text-gray-400">
+                        <User className="w-3.5 h-3.5" />
+                        {slot.teacherName || 'TBA'}
+                      </span>
+                      <span className="flex items-center gap-1 text-gray-500 dark:text-gray-400">
+                        <MapPin className="w-3.5 h-3.5" />
+                        {slot.roomNumber || 'TBA'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
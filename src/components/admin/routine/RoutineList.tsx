@@ -25,6 +25,7 @@ type GroupedRoutines = [string, Routine[]][];
 
 interface RoutineListProps {
   routines: Routine[];
+  allRoutines?: Routine[];
   courses: Course[];
   teachers: Teacher[];
   selectedRoutine: Routine | null;
@@ -40,6 +41,7 @@ interface RoutineListProps {
 
 export function RoutineList({
   routines,
+  allRoutines = routines,
   courses,
   teachers,
   selectedRoutine,
@@ -630,6 +632,7 @@ export function RoutineList({
           slot={selectedSlot}
           courses={courses}
           teachers={teachers}
+          routines={allRoutines}
           onClose={() => setShowSlotModal(false)}
           onSubmit={selectedSlot ? onUpdateSlot : onAddSlot}
         />
@@ -2,13 +2,20 @@ import { useState } from 'react';
 import { RoutineForm } from './RoutineForm';
 import { RoutineList } from './RoutineList';
 import { BulkSlotImport } from './BulkSlotImport';
-import { Calendar, Plus, Download, Upload, List, Grid, Settings, FileText, Filter } from 'lucide-react';
-import type { Routine, RoutineSlot } from '../../../types/routine';
+import { RoutineConflictReport } from './RoutineConflictReport';
+import { RoutineGenerator } from './RoutineGenerator';
+import { RoutineVersions } from './RoutineVersions';
+import { RoutineDiffView, type RoutineDiffSource } from './RoutineDiffView';
+import { Calendar, Plus, Download, Upload, List, Grid, Settings, FileText, Filter, AlertTriangle, Wand2, History, GitCompare } from 'lucide-react';
+import type { Routine, RoutineSlot, GeneratedRoutine, RoutineSlotChange } from '../../../types/routine';
 import type { Course } from '../../../types/course';
 import type { Teacher } from '../../../types/teacher';
+import type { BulkImportOptions, BulkImportResult } from '../../../types/bulkImport';
+import { createRoutineICalendar } from '../../../utils/routineCalendar';
+import { downloadICalendar } from '../../../utils/icalendar';
 
 // Define tab types for better organization
-type RoutineTab = 'list' | 'create' | 'import' | 'export' | 'settings';
+type RoutineTab = 'list' | 'create' | 'generate' | 'import' | 'export' | 'versions' | 'compare' | 'conflicts' | 'settings';
 
 interface RoutineManagerProps {
   routines: Routine[];
@@ -22,7 +29,16 @@ interface RoutineManagerProps {
   onDeleteSlot: (routineId: string, slotId: string) => Promise<void>;
   onActivateRoutine: (routineId: string) => Promise<void>;
   onDeactivateRoutine: (routineId: string) => Promise<void>;
-  onBulkImportSlots?: (routineId: string, slots: any[]) => Promise<{ success: number; errors: any[] }>;
+  onBulkImportSlots?: (routineId: string, slots: any[], options?: BulkImportOptions) => Promise<BulkImportResult>;
+  onCreateDraftRoutine?: (
+    routine: Omit<Routine, 'id' | 'createdAt' | 'createdBy' | 'isActive' | 'slots'>,
+    slots: GeneratedRoutine['slots']
+  ) => Promise<Routine>;
+  onCloneRoutine?: (
+    routineId: string,
+    copy: Pick<Routine, 'name' | 'semester' | 'description'>
+  ) => Promise<Routine>;
+  onFetchRoutineHistory?: (routineId: string) => Promise<RoutineSlotChange[]>;
 }
 
 export function RoutineManager({
@@ -37,11 +53,15 @@ export function RoutineManager({
   onDeleteSlot,
   onActivateRoutine,
   onDeactivateRoutine,
-  onBulkImportSlots
+  onBulkImportSlots,
+  onCreateDraftRoutine,
+  onCloneRoutine,
+  onFetchRoutineHistory
 }: RoutineManagerProps) {
   const [selectedRoutine, setSelectedRoutine] = useState<Routine | null>(null);
   const [activeTab, setActiveTab] = useState<RoutineTab>('list');
   const [filterSemester, setFilterSemester] = useState<string>('');
+  const [compareSources, setCompareSources] = useState<{ before?: RoutineDiffSource; after?: RoutineDiffSource }>({});
 
   // Extract unique semester values for filtering
   const semesters = Array.from(new Set(routines.map(r => r.semester))).sort();
@@ -73,6 +93,23 @@ export function RoutineManager({
     URL.revokeObjectURL(url);
   };
 
+  // Handle export of routine as an iCalendar file
+  const handleExportCalendar = () => {
+    if (!selectedRoutine) return;
+    
+    const content = createRoutineICalendar(selectedRoutine);
+    downloadICalendar(content, `routine-${selectedRoutine.name.replace(/\s+/g, '-')}.ics`);
+  };
+
+  // Compare the selected routine with another one, or one of its versions with how it is now
+  const openCompare = (before?: RoutineDiffSource) => {
+    setCompareSources({
+      before,
+      after: selectedRoutine ? { routineId: selectedRoutine.id } : undefined
+    });
+    setActiveTab('compare');
+  };
+
   // Filter routines based on semester
   const filteredRoutines = filterSemester 
     ? routines.filter(r => r.semester === filterSemester)
@@ -139,6 +176,20 @@ export function RoutineManager({
             Create New
           </button>
           
+          {onCreateDraftRoutine && (
+            <button
+              onClick={() => setActiveTab('generate')}
+              className={`flex items-center gap-2 px-4 py-3 text-sm font-medium transition-colors ${
+                activeTab === 'generate'
+                  ? 'border-b-2 border-blue-500 text-blue-600 dark:text-blue-400'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+              }`}
+            >
+              <Wand2 className="w-4 h-4" />
+              Generate
+            </button>
+          )}
+          
           <button
             onClick={() => setActiveTab('import')}
             disabled={!selectedRoutine}
@@ -169,6 +220,47 @@ export function RoutineManager({
             Export
           </button>
           
+          {(onCloneRoutine || onFetchRoutineHistory) && (
+            <button
+              onClick={() => setActiveTab('versions')}
+              disabled={!selectedRoutine}
+              className={`flex items-center gap-2 px-4 py-3 text-sm font-medium transition-colors ${
+                !selectedRoutine
+                  ? 'opacity-50 cursor-not-allowed text-gray-400 dark:text-gray-600'
+                  : activeTab === 'versions'
+                  ? 'border-b-2 border-blue-500 text-blue-600 dark:text-blue-400'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+              }`}
+            >
+              <History className="w-4 h-4" />
+              Versions
+            </button>
+          )}
+          
+          <button
+            onClick={() => openCompare()}
+            className={`flex items-center gap-2 px-4 py-3 text-sm font-medium transition-colors ${
+              activeTab === 'compare'
+                ? 'border-b-2 border-blue-500 text-blue-600 dark:text-blue-400'
+                : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+            }`}
+          >
+            <GitCompare className="w-4 h-4" />
+            Compare
+          </button>
+          
+          <button
+            onClick={() => setActiveTab('conflicts')}
+            className={`flex items-center gap-2 px-4 py-3 text-sm font-medium transition-colors ${
+              activeTab === 'conflicts'
+                ? 'border-b-2 border-blue-500 text-blue-600 dark:text-blue-400'
+                : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+            }`}
+          >
+            <AlertTriangle className="w-4 h-4" />
+            Conflicts
+          </button>
+          
           <button
             onClick={() => setActiveTab('settings')}
             className={`flex items-center gap-2 px-4 py-3 text-sm font-medium transition-colors ${
@@ -187,6 +279,7 @@ export function RoutineManager({
           {activeTab === 'list' && (
             <RoutineList 
               routines={filteredRoutines}
+              allRoutines={routines}
               courses={courses}
               teachers={teachers}
               selectedRoutine={selectedRoutine}
@@ -208,6 +301,19 @@ export function RoutineManager({
             </div>
           )}
           
+          {activeTab === 'generate' && onCreateDraftRoutine && (
+            <RoutineGenerator
+              routines={routines}
+              courses={courses}
+              teachers={teachers}
+              onCreateDraft={onCreateDraftRoutine}
+              onDraftCreated={(draft) => {
+                setSelectedRoutine(draft);
+                setActiveTab('conflicts');
+              }}
+            />
+          )}
+          
           {activeTab === 'import' && selectedRoutine && onBulkImportSlots && (
             <div>
               <div className="mb-4">
@@ -255,19 +361,56 @@ export function RoutineManager({
                       Contains {selectedRoutine.slots?.length || 0} time slots
                     </p>
                     
-                    <button
-                      onClick={handleExportRoutine}
-                      className="mt-4 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2"
-                    >
-                      <Download className="w-4 h-4" />
-                      Export as JSON
-                    </button>
+                    <div className="mt-4 flex flex-wrap gap-2">
+                      <button
+                        onClick={handleExportRoutine}
+                        className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2"
+                      >
+                        <Download className="w-4 h-4" />
+                        Export as JSON
+                      </button>
+                      <button
+                        onClick={handleExportCalendar}
+                        className="bg-white dark:bg-gray-700 border dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-600 px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2"
+                      >
+                        <Calendar className="w-4 h-4" />
+                        Export as iCalendar
+                      </button>
+                    </div>
                   </div>
                 </div>
               </div>
             </div>
           )}
           
+          {activeTab === 'versions' && selectedRoutine && (
+            <RoutineVersions
+              routine={routines.find(r => r.id === selectedRoutine.id) || selectedRoutine}
+              onCloneRoutine={onCloneRoutine}
+              onFetchHistory={onFetchRoutineHistory}
+              onCloned={setSelectedRoutine}
+              onCompareVersion={(at) => openCompare({ routineId: selectedRoutine.id, at })}
+            />
+          )}
+          
+          {activeTab === 'compare' && (
+            <RoutineDiffView
+              key={`${compareSources.before?.routineId}-${compareSources.before?.at}-${compareSources.after?.routineId}`}
+              routines={routines}
+              courses={courses}
+              onFetchHistory={onFetchRoutineHistory}
+              initialBefore={compareSources.before}
+              initialAfter={compareSources.after}
+            />
+          )}
+          
+          {activeTab === 'conflicts' && (
+            <RoutineConflictReport
+              routines={routines}
+              selectedRoutine={selectedRoutine}
+            />
+          )}
+          
           {activeTab === 'settings' && (
             <div>
               <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Routine Settings</h3>
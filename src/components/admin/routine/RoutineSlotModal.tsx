@@ -1,15 +1,17 @@
-import { useState, useEffect, useRef } from 'react';
-import { X, Clock, BookOpen, User, MapPin, Users, AlertCircle, Check, Info, Send, Plus } from 'lucide-react';
-import type { RoutineSlot } from '../../../types/routine';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { X, Clock, BookOpen, User, MapPin, Users, AlertCircle, AlertTriangle, Check, Info, Send, Plus } from 'lucide-react';
+import type { Routine, RoutineSlot } from '../../../types/routine';
 import type { Course } from '../../../types/course';
 import type { Teacher } from '../../../types/teacher';
 import { supabase } from '../../../lib/supabase';
+import { findSlotConflicts, getConflictPool } from '../../../utils/routineConflicts';
 
 interface RoutineSlotModalProps {
   routineId: string;
   slot: RoutineSlot | null;
   courses: Course[];
   teachers: Teacher[];
+  routines?: Routine[];
   onClose: () => void;
   onSubmit: ((routineId: string, slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>) => Promise<RoutineSlot>) | 
             ((routineId: string, slotId: string, updates: Partial<RoutineSlot>) => Promise<void>);
@@ -32,6 +34,7 @@ export function RoutineSlotModal({
   slot,
   courses,
   teachers,
+  routines = [],
   onClose,
   onSubmit
 }: RoutineSlotModalProps) {
@@ -62,6 +65,16 @@ export function RoutineSlotModal({
   const [courseCodeInput, setCourseCodeInput] = useState('');
   const [addingCourse, setAddingCourse] = useState(false);
 
+  // Check the slot being edited against this routine and all active routines
+  const conflicts = useMemo(() => {
+    if (!formData.dayOfWeek || !formData.startTime || !formData.endTime) return [];
+
+    return findSlotConflicts(
+      { ...formData, id: slot?.id || 'new-slot', routineId, createdAt: slot?.createdAt || '' },
+      getConflictPool(routines, routineId)
+    );
+  }, [formData, slot, routineId, routines]);
+
   // Filter teachers based on the selected course
   useEffect(() => {
     if (formData.courseId) {
@@ -664,6 +677,23 @@ export function RoutineSlotModal({
                 </div>
               </div>
 
+              {/* Schedule Conflicts */}
+              {conflicts.length > 0 && (
+                <div className="p-3 rounded-lg bg-amber-50 text-amber-800 dark:bg-amber-900/20 dark:text-amber-300">
+                  <div className="flex items-center gap-2 text-sm font-medium mb-1">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                    <span>{conflicts.length} schedule conflict{conflicts.length > 1 ? 's' : ''} found</span>
+                  </div>
+                  <ul className="space-y-1 text-xs list-disc pl-6">
+                    {conflicts.map((conflict, index) => (
+                      <li key={`${conflict.type}-${conflict.conflictingSlot.id}-${index}`}>
+                        {conflict.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Action Buttons */}
               <div className="flex justify-end items-center gap-3 pt-2">
                 <button
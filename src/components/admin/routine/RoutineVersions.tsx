@@ -0,0 +1,276 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, CheckCircle, CopyPlus, GitCompare, History, Loader2 } from 'lucide-react';
+import type { Routine, RoutineSlot, RoutineSlotChange, RoutineSlotChangeAction } from '../../../types/routine';
+import { groupRoutineVersions } from '../../../utils/routineDiff';
+
+interface RoutineVersionsProps {
+  routine: Routine;
+  onCloneRoutine?: (
+    routineId: string,
+    copy: Pick<Routine, 'name' | 'semester' | 'description'>
+  ) => Promise<Routine>;
+  onFetchHistory?: (routineId: string) => Promise<RoutineSlotChange[]>;
+  onCloned?: (routine: Routine) => void;
+  // Opens the comparison of a version with the routine as it is now
+  onCompareVersion?: (at: string) => void;
+}
+
+type StatusType = 'idle' | 'loading' | 'success' | 'error';
+
+const actionLabels: Record<RoutineSlotChangeAction, string> = {
+  added: 'Added',
+  updated: 'Updated',
+  removed: 'Removed'
+};
+
+const actionColors: Record<RoutineSlotChangeAction, string> = {
+  added: 'text-green-700 dark:text-green-400',
+  updated: 'text-amber-700 dark:text-amber-400',
+  removed: 'text-red-700 dark:text-red-400'
+};
+
+const describeSlot = (slot?: RoutineSlot) =>
+  slot
+    ? `${slot.courseName || 'Untitled slot'}${slot.section ? ` (section ${slot.section})` : ''} · ` +
+      `${slot.dayOfWeek} ${slot.startTime.slice(0, 5)}-${slot.endTime.slice(0, 5)}` +
+      `${slot.roomNumber ? ` · Room ${slot.roomNumber}` : ''}`
+    : '';
+
+export function RoutineVersions({
+  routine,
+  onCloneRoutine,
+  onFetchHistory,
+  onCloned,
+  onCompareVersion
+}: RoutineVersionsProps) {
+  const [name, setName] = useState(`${routine.name} (copy)`);
+  const [semester, setSemester] = useState('');
+  const [description, setDescription] = useState(routine.description || '');
+  const [status, setStatus] = useState<StatusType>('idle');
+  const [errorMessage, setErrorMessage] = useState('');
+  const [history, setHistory] = useState<RoutineSlotChange[] | null>(null);
+  const [historyError, setHistoryError] = useState('');
+  const [expandedVersion, setExpandedVersion] = useState<string | null>(null);
+
+  useEffect(() => {
+    setName(`${routine.name} (copy)`);
+    setSemester('');
+    setDescription(routine.description || '');
+    setStatus('idle');
+  }, [routine.id, routine.name, routine.description]);
+
+  // Reload the history whenever the routine or its slots change
+  useEffect(() => {
+    if (!onFetchHistory) return;
+
+    let cancelled = false;
+    setHistory(null);
+    setHistoryError('');
+
+    onFetchHistory(routine.id)
+      .then(changes => {
+        if (!cancelled) setHistory(changes);
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setHistory([]);
+          setHistoryError(error.message || 'Failed to load routine history');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [routine.id, routine.slots, onFetchHistory]);
+
+  const handleClone = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onCloneRoutine) return;
+
+    if (!name.trim() || !semester.trim()) {
+      setStatus('error');
+      setErrorMessage('Routine name and semester are required');
+      return;
+    }
+
+    setStatus('loading');
+    try {
+      const clone = await onCloneRoutine(routine.id, {
+        name: name.trim(),
+        semester: semester.trim(),
+        description: description.trim() || undefined
+      });
+      setStatus('success');
+      onCloned?.(clone);
+    } catch (error) {
+      setStatus('error');
+      setErrorMessage((error as Error).message || 'Failed to clone the routine');
+    }
+  };
+
+  const versions = history ? groupRoutineVersions(history) : [];
+  const inputClass = 'w-full px-3 py-2 text-sm border dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white';
+
+  return (
+    <div className="space-y-8">
+      {onCloneRoutine && (
+        <form onSubmit={handleClone} className="space-y-4">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-50 dark:bg-blue-900/20 rounded-xl">
+              <CopyPlus className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+            </div>
+            <div>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">Clone into New Semester</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Copy {routine.name} and its {routine.slots?.length || 0} slots into a new, inactive routine
+              </p>
+            </div>
+          </div>
+
+          {status === 'error' && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 rounded-lg flex items-start gap-2 text-sm">
+              <AlertTriangle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+              <span>{errorMessage}</span>
+            </div>
+          )}
+
+          {status === 'success' && (
+            <div className="p-3 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400 rounded-lg flex items-start gap-2 text-sm">
+              <CheckCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+              <span>Routine cloned. Activate it when the new semester starts.</span>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Routine Name<span className="text-red-500">*</span>
+              </label>
+              <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Semester<span className="text-red-500">*</span>
+              </label>
+              <input
+                value={semester}
+                onChange={(e) => setSemester(e.target.value)}
+                placeholder={`e.g., after ${routine.semester}`}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Description</label>
+              <input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Optional" className={inputClass} />
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            disabled={status === 'loading'}
+            className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2"
+          >
+            {status === 'loading' ? <Loader2 className="w-4 h-4 animate-spin" /> : <CopyPlus className="w-4 h-4" />}
+            Clone Routine
+          </button>
+        </form>
+      )}
+
+      {onFetchHistory && (
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-50 dark:bg-blue-900/20 rounded-xl">
+              <History className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+            </div>
+            <div>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">Change History</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Slot edits to {routine.name}, newest first
+              </p>
+            </div>
+          </div>
+
+          {historyError && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 rounded-lg flex items-start gap-2 text-sm">
+              <AlertTriangle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+              <span>{historyError}</span>
+            </div>
+          )}
+
+          {!history ? (
+            <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading history...
+            </div>
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No changes recorded yet.</p>
+          ) : (
+            <div className="divide-y dark:divide-gray-700 border dark:border-gray-700 rounded-lg overflow-hidden">
+              {versions.map((version, index) => {
+                const count = (action: RoutineSlotChangeAction) =>
+                  version.changes.filter(change => change.action === action).length;
+                const isExpanded = expandedVersion === version.at;
+
+                return (
+                  <div key={version.at} className="bg-white dark:bg-gray-800">
+                    <div className="flex flex-wrap items-center justify-between gap-2 p-3">
+                      <button
+                        onClick={() => setExpandedVersion(isExpanded ? null : version.at)}
+                        className="text-left"
+                      >
+                        <p className="text-sm font-medium text-gray-900 dark:text-white">
+                          {format(parseISO(version.at), 'MMM d, yyyy h:mm a')}
+                          {index === 0 && (
+                            <span className="ml-2 inline-block px-2 py-0.5 bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 rounded-full text-xs">
+                              Latest
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {(Object.keys(actionLabels) as RoutineSlotChangeAction[])
+                            .filter(action => count(action) > 0)
+                            .map(action => `${count(action)} ${actionLabels[action].toLowerCase()}`)
+                            .join(' · ')}
+                        </p>
+                      </button>
+                      {onCompareVersion && index > 0 && (
+                        <button
+                          onClick={() => onCompareVersion(version.at)}
+                          className="bg-white dark:bg-gray-700 border dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-600 px-3 py-1.5 rounded-lg text-xs font-medium flex items-center gap-1.5"
+                        >
+                          <GitCompare className="w-3.5 h-3.5" />
+                          Compare with current
+                        </button>
+                      )}
+                    </div>
+
+                    {isExpanded && (
+                      <ul className="px-3 pb-3 space-y-1.5 text-sm">
+                        {version.changes.map(change => (
+                          <li key={change.id}>
+                            <span className={`font-medium ${actionColors[change.action]}`}>
+                              {actionLabels[change.action]}
+                            </span>{' '}
+                            <span className="text-gray-700 dark:text-gray-300">
+                              {describeSlot(change.after || change.before)}
+                            </span>
+                            {change.action === 'updated' && change.before && (
+                              <span className="block text-xs text-gray-400 dark:text-gray-500 line-through">
+                                {describeSlot(change.before)}
+                              </span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
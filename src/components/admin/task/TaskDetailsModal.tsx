@@ -1,4 +1,5 @@
 import { X, Calendar, Tag, Clock, AlertCircle } from 'lucide-react';
+import { RichText } from '../../ui/RichText';
 import type { Task } from '../../../types';
 
 interface TaskDetailsModalProps {
@@ -96,7 +97,7 @@ export function TaskDetailsModal({ tasks = [], onClose }: TaskDetailsModalProps)
                         </span>
                       )}
                     </div>
-                    <p className="text-gray-600 mb-3">{task.description}</p>
+                    <RichText text={task.description} className="text-gray-600 mb-3" />
                     <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500">
                       <div className="flex items-center gap-1">
                         <Tag className="w-4 h-4" />
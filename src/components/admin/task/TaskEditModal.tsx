@@ -1,24 +1,78 @@
-import { useState } from 'react';
-import { X, Tag, Calendar, AlignLeft } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { X, Tag, Calendar, AlignLeft, Users, BookOpen } from 'lucide-react';
+import { RecurrenceFields } from '../../task/RecurrenceFields';
+import { expandRecurringTasks } from '../../../utils/recurrence';
 import type { Task, TaskCategory } from '../../../types/task';
+import type { Course } from '../../../types/course';
 
 interface TaskEditModalProps {
   task: Task;
+  courses: Course[];
   onClose: () => void;
-  onUpdate: (updates: Partial<Task>) => void;
+  // occurrenceDate is set when only that occurrence of a recurring task should change
+  onUpdate: (updates: Partial<Task>, occurrenceDate?: string) => void;
 }
 
-export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
+type EditScope = 'series' | 'occurrence';
+
+export function TaskEditModal({ task, courses, onClose, onUpdate }: TaskEditModalProps) {
+  const firstDueDate = task.dueDate.split('T')[0]; // Format date for input
+  const isSeries = !!task.recurrence && !task.seriesId;
+  const occurrenceDates = useMemo(
+    () => isSeries ? expandRecurringTasks([task]).map(occurrence => occurrence.dueDate) : [],
+    [task, isSeries]
+  );
+
+  const [scope, setScope] = useState<EditScope>('series');
+  const [occurrenceDate, setOccurrenceDate] = useState(occurrenceDates[0] || firstDueDate);
   const [formData, setFormData] = useState({
     name: task.name,
     category: task.category,
-    dueDate: task.dueDate.split('T')[0], // Format date for input
+    dueDate: firstDueDate,
     description: task.description,
-    status: task.status
+    status: task.status,
+    section: task.section || '',
+    courseId: task.courseId,
+    course: task.course,
+    recurrence: task.recurrence
   });
 
+  // The task's course stays selectable even if it's no longer in the course list
+  const sortedCourses = [...courses].sort((a, b) => a.code.localeCompare(b.code));
+  const missingCourse = formData.course && !courses.some(c => c.id === formData.course?.id)
+    ? formData.course
+    : undefined;
+
+  const handleCourseChange = (courseId: string) => {
+    const course = courses.find(c => c.id === courseId);
+    const linked = course
+      ? { id: course.id, code: course.code, name: course.name }
+      : missingCourse?.id === courseId ? missingCourse : undefined;
+    setFormData(prev => ({ ...prev, courseId: linked?.id, course: linked }));
+  };
+
+  const handleScopeChange = (newScope: EditScope, date = occurrenceDate) => {
+    setScope(newScope);
+    setOccurrenceDate(date);
+    setFormData(prev => ({ ...prev, dueDate: newScope === 'occurrence' ? date : firstDueDate }));
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (scope === 'occurrence') {
+      onUpdate({
+        name: formData.name,
+        category: formData.category,
+        dueDate: formData.dueDate,
+        description: formData.description,
+        status: formData.status,
+        courseId: formData.courseId,
+        course: formData.course
+      }, occurrenceDate);
+      return;
+    }
+
     onUpdate(formData);
   };
 
@@ -43,6 +97,41 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
 
         <form onSubmit={handleSubmit} className="p-6 overflow-y-auto max-h-[calc(90vh-80px)]">
           <div className="space-y-6">
+            {/* Which part of a recurring task to change */}
+            {isSeries && (
+              <div className="flex flex-wrap items-center gap-3 p-3 rounded-xl bg-gray-50 dark:bg-gray-700/50 text-sm text-gray-700 dark:text-gray-300">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    checked={scope === 'series'}
+                    onChange={() => handleScopeChange('series')}
+                  />
+                  Whole series
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    checked={scope === 'occurrence'}
+                    onChange={() => handleScopeChange('occurrence')}
+                    disabled={occurrenceDates.length === 0}
+                  />
+                  Only the occurrence on
+                </label>
+                <select
+                  value={occurrenceDate}
+                  onChange={(e) => handleScopeChange('occurrence', e.target.value)}
+                  disabled={occurrenceDates.length === 0}
+                  className="px-3 py-1.5 border dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+                >
+                  {occurrenceDates.map(date => (
+                    <option key={date} value={date}>
+                      {new Date(date).toLocaleDateString()}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             {/* Task Name */}
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -90,6 +179,29 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
               </div>
             </div>
 
+            {/* Course Select */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Course
+              </label>
+              <div className="relative">
+                <select
+                  value={formData.courseId || ''}
+                  onChange={(e) => handleCourseChange(e.target.value)}
+                  className="w-full pl-10 pr-4 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white appearance-none"
+                >
+                  <option value="">No course</option>
+                  {missingCourse && (
+                    <option value={missingCourse.id}>{missingCourse.code} · {missingCourse.name}</option>
+                  )}
+                  {sortedCourses.map(course => (
+                    <option key={course.id} value={course.id}>{course.code} · {course.name}</option>
+                  ))}
+                </select>
+                <BookOpen className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+              </div>
+            </div>
+
             {/* Due Date */}
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -107,6 +219,32 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
               </div>
             </div>
 
+            {/* Section */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Section
+              </label>
+              <div className="relative">
+                <input
+                  type="text"
+                  value={formData.section}
+                  onChange={(e) => setFormData(prev => ({ ...prev, section: e.target.value }))}
+                  placeholder="All sections"
+                  className="w-full pl-10 pr-4 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                />
+                <Users className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+              </div>
+            </div>
+
+            {/* Recurrence */}
+            {scope === 'series' && !task.seriesId && (
+              <RecurrenceFields
+                value={formData.recurrence}
+                startDate={formData.dueDate}
+                onChange={(recurrence) => setFormData(prev => ({ ...prev, recurrence }))}
+              />
+            )}
+
             {/* Description */}
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -7,15 +7,24 @@ import {
   Link2, 
   ListTodo, 
   Upload, 
-  X 
+  X,
+  Users,
+  BookOpen
 } from 'lucide-react';
-import type { NewTask, TaskCategory } from '../../../types/task';
+import { RecurrenceFields } from '../../task/RecurrenceFields';
+import { RichTextField } from '../../ui/RichTextField';
+import { uploadTaskAttachmentFile, removeTaskAttachmentFiles } from '../../../services/taskAttachment.service';
+import { showErrorToast } from '../../../utils/notifications';
+import { formatFileSize } from '../../../utils/stringUtils';
+import type { NewTask, NewTaskAttachment, TaskCategory } from '../../../types/task';
+import type { Course } from '../../../types/course';
 
 interface TaskFormProps {
-  onSubmit: (task: NewTask) => void;
+  courses: Course[];
+  onSubmit: (task: NewTask) => void | Promise<unknown>;
 }
 
-export function TaskForm({ onSubmit }: TaskFormProps) {
+export function TaskForm({ courses, onSubmit }: TaskFormProps) {
   const [task, setTask] = useState<NewTask>({
     name: '',
     category: 'task',
@@ -28,33 +37,45 @@ export function TaskForm({ onSubmit }: TaskFormProps) {
   const [linkInput, setLinkInput] = useState('');
   const [files, setFiles] = useState<File[]>([]);
   const [uploading, setUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
+
+  const sortedCourses = [...courses].sort((a, b) => a.code.localeCompare(b.code));
+
+  const handleCourseChange = (courseId: string) => {
+    const course = courses.find(c => c.id === courseId);
+    setTask(prev => ({
+      ...prev,
+      courseId: course?.id,
+      course: course ? { id: course.id, code: course.code, name: course.name } : undefined
+    }));
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setUploading(true);
 
     try {
-      // Upload files and get URLs
-      const fileUrls = await Promise.all(
-        files.map(async (file) => {
-          const formData = new FormData();
-          formData.append('file', file);
-          
-          // Upload to your server/storage and get URL
-          // For this example, we'll just create a temporary URL
-          const url = URL.createObjectURL(file);
-          return `[${file.name}](${url})`;
-        })
+      // Upload files first, then save them as attachments of the new task
+      const uploads = await Promise.allSettled(
+        files.map(file => uploadTaskAttachmentFile(file, (percent) => {
+          setUploadProgress(prev => ({ ...prev, [file.name]: percent }));
+        }))
       );
 
-      // Add file links to description
-      const descriptionWithFiles = task.description + 
-        (task.description && fileUrls.length ? '\n\n' : '') +
-        (fileUrls.length ? 'Attached Files:\n' + fileUrls.join('\n') : '');
+      const attachments = uploads
+        .filter((upload): upload is PromiseFulfilledResult<NewTaskAttachment> => upload.status === 'fulfilled')
+        .map(upload => upload.value);
+      const failed = uploads.find((upload): upload is PromiseRejectedResult => upload.status === 'rejected');
+
+      if (failed) {
+        await removeTaskAttachmentFiles(attachments.map(attachment => attachment.storagePath)).catch(() => undefined);
+        throw failed.reason;
+      }
 
-      onSubmit({
+      await onSubmit({
         ...task,
-        description: descriptionWithFiles
+        section: task.section?.trim() || undefined,
+        attachments
       });
 
       // Reset form
@@ -68,6 +89,11 @@ export function TaskForm({ onSubmit }: TaskFormProps) {
       setShowLinkInput(false);
       setLinkInput('');
       setFiles([]);
+      setUploadProgress({});
+    } catch (error) {
+      console.error('Error in form submission:', error);
+      showErrorToast(error instanceof Error ? error.message : 'Failed to upload files. Please try again.');
+      setUploadProgress({});
     } finally {
       setUploading(false);
     }
@@ -93,6 +119,11 @@ export function TaskForm({ onSubmit }: TaskFormProps) {
 
   const removeFile = (index: number) => {
     setFiles(prev => prev.filter((_, i) => i !== index));
+    setUploadProgress(prev => {
+      const newProgress = { ...prev };
+      delete newProgress[files[index].name];
+      return newProgress;
+    });
   };
 
   return (
@@ -151,6 +182,26 @@ export function TaskForm({ onSubmit }: TaskFormProps) {
             </div>
           </div>
 
+          {/* Course Select */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Course
+            </label>
+            <div className="relative">
+              <select
+                value={task.courseId || ''}
+                onChange={(e) => handleCourseChange(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white appearance-none"
+              >
+                <option value="">No course</option>
+                {sortedCourses.map(course => (
+                  <option key={course.id} value={course.id}>{course.code} · {course.name}</option>
+                ))}
+              </select>
+              <BookOpen className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            </div>
+          </div>
+
           {/* Due Date Input */}
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -167,14 +218,38 @@ export function TaskForm({ onSubmit }: TaskFormProps) {
               <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
             </div>
           </div>
-        </div>
 
-        <div className="space-y-4">
-          {/* Description Textarea */}
+          {/* Section Input */}
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              Description
+              Section
             </label>
+            <div className="relative">
+              <input
+                type="text"
+                value={task.section || ''}
+                onChange={(e) => setTask(prev => ({ ...prev, section: e.target.value }))}
+                placeholder="All sections"
+                className="w-full pl-10 pr-4 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+              />
+              <Users className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            </div>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Leave empty to show this task to every section
+            </p>
+          </div>
+
+          {/* Recurrence */}
+          <RecurrenceFields
+            value={task.recurrence}
+            startDate={task.dueDate}
+            onChange={(recurrence) => setTask(prev => ({ ...prev, recurrence }))}
+          />
+        </div>
+
+        <div className="space-y-4">
+          {/* Description Textarea */}
+          <RichTextField label="Description" value={task.description}>
             <div className="relative h-full">
               <textarea
                 value={task.description}
@@ -184,7 +259,7 @@ export function TaskForm({ onSubmit }: TaskFormProps) {
               />
               <AlignLeft className="absolute left-3 top-3 text-gray-400 w-5 h-5" />
             </div>
-          </div>
+          </RichTextField>
 
           {/* Link Input Section */}
           <div className="space-y-2">
@@ -241,13 +316,29 @@ export function TaskForm({ onSubmit }: TaskFormProps) {
                   {files.map((file, index) => (
                     <div
                       key={index}
-                      className="flex items-center justify-between p-2 bg-gray-50 dark:bg-gray-700 rounded-lg"
+                      className="flex items-center justify-between gap-2 p-2 bg-gray-50 dark:bg-gray-700 rounded-lg"
                     >
-                      <span className="text-sm text-gray-600 dark:text-gray-300 truncate">
-                        {file.name}
-                      </span>
+                      <div className="min-w-0 flex-grow">
+                        <div className="flex items-baseline justify-between gap-2">
+                          <span className="text-sm text-gray-600 dark:text-gray-300 truncate">
+                            {file.name}
+                          </span>
+                          <span className="text-xs text-gray-400 flex-shrink-0">
+                            {formatFileSize(file.size)}
+                          </span>
+                        </div>
+                        {uploadProgress[file.name] !== undefined && (
+                          <div className="w-full h-1 bg-gray-200 dark:bg-gray-600 rounded-full mt-1">
+                            <div
+                              className="h-full bg-blue-500 rounded-full transition-all duration-300"
+                              style={{ width: `${uploadProgress[file.name]}%` }}
+                            />
+                          </div>
+                        )}
+                      </div>
                       <button
                         type="button"
+                        disabled={uploading}
                         onClick={() => removeFile(index)}
                         className="p-1 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
                       >
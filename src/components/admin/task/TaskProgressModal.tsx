@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { X, Users, Loader2 } from 'lucide-react';
+import { getCurrentOccurrenceDate, getTaskStudents, groupStudentsByProgress } from '../../../utils/taskProgress';
+import type { Task } from '../../../types';
+import type { User } from '../../../types/auth';
+import type { TaskProgress } from '../../../types/task';
+
+interface TaskProgressModalProps {
+  task: Task;
+  users: User[];
+  onFetchTaskProgress: (taskId: string, occurrenceDate?: string) => Promise<TaskProgress[]>;
+  onClose: () => void;
+}
+
+export function TaskProgressModal({ task, users, onFetchTaskProgress, onClose }: TaskProgressModalProps) {
+  const [progress, setProgress] = useState<TaskProgress[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Recurring tasks show the occurrence that's currently due, as in the table
+  const [occurrenceDate] = useState(() => getCurrentOccurrenceDate(task));
+
+  useEffect(() => {
+    let cancelled = false;
+
+    onFetchTaskProgress(task.id, occurrenceDate)
+      .then(data => {
+        if (!cancelled) setProgress(data);
+      })
+      .catch(err => {
+        if (!cancelled) setError((err as Error).message || 'Failed to load progress');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [task.id, occurrenceDate, onFetchTaskProgress]);
+
+  const students = getTaskStudents(task, users);
+  const { notStarted, inProgress, completed } = groupStudentsByProgress(students, progress);
+
+  const renderStudents = (title: string, list: User[], badgeClass: string) => (
+    <div>
+      <h3 className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        {title}
+        <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${badgeClass}`}>
+          {list.length}
+        </span>
+      </h3>
+      {list.length === 0 ? (
+        <p className="text-sm text-gray-400 dark:text-gray-500">Nobody</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700 rounded-xl border dark:border-gray-700">
+          {list.map(student => (
+            <li key={student.id} className="flex items-center justify-between gap-3 px-4 py-2 text-sm">
+              <span className="text-gray-900 dark:text-white truncate">{student.name}</span>
+              <span className="text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                {student.studentId || student.email}
+                {!task.section && student.section && ` · Sec ${student.section}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40"
+        onClick={onClose}
+      />
+      <div className="fixed inset-x-4 top-[5%] md:inset-x-auto md:left-1/2 md:-translate-x-1/2 md:w-full md:max-w-2xl bg-white dark:bg-gray-800 rounded-2xl shadow-xl z-50 max-h-[90vh] overflow-hidden">
+        <div className="flex items-center justify-between p-6 border-b dark:border-gray-700">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="p-2 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
+              <Users className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white truncate">{task.name}</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {completed.length} of {students.length} students completed
+                {task.section ? ` in section ${task.section}` : ''}
+                {occurrenceDate ? ` · due ${new Date(occurrenceDate).toLocaleDateString()}` : ''}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto max-h-[calc(90vh-96px)]">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-600 dark:text-red-400 text-center">{error}</p>
+          ) : students.length === 0 ? (
+            <p className="text-gray-500 dark:text-gray-400 text-center">No students are assigned this task</p>
+          ) : (
+            <div className="space-y-6">
+              {renderStudents('Not started', notStarted, 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300')}
+              {renderStudents('In progress', inProgress, 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300')}
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {completed.length} {completed.length === 1 ? 'student has' : 'students have'} completed this task.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
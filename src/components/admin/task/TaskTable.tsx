@@ -1,23 +1,92 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Search, Trash2, CheckCircle, Clock, ListTodo, Edit2 } from 'lucide-react';
 import { TaskEditModal } from './TaskEditModal';
+import { TaskProgressModal } from './TaskProgressModal';
+import { TaskCourseBadge } from '../../task/TaskCourseBadge';
+import { describeRecurrence, getOccurrenceId } from '../../../utils/recurrence';
+import { getCurrentOccurrenceDate, getTaskStudents } from '../../../utils/taskProgress';
 import type { Task } from '../../../types';
+import type { Course } from '../../../types/course';
+import type { User } from '../../../types/auth';
+import type { TaskProgress, TaskProgressSummary } from '../../../types/task';
 
 interface TaskTableProps {
   tasks: Task[];
+  courses: Course[];
+  users: User[];
+  progressSummaries: TaskProgressSummary[];
   onDeleteTask: (taskId: string) => void;
   onUpdateTask: (taskId: string, updates: Partial<Task>) => void;
+  onFetchTaskProgress: (taskId: string, occurrenceDate?: string) => Promise<TaskProgress[]>;
 }
 
-export function TaskTable({ tasks, onDeleteTask, onUpdateTask }: TaskTableProps) {
+export function TaskTable({
+  tasks,
+  courses,
+  users,
+  progressSummaries,
+  onDeleteTask,
+  onUpdateTask,
+  onFetchTaskProgress
+}: TaskTableProps) {
   const [searchTerm, setSearchTerm] = useState('');
   const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [progressTask, setProgressTask] = useState<Task | null>(null);
+
+  const summaryByTask = useMemo(
+    () => new Map(progressSummaries.map(summary => [
+      summary.occurrenceDate ? getOccurrenceId(summary.taskId, summary.occurrenceDate) : summary.taskId,
+      summary
+    ])),
+    [progressSummaries]
+  );
 
   const filteredTasks = tasks.filter(task => 
     task.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    task.description.toLowerCase().includes(searchTerm.toLowerCase())
+    task.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    !!task.course?.code.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  // How many of an admin task's students have started and finished it; clicking lists who hasn't
+  const renderProgress = (task: Task) => {
+    const studentCount = getTaskStudents(task, users).length;
+    // Recurring tasks show the occurrence that's currently due
+    const occurrenceDate = getCurrentOccurrenceDate(task);
+    const summary = summaryByTask.get(occurrenceDate ? getOccurrenceId(task.id, occurrenceDate) : task.id);
+    const completed = Math.min(summary?.completed || 0, studentCount);
+    const started = Math.min(summary?.started || 0, studentCount);
+
+    return (
+      <button
+        onClick={() => setProgressTask(task)}
+        className="w-36 text-left group"
+        title="See who hasn't finished"
+      >
+        <div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-300">
+          <span className="group-hover:text-blue-600 dark:group-hover:text-blue-400">
+            {completed}/{studentCount} done
+          </span>
+          <span className="text-gray-400 dark:text-gray-500">{started} started</span>
+        </div>
+        {occurrenceDate && (
+          <div className="text-xs text-gray-400 dark:text-gray-500">
+            Due {new Date(occurrenceDate).toLocaleDateString()}
+          </div>
+        )}
+        <div className="relative mt-1 h-1.5 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+          <div
+            className="absolute inset-y-0 left-0 bg-yellow-400"
+            style={{ width: `${studentCount ? (started / studentCount) * 100 : 0}%` }}
+          />
+          <div
+            className="absolute inset-y-0 left-0 bg-green-500"
+            style={{ width: `${studentCount ? (completed / studentCount) * 100 : 0}%` }}
+          />
+        </div>
+      </button>
+    );
+  };
+
   return (
     <>
       <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm overflow-hidden">
@@ -41,6 +110,7 @@ export function TaskTable({ tasks, onDeleteTask, onUpdateTask }: TaskTableProps)
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Category</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Due Date</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Progress</th>
                   <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Actions</th>
                 </tr>
               </thead>
@@ -55,9 +125,25 @@ export function TaskTable({ tasks, onDeleteTask, onUpdateTask }: TaskTableProps)
                       <span className="px-3 py-1 text-xs font-medium rounded-full bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-400">
                         {task.category}
                       </span>
+                      {task.section && (
+                        <span className="ml-2 px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">
+                          Sec {task.section}
+                        </span>
+                      )}
+                      {task.course && <TaskCourseBadge course={task.course} className="ml-2" />}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                       {new Date(task.dueDate).toLocaleDateString()}
+                      {task.recurrence && (
+                        <div className="text-xs text-gray-400 dark:text-gray-500">
+                          {describeRecurrence(task.recurrence)}
+                        </div>
+                      )}
+                      {task.seriesId && (
+                        <div className="text-xs text-gray-400 dark:text-gray-500">
+                          Edited occurrence
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <select
@@ -70,6 +156,11 @@ export function TaskTable({ tasks, onDeleteTask, onUpdateTask }: TaskTableProps)
                         <option value="completed">Completed</option>
                       </select>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {task.isAdminTask ? renderProgress(task) : (
+                        <span className="text-xs text-gray-400 dark:text-gray-500">Personal</span>
+                      )}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                       <div className="flex items-center justify-end gap-2">
                         <button
@@ -96,12 +187,22 @@ export function TaskTable({ tasks, onDeleteTask, onUpdateTask }: TaskTableProps)
         </div>
       </div>
 
+      {progressTask && (
+        <TaskProgressModal
+          task={progressTask}
+          users={users}
+          onFetchTaskProgress={onFetchTaskProgress}
+          onClose={() => setProgressTask(null)}
+        />
+      )}
+
       {editingTask && (
         <TaskEditModal
           task={editingTask}
+          courses={courses}
           onClose={() => setEditingTask(null)}
-          onUpdate={(updates) => {
-            onUpdateTask(editingTask.id, updates);
+          onUpdate={(updates, occurrenceDate) => {
+            onUpdateTask(occurrenceDate ? getOccurrenceId(editingTask.id, occurrenceDate) : editingTask.id, updates);
             setEditingTask(null);
           }}
         />
@@ -1,8 +1,10 @@
 import { useState, useRef } from 'react';
-import { Upload, CheckCircle, XCircle, File, AlertTriangle, Loader2, GraduationCap } from 'lucide-react';
+import { Upload, CheckCircle, XCircle, File, AlertTriangle, Loader2, GraduationCap, FileSpreadsheet } from 'lucide-react';
 import type { Course } from '../../../types/course';
 import { TeacherBulkImportItem } from '../../../services/teacher.service';
 import { showSuccessToast, showErrorToast, showInfoToast } from '../../../utils/notifications';
+import { isSpreadsheetFile, readSpreadsheetFile, type ImportField } from '../../../utils/spreadsheet';
+import { SpreadsheetMapping } from '../import/SpreadsheetMapping';
 
 interface BulkTeacherImportProps {
   courses: Course[];
@@ -14,6 +16,30 @@ type ValidationResult = {
   errors: string[];
 };
 
+const TEACHER_FIELDS: ImportField[] = [
+  { key: 'teacher_name', label: 'Teacher Name', required: true, aliases: ['name', 'teacher', 'full name'] },
+  { key: 'email', label: 'Email', aliases: ['email address', 'e-mail'] },
+  { key: 'phone', label: 'Phone', aliases: ['phone number', 'mobile', 'contact'] },
+  { key: 'department', label: 'Department', aliases: ['dept'] },
+  { key: 'office_room', label: 'Office Room', aliases: ['office', 'room'] },
+  { key: 'course_code', label: 'Course Code', aliases: ['code'] },
+  { key: 'course_title', label: 'Course Title', aliases: ['course', 'course name'] }
+];
+
+function getTeacherRowErrors(teacher: TeacherBulkImportItem): string[] {
+  const errors: string[] = [];
+
+  if (!teacher.teacher_name) {
+    errors.push('Missing required field "teacher_name"');
+  }
+
+  return errors;
+}
+
+function toTeacherItem(record: Record<string, string>): TeacherBulkImportItem {
+  return { ...record, teacher_name: record.teacher_name || '' };
+}
+
 export function BulkTeacherImport({ courses, onImportTeachers }: BulkTeacherImportProps) {
   const [file, setFile] = useState<File | null>(null);
   const [data, setData] = useState<TeacherBulkImportItem[] | null>(null);
@@ -22,6 +48,8 @@ export function BulkTeacherImport({ courses, onImportTeachers }: BulkTeacherImpo
   const [validation, setValidation] = useState<ValidationResult | null>(null);
   const [importResult, setImportResult] = useState<{ success: number; errors: { index: number; error: string }[] } | null>(null);
   const [progressStatus, setProgressStatus] = useState('');
+  // Rows of a CSV or Excel file waiting for its columns to be matched
+  const [sheetRows, setSheetRows] = useState<string[][] | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const validateTeacherData = (data: any[]): ValidationResult => {
@@ -41,9 +69,9 @@ export function BulkTeacherImport({ courses, onImportTeachers }: BulkTeacherImpo
         return;
       }
       
-      if (!teacher.teacher_name) {
-        errors.push(`Teacher #${index + 1}: Missing required field "teacher_name"`);
-      }
+      getTeacherRowErrors(teacher).forEach(error => {
+        errors.push(`Teacher #${index + 1}: ${error}`);
+      });
     });
     
     return { valid: errors.length === 0, errors };
@@ -52,6 +80,7 @@ export function BulkTeacherImport({ courses, onImportTeachers }: BulkTeacherImpo
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     setImportResult(null);
     setValidation(null);
+    setSheetRows(null);
     
     const files = e.target.files;
     if (!files || files.length === 0) {
@@ -62,10 +91,15 @@ export function BulkTeacherImport({ courses, onImportTeachers }: BulkTeacherImpo
     
     const selectedFile = files[0];
     
+    if (isSpreadsheetFile(selectedFile)) {
+      await handleSpreadsheetFile(selectedFile);
+      return;
+    }
+    
     // Check if file is JSON
     if (selectedFile.type !== 'application/json' && !selectedFile.name.endsWith('.json')) {
-      setValidation({ valid: false, errors: ['Invalid file format. Only JSON files are supported.'] });
-      showErrorToast('Invalid file format. Only JSON files are supported.');
+      setValidation({ valid: false, errors: ['Invalid file format. Only JSON, CSV and Excel (.xlsx) files are supported.'] });
+      showErrorToast('Invalid file format. Only JSON, CSV and Excel (.xlsx) files are supported.');
       setFile(null);
       setData(null);
       return;
@@ -100,6 +134,38 @@ export function BulkTeacherImport({ courses, onImportTeachers }: BulkTeacherImpo
     }
   };
 
+  const handleSpreadsheetFile = async (selectedFile: File) => {
+    setFile(selectedFile);
+    setData(null);
+    setValidating(true);
+    
+    try {
+      const rows = await readSpreadsheetFile(selectedFile);
+      if (rows.length < 2) {
+        throw new Error('Expected a header row and at least one teacher');
+      }
+      setSheetRows(rows);
+    } catch (err) {
+      const message = `Could not read ${selectedFile.name}: ${(err as Error).message}`;
+      setValidation({ valid: false, errors: [message] });
+      showErrorToast(message);
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const handleSpreadsheetConfirm = (teachers: TeacherBulkImportItem[]) => {
+    setSheetRows(null);
+    setData(teachers);
+    
+    const validationResult = validateTeacherData(teachers);
+    setValidation(validationResult);
+    
+    if (validationResult.valid) {
+      showInfoToast(`${teachers.length} teacher${teachers.length !== 1 ? 's' : ''} ready to import`);
+    }
+  };
+
   const findMatchingCourse = (courseCode: string): Course | undefined => {
     return courses.find(course => 
       course.code.toLowerCase() === courseCode.toLowerCase()
@@ -158,6 +224,7 @@ export function BulkTeacherImport({ courses, onImportTeachers }: BulkTeacherImpo
     setData(null);
     setValidation(null);
     setImportResult(null);
+    setSheetRows(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -252,7 +319,7 @@ export function BulkTeacherImport({ courses, onImportTeachers }: BulkTeacherImpo
       
       <div className="prose prose-sm dark:prose-invert mb-5">
         <p>
-          Import multiple teachers at once using a JSON file. Each teacher record should include a name and can optionally include email, phone, department, office room, and course information.
+          Import multiple teachers at once using a JSON, CSV or Excel (.xlsx) file. For CSV and Excel files, the first row must hold column headers, which you can match to teacher fields before importing. Each teacher record should include a name and can optionally include email, phone, department, office room, and course information.
         </p>
       </div>
       
@@ -295,6 +362,14 @@ export function BulkTeacherImport({ courses, onImportTeachers }: BulkTeacherImpo
                 <Loader2 className="w-10 h-10 text-gray-400 dark:text-gray-500 animate-spin mb-3" />
                 <p className="mb-2 text-sm text-gray-500 dark:text-gray-400">Validating file...</p>
               </>
+            ) : file && sheetRows ? (
+              <>
+                <FileSpreadsheet className="w-10 h-10 text-green-500 dark:text-green-400 mb-3" />
+                <p className="mb-2 text-sm text-gray-700 dark:text-gray-300">
+                  <span className="font-semibold">{file.name}</span> ({(file.size / 1024).toFixed(1)} KB)
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">Match the columns below</p>
+              </>
             ) : file && validation?.valid ? (
               <>
                 <CheckCircle className="w-10 h-10 text-green-500 dark:text-green-400 mb-3" />
@@ -321,14 +396,26 @@ export function BulkTeacherImport({ courses, onImportTeachers }: BulkTeacherImpo
                 <p className="mb-2 text-sm text-gray-500 dark:text-gray-400">
                   <span className="font-semibold">Click to upload</span> or drag and drop
                 </p>
-                <p className="text-xs text-gray-500 dark:text-gray-400">JSON file only</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">JSON, CSV or Excel (.xlsx) file</p>
               </>
             )}
           </div>
-          <input id="dropzone-file" ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFileChange} />
+          <input id="dropzone-file" ref={fileInputRef} type="file" accept=".json,application/json,.csv,text/csv,.tsv,.xlsx" className="hidden" onChange={handleFileChange} />
         </label>
       </div>
       
+      {file && sheetRows && (
+        <SpreadsheetMapping
+          fileName={file.name}
+          rows={sheetRows}
+          fields={TEACHER_FIELDS}
+          toItem={toTeacherItem}
+          getRowErrors={getTeacherRowErrors}
+          onConfirm={handleSpreadsheetConfirm}
+          onCancel={handleReset}
+        />
+      )}
+      
       {validation?.errors && validation.errors.length > 0 && (
         <div className="mb-6 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800/30 rounded-lg p-4">
           <h3 className="text-sm font-medium text-red-800 dark:text-red-300 mb-2 flex items-center gap-1">
@@ -0,0 +1,184 @@
+import { useMemo, useState } from 'react';
+import { Copy, GitMerge, Loader2, X } from 'lucide-react';
+import { findDuplicateTeachers, type DuplicateReason, type DuplicateTeacherGroup } from '../../../utils/teacherDuplicates';
+import { showErrorToast, showSuccessToast } from '../../../utils/notifications';
+import type { Teacher } from '../../../types/teacher';
+
+interface TeacherDuplicatesProps {
+  teachers: Teacher[];
+  onMerge: (survivorId: string, duplicateIds: string[]) => Promise<number>;
+  onClose: () => void;
+}
+
+const reasonLabels: Record<DuplicateReason, string> = {
+  name: 'Similar name',
+  email: 'Same email',
+  phone: 'Same phone'
+};
+
+function groupKey(group: DuplicateTeacherGroup) {
+  return group.teachers.map(teacher => teacher.id).sort().join(',');
+}
+
+export function TeacherDuplicates({ teachers, onMerge, onClose }: TeacherDuplicatesProps) {
+  const groups = useMemo(() => findDuplicateTeachers(teachers), [teachers]);
+  // Per group: the teacher to keep, and teachers the admin marked as not duplicates
+  const [survivors, setSurvivors] = useState<Record<string, string>>({});
+  const [excluded, setExcluded] = useState<Record<string, string[]>>({});
+  const [mergingGroup, setMergingGroup] = useState<string | null>(null);
+
+  const handleMerge = async (group: DuplicateTeacherGroup) => {
+    const key = groupKey(group);
+    const survivorId = survivors[key] || group.suggestedSurvivorId;
+    const survivor = group.teachers.find(teacher => teacher.id === survivorId);
+    const duplicates = group.teachers.filter(teacher =>
+      teacher.id !== survivorId && !(excluded[key] || []).includes(teacher.id)
+    );
+
+    if (!survivor || duplicates.length === 0) return;
+
+    const confirmed = window.confirm(
+      `Merge ${duplicates.map(teacher => teacher.name).join(', ')} into ${survivor.name}? ` +
+      'Their courses and routine slots move to the teacher you keep, and the duplicates are deleted.'
+    );
+    if (!confirmed) return;
+
+    setMergingGroup(key);
+    try {
+      const merged = await onMerge(survivorId, duplicates.map(teacher => teacher.id));
+      showSuccessToast(`Merged ${merged} ${merged === 1 ? 'teacher' : 'teachers'} into ${survivor.name}`);
+    } catch (error) {
+      showErrorToast(`Failed to merge teachers: ${(error as Error).message}. Nothing was changed.`);
+    } finally {
+      setMergingGroup(null);
+    }
+  };
+
+  const toggleExcluded = (key: string, teacherId: string) => {
+    setExcluded(prev => {
+      const current = prev[key] || [];
+      return {
+        ...prev,
+        [key]: current.includes(teacherId)
+          ? current.filter(id => id !== teacherId)
+          : [...current, teacherId]
+      };
+    });
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl p-5 shadow-sm border border-gray-100 dark:border-gray-700">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            <Copy className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+            Possible Duplicates
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Teachers with similar names or the same email or phone. Pick the record to keep for each group.
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          title="Close"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 py-6 text-center">
+          No likely duplicates found.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {groups.map(group => {
+            const key = groupKey(group);
+            const survivorId = survivors[key] || group.suggestedSurvivorId;
+            const groupExcluded = excluded[key] || [];
+            const mergeCount = group.teachers.filter(teacher =>
+              teacher.id !== survivorId && !groupExcluded.includes(teacher.id)
+            ).length;
+
+            return (
+              <div key={key} className="rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {group.reasons.map(reason => (
+                    <span
+                      key={reason}
+                      className="px-2 py-0.5 text-xs font-medium rounded-full bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300"
+                    >
+                      {reasonLabels[reason]}
+                    </span>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  {group.teachers.map(teacher => {
+                    const isSurvivor = teacher.id === survivorId;
+
+                    return (
+                      <div
+                        key={teacher.id}
+                        className={`flex flex-wrap items-center gap-3 p-2 rounded-lg ${
+                          isSurvivor ? 'bg-blue-50 dark:bg-blue-900/20' : 'bg-gray-50 dark:bg-gray-700/50'
+                        }`}
+                      >
+                        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 min-w-0 flex-grow">
+                          <input
+                            type="radio"
+                            name={`survivor-${key}`}
+                            checked={isSurvivor}
+                            onChange={() => setSurvivors(prev => ({ ...prev, [key]: teacher.id }))}
+                            className="text-blue-600"
+                          />
+                          <span className="font-medium text-gray-900 dark:text-white truncate">{teacher.name}</span>
+                          <span className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                            {[teacher.email, teacher.phone !== 'N/A' ? teacher.phone : null, teacher.department]
+                              .filter(Boolean)
+                              .join(' · ')}
+                          </span>
+                        </label>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                          {teacher.courses?.length || 0} courses
+                        </span>
+                        {isSurvivor ? (
+                          <span className="text-xs font-medium text-blue-600 dark:text-blue-400">Keep</span>
+                        ) : (
+                          <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+                            <input
+                              type="checkbox"
+                              checked={!groupExcluded.includes(teacher.id)}
+                              onChange={() => toggleExcluded(key, teacher.id)}
+                            />
+                            Merge
+                          </label>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="flex justify-end mt-3">
+                  <button
+                    onClick={() => handleMerge(group)}
+                    disabled={mergeCount === 0 || mergingGroup !== null}
+                    className="flex items-center gap-2 text-sm px-4 py-2 rounded-xl bg-blue-600 hover:bg-blue-700 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {mergingGroup === key ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <GitMerge className="w-4 h-4" />
+                    )}
+                    Merge {mergeCount} into kept record
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
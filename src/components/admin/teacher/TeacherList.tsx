@@ -2,7 +2,7 @@ import { useState, useMemo } from 'react';
 import { Search, Trash2, Edit2, Phone, Mail, Building, GraduationCap, X, AlertTriangle, User, ChevronDown } from 'lucide-react';
 import { TeacherEditModal } from './TeacherEditModal';
 import { showSuccessToast, showInfoToast } from '../../../utils/notifications';
-import type { Teacher } from '../../../types/teacher';
+import type { Teacher, TeacherDeletionImpact } from '../../../types/teacher';
 import type { Course } from '../../../types/course';
 
 interface TeacherListProps {
@@ -11,16 +11,23 @@ interface TeacherListProps {
   searchTerm: string;
   onSearchChange: (term: string) => void;
   onUpdateTeacher: (id: string, updates: Partial<Teacher>, courseIds: string[]) => void;
-  onDeleteTeacher: (id: string) => void;
+  onDeleteTeacher: (id: string, replacementTeacherId?: string) => void | Promise<void>;
+  onPreviewDeleteTeacher: (id: string) => Promise<TeacherDeletionImpact>;
+  // Teachers that can take over a deleted teacher's courses and classes
+  replacementTeachers: Teacher[];
 }
 
+const MAX_IMPACT_ITEMS = 5;
+
 export function TeacherList({ 
   teachers, 
   courses, 
   searchTerm, 
   onSearchChange,
   onUpdateTeacher, 
-  onDeleteTeacher 
+  onDeleteTeacher,
+  onPreviewDeleteTeacher,
+  replacementTeachers
 }: TeacherListProps) {
   const [editingTeacher, setEditingTeacher] = useState<Teacher | null>(null);
   const [deleteConfirmation, setDeleteConfirmation] = useState<{ 
@@ -36,6 +43,9 @@ export function TeacherList({
     isDeleting: false,
     error: null
   });
+  const [deleteImpact, setDeleteImpact] = useState<TeacherDeletionImpact | null>(null);
+  const [loadingDeleteImpact, setLoadingDeleteImpact] = useState(false);
+  const [replacementTeacherId, setReplacementTeacherId] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 10;
 
@@ -76,7 +86,7 @@ export function TeacherList({
   };
 
   // Open delete confirmation dialog
-  const openDeleteConfirmation = (id: string, name: string) => {
+  const openDeleteConfirmation = async (id: string, name: string) => {
     setDeleteConfirmation({
       isOpen: true,
       teacherId: id,
@@ -84,6 +94,21 @@ export function TeacherList({
       isDeleting: false,
       error: null
     });
+    setDeleteImpact(null);
+    setReplacementTeacherId('');
+
+    // Dry run, so the dialog can say what the deletion will change
+    setLoadingDeleteImpact(true);
+    try {
+      setDeleteImpact(await onPreviewDeleteTeacher(id));
+    } catch (error) {
+      setDeleteConfirmation(current => ({
+        ...current,
+        error: error instanceof Error ? error.message : 'Failed to check what this teacher is assigned to'
+      }));
+    } finally {
+      setLoadingDeleteImpact(false);
+    }
   };
 
   // Close delete confirmation dialog
@@ -112,7 +137,7 @@ export function TeacherList({
       
       // Execute the delete operation
       try {
-        await onDeleteTeacher(teacherId);
+        await onDeleteTeacher(teacherId, replacementTeacherId || undefined);
         
         // Close the confirmation dialog on success
         closeDeleteConfirmation();
@@ -376,9 +401,68 @@ export function TeacherList({
               <h3 className="text-xl font-semibold text-gray-900 dark:text-white">Confirm Deletion</h3>
             </div>
             
-            <p className="text-gray-600 dark:text-gray-300 mb-6">
+            <p className="text-gray-600 dark:text-gray-300 mb-4">
               Are you sure you want to delete <span className="font-medium text-gray-900 dark:text-white">{deleteConfirmation.teacherName}</span>? This action cannot be undone.
             </p>
+
+            {loadingDeleteImpact ? (
+              <p className="mb-6 text-sm text-gray-500 dark:text-gray-400">Checking what this teacher is assigned to...</p>
+            ) : deleteImpact && (
+              <div className="mb-6 space-y-3 text-sm">
+                <p className="text-gray-700 dark:text-gray-300">
+                  {deleteImpact.courses.length === 0 && deleteImpact.routineSlots.length === 0
+                    ? 'This teacher isn\'t assigned to any courses or routine slots.'
+                    : `This will affect ${deleteImpact.courses.length} ${deleteImpact.courses.length === 1 ? 'course' : 'courses'} and ${deleteImpact.routineSlots.length} routine ${deleteImpact.routineSlots.length === 1 ? 'slot' : 'slots'}.`}
+                </p>
+
+                {deleteImpact.courses.length > 0 && (
+                  <ul className="list-disc pl-5 text-gray-600 dark:text-gray-400">
+                    {deleteImpact.courses.slice(0, MAX_IMPACT_ITEMS).map(course => (
+                      <li key={course.id}>{course.code} - {course.name}</li>
+                    ))}
+                    {deleteImpact.courses.length > MAX_IMPACT_ITEMS && (
+                      <li>and {deleteImpact.courses.length - MAX_IMPACT_ITEMS} more</li>
+                    )}
+                  </ul>
+                )}
+
+                {deleteImpact.routineSlots.length > 0 && (
+                  <ul className="list-disc pl-5 text-gray-600 dark:text-gray-400">
+                    {deleteImpact.routineSlots.slice(0, MAX_IMPACT_ITEMS).map(slot => (
+                      <li key={slot.id}>
+                        {slot.dayOfWeek} {slot.startTime.slice(0, 5)}-{slot.endTime.slice(0, 5)}
+                        {slot.courseName && `, ${slot.courseName}`}
+                        {slot.routineName && ` (${slot.routineName})`}
+                      </li>
+                    ))}
+                    {deleteImpact.routineSlots.length > MAX_IMPACT_ITEMS && (
+                      <li>and {deleteImpact.routineSlots.length - MAX_IMPACT_ITEMS} more</li>
+                    )}
+                  </ul>
+                )}
+
+                {(deleteImpact.courses.length > 0 || deleteImpact.routineSlots.length > 0) && (
+                  <div>
+                    <label className="block text-gray-700 dark:text-gray-300 mb-1">
+                      Move them to
+                    </label>
+                    <select
+                      value={replacementTeacherId}
+                      onChange={(e) => setReplacementTeacherId(e.target.value)}
+                      disabled={deleteConfirmation.isDeleting}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    >
+                      <option value="">Nobody, leave them without a teacher</option>
+                      {replacementTeachers
+                        .filter(teacher => teacher.id !== deleteConfirmation.teacherId && !teacher._isOffline)
+                        .map(teacher => (
+                          <option key={teacher.id} value={teacher.id}>{teacher.name}</option>
+                        ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+            )}
             
             {deleteConfirmation.error && (
               <div className="mb-4 p-3 rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/30 text-red-600 dark:text-red-400 text-sm">
@@ -400,7 +484,7 @@ export function TeacherList({
               </button>
               <button
                 onClick={handleDeleteConfirm}
-                disabled={deleteConfirmation.isDeleting}
+                disabled={deleteConfirmation.isDeleting || loadingDeleteImpact}
                 className={`px-4 py-2 rounded-lg ${
                   deleteConfirmation.isDeleting 
                     ? 'bg-red-400 dark:bg-red-500 cursor-wait' 
@@ -2,8 +2,9 @@ import { useState, useMemo, useRef } from 'react';
 import { TeacherForm } from './TeacherForm';
 import { TeacherList } from './TeacherList';
 import { BulkTeacherImport } from './BulkTeacherImport';
-import { Filter, GraduationCap, Users, User, Building, Upload, FilePlus, Search, BarChart2, Download, Printer, FileText, ChevronDown, ArrowUpRight, BarChart3, ArrowUpDown, RefreshCw } from 'lucide-react';
-import type { Teacher, NewTeacher } from '../../../types/teacher';
+import { TeacherDuplicates } from './TeacherDuplicates';
+import { Filter, GraduationCap, Users, User, Building, Upload, FilePlus, Search, BarChart2, Download, Printer, FileText, ChevronDown, ArrowUpRight, BarChart3, ArrowUpDown, RefreshCw, Copy } from 'lucide-react';
+import type { Teacher, NewTeacher, TeacherDeletionImpact } from '../../../types/teacher';
 import type { Course } from '../../../types/course';
 import { TeacherBulkImportItem } from '../../../services/teacher.service';
 import { showSuccessToast, showErrorToast, showInfoToast } from '../../../utils/notifications';
@@ -13,7 +14,9 @@ interface TeacherManagerProps {
   courses: Course[];
   onCreateTeacher: (teacher: NewTeacher, courseIds: string[]) => Promise<Teacher | undefined>;
   onUpdateTeacher: (id: string, updates: Partial<Teacher>, courseIds: string[]) => Promise<Teacher | undefined>;
-  onDeleteTeacher: (id: string) => Promise<void>;
+  onDeleteTeacher: (id: string, replacementTeacherId?: string) => Promise<void>;
+  onPreviewDeleteTeacher: (id: string, replacementTeacherId?: string) => Promise<TeacherDeletionImpact>;
+  onMergeTeachers: (survivorId: string, duplicateIds: string[]) => Promise<number>;
   onBulkImportTeachers?: (teachers: TeacherBulkImportItem[]) => Promise<{ success: number; errors: { index: number; error: string }[] }>;
 }
 
@@ -23,10 +26,13 @@ export function TeacherManager({
   onCreateTeacher,
   onUpdateTeacher,
   onDeleteTeacher,
+  onPreviewDeleteTeacher,
+  onMergeTeachers,
   onBulkImportTeachers
 }: TeacherManagerProps) {
   const [showFilters, setShowFilters] = useState(false);
   const [importMode, setImportMode] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
   const [filterDepartment, setFilterDepartment] = useState<string>('');
   const [filterCourse, setFilterCourse] = useState<string>('');
   const [filterWithCourses, setFilterWithCourses] = useState<'all' | 'with' | 'without'>('all');
@@ -344,49 +350,26 @@ export function TeacherManager({
     return sortedDepartments;
   };
 
-  // Delete teacher function with robust error handling
-  const handleDeleteTeacher = async (id: string): Promise<void> => {
+  const handleDeleteTeacher = async (id: string, replacementTeacherId?: string): Promise<void> => {
+    setError(null);
+
+    const teacherToDelete = teachers.find(t => t.id === id);
+    const replacement = teachers.find(t => t.id === replacementTeacherId);
+    showInfoToast(`Deleting teacher: ${teacherToDelete?.name || id}...`);
+
     try {
-      console.log(`TeacherManager: Preparing to delete teacher with ID: ${id}`);
-      setError(null);
-      
-      // Find the teacher to be deleted (for notification purposes)
-      const teacherToDelete = teachers.find(t => t.id === id);
-      if (!teacherToDelete) {
-        console.error(`TeacherManager: Cannot find teacher with ID ${id} to delete`);
-        showErrorToast(`Cannot delete teacher: Teacher not found in local state. Try refreshing the page.`);
-        return;
-      }
-      
-      // Show deletion in progress message
-      showInfoToast(`Deleting teacher: ${teacherToDelete.name}...`);
-      
-      try {
-        console.log(`TeacherManager: Calling onDeleteTeacher function for ID: ${id}`);
-        await onDeleteTeacher(id);
-        console.log(`TeacherManager: Delete operation completed successfully for ID: ${id}`);
-        showSuccessToast(`Teacher ${teacherToDelete.name} deleted successfully`);
-      } catch (err) {
-        console.error('TeacherManager: Error during delete operation:', err);
-        
-        // Handle specific known error cases
-        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-        
-        if (errorMessage.includes('PGRST116') || errorMessage.includes('no rows')) {
-          showErrorToast(`Teacher may have already been deleted or does not exist.`);
-        } else if (errorMessage.includes('foreign key constraint')) {
-          showErrorToast(`Cannot delete teacher: This teacher is referenced by other data in the system. Check the troubleshooting guide.`);
-        } else {
-          setError(`Failed to delete teacher: ${errorMessage}`);
-          showErrorToast(`Failed to delete teacher: ${errorMessage}. Please try again.`);
-        }
-        
-        throw err; // Re-throw to propagate the error
-      }
+      await onDeleteTeacher(id, replacementTeacherId);
+      showSuccessToast(replacement
+        ? `Teacher ${teacherToDelete?.name || ''} deleted, classes moved to ${replacement.name}`
+        : `Teacher ${teacherToDelete?.name || ''} deleted successfully`);
     } catch (err) {
-      console.error('TeacherManager: Outer error handler:', err);
-      // This catch block handles any errors that might occur outside the delete operation
-      // like issues with finding the teacher or showing notifications
+      console.error('TeacherManager: Error during delete operation:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to delete teacher: ${errorMessage}`);
+      showErrorToast(`Failed to delete teacher: ${errorMessage}. Nothing was changed.`);
+
+      // Let the confirmation dialog show the error too
+      throw err;
     }
   };
 
@@ -449,6 +432,14 @@ export function TeacherManager({
             )}
           </button>
           
+          <button
+            onClick={() => setShowDuplicates(!showDuplicates)}
+            className="flex items-center gap-2 text-sm px-4 py-2 rounded-xl bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors border border-gray-200 dark:border-gray-600"
+          >
+            <Copy className="w-4 h-4" />
+            {showDuplicates ? 'Hide Duplicates' : 'Find Duplicates'}
+          </button>
+
           <button
             onClick={() => setShowFilters(!showFilters)}
             className="flex items-center gap-2 text-sm px-4 py-2 rounded-xl bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors border border-gray-200 dark:border-gray-600"
@@ -747,6 +738,14 @@ export function TeacherManager({
         </div>
       )}
 
+      {showDuplicates && (
+        <TeacherDuplicates
+          teachers={teachers}
+          onMerge={onMergeTeachers}
+          onClose={() => setShowDuplicates(false)}
+        />
+      )}
+
       {!importMode ? (
         <TeacherForm
           courses={courses}
@@ -766,6 +765,8 @@ export function TeacherManager({
         onSearchChange={setSearchTerm}
         onUpdateTeacher={onUpdateTeacher}
         onDeleteTeacher={handleDeleteTeacher}
+        onPreviewDeleteTeacher={onPreviewDeleteTeacher}
+        replacementTeachers={teachers}
       />
     </div>
   );
@@ -0,0 +1,86 @@
+import { History, RefreshCw, RotateCcw } from 'lucide-react';
+import type { TelegramMessage, TelegramMessageStatus } from '../../../types/telegram';
+
+interface TelegramDeliveryLogProps {
+  messages: TelegramMessage[];
+  onRefresh: () => void;
+  onRetry: (id: string) => Promise<void>;
+}
+
+const statusStyles: Record<TelegramMessageStatus, { label: string; className: string }> = {
+  pending: { label: 'Queued', className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400' },
+  sending: { label: 'Sending', className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400' },
+  sent: { label: 'Sent', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-600 dark:bg-red-900/30 dark:text-red-400' }
+};
+
+// Messages are HTML formatted for Telegram; show them as plain text
+const toPlainText = (text: string) => text.replace(/<[^>]+>/g, '').trim();
+
+export function TelegramDeliveryLog({ messages, onRefresh, onRetry }: TelegramDeliveryLogProps) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm p-4 sm:p-6 mt-6">
+      <div className="flex items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-blue-50 dark:bg-blue-900/20 rounded-xl">
+            <History className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          </div>
+          <div>
+            <h2 className="text-lg sm:text-xl font-semibold text-gray-900 dark:text-white">Recent Deliveries</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">
+              Rate limited and failed messages are retried automatically
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={onRefresh}
+          className="p-2 text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          title="Refresh"
+        >
+          <RefreshCw className="w-4 h-4" />
+        </button>
+      </div>
+
+      {messages.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">
+          Nothing has been sent to Telegram yet
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-100 dark:divide-gray-700">
+          {messages.map(message => (
+            <div key={message.id} className="flex items-start justify-between gap-4 py-3">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[message.status].className}`}>
+                    {statusStyles[message.status].label}
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {new Date(message.sentAt || message.createdAt).toLocaleString()}
+                    {message.attempts > 1 && ` · ${message.attempts} attempts`}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-700 dark:text-gray-300 line-clamp-2 break-words">
+                  {toPlainText(message.text)}
+                </p>
+                {message.lastError && message.status !== 'sent' && (
+                  <p className="text-xs text-red-600 dark:text-red-400 break-words">
+                    {message.lastError}
+                  </p>
+                )}
+              </div>
+              {message.status === 'failed' && (
+                <button
+                  onClick={() => onRetry(message.id)}
+                  className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors flex-shrink-0"
+                  title="Send again"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
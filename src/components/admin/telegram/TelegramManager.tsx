@@ -0,0 +1,40 @@
+import { TelegramRouteList } from './TelegramRouteList';
+import { TelegramDeliveryLog } from './TelegramDeliveryLog';
+import type { Course } from '../../../types/course';
+import type { NewTelegramRoute, TelegramMessage, TelegramRoute } from '../../../types/telegram';
+
+interface TelegramManagerProps {
+  routes: TelegramRoute[];
+  messages: TelegramMessage[];
+  courses: Course[];
+  onCreateRoute: (route: NewTelegramRoute) => Promise<void>;
+  onDeleteRoute: (id: string) => Promise<void>;
+  onRetryMessage: (id: string) => Promise<void>;
+  onRefresh: () => void;
+}
+
+export function TelegramManager({
+  routes,
+  messages,
+  courses,
+  onCreateRoute,
+  onDeleteRoute,
+  onRetryMessage,
+  onRefresh
+}: TelegramManagerProps) {
+  return (
+    <div>
+      <TelegramRouteList
+        routes={routes}
+        courses={courses}
+        onCreate={onCreateRoute}
+        onDelete={onDeleteRoute}
+      />
+      <TelegramDeliveryLog
+        messages={messages}
+        onRefresh={onRefresh}
+        onRetry={onRetryMessage}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { Plus, Send, Trash2 } from 'lucide-react';
+import type { Course } from '../../../types/course';
+import type { NewTelegramRoute, TelegramRoute } from '../../../types/telegram';
+
+interface TelegramRouteListProps {
+  routes: TelegramRoute[];
+  courses: Course[];
+  onCreate: (route: NewTelegramRoute) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+type RouteTarget = 'default' | 'section' | 'course';
+
+const inputClassName = 'w-full px-3 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm';
+
+export function TelegramRouteList({ routes, courses, onCreate, onDelete }: TelegramRouteListProps) {
+  const [target, setTarget] = useState<RouteTarget>('default');
+  const [route, setRoute] = useState<NewTelegramRoute>({ chatId: '' });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const getTargetLabel = (item: TelegramRoute) => {
+    if (item.courseId) {
+      const course = courses.find(c => c.id === item.courseId);
+      return course ? `${course.code} - ${course.name}` : 'Deleted course';
+    }
+    return item.section ? `Section ${item.section}` : 'Everyone (default)';
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await onCreate({
+        ...route,
+        section: target === 'section' ? route.section : undefined,
+        courseId: target === 'course' ? route.courseId : undefined
+      });
+      setRoute({ chatId: '' });
+      setTarget('default');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm p-4 sm:p-6">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-blue-50 dark:bg-blue-900/20 rounded-xl">
+          <Send className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+        </div>
+        <div>
+          <h2 className="text-lg sm:text-xl font-semibold text-gray-900 dark:text-white">Telegram Chats</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">
+            Where tasks and announcements for each section or course are posted
+          </p>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 mb-6">
+        <select
+          value={target}
+          onChange={(e) => setTarget(e.target.value as RouteTarget)}
+          className={inputClassName}
+        >
+          <option value="default">Everyone (default)</option>
+          <option value="section">A section</option>
+          <option value="course">A course</option>
+        </select>
+
+        {target === 'section' && (
+          <input
+            type="text"
+            value={route.section || ''}
+            onChange={(e) => setRoute(prev => ({ ...prev, section: e.target.value }))}
+            placeholder="Section, e.g. A"
+            className={inputClassName}
+            required
+          />
+        )}
+
+        {target === 'course' && (
+          <select
+            value={route.courseId || ''}
+            onChange={(e) => setRoute(prev => ({ ...prev, courseId: e.target.value }))}
+            className={inputClassName}
+            required
+          >
+            <option value="">Select a course</option>
+            {courses.map(course => (
+              <option key={course.id} value={course.id}>
+                {course.code} - {course.name}
+              </option>
+            ))}
+          </select>
+        )}
+
+        <input
+          type="text"
+          value={route.chatId}
+          onChange={(e) => setRoute(prev => ({ ...prev, chatId: e.target.value }))}
+          placeholder="Chat id, e.g. -1001234567890"
+          className={inputClassName}
+          required
+        />
+
+        <input
+          type="number"
+          min={1}
+          value={route.messageThreadId || ''}
+          onChange={(e) => setRoute(prev => ({ ...prev, messageThreadId: parseInt(e.target.value) || undefined }))}
+          placeholder="Topic id (optional)"
+          className={inputClassName}
+        />
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-xl text-sm transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add Chat
+        </button>
+      </form>
+
+      {routes.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">
+          No chats set up yet. Messages for everyone go to the relay's default chat.
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-100 dark:divide-gray-700">
+          {routes.map(item => (
+            <div key={item.id} className="flex items-center justify-between gap-4 py-3">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 dark:text-white truncate">
+                  {getTargetLabel(item)}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Chat {item.chatId}
+                  {item.messageThreadId ? `, topic ${item.messageThreadId}` : ''}
+                </p>
+              </div>
+              <button
+                onClick={() => onDelete(item.id)}
+                className="p-2 text-red-600 dark:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                title="Remove chat"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Mail, Lock, User, Phone, Car as IdCard, Loader2 } from 'lucide-react';
+import { Mail, Lock, User, Phone, Car as IdCard, Loader2, Building, GraduationCap, Users } from 'lucide-react';
 import { AuthError } from './AuthError';
 import { AuthInput } from './AuthInput';
 import { AuthSubmitButton } from './AuthSubmitButton';
@@ -18,7 +18,10 @@ export function SignupForm({ onSubmit, onSwitchToLogin, error }: SignupFormProps
     email: '',
     password: '',
     phone: '',
-    studentId: ''
+    studentId: '',
+    department: '',
+    batch: '',
+    section: ''
   });
   const [isLoading, setIsLoading] = useState(false);
   const [localError, setLocalError] = useState<string | null>(null);
@@ -27,7 +30,10 @@ export function SignupForm({ onSubmit, onSwitchToLogin, error }: SignupFormProps
     email: false,
     password: false,
     phone: false,
-    studentId: false
+    studentId: false,
+    department: false,
+    batch: false,
+    section: false
   });
 
   const validateForm = () => {
@@ -51,6 +57,10 @@ export function SignupForm({ onSubmit, onSwitchToLogin, error }: SignupFormProps
       setLocalError('Please enter a valid student ID');
       return false;
     }
+    if (!credentials.section.trim()) {
+      setLocalError('Please enter your section');
+      return false;
+    }
     return true;
   };
 
@@ -130,6 +140,38 @@ export function SignupForm({ onSubmit, onSwitchToLogin, error }: SignupFormProps
           error={touched.studentId && !validateStudentId(credentials.studentId) ? 'Please enter a valid student ID' : ''}
         />
 
+        <AuthInput
+          type="text"
+          value={credentials.department}
+          onChange={(value) => handleInputChange('department', value)}
+          label="Department"
+          placeholder="e.g. CSE"
+          icon={Building}
+          required={false}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <AuthInput
+            type="text"
+            value={credentials.batch}
+            onChange={(value) => handleInputChange('batch', value)}
+            label="Batch"
+            placeholder="e.g. 63"
+            icon={GraduationCap}
+            required={false}
+          />
+
+          <AuthInput
+            type="text"
+            value={credentials.section}
+            onChange={(value) => handleInputChange('section', value)}
+            label="Section"
+            placeholder="e.g. A"
+            icon={Users}
+            error={touched.section && !credentials.section.trim() ? 'Section is required' : ''}
+          />
+        </div>
+
         <AuthInput
           type="password"
           value={credentials.password}
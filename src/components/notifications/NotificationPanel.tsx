@@ -1,5 +1,5 @@
-import { X, CheckCircle, Bell, Check, Megaphone, AlertCircle } from 'lucide-react';
-import { parseLinks } from '../../utils/linkParser';
+import { X, CheckCircle, Bell, Check, Megaphone, AlertCircle, Loader2 } from 'lucide-react';
+import { RichText } from '../ui/RichText';
 import type { Notification } from '../../hooks/useNotifications';
 
 interface NotificationPanelProps {
@@ -8,6 +8,10 @@ interface NotificationPanelProps {
   onMarkAsRead: (id: string) => void;
   onMarkAllAsRead: () => void;
   onClear: (id: string) => void;
+  unreadCount?: number;
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
 export function NotificationPanel({
@@ -15,9 +19,15 @@ export function NotificationPanel({
   onClose,
   onMarkAsRead,
   onMarkAllAsRead,
-  onClear
+  onClear,
+  unreadCount,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore
 }: NotificationPanelProps) {
-  const hasUnread = notifications.some(n => !n.read);
+  // Older pages may hold unread notifications too, so prefer the server-side count
+  const unread = unreadCount ?? notifications.filter(n => !n.read).length;
+  const hasUnread = unread > 0;
 
   return (
     <>
@@ -44,7 +54,7 @@ export function NotificationPanel({
               <div>
                 <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Notifications</h2>
                 <p className="text-sm text-gray-500 dark:text-gray-400">
-                  {hasUnread ? `${notifications.filter(n => !n.read).length} unread messages` : 'No unread messages'}
+                  {hasUnread ? `${unread} unread messages` : 'No unread messages'}
                 </p>
               </div>
             </div>
@@ -83,8 +93,6 @@ export function NotificationPanel({
             </div>
           ) : (
             notifications.map((notification) => {
-              const messageParts = parseLinks(notification.message);
-              
               return (
                 <div
                   key={notification.id}
@@ -138,24 +146,10 @@ export function NotificationPanel({
                         )}
                       </div>
                       
-                      <div className="text-sm text-gray-600 dark:text-gray-300 mb-3 break-words">
-                        {messageParts.map((part, index) => 
-                          part.type === 'link' ? (
-                            <a
-                              key={index}
-                              href={part.content}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-blue-600 dark:text-blue-400 hover:underline break-all"
-                              onClick={(e) => e.stopPropagation()}
-                            >
-                              {part.content}
-                            </a>
-                          ) : (
-                            <span key={index}>{part.content}</span>
-                          )
-                        )}
-                      </div>
+                      <RichText
+                        text={notification.message}
+                        className="text-sm text-gray-600 dark:text-gray-300 mb-3"
+                      />
                       
                       <div className="flex items-center justify-between gap-4">
                         <time className="text-xs text-gray-500 dark:text-gray-400">
@@ -192,6 +186,17 @@ export function NotificationPanel({
               );
             })
           )}
+
+          {hasMore && onLoadMore && (
+            <button
+              onClick={onLoadMore}
+              disabled={loadingMore}
+              className="w-full flex items-center justify-center gap-2 py-2 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-xl transition-colors disabled:opacity-50"
+            >
+              {loadingMore && <Loader2 className="w-4 h-4 animate-spin" />}
+              Load older notifications
+            </button>
+          )}
         </div>
 
         {/* Mobile-only bottom safe area */}
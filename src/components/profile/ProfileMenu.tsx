@@ -3,12 +3,14 @@ import { User, LogOut, Code, Settings, ChevronRight, Shield } from 'lucide-react
 import { useAuth } from '../../hooks/useAuth';
 import { DeveloperModal } from './DeveloperModal';
 import { SettingsModal } from '../settings/SettingsModal';
+import type { Task } from '../../types/task';
 
 interface ProfileMenuProps {
   onLogout: () => void;
+  tasks: Task[];
 }
 
-export function ProfileMenu({ onLogout }: ProfileMenuProps) {
+export function ProfileMenu({ onLogout, tasks }: ProfileMenuProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [showDeveloperModal, setShowDeveloperModal] = useState(false);
   const [showSettingsModal, setShowSettingsModal] = useState(false);
@@ -130,7 +132,7 @@ export function ProfileMenu({ onLogout }: ProfileMenuProps) {
       )}
 
       {showSettingsModal && (
-        <SettingsModal onClose={() => setShowSettingsModal(false)} />
+        <SettingsModal tasks={tasks} onClose={() => setShowSettingsModal(false)} />
       )}
     </div>
   );
@@ -4,9 +4,10 @@ import { useState, useEffect } from 'react';
 interface SearchBarProps {
   onSearch: (query: string) => void;
   initialQuery?: string;
+  placeholder?: string;
 }
 
-export function SearchBar({ onSearch, initialQuery = '' }: SearchBarProps) {
+export function SearchBar({ onSearch, initialQuery = '', placeholder = 'Search tasks...' }: SearchBarProps) {
   const [query, setQuery] = useState(initialQuery);
 
   // Update query state when initialQuery prop changes
@@ -29,7 +30,7 @@ export function SearchBar({ onSearch, initialQuery = '' }: SearchBarProps) {
           type="search"
           value={query}
           onChange={(e) => setQuery(e.target.value)}
-          placeholder="Search tasks..."
+          placeholder={placeholder}
           className="w-full pl-10 pr-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-800 dark:border-gray-700 dark:text-white"
         />
       </div>
@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { CalendarPlus, Download, Copy, Check, RefreshCw, Loader2, AlertCircle, Link } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import { createTasksICalendar } from '../../utils/taskCalendar';
+import { downloadICalendar } from '../../utils/icalendar';
+import type { Task } from '../../types/task';
+import {
+  getCalendarFeedToken,
+  regenerateCalendarFeedToken,
+  getCalendarFeedUrl
+} from '../../services/calendar.service';
+
+interface CalendarSettingsProps {
+  // The tasks the app shows: the user's section, recurring tasks as occurrences
+  tasks: Task[];
+}
+
+export function CalendarSettings({ tasks }: CalendarSettingsProps) {
+  const { user } = useAuth();
+  const [feedToken, setFeedToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = () => {
+    downloadICalendar(createTasksICalendar(tasks), 'nesttask-tasks.ics');
+  };
+
+  const loadFeedToken = async (regenerate = false) => {
+    if (!user?.id) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const token = regenerate
+        ? await regenerateCalendarFeedToken(user.id)
+        : await getCalendarFeedToken(user.id);
+      setFeedToken(token);
+    } catch (err) {
+      setError((err as Error).message || 'Failed to load calendar feed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedToken) return;
+
+    try {
+      await navigator.clipboard.writeText(getCalendarFeedUrl(feedToken));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setError('Could not copy the link. Please copy it manually.');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-blue-900/10 dark:bg-blue-100/10 rounded-lg">
+          <CalendarPlus className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+        </div>
+        <div>
+          <h3 className="font-medium text-gray-900 dark:text-gray-100">Calendar Sync</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Add your task due dates to Google or Apple Calendar</p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={handleDownload}
+          className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-dark-600 hover:bg-gray-200 dark:hover:bg-dark-500 rounded-lg transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          Download .ics
+        </button>
+        {!feedToken && (
+          <button
+            onClick={() => loadFeedToken()}
+            disabled={loading}
+            className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link className="w-4 h-4" />}
+            Get Subscription Link
+          </button>
+        )}
+      </div>
+
+      {feedToken && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              readOnly
+              value={getCalendarFeedUrl(feedToken)}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 min-w-0 px-3 py-2 text-xs border dark:border-dark-500 rounded-lg bg-gray-50 dark:bg-dark-600 text-gray-700 dark:text-gray-300"
+            />
+            <button
+              onClick={handleCopy}
+              className="p-2 text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400 hover:bg-gray-100 dark:hover:bg-dark-600 rounded-lg"
+              aria-label="Copy subscription link"
+            >
+              {copied ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
+            </button>
+          </div>
+          <div className="flex items-center justify-between text-xs">
+            <a
+              href={getCalendarFeedUrl(feedToken, true)}
+              className="text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Open in calendar app
+            </a>
+            <button
+              onClick={() => loadFeedToken(true)}
+              disabled={loading}
+              className="flex items-center gap-1 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+              title="Create a new link and stop the old one from working"
+            >
+              <RefreshCw className={`w-3 h-3 ${loading ? 'animate-spin' : ''}`} />
+              Reset link
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Anyone with this link can see your tasks. Reset it if it was shared by mistake.
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+          <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
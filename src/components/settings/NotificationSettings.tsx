@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { Bell, Loader2, AlertCircle } from 'lucide-react';
 import { usePushNotifications } from '../../hooks/usePushNotifications';
+import { TaskReminderSettings } from './TaskReminderSettings';
 
 export function NotificationSettings() {
   const { 
@@ -127,9 +128,19 @@ export function NotificationSettings() {
               <div className="w-1.5 h-1.5 bg-blue-600 dark:bg-blue-400 rounded-full" />
               Task status updates
             </li>
+            <li className="flex items-center gap-2">
+              <div className="w-1.5 h-1.5 bg-blue-600 dark:bg-blue-400 rounded-full" />
+              Reminders before your tasks are due
+            </li>
           </ul>
         </div>
       )}
+
+      {isSubscribed && (
+        <div className="pt-4 border-t border-gray-100 dark:border-gray-700">
+          <TaskReminderSettings />
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
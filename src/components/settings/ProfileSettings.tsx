@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import { Users, Loader2, AlertCircle, Check } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import { updateUserSection } from '../../services/auth.service';
+import { normalizeSection } from '../../utils/sectionFilter';
+
+export function ProfileSettings() {
+  const { user } = useAuth();
+  const [section, setSection] = useState(user?.section || '');
+  const [loading, setLoading] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSection(user?.section || '');
+  }, [user?.section]);
+
+  const handleSave = async () => {
+    setLoading(true);
+    setError(null);
+    setSaved(false);
+    try {
+      await updateUserSection(section);
+      setSaved(true);
+    } catch (err) {
+      setError((err as Error).message || 'Failed to update your section');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const unchanged = normalizeSection(section) === normalizeSection(user?.section);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-blue-900/10 dark:bg-blue-100/10 rounded-lg">
+          <Users className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+        </div>
+        <div>
+          <h3 className="font-medium text-gray-900 dark:text-gray-100">Section</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {user?.section
+              ? 'Tasks, courses and routines default to your section'
+              : 'Set your section to see its tasks, courses and routine first'}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={section}
+          onChange={(e) => {
+            setSection(e.target.value);
+            setSaved(false);
+          }}
+          placeholder="e.g. A"
+          className="flex-1 min-w-0 px-3 py-2 text-sm rounded-lg border border-gray-200 dark:border-dark-500 bg-white dark:bg-dark-600 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          onClick={handleSave}
+          disabled={loading || !user?.id || !section.trim() || unchanged}
+          className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : saved ? <Check className="w-4 h-4" /> : null}
+          {saved ? 'Saved' : 'Save'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+          <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,18 @@
 import { useState, useEffect } from 'react';
 import { X, Bell, Moon, Shield } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
+import { ProfileSettings } from './ProfileSettings';
 import { NotificationSettings } from './NotificationSettings';
+import { CalendarSettings } from './CalendarSettings';
+import { TelegramSettings } from './TelegramSettings';
+import type { Task } from '../../types/task';
 
 interface SettingsModalProps {
+  tasks: Task[];
   onClose: () => void;
 }
 
-export function SettingsModal({ onClose }: SettingsModalProps) {
+export function SettingsModal({ tasks, onClose }: SettingsModalProps) {
   const { user } = useAuth();
   const [darkMode, setDarkMode] = useState(() => {
     return JSON.parse(localStorage.getItem('dark-mode') || 'false');
@@ -47,10 +52,19 @@ export function SettingsModal({ onClose }: SettingsModalProps) {
           </div>
 
           {/* Settings Content */}
-          <div className="p-6 space-y-6">
+          <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
+            {/* Section */}
+            {user?.role !== 'admin' && <ProfileSettings />}
+
             {/* Notifications */}
             <NotificationSettings />
 
+            {/* Calendar Sync */}
+            <CalendarSettings tasks={tasks} />
+
+            {/* Telegram Bot */}
+            <TelegramSettings />
+
             {/* Dark Mode */}
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-3">
@@ -0,0 +1,121 @@
+import { useState, useEffect } from 'react';
+import { Clock, Loader2, AlertCircle } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import { getReminderSettings, updateReminderSettings } from '../../services/reminder.service';
+import { REMINDER_OFFSET_OPTIONS, formatReminderOffset } from '../../utils/taskReminders';
+import type { ReminderSettings } from '../../types/reminder';
+
+export function TaskReminderSettings() {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<ReminderSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    getReminderSettings(user.id)
+      .then(setSettings)
+      .catch((err: Error) => setError(err.message || 'Failed to load reminder settings'));
+  }, [user?.id]);
+
+  const saveSettings = async (updated: ReminderSettings) => {
+    if (!user?.id || !settings) return;
+
+    const previous = settings;
+    setSettings(updated);
+    setSaving(true);
+    setError(null);
+    try {
+      setSettings(await updateReminderSettings(user.id, updated));
+    } catch (err) {
+      setSettings(previous);
+      setError((err as Error).message || 'Failed to save reminder settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleOffset = (offset: number) => {
+    if (!settings) return;
+
+    const offsets = settings.offsets.includes(offset)
+      ? settings.offsets.filter(o => o !== offset)
+      : [...settings.offsets, offset];
+    saveSettings({ ...settings, offsets });
+  };
+
+  if (!settings) {
+    return error ? (
+      <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+    ) : (
+      <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading reminder settings...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Clock className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+          <h4 className="text-sm font-medium text-gray-900 dark:text-white">
+            Due date reminders
+          </h4>
+          {saving && <Loader2 className="w-3 h-3 text-gray-400 animate-spin" />}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => saveSettings({ ...settings, enabled: e.target.checked })}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Enabled
+        </label>
+      </div>
+
+      {settings.enabled && (
+        <>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Remind me this long before a task is due:
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {REMINDER_OFFSET_OPTIONS.map(offset => {
+              const selected = settings.offsets.includes(offset);
+              return (
+                <button
+                  key={offset}
+                  type="button"
+                  onClick={() => toggleOffset(offset)}
+                  aria-pressed={selected}
+                  className={`px-3 py-1 text-xs font-medium rounded-full transition-colors ${
+                    selected
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {formatReminderOffset(offset)}
+                </button>
+              );
+            })}
+          </div>
+          {settings.offsets.length === 0 && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              Pick at least one time to get reminders.
+            </p>
+          )}
+        </>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-2 text-sm text-red-700 dark:text-red-300">
+          <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
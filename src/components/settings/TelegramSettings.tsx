@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { Send, Loader2, AlertCircle, Unlink, ExternalLink } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import {
+  getTelegramLink,
+  createTelegramLinkCode,
+  unlinkTelegram,
+  getTelegramBotLink
+} from '../../services/telegramLink.service';
+import type { TelegramLink } from '../../types/telegram';
+
+export function TelegramSettings() {
+  const { user } = useAuth();
+  const [link, setLink] = useState<TelegramLink | null>(null);
+  const [code, setCode] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    getTelegramLink(user.id)
+      .then(setLink)
+      .catch(() => setError('Failed to load your Telegram link'));
+  }, [user?.id]);
+
+  const handleCreateCode = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setCode(await createTelegramLinkCode());
+    } catch (err) {
+      setError((err as Error).message || 'Failed to create a link code');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUnlink = async () => {
+    if (!user?.id) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      await unlinkTelegram(user.id);
+      setLink(null);
+      setCode(null);
+    } catch (err) {
+      setError((err as Error).message || 'Failed to unlink Telegram');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const isLinked = !!link?.linkedAt;
+  const botLink = getTelegramBotLink(code || undefined);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-blue-900/10 dark:bg-blue-100/10 rounded-lg">
+          <Send className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+        </div>
+        <div>
+          <h3 className="font-medium text-gray-900 dark:text-gray-100">Telegram Bot</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {isLinked
+              ? `Linked${link?.telegramUsername ? ` to @${link.telegramUsername}` : ''}. Use /due in the bot to complete tasks.`
+              : 'Check tasks and mark them complete from Telegram'}
+          </p>
+        </div>
+      </div>
+
+      {isLinked ? (
+        <button
+          onClick={handleUnlink}
+          disabled={loading}
+          className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-dark-600 hover:bg-gray-200 dark:hover:bg-dark-500 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Unlink className="w-4 h-4" />}
+          Unlink Telegram
+        </button>
+      ) : code ? (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            Send <code className="px-1.5 py-0.5 rounded bg-gray-100 dark:bg-dark-600 font-mono">/link {code}</code> to
+            the bot in a private chat within 15 minutes.
+          </p>
+          {botLink && (
+            <a
+              href={botLink}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Open the bot
+              <ExternalLink className="w-3 h-3" />
+            </a>
+          )}
+        </div>
+      ) : (
+        <button
+          onClick={handleCreateCode}
+          disabled={loading || !user?.id}
+          className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          Link Telegram
+        </button>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+          <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
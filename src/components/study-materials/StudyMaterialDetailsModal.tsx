@@ -1,5 +1,6 @@
 import { X, Book, Calendar, Download, ExternalLink, FileText, Link, Lock, Clock, Tag, Eye } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { RichText } from '../ui/RichText';
 import type { StudyMaterial } from '../../types/course';
 
 interface StudyMaterialDetailsModalProps {
@@ -317,9 +318,7 @@ export function StudyMaterialDetailsModal({ material, isOpen, onClose }: StudyMa
                     <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-3">
                       Description
                     </h3>
-                    <p className="text-gray-600 dark:text-gray-300 whitespace-pre-wrap">
-                      {material.description}
-                    </p>
+                    <RichText text={material.description} className="text-gray-600 dark:text-gray-300" />
                   </div>
 
                   {/* Files */}
@@ -0,0 +1,155 @@
+import { Repeat } from 'lucide-react';
+import { getDay, parseISO } from 'date-fns';
+import { WEEKDAY_LABELS, describeRecurrence } from '../../utils/recurrence';
+import type { RecurrenceFrequency, RecurrenceRule } from '../../types/task';
+
+interface RecurrenceFieldsProps {
+  value?: RecurrenceRule;
+  // Due date of the first occurrence, used to pick a default weekday
+  startDate: string;
+  onChange: (rule: RecurrenceRule | undefined) => void;
+}
+
+type EndType = 'never' | 'until' | 'count';
+
+const inputClassName = 'px-3 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm';
+
+export function RecurrenceFields({ value, startDate, onChange }: RecurrenceFieldsProps) {
+  const endType: EndType = value?.until ? 'until' : value?.count ? 'count' : 'never';
+
+  const handleFrequencyChange = (frequency: RecurrenceFrequency | '') => {
+    if (!frequency) {
+      onChange(undefined);
+      return;
+    }
+
+    // Weekly series start out on the weekday of the first due date
+    const weekdays = value?.weekdays?.length
+      ? value.weekdays
+      : [startDate ? getDay(parseISO(startDate)) : 1];
+    onChange({
+      ...value,
+      frequency,
+      interval: value?.interval || 1,
+      weekdays: frequency === 'weekly' ? weekdays : undefined
+    });
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    if (!value) return;
+
+    const weekdays = value.weekdays?.includes(weekday)
+      ? value.weekdays.filter(day => day !== weekday)
+      : [...(value.weekdays || []), weekday].sort((a, b) => a - b);
+
+    // Keep at least one day selected
+    if (weekdays.length > 0) {
+      onChange({ ...value, weekdays });
+    }
+  };
+
+  const handleEndTypeChange = (type: EndType) => {
+    if (!value) return;
+
+    onChange({
+      ...value,
+      until: type === 'until' ? value.until || startDate : undefined,
+      count: type === 'count' ? value.count || 10 : undefined
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Repeat
+        </label>
+        <div className="relative">
+          <select
+            value={value?.frequency || ''}
+            onChange={(e) => handleFrequencyChange(e.target.value as RecurrenceFrequency | '')}
+            className="w-full pl-10 pr-4 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white appearance-none"
+          >
+            <option value="">Does not repeat</option>
+            <option value="daily">Every few days</option>
+            <option value="weekly">Weekly</option>
+          </select>
+          <Repeat className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+        </div>
+      </div>
+
+      {value && (
+        <>
+          <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <span>Every</span>
+            <input
+              type="number"
+              min={1}
+              value={value.interval}
+              onChange={(e) => onChange({ ...value, interval: Math.max(1, parseInt(e.target.value) || 1) })}
+              className={`${inputClassName} w-20`}
+            />
+            <span>{value.frequency === 'daily' ? 'day(s)' : 'week(s)'}</span>
+          </div>
+
+          {value.frequency === 'weekly' && (
+            <div className="flex flex-wrap gap-1.5">
+              {WEEKDAY_LABELS.map((label, weekday) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => toggleWeekday(weekday)}
+                  className={`px-2.5 py-1 rounded-lg text-xs font-medium transition-colors ${
+                    value.weekdays?.includes(weekday)
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <span>Ends</span>
+            <select
+              value={endType}
+              onChange={(e) => handleEndTypeChange(e.target.value as EndType)}
+              className={`${inputClassName} w-auto`}
+            >
+              <option value="never">Never</option>
+              <option value="until">On date</option>
+              <option value="count">After</option>
+            </select>
+            {endType === 'until' && (
+              <input
+                type="date"
+                value={value.until || ''}
+                min={startDate}
+                onChange={(e) => onChange({ ...value, until: e.target.value || undefined })}
+                className={`${inputClassName} flex-1`}
+              />
+            )}
+            {endType === 'count' && (
+              <>
+                <input
+                  type="number"
+                  min={1}
+                  value={value.count || ''}
+                  onChange={(e) => onChange({ ...value, count: Math.max(1, parseInt(e.target.value) || 1) })}
+                  className={`${inputClassName} w-20`}
+                />
+                <span>times</span>
+              </>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {describeRecurrence(value)}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
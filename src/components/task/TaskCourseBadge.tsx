@@ -0,0 +1,21 @@
+import { getCourseColor } from '../../utils/courseColors';
+import type { TaskCourse } from '../../types/task';
+
+interface TaskCourseBadgeProps {
+  course: TaskCourse;
+  className?: string;
+}
+
+export function TaskCourseBadge({ course, className = '' }: TaskCourseBadgeProps) {
+  const color = getCourseColor(course.id);
+
+  return (
+    <span
+      title={course.name}
+      className={`inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${color.badge} ${className}`}
+    >
+      <span className={`w-1.5 h-1.5 rounded-full ${color.dot}`} />
+      {course.code}
+    </span>
+  );
+}
@@ -0,0 +1,62 @@
+import { useMemo } from 'react';
+import { getCourseColor } from '../../utils/courseColors';
+import type { TaskCourse } from '../../types/task';
+
+interface TaskCourseFilterProps {
+  tasks: { course?: TaskCourse }[];
+  selectedCourseId: string | null;
+  onSelect: (courseId: string | null) => void;
+  className?: string;
+}
+
+/**
+ * Course chips for narrowing a task list down to one course.
+ * Only courses that have tasks in the list are offered.
+ */
+export function TaskCourseFilter({ tasks, selectedCourseId, onSelect, className = '' }: TaskCourseFilterProps) {
+  const courses = useMemo(() => {
+    const byId = new Map<string, TaskCourse>();
+    tasks.forEach(task => {
+      if (task.course) byId.set(task.course.id, task.course);
+    });
+    return Array.from(byId.values()).sort((a, b) => a.code.localeCompare(b.code));
+  }, [tasks]);
+
+  // Nothing to narrow down when every task belongs to the same course
+  if (courses.length === 0 || (courses.length === 1 && tasks.every(task => task.course))) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-2 ${className}`}>
+      <button
+        onClick={() => onSelect(null)}
+        className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+          selectedCourseId === null
+            ? 'bg-blue-600 text-white'
+            : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+        }`}
+      >
+        All courses
+      </button>
+      {courses.map(course => {
+        const color = getCourseColor(course.id);
+        const isSelected = selectedCourseId === course.id;
+
+        return (
+          <button
+            key={course.id}
+            onClick={() => onSelect(isSelected ? null : course.id)}
+            title={course.name}
+            className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+              isSelected
+                ? `${color.badge} ring-2 ring-current`
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+          >
+            <span className={`w-2 h-2 rounded-full ${color.dot}`} />
+            {course.code}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,6 +1,12 @@
-import { X, Calendar, Tag, Clock, Crown, Download, CheckCircle2 } from 'lucide-react';
-import { parseLinks } from '../../utils/linkParser';
+import { X, Calendar, Tag, Clock, Crown, Download, CheckCircle2, Repeat, Paperclip, Trash2, Loader2, BookOpen } from 'lucide-react';
+import { RichText } from '../ui/RichText';
+import { useAuth } from '../../hooks/useAuth';
+import { useTaskAttachments } from '../../hooks/useTaskAttachments';
+import { showErrorToast } from '../../utils/notifications';
+import { formatFileSize } from '../../utils/stringUtils';
+import { describeRecurrence } from '../../utils/recurrence';
 import type { Task, TaskStatus } from '../../types';
+import type { TaskAttachment } from '../../types/task';
 
 interface TaskDetailsPopupProps {
   task: Task;
@@ -20,19 +26,21 @@ export function TaskDetailsPopup({
   const regularDescription = descriptionParts[0];
   const fileSection = descriptionParts[1]?.split('\n').filter(line => line.trim() && line.includes('](')) || [];
 
-  // Process description to preserve formatting while handling links
-  const processDescription = (text: string) => {
-    const paragraphs = text.split('\n\n').filter(p => p.trim());
-    return paragraphs.map(paragraph => {
-      const lines = paragraph.split('\n').filter(line => line !== undefined);
-      const parsedLines = lines.map(line => parseLinks(line));
-      return { lines: parsedLines };
-    });
-  };
-
-  const formattedDescription = processDescription(regularDescription);
   const overdue = new Date(task.dueDate) < new Date();
 
+  const { user } = useAuth();
+  const { attachments, loading: attachmentsLoading, deleteAttachment } = useTaskAttachments(task);
+
+  const handleDeleteAttachment = async (attachment: TaskAttachment) => {
+    if (!window.confirm(`Remove ${attachment.fileName}?`)) return;
+
+    try {
+      await deleteAttachment(attachment);
+    } catch {
+      showErrorToast('Failed to remove the attachment');
+    }
+  };
+
   const handleDownload = async (url: string, filename: string) => {
     try {
       window.open(url, '_blank', 'noopener,noreferrer');
@@ -129,6 +137,12 @@ export function TaskDetailsPopup({
               <Tag className="w-4 h-4" />
               <span className="capitalize">{task.category.replace('-', ' ')}</span>
             </div>
+            {task.course && (
+              <div className="flex items-center gap-1.5">
+                <BookOpen className="w-4 h-4" />
+                <span>{task.course.code} · {task.course.name}</span>
+              </div>
+            )}
             <div className="flex items-center gap-1.5">
               <Calendar className="w-4 h-4" />
               <span className={overdue ? 'text-red-600 dark:text-red-400 font-medium' : ''}>
@@ -140,6 +154,12 @@ export function TaskDetailsPopup({
                 {overdue && ' (Overdue)'}
               </span>
             </div>
+            {task.recurrence && (
+              <div className="flex items-center gap-1.5">
+                <Repeat className="w-4 h-4" />
+                <span>{describeRecurrence(task.recurrence)}</span>
+              </div>
+            )}
             <div className="flex items-center gap-1.5">
               <Clock className="w-4 h-4" />
               <span>
@@ -158,36 +178,66 @@ export function TaskDetailsPopup({
               <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-3">
                 Description
               </h3>
-              <div className="text-gray-600 dark:text-gray-300 whitespace-pre-wrap">
-                {formattedDescription.map((paragraph, pIndex) => (
-                  <div key={pIndex} className="mb-4 last:mb-0">
-                    {paragraph.lines.map((line, lIndex) => (
-                      <div key={lIndex} className="min-h-[1.5em]">
-                        {line.map((part, index) => 
-                          part.type === 'link' ? (
-                            <a
-                              key={index}
-                              href={part.content}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-blue-600 dark:text-blue-400 hover:underline break-all"
-                              onClick={(e) => e.stopPropagation()}
-                            >
-                              {part.content}
-                            </a>
-                          ) : (
-                            <span key={index}>{part.content}</span>
-                          )
+              <RichText text={regularDescription} className="text-gray-600 dark:text-gray-300" />
+            </div>
+          )}
+
+          {/* Attachments */}
+          {(attachmentsLoading || attachments.length > 0) && (
+            <div className="mt-6">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-3">
+                Attachments
+              </h3>
+              {attachmentsLoading ? (
+                <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Loading attachments...
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {attachments.map((attachment) => (
+                    <div
+                      key={attachment.id}
+                      className="flex items-center justify-between gap-3 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-xl hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors group"
+                    >
+                      <div className="flex items-center gap-3 min-w-0">
+                        <Paperclip className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                        <div className="min-w-0">
+                          <p className="text-sm text-gray-700 dark:text-gray-300 truncate">
+                            {attachment.fileName}
+                          </p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {formatFileSize(attachment.fileSize)}
+                            {attachment.mimeType && ` · ${attachment.mimeType}`}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        <button
+                          onClick={() => handleDownload(attachment.url, attachment.fileName)}
+                          className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                          title="Download file"
+                        >
+                          <Download className="w-4 h-4" />
+                        </button>
+                        {(user?.role === 'admin' || (user?.id && attachment.uploadedBy === user.id)) && (
+                          <button
+                            onClick={() => handleDeleteAttachment(attachment)}
+                            className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                            title="Remove attachment"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
                         )}
                       </div>
-                    ))}
-                  </div>
-                ))}
-              </div>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           )}
 
-          {/* Attached Files */}
+          {/* Files linked from the description before attachments were stored separately */}
           {fileSection.length > 0 && (
             <div className="mt-6">
               <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-3">
@@ -0,0 +1,264 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { fetchCourses } from '../../services/course.service';
+import { useOfflineStatus } from '../../hooks/useOfflineStatus';
+import { getAllFromIndexedDB, STORES } from '../../utils/offlineStorage';
+import { taskViewDateRangeLabels, taskViewStatusLabels } from '../../utils/taskViews';
+import type { Course } from '../../types/course';
+import type { TaskCategory } from '../../types/task';
+import type { NewTaskView, TaskViewDateRange, TaskViewStatus } from '../../types/taskView';
+
+interface TaskViewFormProps {
+  // The view being edited, or the filters a new view starts from
+  initialView: Partial<NewTaskView>;
+  isEditing?: boolean;
+  onSave: (view: NewTaskView) => Promise<void>;
+  onClose: () => void;
+}
+
+const categoryOptions: { value: TaskCategory; label: string }[] = [
+  { value: 'assignment', label: 'Assignment' },
+  { value: 'blc', label: 'BLC' },
+  { value: 'documents', label: 'Documents' },
+  { value: 'final-exam', label: 'Final Exam' },
+  { value: 'groups', label: 'Groups' },
+  { value: 'lab-final', label: 'Lab Final' },
+  { value: 'lab-performance', label: 'Lab Performance' },
+  { value: 'lab-report', label: 'Lab Report' },
+  { value: 'midterm', label: 'Midterm' },
+  { value: 'presentation', label: 'Presentation' },
+  { value: 'project', label: 'Project' },
+  { value: 'quiz', label: 'Quiz' },
+  { value: 'task', label: 'Task' },
+  { value: 'others', label: 'Others' }
+];
+
+export function TaskViewForm({ initialView, isEditing = false, onSave, onClose }: TaskViewFormProps) {
+  const [view, setView] = useState<NewTaskView>({
+    name: '',
+    status: 'all',
+    dateRange: 'any',
+    pinned: true,
+    ...initialView
+  });
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const isOffline = useOfflineStatus();
+
+  // Cached courses first, then fresh ones when online
+  useEffect(() => {
+    let cancelled = false;
+
+    getAllFromIndexedDB(STORES.COURSES)
+      .then(cached => {
+        if (!cancelled && cached.length > 0) setCourses(cached as Course[]);
+      })
+      .catch(err => console.error('Error loading cached courses:', err));
+
+    if (!isOffline) {
+      fetchCourses()
+        .then(fresh => {
+          if (!cancelled) setCourses(fresh);
+        })
+        .catch(() => {
+          // Cached courses are good enough to pick from
+        });
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOffline]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!view.name.trim()) {
+      setError('Give the view a name');
+      return;
+    }
+    if (view.dateRange === 'custom' && !view.from && !view.to) {
+      setError('Pick a start or end date for the custom range');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave({
+        ...view,
+        name: view.name.trim(),
+        query: view.query?.trim() || undefined,
+        from: view.dateRange === 'custom' ? view.from : undefined,
+        to: view.dateRange === 'custom' ? view.to : undefined
+      });
+      onClose();
+    } catch (err) {
+      setError((err as Error).message || 'Failed to save the view');
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 transition-opacity" onClick={onClose} />
+
+      <div className="fixed inset-x-4 top-[10%] md:inset-x-auto md:left-1/2 md:-translate-x-1/2 md:w-full md:max-w-lg bg-white dark:bg-gray-800 rounded-2xl shadow-xl z-50 max-h-[80vh] overflow-y-auto animate-scale-in">
+        <div className="flex items-center justify-between p-5 border-b dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            {isEditing ? 'Edit View' : 'Save View'}
+          </h2>
+          <button onClick={onClose} className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-5 space-y-4">
+          {error && (
+            <p className="p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 rounded-lg text-sm">{error}</p>
+          )}
+
+          <div>
+            <label className={labelClass}>Name</label>
+            <input
+              value={view.name}
+              onChange={(e) => setView(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="e.g., Lab reports due this week"
+              className={inputClass}
+              autoFocus
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Category</label>
+              <select
+                value={view.category || ''}
+                onChange={(e) => setView(prev => ({ ...prev, category: (e.target.value || undefined) as TaskCategory | undefined }))}
+                className={inputClass}
+              >
+                <option value="">Any category</option>
+                {categoryOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className={labelClass}>Status</label>
+              <select
+                value={view.status}
+                onChange={(e) => setView(prev => ({ ...prev, status: e.target.value as TaskViewStatus }))}
+                className={inputClass}
+              >
+                {(Object.keys(taskViewStatusLabels) as TaskViewStatus[]).map(status => (
+                  <option key={status} value={status}>{taskViewStatusLabels[status]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Due date</label>
+            <select
+              value={view.dateRange}
+              onChange={(e) => setView(prev => ({ ...prev, dateRange: e.target.value as TaskViewDateRange }))}
+              className={inputClass}
+            >
+              {(Object.keys(taskViewDateRangeLabels) as TaskViewDateRange[]).map(range => (
+                <option key={range} value={range}>{taskViewDateRangeLabels[range]}</option>
+              ))}
+            </select>
+          </div>
+
+          {view.dateRange === 'custom' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>From</label>
+                <input
+                  type="date"
+                  value={view.from || ''}
+                  onChange={(e) => setView(prev => ({ ...prev, from: e.target.value || undefined }))}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>To</label>
+                <input
+                  type="date"
+                  value={view.to || ''}
+                  min={view.from}
+                  onChange={(e) => setView(prev => ({ ...prev, to: e.target.value || undefined }))}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className={labelClass}>Course</label>
+            <select
+              value={view.course?.id || ''}
+              onChange={(e) => {
+                const course = courses.find(c => c.id === e.target.value);
+                setView(prev => ({
+                  ...prev,
+                  course: course ? { id: course.id, code: course.code, name: course.name } : undefined
+                }));
+              }}
+              className={inputClass}
+            >
+              <option value="">Any course</option>
+              {/* Keep the saved course selectable even if it isn't cached on this device */}
+              {view.course && !courses.some(c => c.id === view.course?.id) && (
+                <option value={view.course.id}>{view.course.code} · {view.course.name}</option>
+              )}
+              {courses.map(course => (
+                <option key={course.id} value={course.id}>{course.code} · {course.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className={labelClass}>Text</label>
+            <input
+              value={view.query || ''}
+              onChange={(e) => setView(prev => ({ ...prev, query: e.target.value }))}
+              placeholder="Words the task name or description contains"
+              className={inputClass}
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={view.pinned}
+              onChange={(e) => setView(prev => ({ ...prev, pinned: e.target.checked }))}
+            />
+            Pin to the home screen
+          </label>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-xl"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-xl"
+            >
+              {isEditing ? 'Save Changes' : 'Save View'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,164 @@
+import { useMemo, useState } from 'react';
+import { Bookmark, ChevronDown, ChevronUp, Pencil, Pin, PinOff, Plus, Trash2 } from 'lucide-react';
+import { TaskViewForm } from './TaskViewForm';
+import { describeTaskView, filterTasksByView } from '../../utils/taskViews';
+import type { Task } from '../../types/task';
+import type { NewTaskView, TaskView } from '../../types/taskView';
+
+interface TaskViewsProps {
+  views: TaskView[];
+  tasks: Task[];
+  activeViewId: string | null;
+  // Filters currently applied on the home screen, used as the starting point of a new view
+  currentFilters: Partial<NewTaskView>;
+  onSelectView: (viewId: string | null) => void;
+  onCreateView: (view: NewTaskView) => Promise<TaskView>;
+  onUpdateView: (id: string, updates: Partial<NewTaskView>) => Promise<void>;
+  onDeleteView: (id: string) => Promise<void>;
+}
+
+export function TaskViews({
+  views,
+  tasks,
+  activeViewId,
+  currentFilters,
+  onSelectView,
+  onCreateView,
+  onUpdateView,
+  onDeleteView
+}: TaskViewsProps) {
+  const [showAll, setShowAll] = useState(false);
+  const [editingView, setEditingView] = useState<TaskView | 'new' | null>(null);
+
+  const counts = useMemo(
+    () => new Map(views.map(view => [view.id, filterTasksByView(tasks, view).length])),
+    [views, tasks]
+  );
+
+  const activeView = views.find(view => view.id === activeViewId);
+  const hasUnpinned = views.some(view => !view.pinned);
+
+  // Unpinned views only show when expanded, or while they're the one being looked at
+  const visibleViews = views.filter(view => showAll || view.pinned || view.id === activeViewId);
+
+  const handleDelete = async (view: TaskView) => {
+    if (!window.confirm(`Delete the view "${view.name}"?`)) return;
+    if (view.id === activeViewId) onSelectView(null);
+    await onDeleteView(view.id);
+  };
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">My Views</h2>
+        <div className="flex items-center gap-2">
+          {hasUnpinned && (
+            <button
+              onClick={() => setShowAll(!showAll)}
+              className="flex items-center gap-1 sm:gap-1.5 px-2 sm:px-3 py-1 sm:py-1.5
+                text-xs sm:text-sm font-medium text-blue-600 dark:text-blue-400
+                bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/30
+                rounded-full transition-all duration-200"
+            >
+              <span>{showAll ? 'Pinned Only' : 'All Views'}</span>
+              {showAll ? <ChevronUp className="w-3.5 h-3.5 sm:w-4 sm:h-4" /> : <ChevronDown className="w-3.5 h-3.5 sm:w-4 sm:h-4" />}
+            </button>
+          )}
+          <button
+            onClick={() => setEditingView('new')}
+            className="flex items-center gap-1 sm:gap-1.5 px-2 sm:px-3 py-1 sm:py-1.5
+              text-xs sm:text-sm font-medium text-blue-600 dark:text-blue-400
+              bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/30
+              rounded-full transition-all duration-200"
+          >
+            <Plus className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+            <span>Save View</span>
+          </button>
+        </div>
+      </div>
+
+      {visibleViews.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {views.length === 0
+            ? 'Save the filters you use often, like "Lab reports due this week", to get back to them in one tap.'
+            : 'No pinned views. Pin a view to keep it here.'}
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-3 gap-3">
+          {visibleViews.map(view => (
+            <button
+              key={view.id}
+              onClick={() => onSelectView(view.id === activeViewId ? null : view.id)}
+              title={describeTaskView(view)}
+              className={`
+                group flex items-center gap-2 p-3 rounded-xl transition-all duration-200
+                ${view.id === activeViewId
+                  ? 'bg-blue-600 text-white shadow-lg scale-[1.02]'
+                  : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                }
+                hover:shadow-md hover:-translate-y-0.5
+              `}
+            >
+              <div className={`
+                p-2 rounded-lg transition-colors duration-200
+                ${view.id === activeViewId
+                  ? 'bg-blue-500/20'
+                  : 'bg-blue-50 dark:bg-blue-900/20 group-hover:bg-blue-100 dark:group-hover:bg-blue-900/30'
+                }
+              `}>
+                <Bookmark className="w-5 h-5" />
+              </div>
+              <div className="flex-1 min-w-0 text-left">
+                <div className="text-sm font-medium truncate">{view.name}</div>
+                <div className="text-xs opacity-80">{counts.get(view.id) || 0} tasks</div>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {activeView && (
+        <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+          <span className="text-gray-500 dark:text-gray-400 mr-auto">{describeTaskView(activeView) || 'All tasks'}</span>
+          <button
+            onClick={() => setEditingView(activeView)}
+            className="flex items-center gap-1 px-2.5 py-1 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+          >
+            <Pencil className="w-3.5 h-3.5" />
+            Edit
+          </button>
+          <button
+            onClick={() => onUpdateView(activeView.id, { pinned: !activeView.pinned })}
+            className="flex items-center gap-1 px-2.5 py-1 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+          >
+            {activeView.pinned ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+            {activeView.pinned ? 'Unpin' : 'Pin'}
+          </button>
+          <button
+            onClick={() => handleDelete(activeView)}
+            className="flex items-center gap-1 px-2.5 py-1 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            Delete
+          </button>
+        </div>
+      )}
+
+      {editingView && (
+        <TaskViewForm
+          initialView={editingView === 'new' ? currentFilters : editingView}
+          isEditing={editingView !== 'new'}
+          onSave={async (view) => {
+            if (editingView === 'new') {
+              const created = await onCreateView(view);
+              onSelectView(created.id);
+            } else {
+              await onUpdateView(editingView.id, view);
+            }
+          }}
+          onClose={() => setEditingView(null)}
+        />
+      )}
+    </div>
+  );
+}
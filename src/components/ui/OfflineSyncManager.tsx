@@ -1,12 +1,17 @@
 import { useEffect, useState } from 'react';
 import { useOfflineStatus } from '../../hooks/useOfflineStatus';
-import { Wifi, RefreshCw } from 'lucide-react';
+import { Wifi, RefreshCw, AlertCircle } from 'lucide-react';
+import { PendingChangesList } from './PendingChangesList';
+import type { OutboxOperation } from '../../types/outbox';
 
 interface OfflineSyncManagerProps {
   onSync: () => Promise<void>;
+  operations?: OutboxOperation[];
+  onRetry?: (operation: OutboxOperation) => Promise<void>;
+  onDiscard?: (operation: OutboxOperation) => Promise<void>;
 }
 
-export function OfflineSyncManager({ onSync }: OfflineSyncManagerProps) {
+export function OfflineSyncManager({ onSync, operations = [], onRetry, onDiscard }: OfflineSyncManagerProps) {
   const isOffline = useOfflineStatus();
   const [isSyncing, setIsSyncing] = useState(false);
   const [wasOffline, setWasOffline] = useState(false);
@@ -38,39 +43,60 @@ export function OfflineSyncManager({ onSync }: OfflineSyncManagerProps) {
     }
   };
 
-  if (!showSyncPrompt) return null;
+  const failedCount = operations.filter(operation => operation.status === 'failed').length;
+  const showFailures = !isOffline && failedCount > 0;
+
+  if (!showSyncPrompt && !showFailures) return null;
 
   return (
     <div className="fixed bottom-24 left-1/2 transform -translate-x-1/2 z-50 
+                    w-[calc(100%-2rem)] max-w-sm
                     bg-white dark:bg-gray-800 shadow-lg rounded-lg p-4 
-                    flex items-center gap-3 animate-slide-up">
-      <div className="flex-shrink-0 text-green-500">
-        <Wifi className="h-5 w-5" />
-      </div>
-      <div className="flex-1">
-        <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
-          You're back online! Sync your changes?
-        </p>
-      </div>
-      <button
-        onClick={handleSync}
-        disabled={isSyncing}
-        className="flex items-center gap-1 bg-indigo-600 hover:bg-indigo-700 
-                   text-white px-3 py-1 rounded-md text-sm font-medium
-                   disabled:opacity-50 disabled:cursor-not-allowed"
-      >
-        {isSyncing ? (
-          <>
-            <RefreshCw className="h-4 w-4 animate-spin" />
-            Syncing...
-          </>
+                    animate-slide-up">
+        <div className="flex items-center gap-3">
+        {showSyncPrompt ? (
+          <div className="flex-shrink-0 text-green-500">
+            <Wifi className="h-5 w-5" />
+          </div>
         ) : (
-          <>
-            <RefreshCw className="h-4 w-4" />
-            Sync
-          </>
+          <div className="flex-shrink-0 text-red-500">
+            <AlertCircle className="h-5 w-5" />
+          </div>
         )}
-      </button>
+        <div className="flex-1">
+          <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+            {showSyncPrompt
+              ? "You're back online! Sync your changes?"
+              : `${failedCount} change${failedCount === 1 ? '' : 's'} couldn't be synced`}
+          </p>
+        </div>
+        {showSyncPrompt && (
+          <button
+            onClick={handleSync}
+            disabled={isSyncing}
+            className="flex items-center gap-1 bg-indigo-600 hover:bg-indigo-700 
+                       text-white px-3 py-1 rounded-md text-sm font-medium
+                       disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSyncing ? (
+              <>
+                <RefreshCw className="h-4 w-4 animate-spin" />
+                Syncing...
+              </>
+            ) : (
+              <>
+                <RefreshCw className="h-4 w-4" />
+                Sync
+              </>
+            )}
+          </button>
+        )}
+      </div>
+      {operations.length > 0 && (
+        <div className="mt-3">
+          <PendingChangesList operations={operations} onRetry={onRetry} onDiscard={onDiscard} />
+        </div>
+      )}
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { AlertCircle, Clock, RotateCcw, X } from 'lucide-react';
+import type { OutboxOperation } from '../../types/outbox';
+
+interface PendingChangesListProps {
+  operations: OutboxOperation[];
+  onRetry?: (operation: OutboxOperation) => void;
+  onDiscard?: (operation: OutboxOperation) => void;
+}
+
+const ACTION_LABELS: Record<OutboxOperation['type'], string> = {
+  create: 'New task',
+  update: 'Edited',
+  delete: 'Deleted'
+};
+
+export function PendingChangesList({ operations, onRetry, onDiscard }: PendingChangesListProps) {
+  if (operations.length === 0) return null;
+
+  return (
+    <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+      {operations.map(operation => {
+        const failed = operation.status === 'failed';
+
+        return (
+          <li key={operation.id} className="flex items-start gap-2 py-2">
+            <div className={`flex-shrink-0 mt-0.5 ${failed ? 'text-red-500' : 'text-amber-500'}`}>
+              {failed ? <AlertCircle className="h-4 w-4" /> : <Clock className="h-4 w-4" />}
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-gray-900 dark:text-gray-100 truncate">
+                <span className="text-gray-500 dark:text-gray-400">{ACTION_LABELS[operation.type]}:</span>{' '}
+                {operation.label}
+              </p>
+              {operation.error && (
+                <p className={`text-xs ${failed ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                  {failed ? operation.error : `Retrying: ${operation.error}`}
+                </p>
+              )}
+            </div>
+            {failed && onRetry && (
+              <button
+                onClick={() => onRetry(operation)}
+                className="p-1 text-gray-500 hover:text-indigo-600 dark:text-gray-400 dark:hover:text-indigo-400"
+                title="Retry"
+              >
+                <RotateCcw className="h-4 w-4" />
+              </button>
+            )}
+            {onDiscard && (
+              <button
+                onClick={() => onDiscard(operation)}
+                className="p-1 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                title="Discard change"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
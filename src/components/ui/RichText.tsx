@@ -0,0 +1,119 @@
+import { useMemo, type ReactNode } from 'react';
+import { CheckSquare, Square } from 'lucide-react';
+import { parseRichText, type RichTextInline } from '../../utils/richText';
+
+interface RichTextProps {
+  text: string;
+  className?: string;
+}
+
+const HEADING_CLASSES = {
+  1: 'text-lg font-semibold text-gray-900 dark:text-white',
+  2: 'text-base font-semibold text-gray-900 dark:text-white',
+  3: 'text-sm font-semibold text-gray-900 dark:text-white'
+};
+
+function renderInline(nodes: RichTextInline[]): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <span key={index}>{node.text}</span>;
+      case 'code':
+        return (
+          <code key={index} className="px-1 py-0.5 rounded bg-gray-100 dark:bg-gray-700 font-mono text-[0.9em]">
+            {node.text}
+          </code>
+        );
+      case 'bold':
+        return <strong key={index} className="font-semibold">{renderInline(node.children)}</strong>;
+      case 'italic':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-600 dark:text-blue-400 hover:underline break-all"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
+
+/**
+ * Renders task descriptions, announcements and other user text with basic
+ * markdown formatting. See utils/richText for the supported syntax.
+ */
+export function RichText({ text, className = '' }: RichTextProps) {
+  const blocks = useMemo(() => parseRichText(text), [text]);
+
+  return (
+    <div className={`space-y-2 break-words ${className}`}>
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'heading': {
+            const Heading = `h${block.level + 2}` as 'h3' | 'h4' | 'h5';
+            return (
+              <Heading key={index} className={HEADING_CLASSES[block.level]}>
+                {renderInline(block.children)}
+              </Heading>
+            );
+          }
+          case 'paragraph':
+            return (
+              <p key={index}>
+                {block.lines.map((line, lineIndex) => (
+                  <span key={lineIndex}>
+                    {lineIndex > 0 && <br />}
+                    {renderInline(line)}
+                  </span>
+                ))}
+              </p>
+            );
+          case 'list': {
+            const items = block.items.map((item, itemIndex) => (
+              item.checked === undefined ? (
+                <li key={itemIndex}>{renderInline(item.children)}</li>
+              ) : (
+                <li key={itemIndex} className="flex items-start gap-2 list-none -ml-5">
+                  {item.checked ? (
+                    <CheckSquare className="w-4 h-4 mt-0.5 flex-shrink-0 text-green-600 dark:text-green-400" />
+                  ) : (
+                    <Square className="w-4 h-4 mt-0.5 flex-shrink-0 text-gray-400" />
+                  )}
+                  <span className={item.checked ? 'line-through text-gray-400 dark:text-gray-500' : ''}>
+                    {renderInline(item.children)}
+                  </span>
+                </li>
+              )
+            ));
+
+            return block.ordered ? (
+              <ol key={index} start={block.start} className="list-decimal pl-5 space-y-1">
+                {items}
+              </ol>
+            ) : (
+              <ul key={index} className="list-disc pl-5 space-y-1">
+                {items}
+              </ul>
+            );
+          }
+          case 'code':
+            return (
+              <pre
+                key={index}
+                className="p-3 rounded-lg bg-gray-100 dark:bg-gray-800 text-sm font-mono overflow-x-auto whitespace-pre"
+              >
+                <code>{block.text}</code>
+              </pre>
+            );
+        }
+      })}
+    </div>
+  );
+}
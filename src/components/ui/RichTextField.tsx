@@ -0,0 +1,60 @@
+import { useState, type ReactNode } from 'react';
+import { RichText } from './RichText';
+
+interface RichTextFieldProps {
+  label: string;
+  value: string;
+  /** The textarea used to write the text */
+  children: ReactNode;
+}
+
+/**
+ * Wraps a form textarea with Write / Preview tabs, so the markdown can be
+ * checked the way RichText will show it before saving
+ */
+export function RichTextField({ label, value, children }: RichTextFieldProps) {
+  const [showPreview, setShowPreview] = useState(false);
+
+  const tabClassName = (active: boolean) => `px-2.5 py-1 text-xs font-medium rounded-lg transition-colors ${
+    active
+      ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400'
+      : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+  }`;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1.5">
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          {label}
+        </label>
+        <div className="flex gap-1">
+          <button type="button" onClick={() => setShowPreview(false)} className={tabClassName(!showPreview)}>
+            Write
+          </button>
+          <button type="button" onClick={() => setShowPreview(true)} className={tabClassName(showPreview)}>
+            Preview
+          </button>
+        </div>
+      </div>
+
+      {/* Kept mounted so the textarea's required check still runs on submit */}
+      <div className={showPreview ? 'hidden' : ''}>
+        {children}
+      </div>
+
+      {showPreview && (
+        <div className="min-h-[8rem] px-4 py-2.5 border dark:border-gray-600 rounded-xl bg-gray-50 dark:bg-gray-700/50">
+          {value.trim() ? (
+            <RichText text={value} className="text-sm text-gray-700 dark:text-gray-200" />
+          ) : (
+            <p className="text-sm text-gray-400 dark:text-gray-500">Nothing to preview</p>
+          )}
+        </div>
+      )}
+
+      <p className="mt-1 text-xs text-gray-400 dark:text-gray-500">
+        Supports **bold**, *italic*, `code`, [links](https://…), # headings, - lists and - [ ] checklists
+      </p>
+    </div>
+  );
+}
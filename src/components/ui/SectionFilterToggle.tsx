@@ -0,0 +1,43 @@
+import { Users } from 'lucide-react';
+
+interface SectionFilterToggleProps {
+  section?: string;
+  showAll: boolean;
+  onChange: (showAll: boolean) => void;
+}
+
+/**
+ * Switches between a student's own section and every section.
+ * Renders nothing for users who haven't picked a section.
+ */
+export function SectionFilterToggle({ section, showAll, onChange }: SectionFilterToggleProps) {
+  if (!section) return null;
+
+  return (
+    <div className="inline-flex items-center p-1 bg-gray-100 dark:bg-gray-800 rounded-xl text-sm">
+      <button
+        type="button"
+        onClick={() => onChange(false)}
+        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg transition-colors ${
+          !showAll
+            ? 'bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-400 shadow-sm'
+            : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+        }`}
+      >
+        <Users className="w-4 h-4" />
+        Section {section}
+      </button>
+      <button
+        type="button"
+        onClick={() => onChange(true)}
+        className={`px-3 py-1.5 rounded-lg transition-colors ${
+          showAll
+            ? 'bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-400 shadow-sm'
+            : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+        }`}
+      >
+        All Sections
+      </button>
+    </div>
+  );
+}
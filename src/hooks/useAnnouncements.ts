@@ -3,6 +3,8 @@ import { supabase } from '../lib/supabase';
 import { 
   fetchAnnouncements, 
   createAnnouncement, 
+  updateAnnouncement,
+  publishAnnouncement,
   deleteAnnouncement 
 } from '../services/announcement.service';
 import type { Announcement, NewAnnouncement } from '../types/announcement';
@@ -59,6 +61,28 @@ export function useAnnouncements() {
     }
   };
 
+  const handleUpdateAnnouncement = async (id: string, updates: Partial<NewAnnouncement>) => {
+    try {
+      setError(null);
+      await updateAnnouncement(id, updates);
+      await loadAnnouncements();
+    } catch (err: any) {
+      setError(err.message);
+      throw err;
+    }
+  };
+
+  const handlePublishAnnouncement = async (id: string) => {
+    try {
+      setError(null);
+      await publishAnnouncement(id);
+      await loadAnnouncements();
+    } catch (err: any) {
+      setError(err.message);
+      throw err;
+    }
+  };
+
   const handleDeleteAnnouncement = async (id: string) => {
     try {
       setError(null);
@@ -75,6 +99,8 @@ export function useAnnouncements() {
     loading,
     error,
     createAnnouncement: handleCreateAnnouncement,
+    updateAnnouncement: handleUpdateAnnouncement,
+    publishAnnouncement: handlePublishAnnouncement,
     deleteAnnouncement: handleDeleteAnnouncement,
   };
 }
\ No newline at end of file
@@ -57,6 +57,9 @@ export function useAuth() {
         email: authUser.email!,
         name: authUser.user_metadata?.name || authUser.email?.split('@')[0] || '',
         role: authUser.user_metadata?.role || 'user',
+        department: authUser.user_metadata?.department || undefined,
+        batch: authUser.user_metadata?.batch || undefined,
+        section: authUser.user_metadata?.section || undefined,
         createdAt: authUser.created_at,
       });
     } catch (err) {
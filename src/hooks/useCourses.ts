@@ -9,9 +9,11 @@ import {
   createStudyMaterial,
   updateStudyMaterial,
   deleteStudyMaterial,
-  bulkImportCourses
+  bulkImportCourses,
+  syncCourseClassTimes
 } from '../services/course.service';
 import type { Course, NewCourse, StudyMaterial, NewStudyMaterial } from '../types/course';
+import type { BulkImportOptions, BulkImportResult } from '../types/bulkImport';
 import { useOfflineStatus } from './useOfflineStatus';
 import { 
   saveToIndexedDB, 
@@ -304,7 +306,10 @@ export function useCourses() {
   };
 
   // Add the bulk import handler
-  const handleBulkImportCourses = async (courses: NewCourse[]): Promise<{ success: number; errors: any[] }> => {
+  const handleBulkImportCourses = async (
+    courses: NewCourse[],
+    options?: BulkImportOptions
+  ): Promise<BulkImportResult> => {
     try {
       if (isOffline) {
         return {
@@ -314,7 +319,7 @@ export function useCourses() {
       }
       
       // Process the bulk import
-      const result = await bulkImportCourses(courses);
+      const result = await bulkImportCourses(courses, options);
       
       // Refresh the courses list
       await loadCourses(true);
@@ -329,6 +334,22 @@ export function useCourses() {
     }
   };
 
+  // Rewrite class times from the active routines
+  const handleSyncClassTimes = async (courseIds?: string[]): Promise<number> => {
+    if (isOffline) {
+      throw new Error('Syncing class times is not available in offline mode');
+    }
+
+    try {
+      const updated = await syncCourseClassTimes(courseIds);
+      await loadCourses(true);
+      return updated;
+    } catch (err) {
+      setError((err as Error).message);
+      throw err;
+    }
+  };
+
   return {
     courses,
     materials,
@@ -341,6 +362,7 @@ export function useCourses() {
     updateMaterial: handleUpdateMaterial,
     deleteMaterial: handleDeleteMaterial,
     bulkImportCourses: handleBulkImportCourses,
+    syncClassTimes: handleSyncClassTimes,
     refreshCourses: () => loadCourses(true),
     refreshMaterials: () => loadMaterials(true),
     isOffline
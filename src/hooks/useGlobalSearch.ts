@@ -0,0 +1,125 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { fetchCourses, fetchStudyMaterials } from '../services/course.service';
+import { fetchTeachers } from '../services/teacher.service';
+import { fetchAnnouncements } from '../services/announcement.service';
+import type { Task } from '../types/task';
+import type { SearchResult, SearchSources } from '../types/search';
+import { useOfflineStatus } from './useOfflineStatus';
+import { saveToIndexedDB, getAllFromIndexedDB, clearIndexedDBStore, STORES } from '../utils/offlineStorage';
+import { buildSearchDocuments, searchDocuments } from '../utils/search';
+
+type CachedSources = Omit<SearchSources, 'tasks'>;
+
+const EMPTY_SOURCES: CachedSources = {
+  courses: [],
+  materials: [],
+  teachers: [],
+  announcements: []
+};
+
+async function readStore<T>(storeName: string): Promise<T[]> {
+  try {
+    return await getAllFromIndexedDB(storeName) as T[];
+  } catch (err) {
+    console.error(`Error reading ${storeName} for search:`, err);
+    return [];
+  }
+}
+
+async function loadCachedSources(): Promise<CachedSources> {
+  const [courses, materials, teachers, announcements] = await Promise.all([
+    readStore<CachedSources['courses'][number]>(STORES.COURSES),
+    readStore<CachedSources['materials'][number]>(STORES.MATERIALS),
+    readStore<CachedSources['teachers'][number]>(STORES.TEACHERS),
+    readStore<CachedSources['announcements'][number]>(STORES.ANNOUNCEMENTS)
+  ]);
+
+  return { courses, materials, teachers, announcements };
+}
+
+/**
+ * Fetches fresh data and caches it for offline search.
+ * Anything that fails to load falls back to the cached copy.
+ */
+async function loadFreshSources(cached: CachedSources): Promise<CachedSources> {
+  const [courses, materials, teachers, announcements] = await Promise.allSettled([
+    fetchCourses(),
+    fetchStudyMaterials(),
+    fetchTeachers(),
+    fetchAnnouncements()
+  ]);
+
+  const fresh: CachedSources = {
+    courses: courses.status === 'fulfilled' ? courses.value : cached.courses,
+    materials: materials.status === 'fulfilled' ? materials.value : cached.materials,
+    teachers: teachers.status === 'fulfilled' ? teachers.value : cached.teachers,
+    // fetchAnnouncements returns an empty list when it fails, so that doesn't wipe the cache
+    announcements: announcements.status === 'fulfilled' && announcements.value.length > 0
+      ? announcements.value
+      : cached.announcements
+  };
+
+  try {
+    // Courses, materials and teachers may hold changes made offline, so those are only added to
+    await Promise.all([
+      saveToIndexedDB(STORES.COURSES, fresh.courses),
+      saveToIndexedDB(STORES.MATERIALS, fresh.materials),
+      saveToIndexedDB(STORES.TEACHERS, fresh.teachers)
+    ]);
+    await clearIndexedDBStore(STORES.ANNOUNCEMENTS);
+    await saveToIndexedDB(STORES.ANNOUNCEMENTS, fresh.announcements);
+  } catch (err) {
+    console.error('Error caching search data:', err);
+  }
+
+  return fresh;
+}
+
+/**
+ * Searches tasks, courses, study materials, teachers and announcements.
+ * Searches cached data right away and offline, and refreshes it when online.
+ */
+export function useGlobalSearch(tasks: Task[]) {
+  const [sources, setSources] = useState<CachedSources>(EMPTY_SOURCES);
+  const [loading, setLoading] = useState(true);
+  const isOffline = useOfflineStatus();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSources = async () => {
+      setLoading(true);
+
+      const cached = await loadCachedSources();
+      if (cancelled) return;
+      setSources(cached);
+
+      if (!isOffline) {
+        const fresh = await loadFreshSources(cached);
+        if (cancelled) return;
+        setSources(fresh);
+      }
+
+      setLoading(false);
+    };
+
+    loadSources();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOffline]);
+
+  const documents = useMemo(() => buildSearchDocuments({ tasks, ...sources }), [tasks, sources]);
+
+  const search = useCallback(
+    (query: string): SearchResult[] => searchDocuments(documents, query),
+    [documents]
+  );
+
+  return {
+    search,
+    loading,
+    isOffline
+  };
+}
@@ -1,206 +1,185 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
-import type { Task } from '../types';
-import type { Announcement } from '../types/announcement';
-
-export interface Notification {
-  id: string;
-  title: string;
-  message: string;
-  timestamp: Date;
-  read: boolean;
-  taskId?: string;
-  announcementId?: string;
-  isAdminTask: boolean;
-  isAnnouncement: boolean;
-}
+import {
+  NOTIFICATIONS_PAGE_SIZE,
+  archiveNotification,
+  fetchNotifications,
+  fetchUnreadNotificationCount,
+  mapNotificationFromDB,
+  markAllNotificationsRead,
+  markNotificationRead,
+  type NotificationRow
+} from '../services/notification.service';
+import type { Notification } from '../types/notification';
+
+export type { Notification } from '../types/notification';
 
 export function useNotifications(userId: string | undefined) {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
 
-  const sortNotifications = (notifs: Notification[]): Notification[] => {
-    return [...notifs].sort((a, b) => {
-      if (a.read !== b.read) return a.read ? 1 : -1;
-      return b.timestamp.getTime() - a.timestamp.getTime();
-    });
-  };
-
-  useEffect(() => {
+  const refreshUnreadCount = useCallback(async () => {
     if (!userId) return;
 
-    const loadExistingItems = async () => {
-      const [{ data: tasks }, { data: announcements }] = await Promise.all([
-        supabase
-          .from('tasks')
-          .select('*')
-          .or(`user_id.eq.${userId},is_admin_task.eq.true`)
-          .order('created_at', { ascending: false }),
-        supabase
-          .from('announcements')
-          .select('*')
-          .order('created_at', { ascending: false })
-      ]);
-
-      const newNotifications: Notification[] = [];
-
-      if (tasks) {
-        tasks.forEach(task => {
-          newNotifications.push({
-            id: crypto.randomUUID(),
-            title: task.is_admin_task ? 'New Admin Task' : 'New Task',
-            message: `Task "${task.name}" has been created`,
-            timestamp: new Date(task.created_at),
-            read: false,
-            taskId: task.id,
-            isAdminTask: task.is_admin_task,
-            isAnnouncement: false
-          });
-        });
-      }
+    try {
+      setUnreadCount(await fetchUnreadNotificationCount(userId));
+    } catch {
+      // Keep the last known count; the next change will refresh it
+    }
+  }, [userId]);
 
-      if (announcements) {
-        announcements.forEach(announcement => {
-          newNotifications.push({
-            id: crypto.randomUUID(),
-            title: announcement.title,
-            message: announcement.content, // Use the content field from announcement
-            timestamp: new Date(announcement.created_at),
-            read: false,
-            announcementId: announcement.id,
-            isAdminTask: false,
-            isAnnouncement: true
-          });
-        });
-      }
+  useEffect(() => {
+    if (!userId) {
+      setNotifications([]);
+      setUnreadCount(0);
+      setHasMore(false);
+      return;
+    }
 
-      const sortedNotifications = sortNotifications(newNotifications);
-      setNotifications(sortedNotifications);
-      setUnreadCount(newNotifications.filter(n => !n.read).length);
+    const loadFirstPage = async () => {
+      setLoading(true);
+      try {
+        const [page, count] = await Promise.all([
+          fetchNotifications(userId),
+          fetchUnreadNotificationCount(userId)
+        ]);
+        setNotifications(page);
+        setUnreadCount(count);
+        setHasMore(page.length === NOTIFICATIONS_PAGE_SIZE);
+      } catch (error) {
+        console.error('Error loading notifications:', error);
+      } finally {
+        setLoading(false);
+      }
     };
 
-    loadExistingItems();
+    loadFirstPage();
 
-    const taskSubscription = supabase
-      .channel('tasks')
+    // Rows are created by database triggers; read state may change on another device
+    const subscription = supabase
+      .channel(`notifications-${userId}`)
       .on(
         'postgres_changes',
         {
           event: 'INSERT',
           schema: 'public',
-          table: 'tasks',
+          table: 'notifications',
           filter: `user_id=eq.${userId}`
         },
         (payload) => {
-          handleNewTask(payload.new as any);
+          const notification = mapNotificationFromDB(payload.new as NotificationRow);
+          setNotifications(prev =>
+            prev.some(n => n.id === notification.id) ? prev : [notification, ...prev]
+          );
+          refreshUnreadCount();
         }
       )
       .on(
         'postgres_changes',
         {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'tasks',
-          filter: 'is_admin_task=eq.true'
-        },
-        (payload) => {
-          handleNewTask(payload.new as any);
-        }
-      )
-      .subscribe();
-
-    const announcementSubscription = supabase
-      .channel('announcements')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
+          event: 'UPDATE',
           schema: 'public',
-          table: 'announcements'
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`
         },
         (payload) => {
-          handleNewAnnouncement(payload.new as any);
+          const updated = payload.new as NotificationRow;
+          const notification = mapNotificationFromDB(updated);
+          setNotifications(prev =>
+            updated.archived_at
+              ? prev.filter(n => n.id !== notification.id)
+              : prev.map(n => n.id === notification.id ? notification : n)
+          );
+          refreshUnreadCount();
         }
       )
       .subscribe();
 
     return () => {
-      taskSubscription.unsubscribe();
-      announcementSubscription.unsubscribe();
+      subscription.unsubscribe();
     };
-  }, [userId]);
-
-  const handleNewTask = (task: any) => {
-    if (task.is_admin_task || task.user_id === userId) {
-      const notification: Notification = {
-        id: crypto.randomUUID(),
-        title: task.is_admin_task ? 'New Admin Task' : 'New Task',
-        message: `Task "${task.name}" has been created`,
-        timestamp: new Date(),
-        read: false,
-        taskId: task.id,
-        isAdminTask: task.is_admin_task,
-        isAnnouncement: false
-      };
-
-      setNotifications(prev => sortNotifications([notification, ...prev]));
-      setUnreadCount(prev => prev + 1);
+  }, [userId, refreshUnreadCount]);
+
+  const loadMore = async () => {
+    if (!userId || loading || !hasMore || notifications.length === 0) return;
+
+    setLoading(true);
+    try {
+      const oldest = notifications[notifications.length - 1];
+      const page = await fetchNotifications(userId, oldest.timestamp);
+      setNotifications(prev => [...prev, ...page.filter(n => !prev.some(p => p.id === n.id))]);
+      setHasMore(page.length === NOTIFICATIONS_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading more notifications:', error);
+    } finally {
+      setLoading(false);
     }
   };
 
-  const handleNewAnnouncement = (announcement: any) => {
-    const notification: Notification = {
-      id: crypto.randomUUID(),
-      title: announcement.title,
-      message: announcement.content, // Use the content field from announcement
-      timestamp: new Date(),
-      read: false,
-      announcementId: announcement.id,
-      isAdminTask: false,
-      isAnnouncement: true
-    };
-
-    setNotifications(prev => sortNotifications([notification, ...prev]));
-    setUnreadCount(prev => prev + 1);
-  };
+  const markAsRead = async (notificationId: string) => {
+    const notification = notifications.find(n => n.id === notificationId);
+    if (!notification || notification.read) return;
 
-  const markAsRead = (notificationId: string) => {
-    setNotifications(prev => 
-      sortNotifications(
-        prev.map(notification =>
-          notification.id === notificationId
-            ? { ...notification, read: true }
-            : notification
-        )
-      )
+    setNotifications(prev =>
+      prev.map(n => n.id === notificationId ? { ...n, read: true } : n)
     );
     setUnreadCount(prev => Math.max(0, prev - 1));
+
+    try {
+      await markNotificationRead(notificationId);
+    } catch {
+      setNotifications(prev =>
+        prev.map(n => n.id === notificationId ? { ...n, read: false } : n)
+      );
+      refreshUnreadCount();
+    }
   };
 
-  const markAllAsRead = () => {
-    setNotifications(prev =>
-      sortNotifications(
-        prev.map(notification => ({ ...notification, read: true }))
-      )
-    );
+  const markAllAsRead = async () => {
+    if (!userId) return;
+
+    const previous = notifications;
+    setNotifications(prev => prev.map(n => ({ ...n, read: true })));
     setUnreadCount(0);
+
+    try {
+      await markAllNotificationsRead(userId);
+    } catch {
+      setNotifications(previous);
+      refreshUnreadCount();
+    }
   };
 
-  const clearNotification = (notificationId: string) => {
-    setNotifications(prev => {
-      const notification = prev.find(n => n.id === notificationId);
-      if (notification && !notification.read) {
-        setUnreadCount(count => Math.max(0, count - 1));
-      }
-      return sortNotifications(prev.filter(n => n.id !== notificationId));
-    });
+  const clearNotification = async (notificationId: string) => {
+    const notification = notifications.find(n => n.id === notificationId);
+    if (!notification) return;
+
+    setNotifications(prev => prev.filter(n => n.id !== notificationId));
+    if (!notification.read) {
+      setUnreadCount(prev => Math.max(0, prev - 1));
+    }
+
+    try {
+      await archiveNotification(notificationId);
+    } catch {
+      // Put it back where it was
+      setNotifications(prev =>
+        [...prev, notification].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      );
+      refreshUnreadCount();
+    }
   };
 
   return {
     notifications,
     unreadCount,
+    loading,
+    hasMore,
+    loadMore,
     markAsRead,
     markAllAsRead,
     clearNotification
   };
-}
\ No newline at end of file
+}
@@ -11,11 +11,15 @@ import {
   activateRoutine as activateRoutineService,
   deactivateRoutine as deactivateRoutineService,
   bulkImportRoutineSlots as bulkImportRoutineSlotsService,
+  createDraftRoutine as createDraftRoutineService,
   exportRoutineWithSlots as exportRoutineWithSlotsService,
   getAllSemesters as getAllSemestersService,
-  getRoutinesBySemester as getRoutinesBySemesterService
+  getRoutinesBySemester as getRoutinesBySemesterService,
+  cloneRoutine as cloneRoutineService,
+  fetchRoutineHistory as fetchRoutineHistoryService
 } from '../services/routine.service';
-import type { Routine, RoutineSlot } from '../types/routine';
+import type { Routine, RoutineSlot, RoutineSlotChange } from '../types/routine';
+import type { BulkImportOptions, BulkImportResult } from '../types/bulkImport';
 import { useOfflineStatus } from './useOfflineStatus';
 import { saveToIndexedDB, getAllFromIndexedDB, STORES, getByIdFromIndexedDB, clearIndexedDBStore } from '../utils/offlineStorage';
 
@@ -709,7 +713,11 @@ export function useRoutines() {
   /**
    * Bulk import multiple routine slots from JSON data
    */
-  const bulkImportSlots = async (routineId: string, slotsData: any[]): Promise<{ success: number; errors: any[] }> => {
+  const bulkImportSlots = async (
+    routineId: string,
+    slotsData: any[],
+    options?: BulkImportOptions
+  ): Promise<BulkImportResult> => {
     if (isOffline) {
       return {
         success: 0,
@@ -719,7 +727,7 @@ export function useRoutines() {
 
     try {
       // Import slots in bulk
-      const result = await bulkImportRoutineSlotsService(routineId, slotsData);
+      const result = await bulkImportRoutineSlotsService(routineId, slotsData, options);
       
       // Refresh routines data to include new slots
       await loadRoutines(true);
@@ -734,6 +742,62 @@ export function useRoutines() {
     }
   };
 
+  /**
+   * Save a generated timetable as an inactive draft routine
+   */
+  const createDraftRoutine = async (
+    routine: Omit<Routine, 'id' | 'createdAt' | 'createdBy' | 'isActive' | 'slots'>,
+    slots: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>[]
+  ): Promise<Routine> => {
+    if (isOffline) {
+      throw new Error('Generating routines is not available in offline mode');
+    }
+
+    try {
+      setError(null);
+      const draft = await createDraftRoutineService(routine, slots);
+
+      // Refresh routines so the draft shows up with all its slots
+      await loadRoutines(true);
+
+      return draft;
+    } catch (err: any) {
+      setError(err.message);
+      throw err;
+    }
+  };
+
+  // Copy a routine and its slots into a new semester
+  const cloneRoutine = async (
+    routineId: string,
+    copy: Pick<Routine, 'name' | 'semester' | 'description'>
+  ): Promise<Routine> => {
+    if (isOffline) {
+      throw new Error('Cloning routines is not available in offline mode');
+    }
+
+    try {
+      setError(null);
+      const clone = await cloneRoutineService(routineId, copy);
+
+      await loadRoutines(true);
+
+      return clone;
+    } catch (err) {
+      setError((err as Error).message);
+      throw err;
+    }
+  };
+
+  // Get the recorded slot changes of a routine, oldest first
+  const fetchRoutineHistory = useCallback(async (routineId: string): Promise<RoutineSlotChange[]> => {
+    if (isOffline) {
+      throw new Error('Routine history is not available in offline mode');
+    }
+
+    return fetchRoutineHistoryService(routineId);
+  }, [isOffline]);
+
   // Export a routine with all its slots as a JSON file
   const exportRoutine = async (routineId: string) => {
     try {
@@ -894,6 +958,9 @@ export function useRoutines() {
       }
     },
     bulkImportSlots,
+    createDraftRoutine,
+    cloneRoutine,
+    fetchRoutineHistory,
     exportRoutine,
     getSemesters,
     getRoutinesBySemester,
@@ -0,0 +1,59 @@
+import { useState, useEffect } from 'react';
+import { fetchTaskAttachments, deleteTaskAttachment } from '../services/taskAttachment.service';
+import { parseOccurrenceId } from '../utils/recurrence';
+import { isTempTaskId } from '../utils/outboxRules';
+import type { Task, TaskAttachment } from '../types/task';
+
+export function useTaskAttachments(task: Pick<Task, 'id' | 'seriesId'>) {
+  // Occurrences of a recurring task share the attachments of their series
+  const taskId = task.seriesId ?? parseOccurrenceId(task.id)?.seriesId ?? task.id;
+
+  const [attachments, setAttachments] = useState<TaskAttachment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Tasks created offline can't have attachments yet
+    if (isTempTaskId(taskId)) {
+      setAttachments([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    setLoading(true);
+    setError(null);
+    fetchTaskAttachments(taskId)
+      .then(data => {
+        if (!cancelled) setAttachments(data);
+      })
+      .catch(err => {
+        if (!cancelled) setError((err as Error).message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [taskId]);
+
+  const handleDeleteAttachment = async (attachment: TaskAttachment) => {
+    try {
+      setError(null);
+      await deleteTaskAttachment(attachment);
+      setAttachments(prev => prev.filter(a => a.id !== attachment.id));
+    } catch (err) {
+      setError((err as Error).message);
+      throw err;
+    }
+  };
+
+  return {
+    attachments,
+    loading,
+    error,
+    deleteAttachment: handleDeleteAttachment
+  };
+}
@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { fetchTaskProgress, fetchTaskProgressSummary } from '../services/taskProgress.service';
+import type { TaskProgressSummary } from '../types/task';
+
+/**
+ * Students' progress on admin tasks, for the admin dashboard
+ */
+export function useTaskProgress() {
+  const [summaries, setSummaries] = useState<TaskProgressSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSummaries = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSummaries(await fetchTaskProgressSummary());
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSummaries();
+
+    // Counts move as students work through their tasks
+    const subscription = supabase
+      .channel('task_progress_channel')
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'task_progress'
+      }, () => {
+        loadSummaries();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(subscription);
+    };
+  }, [loadSummaries]);
+
+  return {
+    summaries,
+    loading,
+    error,
+    refresh: loadSummaries,
+    fetchTaskProgress
+  };
+}
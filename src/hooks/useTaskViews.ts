@@ -0,0 +1,124 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchTaskViews, saveTaskViews } from '../services/taskView.service';
+import type { NewTaskView, TaskView } from '../types/taskView';
+import { useOfflineStatus } from './useOfflineStatus';
+
+// Views are kept on the device too, so they work offline and edits made offline aren't lost
+const cacheKey = (userId: string) => `task_views_${userId}`;
+
+interface CachedTaskViews {
+  views: TaskView[];
+  // Set while the device has edits the profile doesn't have yet
+  pending: boolean;
+}
+
+function readCache(userId: string): CachedTaskViews {
+  try {
+    const cached = localStorage.getItem(cacheKey(userId));
+    if (cached) return JSON.parse(cached);
+  } catch (err) {
+    console.error('Error reading cached task views:', err);
+  }
+  return { views: [], pending: false };
+}
+
+function writeCache(userId: string, cache: CachedTaskViews) {
+  try {
+    localStorage.setItem(cacheKey(userId), JSON.stringify(cache));
+  } catch (err) {
+    console.error('Error caching task views:', err);
+  }
+}
+
+/**
+ * Saved task views of a user, synced across devices through their profile
+ */
+export function useTaskViews(userId?: string) {
+  const [views, setViews] = useState<TaskView[]>([]);
+  const [loading, setLoading] = useState(true);
+  const isOffline = useOfflineStatus();
+
+  // Sends edits made offline, otherwise picks up edits made on other devices
+  const syncViews = useCallback(async () => {
+    if (!userId || isOffline) return;
+
+    const cache = readCache(userId);
+    try {
+      if (cache.pending) {
+        await saveTaskViews(cache.views);
+        writeCache(userId, { views: cache.views, pending: false });
+      } else {
+        const remoteViews = await fetchTaskViews(userId);
+        setViews(remoteViews);
+        writeCache(userId, { views: remoteViews, pending: false });
+      }
+    } catch (err) {
+      console.error('Error syncing task views:', err);
+    }
+  }, [userId, isOffline]);
+
+  useEffect(() => {
+    if (!userId) {
+      setViews([]);
+      setLoading(false);
+      return;
+    }
+
+    setViews(readCache(userId).views);
+    setLoading(true);
+    syncViews().finally(() => setLoading(false));
+  }, [userId, syncViews]);
+
+  // Pick up changes from other devices when coming back to the app
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') syncViews();
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [syncViews]);
+
+  const persistViews = async (nextViews: TaskView[]) => {
+    if (!userId) return;
+
+    setViews(nextViews);
+    writeCache(userId, { views: nextViews, pending: true });
+
+    if (isOffline) return;
+
+    try {
+      await saveTaskViews(nextViews);
+      writeCache(userId, { views: nextViews, pending: false });
+    } catch (err) {
+      // Stays pending and is sent on the next sync
+      console.error('Error saving task views:', err);
+    }
+  };
+
+  const createView = async (view: NewTaskView): Promise<TaskView> => {
+    const created: TaskView = {
+      ...view,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString()
+    };
+    await persistViews([...views, created]);
+    return created;
+  };
+
+  const updateView = async (id: string, updates: Partial<NewTaskView>) => {
+    await persistViews(views.map(view => (view.id === id ? { ...view, ...updates } : view)));
+  };
+
+  const deleteView = async (id: string) => {
+    await persistViews(views.filter(view => view.id !== id));
+  };
+
+  return {
+    views,
+    loading,
+    createView,
+    updateView,
+    deleteView
+  };
+}
@@ -1,17 +1,27 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase, testConnection } from '../lib/supabase';
-import { fetchTasks, createTask, updateTask, deleteTask } from '../services/task.service';
+import { fetchTasks, createTask, updateTask, deleteTask, updateTaskOccurrence, deleteTaskOccurrence, isOwnTaskProgress } from '../services/task.service';
+import { saveTaskProgress } from '../services/taskProgress.service';
 import { useOfflineStatus } from './useOfflineStatus';
 import { saveToIndexedDB, getAllFromIndexedDB, getByIdFromIndexedDB, deleteFromIndexedDB, STORES } from '../utils/offlineStorage';
+import {
+  applyOutboxToTasks,
+  discardOutboxOperation,
+  enqueueTaskOperation,
+  getOutboxOperations,
+  processTaskOutbox,
+  retryOutboxOperation
+} from '../utils/taskOutbox';
+import { createTempTaskId } from '../utils/outboxRules';
+import { OUTBOX_SYNCED, requestOutboxSync } from '../utils/backgroundSync';
+import { parseOccurrenceId } from '../utils/recurrence';
+import { getProgressDate, setOwnStatus } from '../utils/taskProgress';
 import type { Task, NewTask } from '../types/task';
+import type { OutboxOperation } from '../types/outbox';
 
 // Extended Task type with userId for offline storage
 interface OfflineTask extends Task {
   userId: string;
-  updatedAt?: string;
-  _isOffline?: boolean; 
-  _isOfflineUpdated?: boolean;
-  _isOfflineDeleted?: boolean;
 }
 
 // Define timestamp for cached tasks data
@@ -23,8 +33,18 @@ export function useTasks(userId: string | undefined) {
   const [error, setError] = useState<string | null>(null);
   const [retryCount, setRetryCount] = useState(0);
   const [syncInProgress, setSyncInProgress] = useState(false);
+  const [outbox, setOutbox] = useState<OutboxOperation[]>([]);
   const isOffline = useOfflineStatus();
 
+  // Layers queued offline changes over the given tasks so they survive a refresh
+  const withPendingChanges = useCallback(async (list: Task[]) => {
+    if (!userId) return list;
+
+    const operations = await getOutboxOperations(userId);
+    setOutbox(operations);
+    return applyOutboxToTasks(list, operations);
+  }, [userId]);
+
   const loadTasks = useCallback(async (forceRefresh = false) => {
     if (!userId) return;
 
@@ -39,7 +59,7 @@ export function useTasks(userId: string | undefined) {
         
         // Filter tasks for current user
         const userTasks = offlineTasks.filter((task: OfflineTask) => task.userId === userId);
-        setTasks(userTasks as Task[]);
+        setTasks(await withPendingChanges(userTasks as Task[]));
       } else {
         // Online with cache validation
         const lastFetched = localStorage.getItem(`${TASKS_CACHE_TIMESTAMP_KEY}_${userId}`);
@@ -55,7 +75,7 @@ export function useTasks(userId: string | undefined) {
 
           // If cache expired or force refresh, fetch from server
           console.log('Fetching fresh tasks from server');
-          const data = await fetchTasks(userId);
+          const data = await withPendingChanges(await fetchTasks(userId));
           setTasks(data);
           
           // Store tasks in IndexedDB for offline use
@@ -75,10 +95,10 @@ export function useTasks(userId: string | undefined) {
           const userTasks = offlineTasks.filter((task: OfflineTask) => task.userId === userId);
           
           if (userTasks.length > 0) {
-            setTasks(userTasks as Task[]);
+            setTasks(await withPendingChanges(userTasks as Task[]));
           } else {
             // If cache is empty, force a refresh
-            const data = await fetchTasks(userId);
+            const data = await withPendingChanges(await fetchTasks(userId));
             setTasks(data);
             const tasksWithUserId = data.map(task => ({
               ...task,
@@ -101,7 +121,7 @@ export function useTasks(userId: string | undefined) {
           const userTasks = offlineTasks.filter((task: OfflineTask) => task.userId === userId);
           
           if (userTasks.length > 0) {
-            setTasks(userTasks as Task[]);
+            setTasks(await withPendingChanges(userTasks as Task[]));
             setError(null); // Clear error if we successfully loaded fallback data
           }
         } catch (offlineErr) {
@@ -119,7 +139,7 @@ export function useTasks(userId: string | undefined) {
     } finally {
       setLoading(false);
     }
-  }, [userId, retryCount, isOffline]);
+  }, [userId, retryCount, isOffline, withPendingChanges]);
 
   useEffect(() => {
     if (!userId) {
@@ -142,6 +162,14 @@ export function useTasks(userId: string | undefined) {
         }, () => {
           loadTasks(true); // Force refresh on database changes
         })
+        .on('postgres_changes', {
+          event: '*',
+          schema: 'public',
+          table: 'task_progress',
+          filter: `user_id=eq.${userId}`
+        }, () => {
+          loadTasks(true); // Progress on admin tasks changed on another device
+        })
         .subscribe();
 
       return () => {
@@ -150,6 +178,20 @@ export function useTasks(userId: string | undefined) {
     }
   }, [userId, loadTasks, isOffline]);
 
+  // The service worker may replay queued writes while we're in the background
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === OUTBOX_SYNCED) {
+        loadTasks(true);
+      }
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [loadTasks]);
+
   const handleCreateTask = async (newTask: NewTask) => {
     if (!userId) {
       throw new Error('User ID is required');
@@ -161,20 +203,21 @@ export function useTasks(userId: string | undefined) {
       
       if (isOffline) {
         // Create a temporary ID for offline mode
-        const tempId = `temp_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+        const tempId = createTempTaskId();
         const offlineTask: OfflineTask = {
           ...newTask,
           id: tempId,
           createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
           status: 'my-tasks', // Using valid TaskStatus value
           isAdminTask: false,
-          userId, // Add userId for offline filtering
-          _isOffline: true // Mark as created offline
+          userId // Add userId for offline filtering
         };
         
-        // Store in IndexedDB
+        // Store in IndexedDB and queue the create for when we're back online
         await saveToIndexedDB(STORES.TASKS, offlineTask);
+        await enqueueTaskOperation(userId, 'create', tempId, offlineTask.name, offlineTask);
+        setOutbox(await getOutboxOperations(userId));
+        requestOutboxSync();
         
         // Update local state
         setTasks(prev => [...prev, offlineTask]);
@@ -209,25 +252,62 @@ export function useTasks(userId: string | undefined) {
   const handleUpdateTask = async (taskId: string, updates: Partial<Task>) => {
     try {
       setError(null);
+
+      const occurrence = parseOccurrenceId(taskId);
+
+      // A student's status on an admin task, or one occurrence of it, is saved as their own progress
+      const storedTask = tasks.find(task => task.id === (occurrence?.seriesId || taskId));
+      if (!isOffline && storedTask && updates.status && await isOwnTaskProgress(storedTask, updates)) {
+        const progressDate = getProgressDate(storedTask, occurrence?.occurrenceDate);
+        await saveTaskProgress(storedTask.id, updates.status, progressDate);
+
+        const updatedTask = setOwnStatus(storedTask, updates.status, progressDate);
+        setTasks(prev => prev.map(task => task.id === storedTask.id ? updatedTask : task));
+        if (userId) {
+          await saveToIndexedDB(STORES.TASKS, { ...updatedTask, userId });
+        }
+
+        return occurrence
+          ? { ...updatedTask, id: taskId, dueDate: occurrence.occurrenceDate, ...occurrence, status: updates.status }
+          : updatedTask;
+      }
+
+      // A generated occurrence of a recurring task is saved as a task of its own
+      if (occurrence) {
+        if (isOffline) {
+          throw new Error('Changing one occurrence of a recurring task needs a connection');
+        }
+
+        const series = tasks.find(task => task.id === occurrence.seriesId);
+        if (!series || !userId) {
+          throw new Error('Task not found');
+        }
+
+        const result = await updateTaskOccurrence(series, occurrence.occurrenceDate, updates);
+        setTasks(prev => [...prev, result]);
+        await saveToIndexedDB(STORES.TASKS, { ...result, userId });
+        return result;
+      }
       
       if (isOffline) {
         // Get the current task from IndexedDB
         const existingTask = await getByIdFromIndexedDB(STORES.TASKS, taskId) as OfflineTask;
         
-        if (!existingTask) {
+        if (!existingTask || !userId) {
           throw new Error('Task not found');
         }
         
         // Update task locally
         const updatedTask: OfflineTask = {
           ...existingTask,
-          ...updates,
-          updatedAt: new Date().toISOString(),
-          _isOfflineUpdated: true // Mark as updated offline
+          ...updates
         };
         
-        // Store in IndexedDB
+        // Store in IndexedDB, keeping the previous copy to detect conflicts on sync
         await saveToIndexedDB(STORES.TASKS, updatedTask);
+        await enqueueTaskOperation(userId, 'update', taskId, updatedTask.name, updates, existingTask);
+        setOutbox(await getOutboxOperations(userId));
+        requestOutboxSync();
         
         // Update local state
         setTasks(prev => prev.map(task => task.id === taskId ? updatedTask : task));
@@ -268,26 +348,45 @@ export function useTasks(userId: string | undefined) {
   const handleDeleteTask = async (taskId: string) => {
     try {
       setError(null);
+
+      // Removing one occurrence of a recurring task, whether generated or edited on its own
+      const occurrence = parseOccurrenceId(taskId);
+      const storedTask = tasks.find(task => task.id === taskId);
+      const seriesId = occurrence?.seriesId || storedTask?.seriesId;
+      const occurrenceDate = occurrence?.occurrenceDate || storedTask?.occurrenceDate;
+      if (seriesId && occurrenceDate) {
+        if (isOffline) {
+          throw new Error('Removing one occurrence of a recurring task needs a connection');
+        }
+
+        const series = tasks.find(task => task.id === seriesId);
+        if (!series || !userId) {
+          throw new Error('Task not found');
+        }
+
+        const updatedSeries = await deleteTaskOccurrence(series, occurrenceDate);
+        setTasks(prev => prev
+          .filter(task => task.id !== taskId)
+          .map(task => task.id === seriesId ? { ...task, ...updatedSeries } : task)
+        );
+        await saveToIndexedDB(STORES.TASKS, { ...series, ...updatedSeries, userId });
+        if (storedTask) {
+          await deleteFromIndexedDB(STORES.TASKS, taskId);
+        }
+        return;
+      }
       
       if (isOffline) {
-        // In offline mode, mark for deletion but don't fully delete yet
+        // In offline mode, remove it locally and queue the delete for when we're back online
         const existingTask = await getByIdFromIndexedDB(STORES.TASKS, taskId) as OfflineTask;
         
-        if (!existingTask) {
+        if (!existingTask || !userId) {
           throw new Error('Task not found');
         }
         
-        // If it's a temp task (created offline), delete it immediately
-        if (existingTask._isOffline) {
-          await deleteFromIndexedDB(STORES.TASKS, taskId);
-        } else {
-          // Otherwise mark it for deletion when back online
-          const markedTask = {
-            ...existingTask,
-            _isOfflineDeleted: true
-          };
-          await saveToIndexedDB(STORES.TASKS, markedTask);
-        }
+        await deleteFromIndexedDB(STORES.TASKS, taskId);
+        await enqueueTaskOperation(userId, 'delete', taskId, existingTask.name, undefined, existingTask);
+        setOutbox(await getOutboxOperations(userId));
         
         // Update local state
         setTasks(prev => prev.filter(task => task.id !== taskId));
@@ -313,9 +412,9 @@ export function useTasks(userId: string | undefined) {
     }
   };
 
-  // Enhanced sync function to handle all offline changes
-  const syncOfflineChanges = async () => {
-    if (isOffline || syncInProgress || !userId) {
+  // Replay queued offline changes against the server in the order they were made
+  const syncOfflineChanges = useCallback(async () => {
+    if (isOffline || !userId) {
       return;
     }
     
@@ -323,86 +422,49 @@ export function useTasks(userId: string | undefined) {
       setSyncInProgress(true);
       console.log('Starting task sync process...');
       
-      // Get all tasks for current user
-      const allTasks = await getAllFromIndexedDB(STORES.TASKS);
-      const userTasks = allTasks.filter((task: OfflineTask) => task.userId === userId);
-      let hasChanges = false;
-      let syncErrors = 0;
-      
-      // First process deletions
-      const deletedTasks = userTasks.filter((task: OfflineTask) => task._isOfflineDeleted);
-      for (const task of deletedTasks) {
-        try {
-          // Skip temp tasks (they don't exist on server)
-          if (!task._isOffline) {
-            await deleteTask(task.id);
-          }
-          await deleteFromIndexedDB(STORES.TASKS, task.id);
-          hasChanges = true;
-          console.log(`Deleted task: ${task.id}`);
-        } catch (err) {
-          console.error(`Failed to sync delete for task ${task.id}:`, err);
-          syncErrors++;
-        }
-      }
-      
-      // Then process new tasks
-      const newTasks = userTasks.filter((task: OfflineTask) => task._isOffline && !task._isOfflineDeleted);
-      for (const task of newTasks) {
-        try {
-          // Create a clean version without temp fields
-          const { _isOffline, _isOfflineUpdated, _isOfflineDeleted, id, userId: _, ...taskData } = task;
-          
-          // Create task on server
-          const newTask = await createTask(userId, taskData as NewTask);
-          
-          // Delete temp task and save new one
-          await deleteFromIndexedDB(STORES.TASKS, task.id);
-          await saveToIndexedDB(STORES.TASKS, { ...newTask, userId });
-          
-          hasChanges = true;
-          console.log(`Created new task: ${newTask.id} (replaced temp: ${task.id})`);
-        } catch (err) {
-          console.error(`Failed to sync new task ${task.id}:`, err);
-          syncErrors++;
-        }
-      }
-      
-      // Finally process updates
-      const updatedTasks = userTasks.filter((task: OfflineTask) => task._isOfflineUpdated && !task._isOfflineDeleted && !task._isOffline);
-      for (const task of updatedTasks) {
-        try {
-          // Create a clean version without offline flags
-          const { _isOffline, _isOfflineUpdated, _isOfflineDeleted, userId: _, ...taskData } = task;
-          
-          // Update task on server
-          await updateTask(task.id, taskData);
-          
-          // Update in IndexedDB without offline flags
-          await saveToIndexedDB(STORES.TASKS, { ...taskData, userId, id: task.id });
-          
-          hasChanges = true;
-          console.log(`Updated task: ${task.id}`);
-        } catch (err) {
-          console.error(`Failed to sync update for task ${task.id}:`, err);
-          syncErrors++;
-        }
-      }
+      const { processed, failed } = await processTaskOutbox(userId);
       
-      if (hasChanges) {
+      if (processed > 0 || failed > 0) {
+        console.log(`Task sync completed: ${processed} synced, ${failed} failed`);
         // Refresh tasks from server after sync
         await loadTasks(true);
-        console.log(`Task sync completed with ${syncErrors} errors`);
       } else {
         console.log('No offline task changes to sync');
       }
-      
     } catch (err) {
       console.error('Error syncing offline task changes:', err);
       setError('Failed to sync offline changes');
     } finally {
+      setOutbox(await getOutboxOperations(userId));
       setSyncInProgress(false);
     }
+  }, [isOffline, userId, loadTasks]);
+
+  // Retry operations that failed to sync once their backoff has passed
+  useEffect(() => {
+    if (isOffline) return;
+
+    const retryTimes = outbox
+      .filter(operation => operation.status === 'pending' && operation.nextAttemptAt)
+      .map(operation => operation.nextAttemptAt as number);
+    if (retryTimes.length === 0) return;
+
+    const timer = setTimeout(syncOfflineChanges, Math.max(0, Math.min(...retryTimes) - Date.now()));
+    return () => clearTimeout(timer);
+  }, [outbox, isOffline, syncOfflineChanges]);
+
+  const retryOperation = async (operation: OutboxOperation) => {
+    await retryOutboxOperation(operation);
+    if (isOffline) {
+      setOutbox(await getOutboxOperations(operation.userId));
+    } else {
+      await syncOfflineChanges();
+    }
+  };
+
+  const discardOperation = async (operation: OutboxOperation) => {
+    await discardOutboxOperation(operation);
+    await loadTasks(true);
   };
 
   return {
@@ -415,6 +477,9 @@ export function useTasks(userId: string | undefined) {
     refreshTasks: () => loadTasks(true),
     syncOfflineChanges,
     isSyncing: syncInProgress,
+    outbox,
+    retryOperation,
+    discardOperation,
     isOffline
   };
 }
\ No newline at end of file
@@ -5,6 +5,8 @@ import {
   createTeacher, 
   updateTeacher, 
   deleteTeacher,
+  previewTeacherDeletion,
+  mergeTeachers,
   bulkImportTeachers as bulkImportTeachersService,
   TeacherBulkImportItem
 } from '../services/teacher.service';
@@ -183,7 +185,7 @@ export function useTeachers() {
     }
   };
 
-  const handleDeleteTeacher = async (id: string) => {
+  const handleDeleteTeacher = async (id: string, replacementTeacherId?: string) => {
     try {
       setError(null);
       
@@ -216,22 +218,13 @@ export function useTeachers() {
           }
         }
       } else {
-        // Online mode - attempt database deletion
+        // Online mode - the deletion runs in one transaction, so when it fails nothing changed
         try {
-          console.log(`Initiating deletion of teacher with ID: ${id} from database`);
-          
-          // Call the service function to delete the teacher
-          await deleteTeacher(id);
-          
-          console.log(`Teacher ${id} successfully deleted from database`);
-          
-          // No need to update state or IndexedDB again - already done above
-          
-        } catch (deleteError: any) {
+          await deleteTeacher(id, replacementTeacherId);
+        } catch (deleteError) {
           console.error('Error in teacher deletion operation:', deleteError);
-          setError(`Failed to delete teacher: ${deleteError.message || 'Unknown error'}`);
-          // Don't throw here - we've already updated the UI
-          // Deletion will be retried when sync happens
+          await loadTeachers(true);
+          throw deleteError;
         }
       }
       
@@ -246,6 +239,22 @@ export function useTeachers() {
     }
   };
 
+  const handleMergeTeachers = async (survivorId: string, duplicateIds: string[]) => {
+    if (isOffline) {
+      throw new Error('Merging teachers needs a connection');
+    }
+
+    try {
+      setError(null);
+      const merged = await mergeTeachers(survivorId, duplicateIds);
+      await loadTeachers(true);
+      return merged;
+    } catch (err) {
+      setError((err as Error).message);
+      throw err;
+    }
+  };
+
   const handleBulkImportTeachers = async (teachersData: TeacherBulkImportItem[]) => {
     try {
       setError(null);
@@ -308,6 +317,8 @@ export function useTeachers() {
     createTeacher: handleCreateTeacher,
     updateTeacher: handleUpdateTeacher,
     deleteTeacher: handleDeleteTeacher,
+    previewDeleteTeacher: previewTeacherDeletion,
+    mergeTeachers: handleMergeTeachers,
     bulkImportTeachers: handleBulkImportTeachers,
     refreshTeachers: () => loadTeachers(true),
     isOffline
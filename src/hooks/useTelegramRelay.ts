@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  fetchTelegramRoutes,
+  fetchTelegramMessages,
+  createTelegramRoute,
+  deleteTelegramRoute,
+  retryTelegramMessage
+} from '../services/telegram.service';
+import type { NewTelegramRoute, TelegramMessage, TelegramRoute } from '../types/telegram';
+
+export function useTelegramRelay() {
+  const [routes, setRoutes] = useState<TelegramRoute[]>([]);
+  const [messages, setMessages] = useState<TelegramMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTelegramData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [routeData, messageData] = await Promise.all([
+        fetchTelegramRoutes(),
+        fetchTelegramMessages()
+      ]);
+      setRoutes(routeData);
+      setMessages(messageData);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTelegramData();
+  }, [loadTelegramData]);
+
+  const handleCreateRoute = async (route: NewTelegramRoute) => {
+    try {
+      setError(null);
+      const newRoute = await createTelegramRoute(route);
+      setRoutes(prev => [...prev, newRoute]);
+    } catch (err) {
+      setError((err as Error).message);
+      throw err;
+    }
+  };
+
+  const handleDeleteRoute = async (id: string) => {
+    try {
+      setError(null);
+      await deleteTelegramRoute(id);
+      setRoutes(prev => prev.filter(route => route.id !== id));
+    } catch (err) {
+      setError((err as Error).message);
+      throw err;
+    }
+  };
+
+  const handleRetryMessage = async (id: string) => {
+    try {
+      setError(null);
+      await retryTelegramMessage(id);
+      setMessages(await fetchTelegramMessages());
+    } catch (err) {
+      setError((err as Error).message);
+      throw err;
+    }
+  };
+
+  return {
+    routes,
+    messages,
+    loading,
+    error,
+    refresh: loadTelegramData,
+    createRoute: handleCreateRoute,
+    deleteRoute: handleDeleteRoute,
+    retryMessage: handleRetryMessage
+  };
+}
@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
 import type { Database } from '../types/supabase';
+import { saveOutboxSyncSession } from '../utils/backgroundSync';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -266,6 +267,9 @@ supabase.auth.onAuthStateChange((event, session) => {
   if (session) {
     console.log('Current user role:', session.user?.user_metadata?.role);
   }
+
+  // Let the service worker replay queued writes with the current token
+  saveOutboxSyncSession(session);
 });
 
 // Export additional utility for checking connection status
@@ -10,6 +10,7 @@ import { CourseManager } from '../components/admin/course/CourseManager';
 import { StudyMaterialManager } from '../components/admin/study-materials/StudyMaterialManager';
 import { RoutineManager } from '../components/admin/routine/RoutineManager';
 import { TeacherManager } from '../components/admin/teacher/TeacherManager';
+import { TelegramManager } from '../components/admin/telegram/TelegramManager';
 import { Dashboard } from '../components/admin/dashboard/Dashboard';
 import { UserActiveGraph } from '../components/admin/dashboard/UserActiveGraph';
 import { useAnnouncements } from '../hooks/useAnnouncements';
@@ -17,9 +18,12 @@ import { useCourses } from '../hooks/useCourses';
 import { useRoutines } from '../hooks/useRoutines';
 import { useTeachers } from '../hooks/useTeachers';
 import { useUsers } from '../hooks/useUsers';
+import { useTelegramRelay } from '../hooks/useTelegramRelay';
+import { useTaskProgress } from '../hooks/useTaskProgress';
 import { showErrorToast } from '../utils/notifications';
 import type { User } from '../types/auth';
 import type { Task } from '../types/index';
+import type { NewTask } from '../types/task';
 import type { Teacher, NewTeacher } from '../types/teacher';
 import type { AdminTab } from '../types/admin';
 
@@ -27,7 +31,7 @@ interface AdminDashboardProps {
   users: User[];
   tasks: Task[];
   onLogout: () => void;
-  onCreateTask: (task: Omit<Task, 'id' | 'createdAt'>) => void;
+  onCreateTask: (task: NewTask) => void | Promise<unknown>;
   onDeleteTask: (taskId: string) => void;
   onUpdateTask: (taskId: string, updates: Partial<Task>) => void;
 }
@@ -44,9 +48,20 @@ export function AdminDashboard({
   const { 
     announcements,
     createAnnouncement,
+    updateAnnouncement,
+    publishAnnouncement,
     deleteAnnouncement
   } = useAnnouncements();
   
+  const {
+    routes: telegramRoutes,
+    messages: telegramMessages,
+    refresh: refreshTelegram,
+    createRoute: createTelegramRoute,
+    deleteRoute: deleteTelegramRoute,
+    retryMessage: retryTelegramMessage
+  } = useTelegramRelay();
+
   const {
     courses,
     materials,
@@ -56,7 +71,8 @@ export function AdminDashboard({
     createMaterial,
     updateMaterial,
     deleteMaterial,
-    bulkImportCourses
+    bulkImportCourses,
+    syncClassTimes
   } = useCourses();
 
   const {
@@ -69,7 +85,10 @@ export function AdminDashboard({
     deleteRoutineSlot,
     activateRoutine,
     deactivateRoutine,
-    bulkImportSlots
+    bulkImportSlots,
+    createDraftRoutine,
+    cloneRoutine,
+    fetchRoutineHistory
   } = useRoutines();
 
   const {
@@ -77,9 +96,13 @@ export function AdminDashboard({
     createTeacher,
     updateTeacher,
     deleteTeacher: deleteTeacherService,
+    previewDeleteTeacher,
+    mergeTeachers,
     bulkImportTeachers
   } = useTeachers();
   
+  const { summaries: progressSummaries, fetchTaskProgress } = useTaskProgress();
+
   const { deleteUser } = useUsers();
   const adminTasks = tasks.filter(task => task.isAdminTask);
 
@@ -91,27 +114,14 @@ export function AdminDashboard({
     }
   };
 
-  // Enhanced deleteTeacher with better error handling and UI consistency
-  const deleteTeacher = async (teacherId: string) => {
+  const deleteTeacher = async (teacherId: string, replacementTeacherId?: string) => {
     if (!teacherId) {
       console.error('Invalid teacher ID provided for deletion');
       showErrorToast('Invalid teacher ID');
-      return Promise.resolve(); // Still resolve to keep UI consistent
-    }
-    
-    try {
-      console.log('Attempting to delete teacher:', teacherId);
-      await deleteTeacherService(teacherId);
-      console.log('Teacher deleted successfully:', teacherId);
-      return Promise.resolve();
-    } catch (error: any) {
-      // Log the error but still resolve the promise
-      console.error('Failed to delete teacher:', teacherId, error);
-      showErrorToast(`Error deleting teacher: ${error.message || 'Unknown error'}. The UI has been updated but you may need to refresh.`);
-      
-      // Return resolved promise anyway so UI stays consistent
-      return Promise.resolve();
+      return;
     }
+
+    await deleteTeacherService(teacherId, replacementTeacherId);
   };
 
   return (
@@ -135,6 +145,7 @@ export function AdminDashboard({
               {activeTab === 'courses' && 'Course Management'}
               {activeTab === 'study-materials' && 'Study Materials'}
               {activeTab === 'routine' && 'Routine Management'}
+              {activeTab === 'telegram' && 'Telegram'}
             </h1>
           </div>
 
@@ -162,9 +173,13 @@ export function AdminDashboard({
           {activeTab === 'tasks' && (
             <TaskManager
               tasks={tasks}
+              courses={courses}
+              users={users}
+              progressSummaries={progressSummaries}
               onCreateTask={onCreateTask}
               onDeleteTask={onDeleteTask}
               onUpdateTask={onUpdateTask}
+              onFetchTaskProgress={fetchTaskProgress}
             />
           )}
 
@@ -182,11 +197,26 @@ export function AdminDashboard({
           {activeTab === 'announcements' && (
             <AnnouncementManager
               announcements={announcements}
+              courses={courses}
               onCreateAnnouncement={createAnnouncement}
+              onUpdateAnnouncement={updateAnnouncement}
+              onPublishAnnouncement={publishAnnouncement}
               onDeleteAnnouncement={deleteAnnouncement}
             />
           )}
 
+          {activeTab === 'telegram' && (
+            <TelegramManager
+              routes={telegramRoutes}
+              messages={telegramMessages}
+              courses={courses}
+              onCreateRoute={createTelegramRoute}
+              onDeleteRoute={deleteTelegramRoute}
+              onRetryMessage={retryTelegramMessage}
+              onRefresh={refreshTelegram}
+            />
+          )}
+
           {activeTab === 'teachers' && (
             <TeacherManager
               teachers={teachers}
@@ -194,6 +224,8 @@ export function AdminDashboard({
               onCreateTeacher={createTeacher as (teacher: NewTeacher, courseIds: string[]) => Promise<Teacher | undefined>}
               onUpdateTeacher={updateTeacher as (id: string, updates: Partial<Teacher>, courseIds: string[]) => Promise<Teacher | undefined>}
               onDeleteTeacher={deleteTeacher}
+              onPreviewDeleteTeacher={previewDeleteTeacher}
+              onMergeTeachers={mergeTeachers}
               onBulkImportTeachers={bulkImportTeachers}
             />
           )}
@@ -206,6 +238,8 @@ export function AdminDashboard({
               onUpdateCourse={updateCourse}
               onDeleteCourse={deleteCourse}
               onBulkImportCourses={bulkImportCourses}
+              routines={routines}
+              onSyncClassTimes={syncClassTimes}
             />
           )}
 
@@ -232,6 +266,9 @@ export function AdminDashboard({
               onActivateRoutine={activateRoutine}
               onDeactivateRoutine={deactivateRoutine}
               onBulkImportSlots={bulkImportSlots}
+              onCreateDraftRoutine={createDraftRoutine}
+              onCloneRoutine={cloneRoutine}
+              onFetchRoutineHistory={fetchRoutineHistory}
             />
           )}
         </div>
@@ -1,15 +1,44 @@
-import { useState } from 'react';
-import { Book, Calendar, User, GitBranch as BrandTelegram, Link, Lock, Search, ExternalLink, MapPin } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Book, Calendar, User, GitBranch as BrandTelegram, Link, Lock, Search, ExternalLink, MapPin, ListTodo, ChevronRight, X } from 'lucide-react';
 import { useCourses } from '../hooks/useCourses';
+import { useAuth } from '../hooks/useAuth';
+import { SectionFilterToggle } from '../components/ui/SectionFilterToggle';
+import { TaskList } from '../components/TaskList';
+import { matchesUserSection } from '../utils/sectionFilter';
+import { getCourseColor } from '../utils/courseColors';
 import type { Course } from '../types/course';
+import type { Task } from '../types/task';
 
-export function CoursePage() {
+interface CoursePageProps {
+  tasks: Task[];
+}
+
+export function CoursePage({ tasks }: CoursePageProps) {
   const { courses, loading } = useCourses();
+  const { user } = useAuth();
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
+  const [showAllSections, setShowAllSections] = useState(false);
+
+  // Only the student's own section unless they asked to see everything
+  const sectionCourses = showAllSections
+    ? courses
+    : courses.filter(course => matchesUserSection(course.section, user?.section));
+
+  const tasksByCourse = useMemo(() => {
+    const byCourse = new Map<string, Task[]>();
+    tasks.forEach(task => {
+      if (!task.courseId) return;
+      byCourse.set(task.courseId, [...(byCourse.get(task.courseId) || []), task]);
+    });
+    return byCourse;
+  }, [tasks]);
+
+  const getPendingCount = (courseId: string) =>
+    (tasksByCourse.get(courseId) || []).filter(task => task.status !== 'completed').length;
 
   // Filter courses based on search term
-  const filteredCourses = courses.filter(course => 
+  const filteredCourses = sectionCourses.filter(course => 
     course.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     course.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
     course.teacher.toLowerCase().includes(searchTerm.toLowerCase())
@@ -30,10 +59,16 @@ export function CoursePage() {
         <div>
           <h1 className="text-2xl font-bold text-gray-900 dark:text-white">My Courses</h1>
           <p className="text-gray-500 dark:text-gray-400 mt-1">
-            {courses.length} {courses.length === 1 ? 'course' : 'courses'} available
+            {sectionCourses.length} {sectionCourses.length === 1 ? 'course' : 'courses'} available
           </p>
         </div>
 
+        <SectionFilterToggle
+          section={user?.section}
+          showAll={showAllSections}
+          onChange={setShowAllSections}
+        />
+
         {/* Search Bar */}
         <div className="relative max-w-md w-full">
           <input
@@ -75,7 +110,7 @@ export function CoursePage() {
                     <h2 className="text-xl font-semibold text-gray-900 dark:text-white group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors">
                       {course.name}
                     </h2>
-                    <span className="px-3 py-1 text-sm font-medium rounded-full bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400">
+                    <span className={`px-3 py-1 text-sm font-medium rounded-full ${getCourseColor(course.id).badge}`}>
                       {course.code}
                     </span>
                   </div>
@@ -107,6 +142,18 @@ export function CoursePage() {
 
                 {/* Course Links */}
                 <div className="pt-4 space-y-2 border-t border-gray-100 dark:border-gray-700">
+                  <button
+                    onClick={() => setSelectedCourse(course)}
+                    className="w-full flex items-center gap-2 px-3 py-2 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors group"
+                  >
+                    <ListTodo className="w-4 h-4" />
+                    <span className="flex-grow text-left">Tasks</span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {getPendingCount(course.id)} pending · {tasksByCourse.get(course.id)?.length || 0} total
+                    </span>
+                    <ChevronRight className="w-4 h-4 opacity-0 group-hover:opacity-100 transition-opacity" />
+                  </button>
+
                   {course.blcLink && (
                     <a
                       href={course.blcLink}
@@ -145,6 +192,30 @@ export function CoursePage() {
           ))}
         </div>
       )}
+
+      {/* Tasks of the selected course */}
+      {selectedCourse && (
+        <>
+          <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40" onClick={() => setSelectedCourse(null)} />
+          <div className="fixed inset-x-4 top-[5%] md:inset-x-auto md:left-1/2 md:-translate-x-1/2 md:w-full md:max-w-4xl bg-white dark:bg-gray-800 rounded-2xl shadow-xl z-40 max-h-[90vh] overflow-hidden">
+            <div className="flex items-center justify-between p-6 border-b dark:border-gray-700">
+              <div className="min-w-0">
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white truncate">{selectedCourse.name}</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400">{selectedCourse.code} tasks</p>
+              </div>
+              <button
+                onClick={() => setSelectedCourse(null)}
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+              </button>
+            </div>
+            <div className="p-2 md:p-4 overflow-y-auto max-h-[calc(90vh-90px)]">
+              <TaskList tasks={tasksByCourse.get(selectedCourse.id) || []} />
+            </div>
+          </div>
+        </>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { Bell, Check } from 'lucide-react';
+import { Bell, Check, Loader2 } from 'lucide-react';
 import { NotificationItem } from '../components/notifications/NotificationItem';
 import type { Notification } from '../hooks/useNotifications';
 
@@ -7,15 +7,23 @@ interface NotificationsPageProps {
   onMarkAsRead: (id: string) => void;
   onMarkAllAsRead: () => void;
   onClear: (id: string) => void;
+  unreadCount?: number;
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
 export function NotificationsPage({
   notifications,
   onMarkAsRead,
   onMarkAllAsRead,
-  onClear
+  onClear,
+  unreadCount,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore
 }: NotificationsPageProps) {
-  const hasUnread = notifications.some(n => !n.read);
+  const hasUnread = (unreadCount ?? notifications.filter(n => !n.read).length) > 0;
 
   return (
     <div className="max-w-3xl mx-auto px-4 py-8">
@@ -55,6 +63,17 @@ export function NotificationsPage({
               onClear={onClear}
             />
           ))}
+
+          {hasMore && onLoadMore && (
+            <button
+              onClick={onLoadMore}
+              disabled={loadingMore}
+              className="w-full flex items-center justify-center gap-2 py-3 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {loadingMore && <Loader2 className="w-4 h-4 animate-spin" />}
+              Load older notifications
+            </button>
+          )}
         </div>
       )}
     </div>
@@ -19,12 +19,16 @@ import {
   Info,
   Code,
   ExternalLink,
-  Plus
+  Plus,
+  CalendarPlus
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { TeacherDetailsModal } from './TeacherDetailsModal';
 import type { Teacher } from '../types/teacher';
 import { getInitials } from '../utils/stringUtils';
+import { createRoutineICalendar } from '../utils/routineCalendar';
+import { downloadICalendar } from '../utils/icalendar';
+import { isSameSection } from '../utils/sectionFilter';
 
 export function RoutinePage() {
   const { routines, loading } = useRoutines();
@@ -37,6 +41,8 @@ export function RoutinePage() {
   const [enrichedSlots, setEnrichedSlots] = useState<any[]>([]);
   const [showMobileSearch, setShowMobileSearch] = useState(false);
   const [selectedRoutineId, setSelectedRoutineId] = useState<string>('');
+  const [selectedSection, setSelectedSection] = useState<string>('');
+  const [hasDefaultedSection, setHasDefaultedSection] = useState(false);
 
   const isAdmin = user?.role === 'admin';
 
@@ -122,9 +128,38 @@ export function RoutinePage() {
       
       const matchesDay = format(selectedDate, 'EEEE') === slot.dayOfWeek;
       
-      return matchesSearch && matchesDay;
+      const matchesSection = !selectedSection || slot.section === selectedSection;
+      
+      return matchesSearch && matchesDay && matchesSection;
     });
-  }, [enrichedSlots, searchTerm, selectedDate]);
+  }, [enrichedSlots, searchTerm, selectedDate, selectedSection]);
+
+  const sections = useMemo(() => {
+    return Array.from(new Set(enrichedSlots.map(slot => slot.section).filter(Boolean))).sort() as string[];
+  }, [enrichedSlots]);
+
+  // Start on the student's own section; "All Sections" stays available in the select
+  useEffect(() => {
+    if (hasDefaultedSection || !user?.section || sections.length === 0) return;
+
+    const ownSection = sections.find(section => isSameSection(section, user.section));
+    if (ownSection) {
+      setSelectedSection(ownSection);
+    }
+    setHasDefaultedSection(true);
+  }, [hasDefaultedSection, user?.section, sections]);
+
+  // Download the routine as an .ics file that calendar apps can import
+  const handleDownloadCalendar = () => {
+    if (!currentRoutine) return;
+
+    const content = createRoutineICalendar(
+      { ...currentRoutine, slots: enrichedSlots },
+      { section: selectedSection || undefined }
+    );
+    const sectionSuffix = selectedSection ? `-section-${selectedSection}` : '';
+    downloadICalendar(content, `routine-${currentRoutine.name.replace(/\s+/g, '-')}${sectionSuffix}.ics`);
+  };
 
   if (loading) {
     return (
@@ -191,6 +226,33 @@ export function RoutinePage() {
               <ChevronRight className="absolute right-2 top-1/2 transform -translate-y-1/2 rotate-90 text-gray-400 w-4 h-4" />
             </div>
           )}
+
+          <div className="flex items-center gap-2">
+            {sections.length > 0 && (
+              <div className="relative flex-1">
+                <select
+                  value={selectedSection}
+                  onChange={(e) => setSelectedSection(e.target.value)}
+                  className="w-full pl-9 pr-8 py-2 border dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm appearance-none"
+                  aria-label="Filter by section"
+                >
+                  <option value="">All Sections</option>
+                  {sections.map(section => (
+                    <option key={section} value={section}>Section {section}</option>
+                  ))}
+                </select>
+                <Users className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+              </div>
+            )}
+            <button
+              onClick={handleDownloadCalendar}
+              className="flex items-center gap-1.5 px-3 py-2 bg-white dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-200"
+              aria-label="Add to calendar"
+            >
+              <CalendarPlus className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+              <span>Add to Calendar</span>
+            </button>
+          </div>
           
           <AnimatePresence>
             {showMobileSearch && (
@@ -250,6 +312,32 @@ export function RoutinePage() {
               </div>
             )}
 
+            {sections.length > 0 && (
+              <div className="relative">
+                <select
+                  value={selectedSection}
+                  onChange={(e) => setSelectedSection(e.target.value)}
+                  className="pl-10 pr-8 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white appearance-none hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors duration-200 cursor-pointer"
+                  aria-label="Filter by section"
+                >
+                  <option value="">All Sections</option>
+                  {sections.map(section => (
+                    <option key={section} value={section}>Section {section}</option>
+                  ))}
+                </select>
+                <Users className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+              </div>
+            )}
+
+            <button
+              onClick={handleDownloadCalendar}
+              className="flex items-center gap-2 px-4 py-2 border dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors duration-200"
+              title="Download the weekly schedule as an .ics file for Google or Apple Calendar"
+            >
+              <CalendarPlus className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+              Add to Calendar
+            </button>
+
             <div className="relative w-full sm:w-auto sm:flex-grow">
               <input
                 type="text"
@@ -1,131 +1,202 @@
 import { useState, useEffect, useMemo } from 'react';
 import { SearchBar } from '../components/search/SearchBar';
 import { TaskList } from '../components/TaskList';
-import { useOfflineStatus } from '../hooks/useOfflineStatus';
-import type { Task } from '../types';
-import { WifiOff } from 'lucide-react';
+import { useGlobalSearch } from '../hooks/useGlobalSearch';
+import type { Task } from '../types/task';
+import type { NavPage } from '../types/navigation';
+import type { SearchDocument, SearchResultType } from '../types/search';
+import { BookOpen, CheckSquare, FileText, Loader2, Megaphone, User, WifiOff } from 'lucide-react';
 
 interface SearchPageProps {
   tasks: Task[];
+  onNavigate?: (page: NavPage) => void;
 }
 
-export function SearchPage({ tasks }: SearchPageProps) {
-  const [searchResults, setSearchResults] = useState<Task[]>([]);
-  const [hasSearched, setHasSearched] = useState(false);
+// Remember the last search so it's still there when coming back to the page
+const SEARCH_CACHE_KEY = 'search_results_cache';
+const SEARCH_CACHE_MAX_AGE = 60 * 60 * 1000;
+
+const groups: { type: SearchResultType; label: string; icon: typeof BookOpen; page?: NavPage }[] = [
+  { type: 'task', label: 'Tasks', icon: CheckSquare },
+  { type: 'course', label: 'Courses', icon: BookOpen, page: 'courses' },
+  { type: 'material', label: 'Study Materials', icon: FileText, page: 'study-materials' },
+  { type: 'teacher', label: 'Teachers', icon: User, page: 'courses' },
+  { type: 'announcement', label: 'Announcements', icon: Megaphone }
+];
+
+export function SearchPage({ tasks, onNavigate }: SearchPageProps) {
   const [searchQuery, setSearchQuery] = useState('');
-  const isOffline = useOfflineStatus();
-  
-  // Cache search results in localStorage
-  const SEARCH_CACHE_KEY = 'search_results_cache';
-  
-  // Optimized search function with memoization
-  const performSearch = useMemo(() => {
-    const normalizedQuery = searchQuery.toLowerCase().trim();
-    
-    if (!normalizedQuery) {
-      return [];
-    }
-    
-    console.log(`Searching for "${normalizedQuery}" in ${tasks.length} tasks`);
-    
-    return tasks.filter(task => 
-      task.name.toLowerCase().includes(normalizedQuery) ||
-      task.description.toLowerCase().includes(normalizedQuery) ||
-      task.category.toLowerCase().includes(normalizedQuery)
-    );
-  }, [searchQuery, tasks]);
-  
-  // Update results when search query or tasks change
-  useEffect(() => {
-    if (searchQuery) {
-      setSearchResults(performSearch);
-      setHasSearched(true);
-      
-      // Save to localStorage if online (as offline data is already in IndexedDB)
-      if (!isOffline && performSearch.length > 0) {
-        try {
-          localStorage.setItem(SEARCH_CACHE_KEY, JSON.stringify({
-            query: searchQuery,
-            results: performSearch.map(task => task.id), // Store just the IDs to save space
-            timestamp: Date.now()
-          }));
-        } catch (err) {
-          console.error('Error caching search results:', err);
-        }
-      }
-    }
-  }, [searchQuery, performSearch, isOffline]);
-  
-  // Try to restore cached search on initial load
+  const [typeFilter, setTypeFilter] = useState<SearchResultType | 'all'>('all');
+  const { search, loading, isOffline } = useGlobalSearch(tasks);
+
+  const results = useMemo(() => search(searchQuery), [search, searchQuery]);
+
+  const resultsByType = useMemo(() => {
+    const grouped = new Map<SearchResultType, SearchDocument[]>();
+    results.forEach(({ document }) => {
+      grouped.set(document.type, [...(grouped.get(document.type) || []), document]);
+    });
+    return grouped;
+  }, [results]);
+
+  // Restore the last search if it's recent
   useEffect(() => {
-    const cachedSearch = localStorage.getItem(SEARCH_CACHE_KEY);
-    
-    if (cachedSearch) {
-      try {
-        const { query, results, timestamp } = JSON.parse(cachedSearch);
-        const cacheAge = Date.now() - timestamp;
-        
-        // Use cache if it's less than 1 hour old
-        if (cacheAge < 60 * 60 * 1000) {
-          setSearchQuery(query);
-          
-          // Match task IDs with current task objects
-          const taskMap = new Map(tasks.map(task => [task.id, task]));
-          const cachedResults = results
-            .map((id: string) => taskMap.get(id))
-            .filter(Boolean); // Remove any undefined entries
-            
-          if (cachedResults.length > 0) {
-            setSearchResults(cachedResults as Task[]);
-            setHasSearched(true);
-          }
-        }
-      } catch (err) {
-        console.error('Error restoring cached search:', err);
+    try {
+      const cachedSearch = localStorage.getItem(SEARCH_CACHE_KEY);
+      if (!cachedSearch) return;
+
+      const { query, timestamp } = JSON.parse(cachedSearch);
+      if (query && Date.now() - timestamp < SEARCH_CACHE_MAX_AGE) {
+        setSearchQuery(query);
       }
+    } catch (err) {
+      console.error('Error restoring cached search:', err);
     }
-  }, [tasks]);
+  }, []);
 
   const handleSearch = (query: string) => {
     setSearchQuery(query);
-    
-    if (!query.trim()) {
-      setSearchResults([]);
-      setHasSearched(false);
+    setTypeFilter('all');
+
+    try {
+      if (query.trim()) {
+        localStorage.setItem(SEARCH_CACHE_KEY, JSON.stringify({ query, timestamp: Date.now() }));
+      } else {
+        localStorage.removeItem(SEARCH_CACHE_KEY);
+      }
+    } catch (err) {
+      console.error('Error caching search:', err);
     }
   };
 
+  const visibleGroups = groups.filter(group =>
+    resultsByType.has(group.type) && (typeFilter === 'all' || typeFilter === group.type)
+  );
+
+  const renderDocument = (document: SearchDocument, page?: NavPage) => {
+    const content = (
+      <>
+        <p className="font-medium text-gray-900 dark:text-white">{document.title}</p>
+        {document.subtitle && (
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">{document.subtitle}</p>
+        )}
+        {document.type === 'announcement' && (
+          <p className="text-sm text-gray-600 dark:text-gray-300 mt-1 line-clamp-2">{document.item.content}</p>
+        )}
+        {document.type === 'material' && document.item.description && (
+          <p className="text-sm text-gray-600 dark:text-gray-300 mt-1 line-clamp-2">{document.item.description}</p>
+        )}
+        {document.type === 'teacher' && (document.item.email || document.item.phone) && (
+          <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+            {[document.item.email, document.item.phone].filter(Boolean).join(' · ')}
+          </p>
+        )}
+      </>
+    );
+
+    const className = 'block w-full text-left p-4 bg-white dark:bg-gray-800 rounded-lg border dark:border-gray-700';
+
+    return page && onNavigate ? (
+      <button
+        key={document.id}
+        onClick={() => onNavigate(page)}
+        className={`${className} hover:border-blue-300 dark:hover:border-blue-700 transition-colors`}
+      >
+        {content}
+      </button>
+    ) : (
+      <div key={document.id} className={className}>
+        {content}
+      </div>
+    );
+  };
+
   return (
     <div className="max-w-7xl mx-auto px-4 py-8">
-      <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">Search Tasks</h1>
-      
-      <SearchBar onSearch={handleSearch} initialQuery={searchQuery} />
-      
+      <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">Search</h1>
+
+      <SearchBar
+        onSearch={handleSearch}
+        initialQuery={searchQuery}
+        placeholder="Search tasks, courses, materials, teachers and announcements..."
+      />
+
       {isOffline && (
         <div className="flex items-center gap-2 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-800 rounded-lg p-3 mb-4 text-amber-800 dark:text-amber-300">
           <WifiOff className="w-4 h-4" />
-          <p className="text-sm">You're offline. Searching in locally stored tasks.</p>
+          <p className="text-sm">You're offline. Searching in locally stored data.</p>
         </div>
       )}
-      
-      {hasSearched ? (
-        searchResults.length > 0 ? (
-          <div>
-            <div className="text-sm text-gray-500 dark:text-gray-400 mb-4">
-              Found {searchResults.length} {searchResults.length === 1 ? 'task' : 'tasks'} matching "{searchQuery}"
+
+      {searchQuery.trim() ? (
+        results.length > 0 ? (
+          <div className="space-y-6">
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                onClick={() => setTypeFilter('all')}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                  typeFilter === 'all'
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                }`}
+              >
+                All ({results.length})
+              </button>
+              {groups.filter(group => resultsByType.has(group.type)).map(group => (
+                <button
+                  key={group.type}
+                  onClick={() => setTypeFilter(group.type)}
+                  className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                    typeFilter === group.type
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {group.label} ({resultsByType.get(group.type)?.length})
+                </button>
+              ))}
+              {loading && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
             </div>
-            <TaskList tasks={searchResults} />
+
+            {visibleGroups.map(group => {
+              const Icon = group.icon;
+              const documents = resultsByType.get(group.type) || [];
+
+              return (
+                <section key={group.type}>
+                  <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white mb-3">
+                    <Icon className="w-5 h-5 text-blue-500 dark:text-blue-400" />
+                    {group.label}
+                    <span className="text-sm font-normal text-gray-500 dark:text-gray-400">({documents.length})</span>
+                  </h2>
+                  {group.type === 'task' ? (
+                    <TaskList
+                      tasks={documents.flatMap(document => (document.type === 'task' ? [document.item] : []))}
+                    />
+                  ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      {documents.map(document => renderDocument(document, group.page))}
+                    </div>
+                  )}
+                </section>
+              );
+            })}
+          </div>
+        ) : loading ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-gray-500 dark:text-gray-400">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Searching...
           </div>
         ) : (
           <div className="text-center py-8 text-gray-500 dark:text-gray-400">
-            No tasks found matching your search
+            Nothing found matching "{searchQuery}"
           </div>
         )
       ) : (
         <div className="text-center py-8 text-gray-500 dark:text-gray-400">
-          Enter a search term to find tasks
+          Enter a search term to find tasks, courses, study materials, teachers and announcements
         </div>
       )}
     </div>
   );
-}
\ No newline at end of file
+}
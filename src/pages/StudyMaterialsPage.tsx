@@ -1,5 +1,8 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useCourses } from '../hooks/useCourses';
+import { useAuth } from '../hooks/useAuth';
+import { SectionFilterToggle } from '../components/ui/SectionFilterToggle';
+import { matchesUserSection } from '../utils/sectionFilter';
 import { StudyMaterialsGrid } from '../components/study-materials/StudyMaterialsGrid';
 import { LoadingScreen } from '../components/LoadingScreen';
 import { Book, Search, Filter, FileText } from 'lucide-react';
@@ -7,19 +10,37 @@ import type { Course, StudyMaterialCategory } from '../types/course';
 
 export function StudyMaterialsPage() {
   const { courses, materials, loading } = useCourses();
+  const { user } = useAuth();
+  const [showAllSections, setShowAllSections] = useState(false);
   const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<StudyMaterialCategory | 'all'>('all');
   const [searchTerm, setSearchTerm] = useState('');
   const [filteredMaterials, setFilteredMaterials] = useState(materials || []);
 
+  // Courses for the student's section, or all of them when they asked to see everything
+  const sectionCourses = useMemo(() => (
+    showAllSections
+      ? courses
+      : courses.filter(course => matchesUserSection(course.section, user?.section))
+  ), [courses, showAllSections, user?.section]);
+
+  const sectionMaterials = useMemo(() => {
+    if (!materials || showAllSections) return materials;
+
+    const hiddenCourseIds = new Set(
+      courses.filter(course => !sectionCourses.includes(course)).map(course => course.id)
+    );
+    return materials.filter(material => !hiddenCourseIds.has(material.courseId));
+  }, [materials, courses, sectionCourses, showAllSections]);
+
   // Update filtered materials whenever dependencies change
   useEffect(() => {
-    if (!materials) return;
+    if (!sectionMaterials) return;
 
-    const filtered = materials.filter(material => {
+    const filtered = sectionMaterials.filter(material => {
       // First check if material matches the selected course
       if (selectedCourse) {
-        if (material.courseid !== selectedCourse.id) {
+        if (material.courseId !== selectedCourse.id) {
           return false;
         }
       }
@@ -35,7 +56,7 @@ export function StudyMaterialsPage() {
     });
 
     setFilteredMaterials(filtered);
-  }, [materials, selectedCourse, selectedCategory, searchTerm]);
+  }, [sectionMaterials, selectedCourse, selectedCategory, searchTerm]);
 
   // Handle course change
   const handleCourseChange = useCallback((courseId: string) => {
@@ -85,11 +106,11 @@ export function StudyMaterialsPage() {
 
   // Get course-specific counts
   const totalMaterialsForCourse = selectedCourse 
-    ? materials?.filter(m => m.courseid === selectedCourse.id).length 
-    : materials?.length || 0;
+    ? sectionMaterials?.filter(m => m.courseId === selectedCourse.id).length 
+    : sectionMaterials?.length || 0;
 
   // Sort courses by code for better organization
-  const sortedCourses = [...courses].sort((a, b) => a.code.localeCompare(b.code));
+  const sortedCourses = [...sectionCourses].sort((a, b) => a.code.localeCompare(b.code));
 
   return (
     <div className="max-w-7xl mx-auto px-4 py-8">
@@ -127,6 +148,14 @@ export function StudyMaterialsPage() {
 
         {/* Course Filter & Search */}
         <div className="flex flex-col lg:flex-row gap-3 w-full lg:w-auto">
+          <SectionFilterToggle
+            section={user?.section}
+            showAll={showAllSections}
+            onChange={(showAll) => {
+              setShowAllSections(showAll);
+              setSelectedCourse(null);
+            }}
+          />
           <div className="flex flex-col sm:flex-row gap-3 w-full lg:max-w-2xl">
             {/* Course Filter */}
             <div className="relative w-full sm:w-1/2 lg:w-64">
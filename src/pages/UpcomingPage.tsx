@@ -5,7 +5,11 @@ import { useTasks } from '../hooks/useTasks';
 import { useAuth } from '../hooks/useAuth';
 import { TaskDetailsPopup } from '../components/task/TaskDetailsPopup';
 import { MonthlyCalendar } from '../components/MonthlyCalendar';
-import type { Task } from '../types';
+import { TaskCourseBadge } from '../components/task/TaskCourseBadge';
+import { TaskCourseFilter } from '../components/task/TaskCourseFilter';
+import { getCourseColor } from '../utils/courseColors';
+import { expandRecurringTasks } from '../utils/recurrence';
+import type { Task } from '../types/task';
 
 interface UpcomingPageProps {
   tasks: Task[];
@@ -20,6 +24,7 @@ export function UpcomingPage() {
   const [isUpdating, setIsUpdating] = useState(false);
   const [operationError, setOperationError] = useState<string | null>(null);
   const [isMonthlyCalendarOpen, setIsMonthlyCalendarOpen] = useState(false);
+  const [selectedCourseId, setSelectedCourseId] = useState<string | null>(null);
   // Flag to prevent auto-selection of tasks after date change
   const [preventTaskSelection, setPreventTaskSelection] = useState(false);
 
@@ -100,8 +105,7 @@ export function UpcomingPage() {
   // Update local tasks when allTasks changes
   useEffect(() => {
     if (allTasks) {
-      // Type assertion to ensure compatibility
-      setTasks(allTasks as any);
+      setTasks(expandRecurringTasks(allTasks));
     } else {
       setTasks([]);
     }
@@ -147,6 +151,10 @@ export function UpcomingPage() {
     });
   }, [tasks, selectedDate]);
 
+  // The course filter carries over between days, but only narrows days that have tasks for it
+  const courseTasks = filteredTasks.filter(task => task.courseId === selectedCourseId);
+  const visibleTasks = courseTasks.length > 0 ? courseTasks : filteredTasks;
+
   // Get task status
   const getTaskStatus = (task: Task) => {
     const dueDate = parseISO(task.dueDate);
@@ -435,9 +443,16 @@ export function UpcomingPage() {
 
       {/* Tasks List with Enhanced Cards */}
       <div className="px-4 md:max-w-4xl lg:max-w-5xl md:mx-auto pb-8">
-        {filteredTasks.length > 0 ? (
+        <TaskCourseFilter
+          tasks={filteredTasks}
+          selectedCourseId={courseTasks.length > 0 ? selectedCourseId : null}
+          onSelect={setSelectedCourseId}
+          className="mb-4"
+        />
+
+        {visibleTasks.length > 0 ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {filteredTasks.map((task) => {
+            {visibleTasks.map((task) => {
               const status = getTaskStatus(task);
               const categoryInfo = getCategoryInfo(task.category);
               const dueDate = parseISO(task.dueDate);
@@ -471,6 +486,10 @@ export function UpcomingPage() {
                     }
                   `}
                 >
+                  {task.course && (
+                    <span className={`absolute left-0 top-4 bottom-4 w-1 rounded-r-full ${getCourseColor(task.course.id).dot}`} />
+                  )}
+
                   <div className="p-4 flex-grow flex flex-col">
                     {/* Header Section without Category Tag */}
                     <div className="flex items-start mb-3">
@@ -494,6 +513,10 @@ export function UpcomingPage() {
                       </div>
                     </div>
 
+                    {task.course && (
+                      <TaskCourseBadge course={task.course} className="self-start mb-2" />
+                    )}
+
                     {/* Description */}
                     <p className={`
                       text-sm leading-relaxed line-clamp-2 mb-4 flex-grow
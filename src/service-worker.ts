@@ -16,6 +16,13 @@ import { CacheableResponsePlugin } from 'workbox-cacheable-response';
 // eslint-disable-next-line @typescript-eslint/ban-ts-comment
 // @ts-ignore
 import { warmStrategyCache } from 'workbox-recipes';
+import { BackgroundSyncPlugin, Queue } from 'workbox-background-sync';
+import { getAllFromIndexedDB, getByIdFromIndexedDB, saveToIndexedDB, deleteFromIndexedDB, STORES } from './utils/offlineStorage';
+import { canSyncInBackground, getFailedOperation, resolveTaskUpdate, sortOutboxOperations, withOutboxLock } from './utils/outboxRules';
+import { OUTBOX_SYNC_QUEUE, OUTBOX_SYNC_SESSION_ID, OUTBOX_SYNCED, REGISTER_OUTBOX_SYNC } from './utils/backgroundSync';
+import { mapTaskFromDB } from './utils/taskMapper';
+import { getProgressDate } from './utils/taskProgress';
+import type { OutboxOperation, OutboxSyncSession } from './types/outbox';
 
 // Clean up outdated caches
 cleanupOutdatedCaches();
@@ -338,9 +345,7 @@ self.addEventListener('fetch', (event: any) => {
 });
 
 // Background sync for offline operations
-// eslint-disable-next-line @typescript-eslint/ban-ts-comment
-// @ts-ignore
-const bgSyncPlugin = new workbox.backgroundSync.BackgroundSyncPlugin('offlineQueue', {
+const bgSyncPlugin = new BackgroundSyncPlugin('offlineQueue', {
   maxRetentionTime: 24 * 60 // Retry for up to 24 Hours
 });
 
@@ -400,6 +405,254 @@ registerRoute(
   'DELETE'
 );
 
+// Replay of the app's task outbox (see utils/taskOutbox.ts) while the app is closed.
+// Operations live in the shared nesttask_offline_db database, so whichever side gets
+// to an operation first sends it and removes it; the outbox lock keeps them from overlapping.
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+// Same columns the app loads, so replayed tasks keep their course
+const TASK_SELECT = '*,course:courses(id,code,name)';
+
+async function restRequest(
+  session: OutboxSyncSession,
+  path: string,
+  init: RequestInit = {},
+  prefer = 'return=representation'
+) {
+  const response = await fetch(`${SUPABASE_URL}/rest/v1/${path}`, {
+    ...init,
+    headers: {
+      apikey: SUPABASE_ANON_KEY,
+      Authorization: `Bearer ${session.accessToken}`,
+      'Content-Type': 'application/json',
+      Prefer: prefer
+    }
+  });
+
+  if (!response.ok) {
+    throw new Error(`Request failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+// Sends one operation; returns false if it can never succeed and was marked as failed
+async function replayOutboxOperation(session: OutboxSyncSession, operation: OutboxOperation, operations: OutboxOperation[]) {
+  const taskId = operation.entityId;
+
+  if (operation.type === 'create') {
+    const task = operation.payload || {};
+    const [row] = await restRequest(session, `tasks?select=${TASK_SELECT}`, {
+      method: 'POST',
+      body: JSON.stringify({
+        name: task.name,
+        category: task.category,
+        due_date: task.dueDate,
+        description: task.description,
+        status: task.status,
+        user_id: session.userId,
+        is_admin_task: false,
+        course_id: task.courseId || null
+      })
+    });
+
+    // Swap the temporary copy for the server's and point later operations at the new id
+    await deleteFromIndexedDB(STORES.TASKS, taskId);
+    await saveToIndexedDB(STORES.TASKS, { ...mapTaskFromDB(row), userId: session.userId });
+    for (const other of operations) {
+      if (other !== operation && other.entityId === taskId) {
+        other.entityId = row.id;
+        await saveToIndexedDB(STORES.OUTBOX, other);
+      }
+    }
+    return true;
+  }
+
+  const [serverRow] = await restRequest(session, `tasks?id=eq.${taskId}&select=${TASK_SELECT}`);
+  if (!serverRow) {
+    await saveToIndexedDB(STORES.OUTBOX, getFailedOperation(operation, 'This task was deleted on the server', true));
+    return false;
+  }
+
+  // A student's status on an admin task is their own progress, the shared row stays as it is
+  if (serverRow.is_admin_task && !session.isAdmin) {
+    if (operation.payload?.status) {
+      await restRequest(session, 'task_progress?on_conflict=task_id,user_id,occurrence_date', {
+        method: 'POST',
+        body: JSON.stringify({
+          task_id: taskId,
+          user_id: session.userId,
+          occurrence_date: getProgressDate(mapTaskFromDB(serverRow)) || null,
+          status: operation.payload.status
+        })
+      }, 'resolution=merge-duplicates,return=representation');
+    }
+    return true;
+  }
+
+  const updates = resolveTaskUpdate(operation.payload || {}, operation.base, mapTaskFromDB(serverRow), operation.createdAt);
+  if (!updates.status) return true;
+
+  const [row] = await restRequest(session, `tasks?id=eq.${taskId}&select=${TASK_SELECT}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ status: updates.status })
+  });
+  if (row) {
+    await saveToIndexedDB(STORES.TASKS, { ...mapTaskFromDB(row), userId: session.userId });
+  }
+  return true;
+}
+
+async function replayTaskOutbox() {
+  const session = await getByIdFromIndexedDB(STORES.USER_DATA, OUTBOX_SYNC_SESSION_ID) as OutboxSyncSession | undefined;
+
+  // The worker can't refresh the token; without a valid one the writes wait for the app
+  if (!session || session.expiresAt * 1000 <= Date.now()) return;
+
+  let changed = false;
+
+  try {
+    await withOutboxLock(async () => {
+      const stored = await getAllFromIndexedDB(STORES.OUTBOX) as OutboxOperation[];
+      const operations = sortOutboxOperations(stored.filter(operation => operation.userId === session.userId));
+      const blocked = new Set<string>();
+      const now = Date.now();
+
+      for (const operation of operations) {
+        const taskId = operation.entityId;
+
+        // Anything the worker can't send holds back later operations on the same task
+        if (
+          operation.status === 'failed' ||
+          blocked.has(taskId) ||
+          (operation.nextAttemptAt && operation.nextAttemptAt > now) ||
+          !canSyncInBackground(operation) ||
+          (operation.type === 'create' && session.isAdmin)
+        ) {
+          blocked.add(taskId);
+          continue;
+        }
+
+        try {
+          if (await replayOutboxOperation(session, operation, operations)) {
+            await deleteFromIndexedDB(STORES.OUTBOX, operation.id);
+          } else {
+            blocked.add(taskId);
+          }
+        } catch (error) {
+          // Still offline: stop here and let the browser fire the sync again later
+          if (error instanceof TypeError) throw error;
+
+          console.error(`Failed to sync ${operation.type} for task ${taskId}:`, error);
+          await saveToIndexedDB(STORES.OUTBOX, getFailedOperation(operation, (error as Error).message));
+          blocked.add(taskId);
+        }
+        changed = true;
+      }
+    });
+  } finally {
+    if (changed) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const clients = await (self as any).clients.matchAll({ type: 'window' });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      clients.forEach((client: any) => client.postMessage({ type: OUTBOX_SYNCED }));
+    }
+  }
+}
+
+const outboxQueue = new Queue(OUTBOX_SYNC_QUEUE, {
+  onSync: replayTaskOutbox,
+  maxRetentionTime: 24 * 60 // Retry for up to 24 Hours
+});
+
+// The app asks for a sync whenever it queues a write while offline
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+self.addEventListener('message', (event: any) => {
+  if (event.data?.type === REGISTER_OUTBOX_SYNC) {
+    event.waitUntil(outboxQueue.registerSync());
+  }
+});
+
+// Show push notifications sent by the server
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+self.addEventListener('push', (event: any) => {
+  if (!event.data) return;
+
+  try {
+    const data = event.data.json();
+    const options = {
+      body: data.body,
+      icon: '/icons/icon-192x192.png',
+      badge: '/icons/badge.png',
+      vibrate: [100, 50, 100],
+      data: {
+        url: data.data?.url || '/',
+        taskId: data.data?.taskId,
+        type: data.data?.type
+      },
+      actions: data.actions || [
+        {
+          action: 'open',
+          title: 'Open',
+          icon: '/icons/icon-192x192.png'
+        }
+      ],
+      tag: data.tag || 'default',
+      renotify: true,
+      requireInteraction: true
+    };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    event.waitUntil((self as any).registration.showNotification(data.title, options));
+  } catch (error) {
+    console.error('Error handling push notification:', error);
+  }
+});
+
+// Open the app on the notification's page and tell open windows what was clicked
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+self.addEventListener('notificationclick', (event: any) => {
+  event.notification.close();
+
+  if (event.action === 'close') return;
+
+  const urlToOpen = event.notification.data?.url || '/';
+  const taskId = event.notification.data?.taskId;
+  const notificationType = event.notification.data?.type;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const clients = (self as any).clients;
+
+  event.waitUntil(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windowClients: any[]) => {
+      // Focus a window that's already on the target URL
+      const windowToFocus = windowClients.find(windowClient => windowClient.url === urlToOpen);
+
+      if (windowToFocus) {
+        windowToFocus.focus();
+      } else {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        clients.openWindow(urlToOpen).then((windowClient: any) => {
+          if (windowClient) {
+            windowClient.focus();
+          }
+        });
+      }
+
+      if (taskId && notificationType) {
+        windowClients.forEach(client => {
+          client.postMessage({
+            type: 'NOTIFICATION_CLICKED',
+            payload: {
+              taskId,
+              notificationType
+            }
+          });
+        });
+      }
+    })
+  );
+});
+
 // Add a global error handler to catch unexpected errors
 self.addEventListener('error', (event) => {
   console.error('Service Worker error:', event.error);
@@ -1,16 +1,70 @@
 import { supabase } from '../lib/supabase';
 import { sendAnnouncementNotification } from './telegram.service';
-import type { Announcement, NewAnnouncement } from '../types/announcement';
+import { sortAnnouncements } from '../utils/announcementStatus';
+import type { Announcement, AnnouncementAudience, NewAnnouncement } from '../types/announcement';
+
+interface AnnouncementRow {
+  id: string;
+  title: string;
+  content: string;
+  created_at: string;
+  created_by: string;
+  is_draft: boolean;
+  publish_at: string;
+  expires_at: string | null;
+  published_at: string | null;
+  pinned: boolean;
+  audience: AnnouncementAudience;
+  audience_section: string | null;
+  audience_course_id: string | null;
+}
+
+function mapAnnouncementFromDB(row: AnnouncementRow): Announcement {
+  return {
+    id: row.id,
+    title: row.title,
+    content: row.content,
+    createdAt: row.created_at,
+    createdBy: row.created_by,
+    isDraft: row.is_draft,
+    publishAt: row.publish_at,
+    expiresAt: row.expires_at || undefined,
+    publishedAt: row.published_at || undefined,
+    pinned: row.pinned,
+    audience: row.audience,
+    audienceSection: row.audience_section || undefined,
+    audienceCourseId: row.audience_course_id || undefined
+  };
+}
+
+function mapAnnouncementToDB(announcement: Partial<NewAnnouncement>): Partial<AnnouncementRow> {
+  const row: Partial<AnnouncementRow> = {};
+
+  if (announcement.title !== undefined) row.title = announcement.title;
+  if (announcement.content !== undefined) row.content = announcement.content;
+  if (announcement.isDraft !== undefined) row.is_draft = announcement.isDraft;
+  if (announcement.publishAt !== undefined) row.publish_at = announcement.publishAt;
+  if ('expiresAt' in announcement) row.expires_at = announcement.expiresAt || null;
+  if (announcement.pinned !== undefined) row.pinned = announcement.pinned;
+  if (announcement.audience !== undefined) {
+    // Only keep the target that matches the audience
+    row.audience = announcement.audience;
+    row.audience_section = announcement.audience === 'section' ? announcement.audienceSection?.trim() || null : null;
+    row.audience_course_id = announcement.audience === 'course' ? announcement.audienceCourseId || null : null;
+  }
+
+  return row;
+}
 
 export async function fetchAnnouncements() {
   try {
     const { data, error } = await supabase
       .from('announcements')
       .select('*')
-      .order('created_at', { ascending: false });
+      .order('publish_at', { ascending: false });
 
     if (error) throw error;
-    return data as Announcement[];
+    return sortAnnouncements(((data || []) as AnnouncementRow[]).map(mapAnnouncementFromDB));
   } catch (error) {
     console.error('Error fetching announcements:', error);
     return [];
@@ -23,12 +77,12 @@ export async function createAnnouncement(announcement: NewAnnouncement) {
 
   try {
     const timestamp = new Date().toISOString();
-    
+
     const { data, error } = await supabase
       .from('announcements')
       .insert({
-        title: announcement.title,
-        content: announcement.content,
+        publish_at: timestamp,
+        ...mapAnnouncementToDB(announcement),
         created_by: user.id,
         created_at: timestamp
       })
@@ -37,13 +91,12 @@ export async function createAnnouncement(announcement: NewAnnouncement) {
 
     if (error) throw error;
 
-    const newAnnouncement = {
-      ...data,
-      createdAt: timestamp
-    } as Announcement;
+    const newAnnouncement = mapAnnouncementFromDB(data as AnnouncementRow);
 
-    // Send Telegram notification
-    await sendAnnouncementNotification(newAnnouncement);
+    // Scheduled announcements are queued by the publish-announcements function when they go live
+    if (newAnnouncement.publishedAt) {
+      await sendAnnouncementNotification(newAnnouncement);
+    }
 
     return newAnnouncement;
   } catch (error) {
@@ -52,6 +105,52 @@ export async function createAnnouncement(announcement: NewAnnouncement) {
   }
 }
 
+export async function updateAnnouncement(id: string, updates: Partial<NewAnnouncement>) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  try {
+    const { data: existing, error: fetchError } = await supabase
+      .from('announcements')
+      .select('published_at')
+      .eq('id', id)
+      .single();
+
+    if (fetchError) throw fetchError;
+
+    const { data, error } = await supabase
+      .from('announcements')
+      .update(mapAnnouncementToDB(updates))
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    const updatedAnnouncement = mapAnnouncementFromDB(data as AnnouncementRow);
+
+    // The update made a draft or scheduled announcement go live
+    if (!existing.published_at && updatedAnnouncement.publishedAt) {
+      await sendAnnouncementNotification(updatedAnnouncement);
+    }
+
+    return updatedAnnouncement;
+  } catch (error) {
+    console.error('Error updating announcement:', error);
+    throw error;
+  }
+}
+
+/**
+ * Publishes a draft or scheduled announcement right away
+ */
+export async function publishAnnouncement(id: string) {
+  return updateAnnouncement(id, {
+    isDraft: false,
+    publishAt: new Date().toISOString()
+  });
+}
+
 export async function deleteAnnouncement(id: string) {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) throw new Error('Not authenticated');
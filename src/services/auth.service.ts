@@ -107,14 +107,7 @@ export async function loginUser({ email, password }: LoginCredentials): Promise<
           throw new Error('No profile data received after creation');
         }
 
-        return {
-          id: newProfile.id,
-          email: newProfile.email,
-          name: newProfile.name || '',
-          role: newProfile.role as 'user' | 'admin',
-          createdAt: newProfile.created_at,
-          lastActive: newProfile.last_active
-        };
+        return mapDbUserToUser(newProfile);
       } else {
         throw new Error('Failed to fetch user profile');
       }
@@ -126,25 +119,21 @@ export async function loginUser({ email, password }: LoginCredentials): Promise<
       .update({ last_active: new Date().toISOString() })
       .eq('id', authData.user.id);
 
-    return {
-      id: profile.id,
-      email: profile.email,
-      name: profile.name || '',
-      role: profile.role as 'user' | 'admin',
-      createdAt: profile.created_at,
-      lastActive: profile.last_active
-    };
+    return mapDbUserToUser(profile);
   } catch (error: any) {
     console.error('Login error:', error);
     throw new Error(getAuthErrorMessage(error));
   }
 }
 
-export async function signupUser({ email, password, name, phone, studentId }: SignupCredentials): Promise<User> {
+export async function signupUser({ email, password, name, phone, studentId, department, batch, section }: SignupCredentials): Promise<User> {
   try {
     if (!email || !password || !name || !phone || !studentId) {
       throw new Error('All fields are required');
     }
+    if (!section?.trim()) {
+      throw new Error('Please select your section');
+    }
 
     const { data: authData, error: authError } = await supabase.auth.signUp({
       email,
@@ -154,7 +143,10 @@ export async function signupUser({ email, password, name, phone, studentId }: Si
           name,
           role: 'user',
           phone,
-          studentId
+          studentId,
+          department: department.trim(),
+          batch: batch.trim(),
+          section: section.trim()
         },
       },
     });
@@ -186,7 +178,10 @@ export async function signupUser({ email, password, name, phone, studentId }: Si
           name,
           role: 'user',
           phone,
-          student_id: studentId
+          student_id: studentId,
+          department: department.trim() || null,
+          batch: batch.trim() || null,
+          section: section.trim()
         })
         .select()
         .single();
@@ -196,26 +191,10 @@ export async function signupUser({ email, password, name, phone, studentId }: Si
         throw new Error('Failed to create user profile');
       }
 
-      return {
-        id: newProfile.id,
-        email: newProfile.email,
-        name: newProfile.name,
-        phone: newProfile.phone,
-        studentId: newProfile.student_id,
-        role: newProfile.role,
-        createdAt: newProfile.created_at
-      };
+      return mapDbUserToUser(newProfile);
     }
 
-    return {
-      id: profile.id,
-      email: profile.email,
-      name: profile.name,
-      phone: profile.phone,
-      studentId: profile.student_id,
-      role: profile.role,
-      createdAt: profile.created_at
-    };
+    return mapDbUserToUser(profile);
   } catch (error: any) {
     console.error('Signup error:', error);
     if (error.message?.includes('duplicate key') || 
@@ -269,12 +248,47 @@ export async function resetPassword(email: string): Promise<void> {
   }
 }
 
+/**
+ * Changes the signed-in user's section, for accounts created before sections existed
+ * or students who moved section. The session metadata and the users row both keep it.
+ */
+export async function updateUserSection(section: string): Promise<void> {
+  try {
+    const trimmed = section.trim();
+    if (!trimmed) {
+      throw new Error('Please enter your section');
+    }
+
+    const { data: authData, error: authError } = await supabase.auth.updateUser({
+      data: { section: trimmed }
+    });
+
+    if (authError) throw authError;
+    if (!authData?.user) throw new Error('No user data received');
+
+    const { error: profileError } = await supabase
+      .from('users')
+      .update({ section: trimmed })
+      .eq('id', authData.user.id);
+
+    if (profileError) throw profileError;
+  } catch (error) {
+    console.error('Update section error:', error);
+    throw new Error((error as Error).message || 'Failed to update your section');
+  }
+}
+
 // Helper function to map database user to User type
 function mapDbUserToUser(dbUser: DbUser): User {
   return {
     id: dbUser.id,
     email: dbUser.email,
     name: dbUser.name || '',
+    phone: dbUser.phone || undefined,
+    studentId: dbUser.student_id || undefined,
+    department: dbUser.department || undefined,
+    batch: dbUser.batch || undefined,
+    section: dbUser.section || undefined,
     role: dbUser.role as 'user' | 'admin',
     createdAt: dbUser.created_at,
     lastActive: dbUser.last_active
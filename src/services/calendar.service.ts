@@ -0,0 +1,67 @@
+import { supabase } from '../lib/supabase';
+
+const FEED_FUNCTION = 'task-calendar-feed';
+
+/**
+ * Builds the public feed URL for a calendar token
+ * @param token The user's calendar feed token
+ * @param webcal Use the webcal:// scheme so calendar apps open a subscription dialog
+ */
+export function getCalendarFeedUrl(token: string, webcal = false): string {
+  const url = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${FEED_FUNCTION}?token=${encodeURIComponent(token)}`;
+  return webcal ? url.replace(/^https?:\/\//, 'webcal://') : url;
+}
+
+/**
+ * Gets the user's calendar feed token, creating one on first use
+ */
+export async function getCalendarFeedToken(userId: string): Promise<string> {
+  try {
+    const { data, error } = await supabase
+      .from('calendar_feed_tokens')
+      .select('token')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data?.token) return data.token;
+
+    const { data: created, error: createError } = await supabase
+      .from('calendar_feed_tokens')
+      .insert({ user_id: userId })
+      .select('token')
+      .single();
+
+    if (createError) throw createError;
+    return created.token;
+  } catch (error) {
+    console.error('Error getting calendar feed token:', error);
+    throw error;
+  }
+}
+
+/**
+ * Replaces the user's calendar feed token, invalidating previously shared feed URLs
+ */
+export async function regenerateCalendarFeedToken(userId: string): Promise<string> {
+  try {
+    const { error: deleteError } = await supabase
+      .from('calendar_feed_tokens')
+      .delete()
+      .eq('user_id', userId);
+
+    if (deleteError) throw deleteError;
+
+    const { data, error } = await supabase
+      .from('calendar_feed_tokens')
+      .insert({ user_id: userId })
+      .select('token')
+      .single();
+
+    if (error) throw error;
+    return data.token;
+  } catch (error) {
+    console.error('Error regenerating calendar feed token:', error);
+    throw error;
+  }
+}
@@ -1,5 +1,6 @@
 import { supabase } from '../lib/supabase';
 import type { Course, NewCourse, StudyMaterial, NewStudyMaterial } from '../types/course';
+import type { BulkImportMessage, BulkImportOptions, BulkImportResult } from '../types/bulkImport';
 import { checkTeacherNameExists } from './teacher.service';
 import { NewTeacher } from '../types/teacher';
 
@@ -92,6 +93,25 @@ export async function updateCourse(id: string, updates: Partial<Course>): Promis
   }
 }
 
+/**
+ * Rewrites course class times from the slots of the active routines
+ * @param courseIds Courses to sync; all courses when omitted
+ * @returns How many courses changed
+ */
+export async function syncCourseClassTimes(courseIds?: string[]): Promise<number> {
+  try {
+    const { data, error } = await supabase.rpc('sync_course_class_times', {
+      p_course_ids: courseIds ?? null
+    });
+
+    if (error) throw error;
+    return data as number;
+  } catch (error) {
+    console.error('Error syncing course class times:', error);
+    throw error;
+  }
+}
+
 export async function deleteCourse(id: string): Promise<void> {
   try {
     console.log(`Attempting to delete course with ID: ${id}`);
@@ -141,7 +161,7 @@ export async function fetchStudyMaterials(): Promise<StudyMaterial[]> {
       id: material.id,
       title: material.title,
       description: material.description,
-      courseid: material.course_id,
+      courseId: material.course_id,
       category: material.category,
       fileUrls: material.file_urls || [],
       originalFileNames: material.original_file_names || [],
@@ -199,7 +219,7 @@ export async function createStudyMaterial(material: NewStudyMaterial): Promise<S
       id: data.id,
       title: data.title,
       description: data.description,
-      courseid: data.course_id,
+      courseId: data.course_id,
       category: data.category,
       fileUrls: data.file_urls || [],
       originalFileNames: data.original_file_names || [],
@@ -220,7 +240,7 @@ export async function updateStudyMaterial(id: string, updates: Partial<StudyMate
       .update({
         title: updates.title,
         description: updates.description,
-        course_id: updates.courseid,
+        course_id: updates.courseId,
         category: updates.category,
         file_urls: updates.fileUrls,
         original_file_names: updates.originalFileNames
@@ -249,7 +269,7 @@ export async function updateStudyMaterial(id: string, updates: Partial<StudyMate
       id: data.id,
       title: data.title,
       description: data.description,
-      courseid: data.course_id,
+      courseId: data.course_id,
       category: data.category,
       fileUrls: data.file_urls || [],
       originalFileNames: data.original_file_names || [],
@@ -280,7 +300,7 @@ export async function deleteStudyMaterial(id: string): Promise<void> {
 // Helper function to map database fields to camelCase
 function mapCourseFromDB(data: any): Course {
   // Parse class times from the string format back to array
-  const classTimes = data.class_time.split(', ').map((timeStr: string) => {
+  const classTimes = (data.class_time || '').split(', ').filter(Boolean).map((timeStr: string) => {
     // Check if the time string includes classroom information
     const hasClassroom = timeStr.includes(' in ');
     if (hasClassroom) {
@@ -309,35 +329,60 @@ function mapCourseFromDB(data: any): Course {
   };
 }
 
+// Matches a value literally in an ilike filter
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
 /**
  * Bulk import courses from JSON data
  * @param courses The array of courses to import
+ * @param options atomic imports all courses or none; upsert updates courses with the same code and section
  * @returns An object with success count and errors array
  */
-export async function bulkImportCourses(courses: NewCourse[]): Promise<{ success: number; errors: any[] }> {
-  const errors: any[] = [];
+export async function bulkImportCourses(
+  courses: NewCourse[],
+  options: BulkImportOptions = {}
+): Promise<BulkImportResult> {
+  if (options.atomic) {
+    return importCoursesAtomically(courses, !!options.upsert);
+  }
+
+  const errors: BulkImportMessage[] = [];
   let successCount = 0;
+  let updatedCount = 0;
   
   for (let i = 0; i < courses.length; i++) {
     const course = courses[i];
     try {
-      // Format class times into a string (which should be empty as we're not importing class times)
+      // Format class times into a string
       const formattedClassTimes = course.classTimes
         .map(ct => `${ct.day} at ${ct.time}${ct.classroom ? ` in ${ct.classroom}` : ''}`)
         .join(', ');
       
-      // Check if a course with this code already exists
-      const { data: existingCourse, error: checkError } = await supabase
+      // Check if a course with this code already exists, ignoring case like the atomic import.
+      // When upserting, only a course in the same section counts, and it gets updated below.
+      let existingQuery = supabase
         .from('courses')
         .select('id, code')
-        .eq('code', course.code)
-        .maybeSingle();
+        .ilike('code', escapeLikePattern(course.code.trim()));
+      
+      if (options.upsert) {
+        existingQuery = course.section
+          ? existingQuery.eq('section', course.section)
+          : existingQuery.is('section', null);
+      }
+      
+      // The code can exist in several sections, so don't expect a single row
+      const { data: existingCourses, error: checkError } = await existingQuery.limit(1);
       
       if (checkError) {
         throw new Error(`Error checking for existing course: ${checkError.message}`);
       }
+
+      const existingCourse = existingCourses?.[0];
       
-      if (existingCourse) {
+      if (existingCourse && !options.upsert) {
         errors.push({
           message: `Course #${i + 1} (${course.code}): A course with this code already exists`
         });
@@ -412,35 +457,62 @@ export async function bulkImportCourses(courses: NewCourse[]): Promise<{ success
         }
       }
       
-      // Insert the new course
-      const { data, error } = await supabase
-        .from('courses')
-        .insert({
-          name: course.name,
-          code: course.code,
-          teacher: course.teacher,
-          class_time: formattedClassTimes,
-          telegram_group: course.telegramGroup,
-          blc_link: course.blcLink,
-          blc_enroll_key: course.blcEnrollKey,
-          credit: course.credit,
-          section: course.section,
-          teacher_id: teacherId
-        })
-        .select()
-        .single();
+      let data;
       
-      if (error) throw error;
+      if (existingCourse) {
+        // Update the course from the earlier import instead of adding it again
+        const { data: updatedCourse, error } = await supabase
+          .from('courses')
+          .update({
+            name: course.name,
+            teacher: course.teacher,
+            credit: course.credit,
+            teacher_id: teacherId,
+            // Columns the file leaves blank keep what the course already has
+            ...(formattedClassTimes ? { class_time: formattedClassTimes } : {}),
+            ...(course.telegramGroup ? { telegram_group: course.telegramGroup } : {}),
+            ...(course.blcLink ? { blc_link: course.blcLink } : {}),
+            ...(course.blcEnrollKey ? { blc_enroll_key: course.blcEnrollKey } : {})
+          })
+          .eq('id', existingCourse.id)
+          .select()
+          .single();
+        
+        if (error) throw error;
+        data = updatedCourse;
+        updatedCount++;
+      } else {
+        // Insert the new course
+        const { data: newCourse, error } = await supabase
+          .from('courses')
+          .insert({
+            name: course.name,
+            code: course.code,
+            teacher: course.teacher,
+            class_time: formattedClassTimes,
+            telegram_group: course.telegramGroup,
+            blc_link: course.blcLink,
+            blc_enroll_key: course.blcEnrollKey,
+            credit: course.credit,
+            section: course.section,
+            teacher_id: teacherId
+          })
+          .select()
+          .single();
+        
+        if (error) throw error;
+        data = newCourse;
+      }
       
       // If teacher ID exists, create the association in teacher_courses
       if (teacherId) {
         try {
           const { error: associationError } = await supabase
             .from('teacher_courses')
-            .insert({
+            .upsert({
               teacher_id: teacherId,
               course_id: data.id
-            });
+            }, { onConflict: 'teacher_id,course_id', ignoreDuplicates: true });
             
           if (associationError) {
             console.error(`Error creating teacher-course association: ${associationError.message}`);
@@ -465,6 +537,103 @@ export async function bulkImportCourses(courses: NewCourse[]): Promise<{ success
   
   return {
     success: successCount,
+    updated: updatedCount,
     errors
   };
+}
+
+function courseImportKey(code: string, section?: string): string {
+  return `${code.trim().toLowerCase()}|${(section || '').trim().toLowerCase()}`;
+}
+
+/**
+ * Checks every course first and then imports them all through one database
+ * transaction, so a failing row leaves nothing half imported
+ */
+async function importCoursesAtomically(courses: NewCourse[], upsert: boolean): Promise<BulkImportResult> {
+  const errors: BulkImportMessage[] = [];
+
+  const { data: existingCourses, error: existingError } = await supabase
+    .from('courses')
+    .select('code, section');
+
+  if (existingError) {
+    console.error('Error loading courses for import:', existingError);
+    return {
+      success: 0,
+      errors: [{ message: `Could not check existing courses: ${existingError.message}` }],
+      rolledBack: true
+    };
+  }
+
+  const existingCodes = new Set((existingCourses || []).map(c => c.code.trim().toLowerCase()));
+  const seenKeys = new Map<string, number>();
+
+  courses.forEach((course, i) => {
+    const label = `Course #${i + 1}${course.code ? ` (${course.code})` : ''}`;
+
+    if (!course.code || !course.name) {
+      errors.push({ message: `${label}: Missing course code or title` });
+      return;
+    }
+
+    const key = courseImportKey(course.code, course.section);
+    if (seenKeys.has(key)) {
+      errors.push({ message: `${label}: Same code and section as course #${seenKeys.get(key)! + 1}` });
+    } else {
+      seenKeys.set(key, i);
+    }
+
+    if (!upsert && existingCodes.has(course.code.trim().toLowerCase())) {
+      errors.push({ message: `${label}: A course with this code already exists` });
+    }
+  });
+
+  if (errors.length > 0) {
+    return {
+      success: 0,
+      errors: [...errors, { message: 'Nothing was imported. Fix the rows above and try again.' }],
+      rolledBack: true
+    };
+  }
+
+  const { data, error } = await supabase.rpc('import_courses', {
+    p_courses: courses.map(course => ({
+      code: course.code,
+      name: course.name,
+      teacher: course.teacher,
+      teacher_id: course.teacherId || null,
+      credit: course.credit ?? null,
+      section: course.section || null,
+      class_time: course.classTimes
+        .map(ct => `${ct.day} at ${ct.time}${ct.classroom ? ` in ${ct.classroom}` : ''}`)
+        .join(', '),
+      telegram_group: course.telegramGroup || null,
+      blc_link: course.blcLink || null,
+      blc_enroll_key: course.blcEnrollKey || null
+    })),
+    p_upsert: upsert
+  });
+
+  if (error) {
+    console.error('Error importing courses:', error);
+    return {
+      success: 0,
+      errors: [{ message: `Import rolled back, nothing was saved: ${error.message}` }],
+      rolledBack: true
+    };
+  }
+
+  const result = data as { inserted: number; updated: number; created_teachers: number };
+  return {
+    success: result.inserted + result.updated,
+    updated: result.updated,
+    errors: result.created_teachers > 0
+      ? [{
+          message: `Created ${result.created_teachers} new ${result.created_teachers === 1 ? 'teacher' : 'teachers'}`,
+          isWarning: true,
+          isSuccess: true
+        }]
+      : []
+  };
 }
\ No newline at end of file
@@ -0,0 +1,128 @@
+import { supabase } from '../lib/supabase';
+import type { Notification, NotificationType } from '../types/notification';
+
+export const NOTIFICATIONS_PAGE_SIZE = 20;
+
+export interface NotificationRow {
+  id: string;
+  type: NotificationType;
+  title: string;
+  message: string | null;
+  task_id: string | null;
+  announcement_id: string | null;
+  read_at: string | null;
+  archived_at: string | null;
+  created_at: string;
+}
+
+export function mapNotificationFromDB(row: NotificationRow): Notification {
+  return {
+    id: row.id,
+    type: row.type,
+    title: row.title,
+    message: row.message || '',
+    timestamp: new Date(row.created_at),
+    read: row.read_at !== null,
+    taskId: row.task_id || undefined,
+    announcementId: row.announcement_id || undefined,
+    isAdminTask: row.type === 'admin-task',
+    isAnnouncement: row.type === 'announcement'
+  };
+}
+
+/**
+ * Fetches a page of the user's notifications, newest first
+ * @param userId The recipient
+ * @param before Only return notifications created before this time, for loading older pages
+ */
+export async function fetchNotifications(
+  userId: string,
+  before?: Date,
+  limit = NOTIFICATIONS_PAGE_SIZE
+): Promise<Notification[]> {
+  try {
+    let query = supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .is('archived_at', null)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (before) {
+      query = query.lt('created_at', before.toISOString());
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return ((data || []) as NotificationRow[]).map(mapNotificationFromDB);
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    throw error;
+  }
+}
+
+export async function fetchUnreadNotificationCount(userId: string): Promise<number> {
+  try {
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('read_at', null)
+      .is('archived_at', null);
+
+    if (error) throw error;
+    return count || 0;
+  } catch (error) {
+    console.error('Error counting unread notifications:', error);
+    throw error;
+  }
+}
+
+export async function markNotificationRead(notificationId: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', notificationId)
+      .is('read_at', null);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error marking notification as read:', error);
+    throw error;
+  }
+}
+
+export async function markAllNotificationsRead(userId: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error marking all notifications as read:', error);
+    throw error;
+  }
+}
+
+/**
+ * Archives a notification so it no longer shows in the inbox or the unread count
+ */
+export async function archiveNotification(notificationId: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ archived_at: new Date().toISOString() })
+      .eq('id', notificationId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error archiving notification:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,53 @@
+import { supabase } from '../lib/supabase';
+import { DEFAULT_REMINDER_OFFSETS, normalizeReminderOffsets } from '../utils/taskReminders';
+import type { ReminderSettings } from '../types/reminder';
+
+/**
+ * Gets the user's due date reminder settings, falling back to the defaults
+ */
+export async function getReminderSettings(userId: string): Promise<ReminderSettings> {
+  try {
+    const { data, error } = await supabase
+      .from('reminder_settings')
+      .select('enabled, offsets')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      return { enabled: true, offsets: DEFAULT_REMINDER_OFFSETS };
+    }
+
+    return {
+      enabled: data.enabled,
+      offsets: normalizeReminderOffsets(data.offsets || [])
+    };
+  } catch (error) {
+    console.error('Error fetching reminder settings:', error);
+    throw error;
+  }
+}
+
+/**
+ * Saves the user's due date reminder settings
+ */
+export async function updateReminderSettings(userId: string, settings: ReminderSettings): Promise<ReminderSettings> {
+  try {
+    const offsets = normalizeReminderOffsets(settings.offsets);
+
+    const { error } = await supabase
+      .from('reminder_settings')
+      .upsert({
+        user_id: userId,
+        enabled: settings.enabled,
+        offsets,
+        updated_at: new Date().toISOString()
+      });
+
+    if (error) throw error;
+    return { enabled: settings.enabled, offsets };
+  } catch (error) {
+    console.error('Error updating reminder settings:', error);
+    throw error;
+  }
+}
@@ -1,5 +1,7 @@
 import { supabase } from '../lib/supabase';
-import type { Routine, RoutineSlot } from '../types/routine';
+import type { Routine, RoutineSlot, RoutineConflict, RoutineSlotChange } from '../types/routine';
+import type { BulkImportMessage, BulkImportOptions, BulkImportResult } from '../types/bulkImport';
+import { findSlotConflicts } from '../utils/routineConflicts';
 
 export async function fetchRoutines(): Promise<Routine[]> {
   try {
@@ -144,6 +146,72 @@ export async function deleteRoutine(id: string): Promise<void> {
   }
 }
 
+function mapSlotFromDB(slot: any): RoutineSlot {
+  return {
+    id: slot.id,
+    routineId: slot.routine_id,
+    courseId: slot.course_id,
+    teacherId: slot.teacher_id,
+    courseName: slot.course_name || '',
+    teacherName: slot.teacher_name || '',
+    dayOfWeek: slot.day_of_week,
+    startTime: slot.start_time,
+    endTime: slot.end_time,
+    roomNumber: slot.room_number,
+    section: slot.section,
+    createdAt: slot.created_at
+  };
+}
+
+/**
+ * Loads the slots a routine must not clash with: its own slots plus
+ * the slots of every active routine.
+ */
+async function fetchConflictPool(routineId: string): Promise<RoutineSlot[]> {
+  const { data: activeRoutines, error: routinesError } = await supabase
+    .from('routines')
+    .select('id')
+    .eq('is_active', true);
+
+  if (routinesError) throw routinesError;
+
+  const routineIds = Array.from(new Set([routineId, ...(activeRoutines || []).map(r => r.id)]));
+
+  const { data: slots, error: slotsError } = await supabase
+    .from('routine_slots')
+    .select('*')
+    .in('routine_id', routineIds);
+
+  if (slotsError) throw slotsError;
+
+  return (slots || []).map(mapSlotFromDB);
+}
+
+/**
+ * Checks a slot against its routine and all active routines for
+ * teacher, room and section clashes
+ * @param routineId The routine the slot belongs to
+ * @param slot The slot data to check
+ * @param slotId The ID of the slot being edited, so it is not compared with itself
+ * @returns The list of conflicts, empty when the slot fits
+ */
+export async function checkSlotConflicts(
+  routineId: string,
+  slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>,
+  slotId?: string
+): Promise<RoutineConflict[]> {
+  const pool = await fetchConflictPool(routineId);
+
+  return findSlotConflicts(
+    { ...slot, id: slotId || 'new-slot', routineId, createdAt: '' },
+    pool
+  );
+}
+
+function formatConflictError(conflicts: RoutineConflict[]): string {
+  return `Time slot conflicts with the schedule: ${conflicts.map(c => c.message).join('; ')}`;
+}
+
 export async function addRoutineSlot(
   routineId: string,
   slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>
@@ -204,6 +272,11 @@ export async function addRoutineSlot(
       }
     }
 
+    const conflicts = await checkSlotConflicts(routineId, { ...slot, courseName, teacherName });
+    if (conflicts.length > 0) {
+      throw new Error(formatConflictError(conflicts));
+    }
+
     try {
       // First, try to insert with course_name and teacher_name
       const { data, error } = await supabase
@@ -345,6 +418,35 @@ export async function updateRoutineSlot(
       }
     }
     
+    // Merge the updates into the stored slot so the full slot can be checked for clashes
+    const { data: existingSlot, error: existingError } = await supabase
+      .from('routine_slots')
+      .select('*')
+      .eq('id', slotId)
+      .eq('routine_id', routineId)
+      .single();
+
+    if (existingError) throw existingError;
+
+    const currentSlot = mapSlotFromDB(existingSlot);
+    const definedUpdates = Object.fromEntries(
+      Object.entries(updates).filter(([, value]) => value !== undefined)
+    ) as Partial<RoutineSlot>;
+
+    const conflicts = await checkSlotConflicts(
+      routineId,
+      {
+        ...currentSlot,
+        ...definedUpdates,
+        courseName: courseName ?? currentSlot.courseName,
+        teacherName: teacherName ?? currentSlot.teacherName
+      },
+      slotId
+    );
+    if (conflicts.length > 0) {
+      throw new Error(formatConflictError(conflicts));
+    }
+
     try {
       // First try updating with course_name and teacher_name fields
       const updateFields: any = {
@@ -486,10 +588,29 @@ function convertTo24HourFormat(timeString: string): string {
   }
 }
 
+interface SlotImportRow {
+  routine_id: string;
+  course_id: string | null;
+  teacher_id: string | null;
+  course_name: string | null;
+  teacher_name: string | null;
+  day_of_week: string;
+  start_time: string;
+  end_time: string;
+  room_number: string | null;
+  section: string | null;
+}
+
+// Slots with the same key are the same slot when re-importing a file
+function slotImportKey(day: string, startTime: string, section?: string | null): string {
+  return `${day}|${startTime.slice(0, 5)}|${(section || '').trim().toLowerCase()}`;
+}
+
 /**
  * Bulk import time slots from JSON data
  * @param routineId The ID of the routine to import slots for
  * @param slotsData The array of slot data from the JSON file
+ * @param options atomic imports all slots or none; upsert updates slots with the same day, start time and section
  * @returns An object with success count and errors array
  */
 export async function bulkImportRoutineSlots(
@@ -506,10 +627,12 @@ export async function bulkImportRoutineSlots(
     section?: string;
     _teacherId?: string; // Optional: directly provided teacher ID
     _courseId?: string;  // Optional: directly provided course ID
-  }>
-): Promise<{ success: number; errors: any[] }> {
-  const errors: any[] = [];
+  }>,
+  options: BulkImportOptions = {}
+): Promise<BulkImportResult> {
+  const errors: BulkImportMessage[] = [];
   let successCount = 0;
+  let updatedCount = 0;
   
   // Validate routine existence
   try {
@@ -542,8 +665,20 @@ export async function bulkImportRoutineSlots(
     return courseName.trim();
   };
   
+  // Existing slots of this routine and every active routine, used for clash detection.
+  // Slots accepted from this import are added as we go so the file can't clash with itself.
+  let conflictPool: RoutineSlot[] = [];
+  try {
+    conflictPool = await fetchConflictPool(routineId);
+  } catch (error) {
+    console.error('Error loading slots for conflict check:', error);
+  }
+  
   // Prepare slot data with all necessary validation
-  const processedSlots = [];
+  const processedSlots: SlotImportRow[] = [];
+  // Slots matching one already in the routine, updated instead of inserted when upserting
+  const slotUpdates: { id: string; index: number; row: SlotImportRow }[] = [];
+  const importedKeys = new Map<string, number>();
   
   for (const [index, slot] of slotsData.entries()) {
     try {
@@ -647,28 +782,53 @@ export async function bulkImportRoutineSlots(
       const startTime = convertTo24HourFormat(slot.start_time);
       const endTime = convertTo24HourFormat(slot.end_time);
       
-      // Check for scheduling conflicts
-      const { data: conflicts, error: conflictError } = await supabase
-        .from('routine_slots')
-        .select('id')
-        .eq('routine_id', routineId)
-        .eq('day_of_week', slot.day)
-        .or(`start_time.lte.${endTime},end_time.gte.${startTime}`)
-        .limit(1);
-      
-      if (conflictError) {
-        console.error('Error checking for conflicts:', conflictError);
+      let existingSlot: RoutineSlot | undefined;
+      if (options.upsert) {
+        const key = slotImportKey(slot.day, startTime, slot.section);
+        if (importedKeys.has(key)) {
+          errors.push({
+            message: `Slot #${index + 1}: Same day, start time and section as slot #${importedKeys.get(key)! + 1}`
+          });
+          continue;
+        }
+        importedKeys.set(key, index);
+        
+        existingSlot = conflictPool.find(s =>
+          s.routineId === routineId && slotImportKey(s.dayOfWeek, s.startTime, s.section) === key
+        );
       }
       
-      if (conflicts && conflicts.length > 0) {
+      // Check for scheduling conflicts. A slot being updated keeps its ID so it doesn't clash with itself.
+      const candidate: RoutineSlot = {
+        id: existingSlot?.id || `import-${index}`,
+        routineId,
+        courseId: courseId || undefined,
+        teacherId: teacherId || undefined,
+        courseName: courseName || '',
+        teacherName: teacherName || '',
+        dayOfWeek: slot.day,
+        startTime,
+        endTime,
+        roomNumber: slot.room_number,
+        section: slot.section,
+        createdAt: ''
+      };
+      const conflicts = findSlotConflicts(candidate, conflictPool);
+      
+      if (conflicts.length > 0) {
         errors.push({
-          message: `Slot #${index + 1}: Time conflict with existing slot on ${slot.day} at ${slot.start_time} - ${slot.end_time}`
+          message: `Slot #${index + 1}: ${conflicts.map(c => c.message).join('; ')}`
         });
         continue;
       }
       
+      if (existingSlot) {
+        conflictPool = conflictPool.filter(s => s.id !== existingSlot!.id);
+      }
+      conflictPool.push(candidate);
+      
       // Prepare the slot data - always include course_name and teacher_name for future compatibility
-      processedSlots.push({
+      const row: SlotImportRow = {
         routine_id: routineId,
         course_id: courseId,
         teacher_id: teacherId,
@@ -679,7 +839,13 @@ export async function bulkImportRoutineSlots(
         end_time: endTime,
         room_number: slot.room_number || null,
         section: slot.section || null
-      });
+      };
+      
+      if (existingSlot) {
+        slotUpdates.push({ id: existingSlot.id, index, row });
+      } else {
+        processedSlots.push(row);
+      }
       
     } catch (error: any) {
       errors.push({
@@ -688,6 +854,51 @@ export async function bulkImportRoutineSlots(
     }
   }
   
+  if (options.atomic) {
+    if (errors.length > 0) {
+      return {
+        success: 0,
+        errors: [...errors, { message: 'Nothing was imported. Fix the slots above and try again.' }],
+        rolledBack: true
+      };
+    }
+    
+    const { data, error } = await supabase.rpc('import_routine_slots', {
+      p_routine_id: routineId,
+      p_slots: [...processedSlots, ...slotUpdates.map(update => update.row)],
+      p_upsert: !!options.upsert
+    });
+    
+    if (error) {
+      console.error('Error importing routine slots:', error);
+      return {
+        success: 0,
+        errors: [{ message: `Import rolled back, nothing was saved: ${error.message}` }],
+        rolledBack: true
+      };
+    }
+    
+    const result = data as { inserted: number; updated: number };
+    return {
+      success: result.inserted + result.updated,
+      updated: result.updated,
+      errors: []
+    };
+  }
+  
+  for (const update of slotUpdates) {
+    const { error } = await supabase
+      .from('routine_slots')
+      .update(update.row)
+      .eq('id', update.id);
+    
+    if (error) {
+      errors.push({ message: `Slot #${update.index + 1}: ${error.message}` });
+    } else {
+      updatedCount++;
+    }
+  }
+  
   // Insert all processed slots in a batch
   if (processedSlots.length > 0) {
     try {
@@ -737,11 +948,79 @@ export async function bulkImportRoutineSlots(
   }
   
   return {
-    success: successCount,
+    success: successCount + updatedCount,
+    updated: updatedCount,
     errors
   };
 }
 
+/**
+ * Saves a generated timetable as a new, inactive routine so it can be reviewed
+ * before being activated with activateRoutine
+ * @param routine The routine details (name, description, semester)
+ * @param slots The generated slots to add to the routine
+ * @returns The created routine including its slots
+ */
+export async function createDraftRoutine(
+  routine: Omit<Routine, 'id' | 'createdAt' | 'createdBy' | 'isActive' | 'slots'>,
+  slots: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>[]
+): Promise<Routine> {
+  const draft = await createRoutine({ ...routine, isActive: false });
+
+  if (slots.length === 0) return draft;
+
+  const dbSlots = slots.map(slot => ({
+    routine_id: draft.id,
+    course_id: slot.courseId || null,
+    teacher_id: slot.teacherId || null,
+    course_name: slot.courseName || null,
+    teacher_name: slot.teacherName || null,
+    day_of_week: slot.dayOfWeek,
+    start_time: slot.startTime,
+    end_time: slot.endTime,
+    room_number: slot.roomNumber || null,
+    section: slot.section || null
+  }));
+
+  try {
+    let { data, error } = await supabase
+      .from('routine_slots')
+      .insert(dbSlots)
+      .select('*');
+
+    if (error && (error.message.includes('column "course_name" of relation "routine_slots" does not exist') ||
+        error.message.includes('column "teacher_name" of relation "routine_slots" does not exist'))) {
+      // Fallback: insert without the denormalised name columns
+      ({ data, error } = await supabase
+        .from('routine_slots')
+        .insert(dbSlots.map(slot => {
+          const fallbackSlot: Partial<typeof slot> = { ...slot };
+          delete fallbackSlot.course_name;
+          delete fallbackSlot.teacher_name;
+          return fallbackSlot;
+        }))
+        .select('*'));
+    }
+
+    if (error) throw error;
+
+    // Names are kept from the generated slots in case the name columns don't exist
+    return {
+      ...draft,
+      slots: (data || []).map((row, index) => ({
+        ...mapSlotFromDB(row),
+        courseName: row.course_name || slots[index]?.courseName || '',
+        teacherName: row.teacher_name || slots[index]?.teacherName || ''
+      }))
+    };
+  } catch (error) {
+    console.error('Error saving draft routine slots:', error);
+    // Don't leave an empty draft behind when the slots couldn't be saved
+    await deleteRoutine(draft.id);
+    throw error;
+  }
+}
+
 /**
  * Export a routine to JSON format including all its slots
  */
@@ -816,4 +1095,93 @@ export async function getRoutinesBySemester(semester: string): Promise<any[]> {
     console.error('Error fetching routines by semester:', error);
     return [];
   }
-}
\ No newline at end of file
+}
+
+interface RoutineSlotHistoryRow {
+  id: string;
+  routine_id: string;
+  slot_id: string;
+  action: RoutineSlotChange['action'];
+  old_slot: Record<string, unknown> | null;
+  new_slot: Record<string, unknown> | null;
+  changed_by: string | null;
+  changed_at: string;
+}
+
+function mapSlotChangeFromDB(row: RoutineSlotHistoryRow): RoutineSlotChange {
+  return {
+    id: row.id,
+    routineId: row.routine_id,
+    slotId: row.slot_id,
+    action: row.action,
+    before: row.old_slot ? mapSlotFromDB(row.old_slot) : undefined,
+    after: row.new_slot ? mapSlotFromDB(row.new_slot) : undefined,
+    changedBy: row.changed_by || undefined,
+    changedAt: row.changed_at
+  };
+}
+
+/**
+ * Copies a routine and all its slots into a new, inactive routine, e.g. to start
+ * next semester's schedule from this one
+ * @param routineId The routine to copy
+ * @param copy Name, semester and optional description of the new routine
+ * @returns The new routine including its slots
+ */
+export async function cloneRoutine(
+  routineId: string,
+  copy: Pick<Routine, 'name' | 'semester' | 'description'>
+): Promise<Routine> {
+  try {
+    const { data: newRoutineId, error } = await supabase.rpc('clone_routine', {
+      p_routine_id: routineId,
+      p_name: copy.name,
+      p_semester: copy.semester,
+      p_description: copy.description || null
+    });
+
+    if (error) throw error;
+
+    const { data, error: fetchError } = await supabase
+      .from('routines')
+      .select('*, slots:routine_slots(*)')
+      .eq('id', newRoutineId)
+      .single();
+
+    if (fetchError) throw fetchError;
+
+    return {
+      id: data.id,
+      name: data.name,
+      description: data.description,
+      semester: data.semester,
+      isActive: data.is_active,
+      createdAt: data.created_at,
+      createdBy: data.created_by,
+      slots: (data.slots || []).map(mapSlotFromDB)
+    };
+  } catch (error) {
+    console.error('Error cloning routine:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetches every recorded change to a routine's slots, oldest first
+ */
+export async function fetchRoutineHistory(routineId: string): Promise<RoutineSlotChange[]> {
+  try {
+    const { data, error } = await supabase
+      .from('routine_slot_history')
+      .select('*')
+      .eq('routine_id', routineId)
+      .order('changed_at', { ascending: true });
+
+    if (error) throw error;
+
+    return ((data || []) as RoutineSlotHistoryRow[]).map(mapSlotChangeFromDB);
+  } catch (error) {
+    console.error('Error fetching routine history:', error);
+    throw error;
+  }
+}
@@ -1,43 +1,53 @@
 import { supabase } from '../lib/supabase';
 import { sendTaskNotification } from './telegram.service';
+import { fetchTaskAttachments, removeTaskAttachmentFiles, saveTaskAttachments } from './taskAttachment.service';
+import { fetchOwnTaskProgress } from './taskProgress.service';
 import type { Task, NewTask } from '../types/task';
 import { mapTaskFromDB } from '../utils/taskMapper';
+import { applyOwnProgress } from '../utils/taskProgress';
+
+// Tasks are loaded with the code and name of their course for badges and filters
+const TASK_SELECT = '*, course:courses (id, code, name)';
 
 export async function fetchTasks(userId: string) {
   try {
     const { data, error } = await supabase
       .from('tasks')
-      .select('*')
+      .select(TASK_SELECT)
       .or(`user_id.eq.${userId},is_admin_task.eq.true`)
       .order('created_at', { ascending: false });
 
     if (error) throw error;
-    return (data || []).map(mapTaskFromDB);
+    const tasks = (data || []).map(mapTaskFromDB);
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (user?.user_metadata?.role === 'admin') return tasks;
+
+    // Students see their own progress on admin tasks; no progress yet means not started
+    const progress = await fetchOwnTaskProgress(userId);
+    return tasks.map(task => task.isAdminTask ? applyOwnProgress(task, progress) : task);
   } catch (error) {
     console.error('Error fetching tasks:', error);
     throw error;
   }
 }
 
-async function uploadFile(file: File): Promise<string> {
+/**
+ * Fetches the current server copy of a single task
+ * @returns The task, or null if it no longer exists
+ */
+export async function fetchTaskById(taskId: string): Promise<Task | null> {
   try {
-    const fileExt = file.name.split('.').pop();
-    const fileName = `${crypto.randomUUID()}.${fileExt}`;
-    const filePath = `task-files/${fileName}`;
-
-    const { error: uploadError } = await supabase.storage
-      .from('task-attachments')
-      .upload(filePath, file);
-
-    if (uploadError) throw uploadError;
-
-    const { data: { publicUrl } } = supabase.storage
-      .from('task-attachments')
-      .getPublicUrl(filePath);
+    const { data, error } = await supabase
+      .from('tasks')
+      .select(TASK_SELECT)
+      .eq('id', taskId)
+      .maybeSingle();
 
-    return publicUrl;
+    if (error) throw error;
+    return data ? mapTaskFromDB(data) as Task : null;
   } catch (error) {
-    console.error('Error uploading file:', error);
+    console.error('Error fetching task:', error);
     throw error;
   }
 }
@@ -47,38 +57,21 @@ export async function createTask(userId: string, task: NewTask) {
     const { data: { user } } = await supabase.auth.getUser();
     const isAdmin = user?.user_metadata?.role === 'admin';
 
-    // Extract file information from description
-    const fileMatches = task.description.match(/\[.*?\]\(blob:.*?\)/g) || [];
-    let description = task.description;
-
-    // Upload each file and update description with permanent URLs
-    for (const match of fileMatches) {
-      const [, fileName, blobUrl] = match.match(/\[(.*?)\]\((blob:.*?)\)/) || [];
-      if (fileName && blobUrl) {
-        try {
-          const response = await fetch(blobUrl);
-          const blob = await response.blob();
-          const file = new File([blob], fileName, { type: blob.type });
-          const permanentUrl = await uploadFile(file);
-          description = description.replace(match, `[${fileName}](${permanentUrl})`);
-        } catch (error) {
-          console.error('Error processing file:', error);
-        }
-      }
-    }
-
     const { data, error } = await supabase
       .from('tasks')
       .insert({
         name: task.name,
         category: task.category,
         due_date: task.dueDate,
-        description: description,
+        description: task.description,
         status: task.status,
         user_id: userId,
-        is_admin_task: isAdmin
+        is_admin_task: isAdmin,
+        section: isAdmin ? task.section || null : null,
+        course_id: task.courseId || null,
+        recurrence: task.recurrence || null
       })
-      .select()
+      .select(TASK_SELECT)
       .single();
 
     if (error) throw error;
@@ -86,6 +79,11 @@ export async function createTask(userId: string, task: NewTask) {
 
     const newTask = mapTaskFromDB(data);
 
+    // Files are uploaded by the form, this records them against the new task
+    if (task.attachments?.length) {
+      await saveTaskAttachments(newTask.id, task.attachments);
+    }
+
     // Send notifications if it's an admin task
     if (isAdmin) {
       await sendPushNotifications(newTask);
@@ -169,13 +167,18 @@ export async function updateTask(taskId: string, updates: Partial<Task>) {
     if (updates.dueDate !== undefined) dbUpdates.due_date = updates.dueDate;
     if (updates.description !== undefined) dbUpdates.description = updates.description;
     if (updates.status !== undefined) dbUpdates.status = updates.status;
+    if (updates.section !== undefined) dbUpdates.section = updates.section || null;
+    // Passing courseId: undefined explicitly unlinks the course
+    if ('courseId' in updates) dbUpdates.course_id = updates.courseId || null;
+    // Passing recurrence: undefined explicitly stops a task from repeating
+    if ('recurrence' in updates) dbUpdates.recurrence = updates.recurrence || null;
 
     // Update task
     const { data, error } = await supabase
       .from('tasks')
       .update(dbUpdates)
       .eq('id', taskId)
-      .select('id, name, category, due_date, description, status, created_at, is_admin_task')
+      .select(TASK_SELECT)
       .single();
 
     if (error) {
@@ -187,33 +190,122 @@ export async function updateTask(taskId: string, updates: Partial<Task>) {
       throw new Error('Task not found');
     }
 
-    // Map the response to our Task type
-    return {
-      id: data.id,
-      name: data.name,
-      category: data.category,
-      dueDate: data.due_date,
-      description: data.description,
-      status: data.status,
-      createdAt: data.created_at,
-      isAdminTask: data.is_admin_task
-    };
+    return mapTaskFromDB(data);
   } catch (error: any) {
     console.error('Error updating task:', error);
     throw error;
   }
 }
 
+/**
+ * Whether a change is the signed-in student's own progress on an admin task.
+ * Admin tasks are shared, so a student's status is saved to task_progress instead
+ */
+export async function isOwnTaskProgress(task: Task, updates: Partial<Task>) {
+  if (!task.isAdminTask || !updates.status) return false;
+  if (Object.keys(updates).some(field => field !== 'status')) return false;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  return user?.user_metadata?.role !== 'admin';
+}
+
 export async function deleteTask(taskId: string) {
   try {
+    // Attachment rows go with the task, but their files have to be removed from storage
+    const attachments = await fetchTaskAttachments(taskId);
+
     const { error } = await supabase
       .from('tasks')
       .delete()
       .eq('id', taskId);
 
     if (error) throw error;
+
+    // The task is gone either way, so a file left behind isn't worth failing over
+    await removeTaskAttachmentFiles(attachments.map(attachment => attachment.storagePath))
+      .catch(() => undefined);
   } catch (error: any) {
     console.error('Error deleting task:', error);
     throw new Error(error.message || 'Failed to delete task');
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Edited occurrences and removed dates change a series for everyone who sees it,
+ * so only admins may change them on admin series
+ */
+async function getSeriesEditor(series: Task) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  if (series.isAdminTask && user.user_metadata?.role !== 'admin') {
+    throw new Error('Only admins can change occurrences of an admin task');
+  }
+  return user;
+}
+
+/**
+ * Saves changes to one occurrence of a recurring task as a task of its own,
+ * which takes the place of the generated occurrence for that date
+ * @param series The first task of the series
+ * @param occurrenceDate The date of the occurrence being changed
+ */
+export async function updateTaskOccurrence(series: Task, occurrenceDate: string, updates: Partial<Task>) {
+  try {
+    const user = await getSeriesEditor(series);
+
+    const { data, error } = await supabase
+      .from('tasks')
+      .insert({
+        name: updates.name ?? series.name,
+        category: updates.category ?? series.category,
+        due_date: updates.dueDate ?? occurrenceDate,
+        description: updates.description ?? series.description,
+        status: updates.status ?? series.status,
+        user_id: user.id,
+        is_admin_task: series.isAdminTask,
+        section: series.section || null,
+        course_id: ('courseId' in updates ? updates.courseId : series.courseId) || null,
+        series_id: series.id,
+        occurrence_date: occurrenceDate
+      })
+      .select(TASK_SELECT)
+      .single();
+
+    if (error) throw error;
+    if (!data) throw new Error('No data returned after updating occurrence');
+
+    return mapTaskFromDB(data);
+  } catch (error: any) {
+    console.error('Error updating task occurrence:', error);
+    throw new Error(error.message || 'Failed to update task occurrence');
+  }
+}
+
+/**
+ * Removes one occurrence from a recurring task, including any edited copy of it
+ * @returns The updated first task of the series
+ */
+export async function deleteTaskOccurrence(series: Task, occurrenceDate: string) {
+  try {
+    if (!series.recurrence) throw new Error('Task does not repeat');
+    await getSeriesEditor(series);
+
+    const exceptions = Array.from(new Set([...(series.recurrence.exceptions || []), occurrenceDate]));
+    const updated = await updateTask(series.id, {
+      recurrence: { ...series.recurrence, exceptions }
+    });
+
+    const { error } = await supabase
+      .from('tasks')
+      .delete()
+      .eq('series_id', series.id)
+      .eq('occurrence_date', occurrenceDate);
+
+    if (error) throw error;
+    return updated;
+  } catch (error: any) {
+    console.error('Error deleting task occurrence:', error);
+    throw new Error(error.message || 'Failed to delete task occurrence');
+  }
+}
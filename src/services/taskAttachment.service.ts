@@ -0,0 +1,170 @@
+import { supabase } from '../lib/supabase';
+import type { NewTaskAttachment, TaskAttachment } from '../types/task';
+
+const BUCKET = 'task-attachments';
+
+interface TaskAttachmentRow {
+  id: string;
+  task_id: string;
+  file_name: string;
+  file_size: number;
+  mime_type: string | null;
+  storage_path: string;
+  uploaded_by: string | null;
+  created_at: string;
+}
+
+export function getTaskAttachmentUrl(storagePath: string): string {
+  const { data: { publicUrl } } = supabase.storage
+    .from(BUCKET)
+    .getPublicUrl(storagePath);
+
+  return publicUrl;
+}
+
+function mapTaskAttachmentFromDB(row: TaskAttachmentRow): TaskAttachment {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    fileName: row.file_name,
+    fileSize: row.file_size,
+    mimeType: row.mime_type || undefined,
+    storagePath: row.storage_path,
+    url: getTaskAttachmentUrl(row.storage_path),
+    uploadedBy: row.uploaded_by || undefined,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Uploads a file to the task-attachments bucket. supabase-js doesn't report upload
+ * progress, so this posts to the storage API directly
+ * @param onProgress Called with the percentage uploaded so far
+ */
+export async function uploadTaskAttachmentFile(
+  file: File,
+  onProgress?: (percent: number) => void
+): Promise<NewTaskAttachment> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('User not authenticated');
+
+    const fileExt = file.name.split('.').pop();
+    const storagePath = `task-files/${crypto.randomUUID()}${fileExt ? `.${fileExt}` : ''}`;
+
+    await new Promise<void>((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open('POST', `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/${BUCKET}/${storagePath}`);
+      xhr.setRequestHeader('Authorization', `Bearer ${session.access_token}`);
+      xhr.setRequestHeader('apikey', import.meta.env.VITE_SUPABASE_ANON_KEY);
+      xhr.setRequestHeader('Cache-Control', 'max-age=3600');
+      xhr.setRequestHeader('x-upsert', 'false');
+      if (file.type) xhr.setRequestHeader('Content-Type', file.type);
+
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable) onProgress?.((event.loaded / event.total) * 100);
+      };
+      xhr.onload = () => {
+        if (xhr.status >= 200 && xhr.status < 300) {
+          onProgress?.(100);
+          resolve();
+          return;
+        }
+
+        let message = xhr.statusText || `Upload failed with status ${xhr.status}`;
+        try {
+          message = JSON.parse(xhr.responseText).message || message;
+        } catch {
+          // Not a JSON error body
+        }
+        reject(new Error(`File upload error: ${message}`));
+      };
+      xhr.onerror = () => reject(new Error('File upload error: network error'));
+
+      xhr.send(file);
+    });
+
+    return {
+      fileName: file.name,
+      fileSize: file.size,
+      mimeType: file.type || undefined,
+      storagePath
+    };
+  } catch (error) {
+    console.error('Error uploading attachment:', error);
+    throw error;
+  }
+}
+
+/**
+ * Removes uploaded files that never made it onto a task
+ */
+export async function removeTaskAttachmentFiles(storagePaths: string[]) {
+  if (!storagePaths.length) return;
+
+  try {
+    const { error } = await supabase.storage
+      .from(BUCKET)
+      .remove(storagePaths);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error removing attachment files:', error);
+    throw error;
+  }
+}
+
+export async function saveTaskAttachments(taskId: string, attachments: NewTaskAttachment[]): Promise<TaskAttachment[]> {
+  if (!attachments.length) return [];
+
+  try {
+    const { data, error } = await supabase
+      .from('task_attachments')
+      .insert(attachments.map(attachment => ({
+        task_id: taskId,
+        file_name: attachment.fileName,
+        file_size: attachment.fileSize,
+        mime_type: attachment.mimeType || null,
+        storage_path: attachment.storagePath
+      })))
+      .select();
+
+    if (error) throw error;
+    return ((data || []) as TaskAttachmentRow[]).map(mapTaskAttachmentFromDB);
+  } catch (error) {
+    console.error('Error saving task attachments:', error);
+    throw error;
+  }
+}
+
+export async function fetchTaskAttachments(taskId: string): Promise<TaskAttachment[]> {
+  try {
+    const { data, error } = await supabase
+      .from('task_attachments')
+      .select('*')
+      .eq('task_id', taskId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return ((data || []) as TaskAttachmentRow[]).map(mapTaskAttachmentFromDB);
+  } catch (error) {
+    console.error('Error fetching task attachments:', error);
+    throw error;
+  }
+}
+
+export async function deleteTaskAttachment(attachment: TaskAttachment) {
+  try {
+    const { error } = await supabase
+      .from('task_attachments')
+      .delete()
+      .eq('id', attachment.id);
+
+    if (error) throw error;
+
+    await removeTaskAttachmentFiles([attachment.storagePath]);
+  } catch (error) {
+    console.error('Error deleting task attachment:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,93 @@
+import { supabase } from '../lib/supabase';
+import { mapTaskProgressFromDB } from '../utils/taskProgress';
+import type { TaskProgress, TaskProgressSummary, TaskStatus } from '../types/task';
+
+interface TaskProgressSummaryRow {
+  task_id: string;
+  occurrence_date: string | null;
+  started: number;
+  completed: number;
+}
+
+/**
+ * Gets a user's own status on each admin task and occurrence they've moved on
+ */
+export async function fetchOwnTaskProgress(userId: string): Promise<TaskProgress[]> {
+  try {
+    const { data, error } = await supabase
+      .from('task_progress')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    return (data || []).map(mapTaskProgressFromDB);
+  } catch (error) {
+    console.error('Error fetching task progress:', error);
+    throw error;
+  }
+}
+
+/**
+ * Records the signed-in user's status on an admin task, leaving the shared task row alone
+ * @param occurrenceDate The occurrence of a recurring task the status is for
+ */
+export async function saveTaskProgress(taskId: string, status: TaskStatus, occurrenceDate?: string): Promise<void> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('task_progress')
+      .upsert(
+        { task_id: taskId, user_id: user.id, occurrence_date: occurrenceDate || null, status },
+        { onConflict: 'task_id,user_id,occurrence_date' }
+      );
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error saving task progress:', error);
+    throw new Error((error as Error).message || 'Failed to save task progress');
+  }
+}
+
+/**
+ * Gets how many students have started and completed each admin task (admin only)
+ */
+export async function fetchTaskProgressSummary(): Promise<TaskProgressSummary[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_task_progress_summary');
+    if (error) throw error;
+
+    return ((data || []) as TaskProgressSummaryRow[]).map(row => ({
+      taskId: row.task_id,
+      occurrenceDate: row.occurrence_date || undefined,
+      started: row.started,
+      completed: row.completed
+    }));
+  } catch (error) {
+    console.error('Error fetching task progress summary:', error);
+    throw error;
+  }
+}
+
+/**
+ * Gets every student's progress on one admin task, or one occurrence of it (admin only)
+ */
+export async function fetchTaskProgress(taskId: string, occurrenceDate?: string): Promise<TaskProgress[]> {
+  try {
+    const query = supabase
+      .from('task_progress')
+      .select('*')
+      .eq('task_id', taskId);
+
+    const { data, error } = occurrenceDate
+      ? await query.eq('occurrence_date', occurrenceDate)
+      : await query.is('occurrence_date', null);
+
+    if (error) throw error;
+    return (data || []).map(mapTaskProgressFromDB);
+  } catch (error) {
+    console.error('Error fetching task progress:', error);
+    throw error;
+  }
+}
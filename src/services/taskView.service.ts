@@ -0,0 +1,34 @@
+import { supabase } from '../lib/supabase';
+import type { TaskView } from '../types/taskView';
+
+/**
+ * Gets the task views saved on a user's profile
+ */
+export async function fetchTaskViews(userId: string): Promise<TaskView[]> {
+  try {
+    const { data, error } = await supabase
+      .from('users')
+      .select('task_views')
+      .eq('id', userId)
+      .single();
+
+    if (error) throw error;
+    return (data?.task_views || []) as TaskView[];
+  } catch (error) {
+    console.error('Error fetching task views:', error);
+    throw error;
+  }
+}
+
+/**
+ * Replaces the signed-in user's saved task views
+ */
+export async function saveTaskViews(views: TaskView[]): Promise<void> {
+  try {
+    const { error } = await supabase.rpc('save_task_views', { p_views: views });
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error saving task views:', error);
+    throw error;
+  }
+}
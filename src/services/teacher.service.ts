@@ -1,5 +1,5 @@
 import { supabase } from '../lib/supabase';
-import type { Teacher, NewTeacher } from '../types/teacher';
+import type { Teacher, NewTeacher, TeacherDeletionImpact } from '../types/teacher';
 
 // Interface for bulk import data format
 export interface TeacherBulkImportItem {
@@ -197,151 +197,104 @@ export async function updateTeacher(
   }
 }
 
-export async function deleteTeacher(id: string): Promise<void> {
+interface TeacherDeletionRow {
+  teacher: { id: string; name: string };
+  replacement: { id: string; name: string } | null;
+  courses: { id: string; name: string; code: string }[];
+  routine_slots: {
+    id: string;
+    routine_id: string;
+    routine_name: string | null;
+    day_of_week: string;
+    start_time: string;
+    end_time: string;
+    course_name: string | null;
+    section: string | null;
+  }[];
+  deleted: boolean;
+}
+
+function mapTeacherDeletionFromDB(row: TeacherDeletionRow): TeacherDeletionImpact {
+  return {
+    teacher: row.teacher,
+    replacement: row.replacement || undefined,
+    courses: row.courses,
+    routineSlots: row.routine_slots.map(slot => ({
+      id: slot.id,
+      routineId: slot.routine_id,
+      routineName: slot.routine_name || undefined,
+      dayOfWeek: slot.day_of_week,
+      startTime: slot.start_time,
+      endTime: slot.end_time,
+      courseName: slot.course_name || undefined,
+      section: slot.section || undefined
+    })),
+    deleted: row.deleted
+  };
+}
+
+async function callDeleteTeacher(
+  id: string,
+  replacementTeacherId: string | undefined,
+  dryRun: boolean
+): Promise<TeacherDeletionImpact> {
+  const { data, error } = await supabase.rpc('delete_teacher', {
+    p_teacher_id: id,
+    p_replacement_teacher_id: replacementTeacherId || null,
+    p_dry_run: dryRun
+  });
+
+  if (error) throw error;
+  return mapTeacherDeletionFromDB(data as TeacherDeletionRow);
+}
+
+/**
+ * Lists the courses and routine slots that deleting a teacher would change, without changing anything
+ */
+export async function previewTeacherDeletion(
+  id: string,
+  replacementTeacherId?: string
+): Promise<TeacherDeletionImpact> {
   try {
-    console.log(`Starting deletion process for teacher: ${id}`);
-    
-    // Begin a transaction
-    // First, check if teacher exists to provide early feedback
-    const { data: teacherExists, error: teacherExistsError } = await supabase
-      .from('teachers')
-      .select('id, name')
-      .eq('id', id)
-      .maybeSingle();
-      
-    if (teacherExistsError) {
-      console.error('Error checking if teacher exists:', teacherExistsError);
-      throw teacherExistsError;
-    }
-    
-    if (!teacherExists) {
-      console.log(`Teacher with ID ${id} not found, nothing to delete`);
-      return; // Nothing to delete, so exit early
-    }
-    
-    console.log(`Found teacher with ID ${id} (${teacherExists.name}), proceeding with deletion`);
-    
-    // CHECK FOR FOREIGN KEY ISSUE: Check if the teacher is referenced in courses
-    const { data: coursesWithTeacher, error: coursesCheckError } = await supabase
-      .from('courses')
-      .select('id, name, code')
-      .eq('teacher_id', id);
-    
-    if (coursesCheckError) {
-      console.error('Error checking for courses with teacher reference:', coursesCheckError);
-    } else if (coursesWithTeacher && coursesWithTeacher.length > 0) {
-      console.log(`Found ${coursesWithTeacher.length} courses referencing teacher ${id}. Removing references...`);
-      
-      // 1. First, ensure all courses have proper associations in teacher_courses
-      for (const course of coursesWithTeacher) {
-        console.log(`Checking teacher_courses association for course: ${course.id} (${course.code})`);
-        
-        // Check if association already exists
-        const { data: existingAssoc, error: assocCheckError } = await supabase
-          .from('teacher_courses')
-          .select('*')
-          .eq('teacher_id', id)
-          .eq('course_id', course.id)
-          .maybeSingle();
-          
-        if (assocCheckError) {
-          console.error(`Error checking teacher_courses for course ${course.id}:`, assocCheckError);
-        } else if (!existingAssoc) {
-          // Create the association properly in teacher_courses
-          console.log(`Creating proper teacher_courses association for course: ${course.id}`);
-          const { error: createAssocError } = await supabase
-            .from('teacher_courses')
-            .insert({
-              teacher_id: id,
-              course_id: course.id
-            });
-            
-          if (createAssocError) {
-            console.error(`Error creating teacher_courses association for course ${course.id}:`, createAssocError);
-          }
-        } else {
-          console.log(`Teacher-course association already exists for course ${course.id}`);
-        }
-      }
-      
-      // 2. Remove the direct references in courses table
-      console.log(`Removing teacher_id references from ${coursesWithTeacher.length} courses`);
-      const { error: updateCoursesError } = await supabase
-        .from('courses')
-        .update({ teacher_id: null })
-        .eq('teacher_id', id);
-        
-      if (updateCoursesError) {
-        console.error('Error removing teacher_id references from courses:', updateCoursesError);
-        throw new Error(`Failed to remove teacher references from courses: ${updateCoursesError.message}`);
-      }
-      
-      // Verify the update worked
-      const { data: verifyCoursesUpdate, error: verifyError } = await supabase
-        .from('courses')
-        .select('id')
-        .eq('teacher_id', id);
-        
-      if (verifyError) {
-        console.error('Error verifying courses update:', verifyError);
-      } else if (verifyCoursesUpdate && verifyCoursesUpdate.length > 0) {
-        console.error(`Failed to remove all teacher references from courses. ${verifyCoursesUpdate.length} courses still have references.`);
-        throw new Error(`Failed to remove all teacher references from courses. Database constraint might prevent deletion.`);
-      } else {
-        console.log('Successfully removed teacher references from all courses');
-      }
-    } else {
-      console.log(`No courses directly reference this teacher's ID. Proceeding with deletion.`);
-    }
-    
-    // Now proceed with the normal deletion process
-    
-    // 1. Delete all course associations
-    console.log(`Attempting to delete course associations for teacher: ${id}`);
-    const { data: deletedAssociations, error: deleteCoursesError } = await supabase
-      .from('teacher_courses')
-      .delete()
-      .eq('teacher_id', id)
-      .select();
+    return await callDeleteTeacher(id, replacementTeacherId, true);
+  } catch (error) {
+    console.error('Error previewing teacher deletion:', error);
+    throw error;
+  }
+}
 
-    if (deleteCoursesError) {
-      console.error('Error deleting teacher courses:', deleteCoursesError);
-      throw deleteCoursesError;
-    }
-    
-    console.log(`Successfully deleted ${deletedAssociations?.length || 0} course associations for teacher ${id}`);
+/**
+ * Deletes a teacher in a single transaction. Their courses and routine slots move to the
+ * replacement teacher, or are left without a teacher when there is none
+ */
+export async function deleteTeacher(
+  id: string,
+  replacementTeacherId?: string
+): Promise<TeacherDeletionImpact> {
+  try {
+    return await callDeleteTeacher(id, replacementTeacherId, false);
+  } catch (error) {
+    console.error('Error deleting teacher:', error);
+    throw error;
+  }
+}
 
-    // 2. Then delete the teacher
-    console.log(`Attempting to delete teacher with ID: ${id}`);
-    const { error: deleteTeacherError } = await supabase
-      .from('teachers')
-      .delete()
-      .eq('id', id);
-      
-    if (deleteTeacherError) {
-      console.error('Error deleting teacher:', deleteTeacherError);
-      throw deleteTeacherError;
-    }
-    
-    // Verify deletion was successful by checking if teacher still exists
-    const { data: verifyTeacher, error: verifyError } = await supabase
-      .from('teachers')
-      .select('id')
-      .eq('id', id)
-      .maybeSingle();
-      
-    if (verifyError) {
-      console.error('Error verifying teacher deletion:', verifyError);
-    } else if (verifyTeacher) {
-      console.error(`Teacher with ID ${id} still exists after deletion attempt`);
-      throw new Error('Failed to delete teacher: Record still exists after deletion');
-    } else {
-      console.log(`Teacher with ID ${id} successfully deleted and verified`);
-    }
-    
-    return;
+/**
+ * Merges duplicate teachers into the one to keep, moving their courses and routine slots
+ * over in a single transaction
+ * @returns The number of teachers merged away
+ */
+export async function mergeTeachers(survivorId: string, duplicateIds: string[]): Promise<number> {
+  try {
+    const { data, error } = await supabase.rpc('merge_teachers', {
+      p_survivor_id: survivorId,
+      p_duplicate_ids: duplicateIds
+    });
+
+    if (error) throw error;
+    return data as number;
   } catch (error) {
-    console.error('Error in teacher deletion process:', error);
+    console.error('Error merging teachers:', error);
     throw error;
   }
 }
@@ -1,84 +1,110 @@
+import { supabase } from '../lib/supabase';
 import { formatDate } from '../utils/dateUtils';
 import type { Task } from '../types';
 import type { Announcement } from '../types/announcement';
+import type {
+  NewTelegramRoute,
+  TelegramMessage,
+  TelegramMessageStatus,
+  TelegramRoute,
+  TelegramTarget
+} from '../types/telegram';
 
-const TELEGRAM_BOT_TOKEN = import.meta.env.VITE_TELEGRAM_BOT_TOKEN;
-const TELEGRAM_CHAT_ID = import.meta.env.VITE_TELEGRAM_CHAT_ID;
-const TELEGRAM_API = TELEGRAM_BOT_TOKEN ? `https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}` : '';
 const APP_DOMAIN = 'https://nesttask.vercel.app';
 
+interface TelegramRouteRow {
+  id: string;
+  label: string | null;
+  chat_id: string;
+  message_thread_id: number | null;
+  section: string | null;
+  course_id: string | null;
+  created_at: string;
+}
+
+interface TelegramMessageRow {
+  id: string;
+  text: string;
+  photo: string | null;
+  section: string | null;
+  course_id: string | null;
+  status: TelegramMessageStatus;
+  attempts: number;
+  next_attempt_at: string;
+  chat_id: string | null;
+  message_thread_id: number | null;
+  last_error: string | null;
+  created_at: string;
+  sent_at: string | null;
+}
+
+const mapRouteFromDB = (row: TelegramRouteRow): TelegramRoute => ({
+  id: row.id,
+  label: row.label || undefined,
+  chatId: row.chat_id,
+  messageThreadId: row.message_thread_id ?? undefined,
+  section: row.section || undefined,
+  courseId: row.course_id || undefined,
+  createdAt: row.created_at
+});
+
+const mapMessageFromDB = (row: TelegramMessageRow): TelegramMessage => ({
+  id: row.id,
+  text: row.text,
+  photo: row.photo || undefined,
+  section: row.section || undefined,
+  courseId: row.course_id || undefined,
+  status: row.status,
+  attempts: row.attempts,
+  nextAttemptAt: row.next_attempt_at,
+  chatId: row.chat_id || undefined,
+  messageThreadId: row.message_thread_id ?? undefined,
+  lastError: row.last_error || undefined,
+  createdAt: row.created_at,
+  sentAt: row.sent_at || undefined
+});
+
+/**
+ * Asks the telegram-relay edge function to send queued messages now instead of
+ * on its next scheduled run
+ */
+async function flushTelegramQueue() {
+  const { error } = await supabase.functions.invoke('telegram-relay');
+  if (error) {
+    console.error('Error starting the Telegram relay:', error);
+  }
+}
+
 /**
- * Sends a message to Telegram with optional photo attachment
+ * Queues a message for Telegram. The telegram-relay edge function holds the bot token,
+ * picks the chat for the target and retries when Telegram is rate limiting or down.
  * @param {string} text - The message text to send. Supports HTML formatting
  * @param {string} [photo] - Optional URL of an image to send with the message
- * @returns {Promise<boolean>} - Returns true if message was sent successfully, false otherwise
+ * @param {TelegramTarget} [target] - Section or course the message is meant for; defaults to everyone
+ * @returns {Promise<boolean>} - Returns true if the message was queued, false otherwise
  * @example
  * // Send text message
  * await sendTelegramMessage("Hello world!");
- * // Send message with photo
- * await sendTelegramMessage("Check this image!", "https://example.com/image.jpg");
+ * // Send message with photo to section A's chat
+ * await sendTelegramMessage("Check this image!", "https://example.com/image.jpg", { section: 'A' });
  */
-export async function sendTelegramMessage(text: string, photo?: string) {
-  if (!TELEGRAM_BOT_TOKEN || !TELEGRAM_CHAT_ID) {
-    return false;
-  }
-
+export async function sendTelegramMessage(text: string, photo?: string, target: TelegramTarget = {}) {
   try {
-    console.log('Sending message with:', { TELEGRAM_API, TELEGRAM_CHAT_ID });
-    
-    if (photo) {
-      const requestBody = {
-        chat_id: TELEGRAM_CHAT_ID,
-       // message_thread_id: 204,  // Correct topic ID from the URL
-        photo,
-        caption: text,
-        parse_mode: 'HTML',
-      };
-      console.log('Photo message request:', requestBody);
-      
-      const response = await fetch(`${TELEGRAM_API}/sendPhoto`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
-
-      const responseData = await response.json();
-      console.log('Telegram API response:', responseData);
-
-      if (!response.ok) {
-        throw new Error(`Failed to send Telegram photo message: ${JSON.stringify(responseData)}`);
-      }
-    } else {
-      const requestBody = {
-        chat_id: TELEGRAM_CHAT_ID,
-      //  message_thread_id: 204,  // Correct topic ID from the URL
+    const { error } = await supabase
+      .from('telegram_messages')
+      .insert({
         text,
-        parse_mode: 'HTML',
-        disable_web_page_preview: false,
-      };
-      console.log('Text message request:', requestBody);
-
-      const response = await fetch(`${TELEGRAM_API}/sendMessage`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
+        photo: photo || null,
+        section: target.section || null,
+        course_id: target.courseId || null
       });
 
-      const responseData = await response.json();
-      console.log('Telegram API response:', responseData);
-
-      if (!response.ok) {
-        throw new Error(`Failed to send Telegram message: ${JSON.stringify(responseData)}`);
-      }
-    }
+    if (error) throw error;
 
+    await flushTelegramQueue();
     return true;
   } catch (error) {
-    console.error('Error sending Telegram message:', error);
+    console.error('Error queueing Telegram message:', error);
     return false;
   }
 }
@@ -140,7 +166,7 @@ ${processDescription(task.description)}
 
 🌐 <b><a href="${APP_DOMAIN}">View full details</a></b>`;
 
-  return sendTelegramMessage(message);
+  return sendTelegramMessage(message, undefined, { section: task.section });
 }
 
 /**
@@ -167,16 +193,113 @@ ${announcement.content}
 
 🌐 <b><a href="${APP_DOMAIN}">View full details</a></b>`;
 
-  return sendTelegramMessage(message, imageUrl);
+  return sendTelegramMessage(message, imageUrl, {
+    section: announcement.audience === 'section' ? announcement.audienceSection : undefined,
+    courseId: announcement.audience === 'course' ? announcement.audienceCourseId : undefined
+  });
 }
 
 /**
  * Test function to verify Telegram messaging functionality
- * @returns {Promise<boolean>} - Returns true if test message was sent successfully
- * @description Sends a simple test message to verify bot token, chat ID, and permissions
+ * @returns {Promise<boolean>} - Returns true if test message was queued successfully
+ * @description Sends a simple test message to the default chat to verify the relay, bot token and permissions
  */
 export async function testTelegramMessage() {
   const result = await sendTelegramMessage('Test message from NestTask');
   console.log('Test message result:', result);
   return result;
 }
+
+export async function fetchTelegramRoutes(): Promise<TelegramRoute[]> {
+  try {
+    const { data, error } = await supabase
+      .from('telegram_routes')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return ((data || []) as TelegramRouteRow[]).map(mapRouteFromDB);
+  } catch (error) {
+    console.error('Error fetching Telegram routes:', error);
+    throw error;
+  }
+}
+
+export async function createTelegramRoute(route: NewTelegramRoute): Promise<TelegramRoute> {
+  try {
+    const { data, error } = await supabase
+      .from('telegram_routes')
+      .insert({
+        label: route.label?.trim() || null,
+        chat_id: route.chatId.trim(),
+        message_thread_id: route.messageThreadId || null,
+        section: route.courseId ? null : route.section?.trim() || null,
+        course_id: route.courseId || null
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return mapRouteFromDB(data as TelegramRouteRow);
+  } catch (error) {
+    console.error('Error creating Telegram route:', error);
+    throw error;
+  }
+}
+
+export async function deleteTelegramRoute(id: string) {
+  try {
+    const { error } = await supabase
+      .from('telegram_routes')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting Telegram route:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetches the most recently queued messages with their delivery state
+ */
+export async function fetchTelegramMessages(limit = 50): Promise<TelegramMessage[]> {
+  try {
+    const { data, error } = await supabase
+      .from('telegram_messages')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return ((data || []) as TelegramMessageRow[]).map(mapMessageFromDB);
+  } catch (error) {
+    console.error('Error fetching Telegram messages:', error);
+    throw error;
+  }
+}
+
+/**
+ * Puts a failed message back in the queue with a fresh set of attempts
+ */
+export async function retryTelegramMessage(id: string) {
+  try {
+    const { error } = await supabase
+      .from('telegram_messages')
+      .update({
+        status: 'pending',
+        attempts: 0,
+        next_attempt_at: new Date().toISOString(),
+        last_error: null
+      })
+      .eq('id', id);
+
+    if (error) throw error;
+
+    await flushTelegramQueue();
+  } catch (error) {
+    console.error('Error retrying Telegram message:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,65 @@
+import { supabase } from '../lib/supabase';
+import type { TelegramLink } from '../types/telegram';
+
+const BOT_USERNAME = import.meta.env.VITE_TELEGRAM_BOT_USERNAME as string | undefined;
+
+/**
+ * Link that opens a chat with the bot and sends /start with the code
+ */
+export function getTelegramBotLink(code?: string): string | null {
+  if (!BOT_USERNAME) return null;
+  return `https://t.me/${BOT_USERNAME}${code ? `?start=${encodeURIComponent(code)}` : ''}`;
+}
+
+export async function getTelegramLink(userId: string): Promise<TelegramLink | null> {
+  try {
+    const { data, error } = await supabase
+      .from('telegram_links')
+      .select('telegram_username, linked_at, link_code, link_code_expires_at')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    return {
+      telegramUsername: data.telegram_username || undefined,
+      linkedAt: data.linked_at || undefined,
+      linkCode: data.link_code || undefined,
+      linkCodeExpiresAt: data.link_code_expires_at || undefined
+    };
+  } catch (error) {
+    console.error('Error fetching Telegram link:', error);
+    throw error;
+  }
+}
+
+/**
+ * Creates a one-time code, valid for 15 minutes, that links the user's Telegram account
+ * when sent to the bot
+ */
+export async function createTelegramLinkCode(): Promise<string> {
+  try {
+    const { data, error } = await supabase.rpc('create_telegram_link_code');
+
+    if (error) throw error;
+    return data as string;
+  } catch (error) {
+    console.error('Error creating Telegram link code:', error);
+    throw error;
+  }
+}
+
+export async function unlinkTelegram(userId: string) {
+  try {
+    const { error } = await supabase
+      .from('telegram_links')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error unlinking Telegram:', error);
+    throw error;
+  }
+}
@@ -16,7 +16,7 @@ export async function fetchUsers(): Promise<User[]> {
     // Add proper API key headers to ensure authorization
     const { data, error } = await supabase
       .from('users')
-      .select('id, email, name, role, created_at, last_active')
+      .select('id, email, name, role, section, created_at, last_active')
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -29,6 +29,7 @@ export async function fetchUsers(): Promise<User[]> {
       email: user.email || '',
       name: user.name || user.email?.split('@')[0] || '',
       role: user.role || 'user',
+      section: user.section || undefined,
       createdAt: user.created_at,
       lastActive: user.last_active
     })) || [];
@@ -1 +1 @@
-export type AdminTab = 'dashboard' | 'users' | 'tasks' | 'admin-tasks' | 'announcements' | 'courses' | 'study-materials' | 'routine' | 'teachers';
\ No newline at end of file
+export type AdminTab = 'dashboard' | 'users' | 'tasks' | 'admin-tasks' | 'announcements' | 'courses' | 'study-materials' | 'routine' | 'teachers' | 'telegram';
\ No newline at end of file
@@ -1,9 +1,25 @@
+export type AnnouncementAudience = 'all' | 'section' | 'course';
+
+export type AnnouncementStatus = 'draft' | 'scheduled' | 'live' | 'expired';
+
 export interface Announcement {
   id: string;
   title: string;
   content: string;
   createdAt: string;
   createdBy: string;
+  isDraft: boolean;
+  // When the announcement goes live
+  publishAt: string;
+  expiresAt?: string;
+  // Set once the announcement went live and its notifications were sent
+  publishedAt?: string;
+  pinned: boolean;
+  audience: AnnouncementAudience;
+  audienceSection?: string;
+  // A course's students are the students in the course's section
+  audienceCourseId?: string;
 }
 
-export type NewAnnouncement = Pick<Announcement, 'title' | 'content'>;
\ No newline at end of file
+export type NewAnnouncement = Pick<Announcement, 'title' | 'content'> &
+  Partial<Pick<Announcement, 'isDraft' | 'publishAt' | 'expiresAt' | 'pinned' | 'audience' | 'audienceSection' | 'audienceCourseId'>>;
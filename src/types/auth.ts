@@ -1,27 +1,2 @@
-export interface User {
-  id: string;
-  email: string;
-  name: string;
-  phone?: string;
-  studentId?: string;
-  role: 'user' | 'admin';
-  createdAt: string;
-  lastActive?: string;
-}
-
-export interface AuthState {
-  user: User | null;
-  loading: boolean;
-  error: string | null;
-}
-
-export interface LoginCredentials {
-  email: string;
-  password: string;
-}
-
-export interface SignupCredentials extends LoginCredentials {
-  name: string;
-  phone: string;
-  studentId: string;
-}
+// Shared with the edge functions
+export * from '../../supabase/functions/_shared/types/auth.ts';
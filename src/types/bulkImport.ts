@@ -0,0 +1,23 @@
+export interface BulkImportOptions {
+  // Check every row before writing anything, then write them all in one transaction
+  atomic?: boolean;
+  // Update rows that are already there instead of reporting them as duplicates.
+  // Courses are matched on code and section, routine slots on day, start time and section.
+  upsert?: boolean;
+}
+
+export interface BulkImportMessage {
+  message: string;
+  isWarning?: boolean;
+  isSuccess?: boolean;
+}
+
+export interface BulkImportResult {
+  // Rows written, including updated ones
+  success: number;
+  // How many of the written rows updated an existing course or slot
+  updated?: number;
+  errors: BulkImportMessage[];
+  // Set when an all-or-nothing import was rejected, so nothing was saved
+  rolledBack?: boolean;
+}
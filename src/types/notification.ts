@@ -0,0 +1,14 @@
+export type NotificationType = 'task' | 'admin-task' | 'announcement' | 'reminder';
+
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  timestamp: Date;
+  read: boolean;
+  taskId?: string;
+  announcementId?: string;
+  isAdminTask: boolean;
+  isAnnouncement: boolean;
+}
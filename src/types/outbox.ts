@@ -0,0 +1,41 @@
+import type { Task } from './task';
+
+export type OutboxOperationType = 'create' | 'update' | 'delete';
+
+export type OutboxOperationStatus = 'pending' | 'failed';
+
+// How an offline update is applied when the server copy changed after the edit was made
+//  - merge: fields changed only on the server are kept; fields changed on both sides go to the newer write
+//  - last-write-wins: the whole offline edit is dropped if the server copy is newer
+export type ConflictStrategy = 'merge' | 'last-write-wins';
+
+export interface OutboxOperation {
+  id: string;
+  entity: 'task';
+  type: OutboxOperationType;
+  // Task id; temporary ids (temp_...) are replaced once the create reaches the server
+  entityId: string;
+  userId: string;
+  // Fields to create or change
+  payload?: Partial<Task>;
+  // The task as it was before the offline change, used to detect server-side changes
+  // and to undo the change if it is discarded
+  base?: Task;
+  // Display name for the pending changes list
+  label: string;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt?: number;
+  status: OutboxOperationStatus;
+  error?: string;
+}
+
+// Credentials the service worker uses to replay the outbox while the app is closed
+export interface OutboxSyncSession {
+  id: string;
+  userId: string;
+  accessToken: string;
+  // Seconds since the epoch, as reported by Supabase
+  expiresAt: number;
+  isAdmin: boolean;
+}
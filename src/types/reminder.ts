@@ -0,0 +1,5 @@
+export interface ReminderSettings {
+  enabled: boolean;
+  // Minutes before the due time at which a push reminder is sent
+  offsets: number[];
+}
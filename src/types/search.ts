@@ -0,0 +1,42 @@
+import type { Task } from './task';
+import type { Course, StudyMaterial } from './course';
+import type { Teacher } from './teacher';
+import type { Announcement } from './announcement';
+
+export type SearchResultType = 'task' | 'course' | 'material' | 'teacher' | 'announcement';
+
+export interface SearchField {
+  // Lowercased words of the field, without accents
+  tokens: string[];
+  // How much a match in this field counts, e.g. titles more than descriptions
+  weight: number;
+}
+
+interface SearchDocumentBase {
+  id: string;
+  title: string;
+  subtitle?: string;
+  fields: SearchField[];
+}
+
+// One searchable item; item keeps the original so results can be shown the usual way
+export type SearchDocument =
+  | (SearchDocumentBase & { type: 'task'; item: Task })
+  | (SearchDocumentBase & { type: 'course'; item: Course })
+  | (SearchDocumentBase & { type: 'material'; item: StudyMaterial })
+  | (SearchDocumentBase & { type: 'teacher'; item: Teacher })
+  | (SearchDocumentBase & { type: 'announcement'; item: Announcement });
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+}
+
+// Everything the global search looks through
+export interface SearchSources {
+  tasks: Task[];
+  courses: Course[];
+  materials: StudyMaterial[];
+  teachers: Teacher[];
+  announcements: Announcement[];
+}
@@ -1,3 +1,6 @@
+import type { RecurrenceRule, TaskStatus } from './task';
+import type { AnnouncementAudience } from './announcement';
+
 export interface Database {
   public: {
     Tables: {
@@ -12,6 +15,12 @@ export interface Database {
           user_id: string;
           created_at: string;
           is_admin_task: boolean;
+          section: string | null;
+          course_id: string | null;
+          updated_at: string | null;
+          recurrence: RecurrenceRule | null;
+          series_id: string | null;
+          occurrence_date: string | null;
         };
         Insert: {
           id?: string;
@@ -23,6 +32,12 @@ export interface Database {
           user_id: string;
           created_at?: string;
           is_admin_task?: boolean;
+          section?: string | null;
+          course_id?: string | null;
+          updated_at?: string | null;
+          recurrence?: RecurrenceRule | null;
+          series_id?: string | null;
+          occurrence_date?: string | null;
         };
         Update: {
           id?: string;
@@ -34,6 +49,12 @@ export interface Database {
           user_id?: string;
           created_at?: string;
           is_admin_task?: boolean;
+          section?: string | null;
+          course_id?: string | null;
+          updated_at?: string | null;
+          recurrence?: RecurrenceRule | null;
+          series_id?: string | null;
+          occurrence_date?: string | null;
         };
       };
       users: {
@@ -44,6 +65,11 @@ export interface Database {
           role: string;
           created_at: string;
           last_active: string;
+          phone: string | null;
+          student_id: string | null;
+          department: string | null;
+          batch: string | null;
+          section: string | null;
         };
         Insert: {
           id: string;
@@ -52,6 +78,11 @@ export interface Database {
           role?: string;
           created_at?: string;
           last_active?: string;
+          phone?: string | null;
+          student_id?: string | null;
+          department?: string | null;
+          batch?: string | null;
+          section?: string | null;
         };
         Update: {
           id?: string;
@@ -60,6 +91,11 @@ export interface Database {
           role?: string;
           created_at?: string;
           last_active?: string;
+          phone?: string | null;
+          student_id?: string | null;
+          department?: string | null;
+          batch?: string | null;
+          section?: string | null;
         };
       };
       announcements: {
@@ -69,6 +105,14 @@ export interface Database {
           content: string;
           created_at: string;
           created_by: string;
+          is_draft: boolean;
+          publish_at: string;
+          expires_at: string | null;
+          published_at: string | null;
+          pinned: boolean;
+          audience: AnnouncementAudience;
+          audience_section: string | null;
+          audience_course_id: string | null;
         };
         Insert: {
           id?: string;
@@ -76,6 +120,14 @@ export interface Database {
           content: string;
           created_at?: string;
           created_by: string;
+          is_draft?: boolean;
+          publish_at?: string;
+          expires_at?: string | null;
+          published_at?: string | null;
+          pinned?: boolean;
+          audience?: AnnouncementAudience;
+          audience_section?: string | null;
+          audience_course_id?: string | null;
         };
         Update: {
           id?: string;
@@ -83,6 +135,14 @@ export interface Database {
           content?: string;
           created_at?: string;
           created_by?: string;
+          is_draft?: boolean;
+          publish_at?: string;
+          expires_at?: string | null;
+          published_at?: string | null;
+          pinned?: boolean;
+          audience?: AnnouncementAudience;
+          audience_section?: string | null;
+          audience_course_id?: string | null;
         };
       };
       push_subscriptions: {
@@ -105,6 +165,32 @@ export interface Database {
           created_at?: string;
         };
       };
+      task_progress: {
+        Row: {
+          id: string;
+          task_id: string;
+          user_id: string;
+          occurrence_date: string | null;
+          status: TaskStatus;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          task_id: string;
+          user_id: string;
+          occurrence_date?: string | null;
+          status: TaskStatus;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          task_id?: string;
+          user_id?: string;
+          occurrence_date?: string | null;
+          status?: TaskStatus;
+          updated_at?: string;
+        };
+      };
     };
     Functions: {
       is_admin: {
@@ -123,6 +209,15 @@ export interface Database {
           new_this_week: number;
         };
       };
+      get_task_progress_summary: {
+        Args: Record<string, never>;
+        Returns: {
+          task_id: string;
+          occurrence_date: string | null;
+          started: number;
+          completed: number;
+        }[];
+      };
     };
   };
 }
\ No newline at end of file
@@ -1,31 +1,2 @@
-export type TaskCategory = 
-  | 'presentation' 
-  | 'assignment' 
-  | 'quiz' 
-  | 'lab-report' 
-  | 'lab-final' 
-  | 'lab-performance'
-  | 'task' 
-  | 'documents'
-  | 'blc'
-  | 'groups'
-  | 'project'
-  | 'midterm'
-  | 'final-exam'
-  | 'others' 
-  | 'all';
-
-export type TaskStatus = 'my-tasks' | 'in-progress' | 'completed';
-
-export interface Task {
-  id: string;
-  name: string;
-  category: TaskCategory;
-  dueDate: string;
-  description: string;
-  status: TaskStatus;
-  createdAt: string;
-  isAdminTask: boolean;
-}
-
-export type NewTask = Omit<Task, 'id' | 'createdAt' | 'isAdminTask'>;
\ No newline at end of file
+// Shared with the edge functions
+export * from '../../supabase/functions/_shared/types/task.ts';
@@ -0,0 +1,26 @@
+import type { TaskCategory, TaskCourse } from './task';
+
+// The same status filters as the stat cards on the home screen
+export type TaskViewStatus = 'all' | 'overdue' | 'in-progress' | 'completed';
+
+export type TaskViewDateRange = 'any' | 'today' | 'this-week' | 'next-7-days' | 'this-month' | 'custom';
+
+// A named combination of task filters, e.g. "Lab reports due this week"
+export interface TaskView {
+  id: string;
+  name: string;
+  category?: TaskCategory;
+  status: TaskViewStatus;
+  // Which due dates the view shows
+  dateRange: TaskViewDateRange;
+  // Custom range only (YYYY-MM-DD), both ends included
+  from?: string;
+  to?: string;
+  course?: TaskCourse;
+  query?: string;
+  // Pinned views are shown on the home screen
+  pinned: boolean;
+  createdAt: string;
+}
+
+export type NewTaskView = Omit<TaskView, 'id' | 'createdAt'>;
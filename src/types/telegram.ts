@@ -0,0 +1,2 @@
+// Shared with the Telegram edge functions
+export * from '../../supabase/functions/_shared/types/telegram.ts';
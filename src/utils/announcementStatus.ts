@@ -0,0 +1,25 @@
+import type { Announcement, AnnouncementStatus } from '../types/announcement';
+
+/**
+ * Works out where an announcement is in its lifecycle
+ * @param now The time to compare the publish and expiry times against
+ */
+export function getAnnouncementStatus(
+  announcement: Pick<Announcement, 'isDraft' | 'publishAt' | 'expiresAt'>,
+  now = new Date()
+): AnnouncementStatus {
+  if (announcement.isDraft) return 'draft';
+  if (announcement.expiresAt && new Date(announcement.expiresAt) <= now) return 'expired';
+  if (new Date(announcement.publishAt) > now) return 'scheduled';
+  return 'live';
+}
+
+/**
+ * Pinned announcements first, then the most recently published
+ */
+export function sortAnnouncements(announcements: Announcement[]): Announcement[] {
+  return [...announcements].sort((a, b) => {
+    if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+    return new Date(b.publishAt).getTime() - new Date(a.publishAt).getTime();
+  });
+}
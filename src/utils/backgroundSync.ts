@@ -0,0 +1,48 @@
+/**
+ * App side of the service worker's background sync for queued task writes.
+ * Both sides read the outbox from the same IndexedDB database.
+ */
+import type { Session } from '@supabase/supabase-js';
+import { saveToIndexedDB, deleteFromIndexedDB, STORES } from './offlineStorage';
+import type { OutboxSyncSession } from '../types/outbox';
+
+export const OUTBOX_SYNC_QUEUE = 'nesttask-outbox';
+export const OUTBOX_SYNC_SESSION_ID = 'outbox_sync_session';
+
+// Messages exchanged with the service worker
+export const REGISTER_OUTBOX_SYNC = 'REGISTER_OUTBOX_SYNC';
+export const OUTBOX_SYNCED = 'OUTBOX_SYNCED';
+
+/**
+ * Keeps a copy of the access token where the service worker can read it.
+ * The worker never refreshes the token; once it expires, queued writes wait for the app.
+ */
+export async function saveOutboxSyncSession(session: Session | null) {
+  try {
+    if (!session) {
+      await deleteFromIndexedDB(STORES.USER_DATA, OUTBOX_SYNC_SESSION_ID);
+      return;
+    }
+
+    const record: OutboxSyncSession = {
+      id: OUTBOX_SYNC_SESSION_ID,
+      userId: session.user.id,
+      accessToken: session.access_token,
+      expiresAt: session.expires_at || 0,
+      isAdmin: session.user.user_metadata?.role === 'admin'
+    };
+    await saveToIndexedDB(STORES.USER_DATA, record);
+  } catch (error) {
+    console.error('Error saving background sync session:', error);
+  }
+}
+
+/**
+ * Asks the service worker to replay the outbox when connectivity returns,
+ * even if the app has been closed by then
+ */
+export function requestOutboxSync() {
+  if (!('serviceWorker' in navigator) || !navigator.serviceWorker.controller) return;
+
+  navigator.serviceWorker.controller.postMessage({ type: REGISTER_OUTBOX_SYNC });
+}
@@ -0,0 +1,95 @@
+import type { ClassTime, Course, CourseClassTimeMismatch } from '../types/course';
+import type { Routine, RoutineSlot } from '../types/routine';
+import { timeToMinutes } from './routineConflicts';
+
+// Same week order the database uses when it writes class times
+const DAY_ORDER = ['Saturday', 'Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
+
+const normalize = (value?: string) => (value || '').trim().toLowerCase();
+
+// 13:05 -> "01:05 PM", matching to_char(time, 'HH12:MI AM')
+function formatTime(time: string): string {
+  const minutes = timeToMinutes(time);
+  if (isNaN(minutes)) return time;
+
+  const hours = Math.floor(minutes / 60);
+  const period = hours < 12 ? 'AM' : 'PM';
+  const displayHours = hours % 12 || 12;
+
+  return `${String(displayHours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')} ${period}`;
+}
+
+/**
+ * Parses a class time like "08:30 AM - 10:00 AM" or a legacy "10:00 AM" into minutes.
+ * end is NaN when the class time only has a start.
+ */
+function parseTimeRange(time: string): { start: number; end: number } {
+  const [start, end] = (time || '').split(/\s*[-–]\s*|\s+to\s+/i);
+  return { start: timeToMinutes(start), end: timeToMinutes(end) };
+}
+
+// Missing end times and classrooms match anything, so older, less detailed entries aren't reported
+function classTimesMatch(a: ClassTime, b: ClassTime): boolean {
+  const rangeA = parseTimeRange(a.time);
+  const rangeB = parseTimeRange(b.time);
+
+  return normalize(a.day) === normalize(b.day) &&
+    rangeA.start === rangeB.start &&
+    (isNaN(rangeA.end) || isNaN(rangeB.end) || rangeA.end === rangeB.end) &&
+    (!normalize(a.classroom) || !normalize(b.classroom) || normalize(a.classroom) === normalize(b.classroom));
+}
+
+function slotToClassTime(slot: RoutineSlot): ClassTime {
+  return {
+    day: slot.dayOfWeek,
+    time: `${formatTime(slot.startTime)} - ${formatTime(slot.endTime)}`,
+    classroom: slot.roomNumber?.trim() || undefined
+  };
+}
+
+/**
+ * Derives a course's class times from its slots in the active routines,
+ * the same way the database does when it syncs them
+ */
+export function getRoutineClassTimes(courseId: string, routines: Routine[]): ClassTime[] {
+  const slots = routines
+    .filter(routine => routine.isActive)
+    .flatMap(routine => routine.slots || [])
+    .filter(slot => slot.courseId === courseId && !slot._isOfflineDeleted)
+    .sort((a, b) =>
+      DAY_ORDER.indexOf(a.dayOfWeek) - DAY_ORDER.indexOf(b.dayOfWeek) ||
+      timeToMinutes(a.startTime) - timeToMinutes(b.startTime)
+    );
+
+  const classTimes: ClassTime[] = [];
+  slots.map(slotToClassTime).forEach(classTime => {
+    const isDuplicate = classTimes.some(existing =>
+      existing.day === classTime.day &&
+      existing.time === classTime.time &&
+      existing.classroom === classTime.classroom
+    );
+    if (!isDuplicate) classTimes.push(classTime);
+  });
+
+  return classTimes;
+}
+
+/**
+ * Lists courses whose class times disagree with the active routines.
+ * Courses that have neither class times nor slots are skipped.
+ */
+export function findClassTimeMismatches(courses: Course[], routines: Routine[]): CourseClassTimeMismatch[] {
+  return courses
+    .map(course => {
+      const actual = (course.classTimes || []).filter(classTime => classTime.day);
+      const expected = getRoutineClassTimes(course.id, routines);
+
+      return {
+        course,
+        expected,
+        missing: expected.filter(classTime => !actual.some(other => classTimesMatch(classTime, other))),
+        extra: actual.filter(classTime => !expected.some(other => classTimesMatch(classTime, other)))
+      };
+    })
+    .filter(mismatch => mismatch.missing.length > 0 || mismatch.extra.length > 0);
+}
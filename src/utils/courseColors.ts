@@ -0,0 +1,53 @@
+export interface CourseColor {
+  // Text and background of course badges and selected filters
+  badge: string;
+  // Colour dots and the accent strip on task cards
+  dot: string;
+}
+
+// Full class names so Tailwind keeps them in the build
+const COURSE_COLORS: CourseColor[] = [
+  {
+    badge: 'bg-rose-50 text-rose-700 dark:bg-rose-900/30 dark:text-rose-300',
+    dot: 'bg-rose-500'
+  },
+  {
+    badge: 'bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+    dot: 'bg-amber-500'
+  },
+  {
+    badge: 'bg-lime-50 text-lime-700 dark:bg-lime-900/30 dark:text-lime-300',
+    dot: 'bg-lime-500'
+  },
+  {
+    badge: 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300',
+    dot: 'bg-emerald-500'
+  },
+  {
+    badge: 'bg-cyan-50 text-cyan-700 dark:bg-cyan-900/30 dark:text-cyan-300',
+    dot: 'bg-cyan-500'
+  },
+  {
+    badge: 'bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+    dot: 'bg-blue-500'
+  },
+  {
+    badge: 'bg-violet-50 text-violet-700 dark:bg-violet-900/30 dark:text-violet-300',
+    dot: 'bg-violet-500'
+  },
+  {
+    badge: 'bg-fuchsia-50 text-fuchsia-700 dark:bg-fuchsia-900/30 dark:text-fuchsia-300',
+    dot: 'bg-fuchsia-500'
+  }
+];
+
+/**
+ * Picks a colour for a course from its id, so a course has the same colour on every page and device
+ */
+export function getCourseColor(courseId: string): CourseColor {
+  let hash = 0;
+  for (let i = 0; i < courseId.length; i++) {
+    hash = (hash * 31 + courseId.charCodeAt(i)) | 0;
+  }
+  return COURSE_COLORS[Math.abs(hash) % COURSE_COLORS.length];
+}
@@ -0,0 +1,19 @@
+// The builders live with the edge functions; downloading is browser-only so it stays here
+export * from '../../supabase/functions/_shared/icalendar.ts';
+
+/**
+ * Triggers a browser download of an .ics file
+ */
+export function downloadICalendar(content: string, fileName: string): void {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName.endsWith('.ics') ? fileName : `${fileName}.ics`;
+  document.body.appendChild(a);
+  a.click();
+
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -4,7 +4,7 @@
 
 // IndexedDB database name and version
 export const DB_NAME = 'nesttask_offline_db';
-export const DB_VERSION = 3; // Update version to 3
+export const DB_VERSION = 5;
 
 // Store names for different types of data
 export const STORES = {
@@ -13,7 +13,9 @@ export const STORES = {
   USER_DATA: 'userData',
   COURSES: 'courses',
   MATERIALS: 'materials',
-  TEACHERS: 'teachers'
+  TEACHERS: 'teachers',
+  OUTBOX: 'outbox',
+  ANNOUNCEMENTS: 'announcements'
 };
 
 /**
@@ -21,7 +23,8 @@ export const STORES = {
  */
 export const openDatabase = () => {
   return new Promise((resolve, reject) => {
-    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    // self rather than window so the service worker can share the database
+    const request = self.indexedDB.open(DB_NAME, DB_VERSION);
 
     request.onerror = (event) => {
       console.error('Error opening IndexedDB', event);
@@ -72,6 +75,22 @@ export const openDatabase = () => {
           console.log('Created teachers store');
         }
       }
+
+      if (oldVersion < 4) {
+        // Version 4: ordered queue of writes made while offline
+        if (!db.objectStoreNames.contains(STORES.OUTBOX)) {
+          db.createObjectStore(STORES.OUTBOX, { keyPath: 'id' });
+          console.log('Created outbox store');
+        }
+      }
+
+      if (oldVersion < 5) {
+        // Version 5: announcements, so they can be searched offline
+        if (!db.objectStoreNames.contains(STORES.ANNOUNCEMENTS)) {
+          db.createObjectStore(STORES.ANNOUNCEMENTS, { keyPath: 'id' });
+          console.log('Created announcements store');
+        }
+      }
     };
   });
 };
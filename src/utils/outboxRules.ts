@@ -0,0 +1,101 @@
+/**
+ * Rules shared by the app and the service worker for replaying the offline outbox.
+ * Kept free of Supabase and DOM imports so the worker can bundle them.
+ */
+import type { Task } from '../types/task';
+import type { OutboxOperation, ConflictStrategy } from '../types/outbox';
+
+export const MAX_OUTBOX_ATTEMPTS = 5;
+
+const TEMP_ID_PREFIX = 'temp_';
+
+export function createTempTaskId(): string {
+  return `${TEMP_ID_PREFIX}${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+export function isTempTaskId(id: string): boolean {
+  return id.startsWith(TEMP_ID_PREFIX);
+}
+
+/**
+ * Exponential backoff between attempts: 2s, 4s, 8s ... capped at 5 minutes
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(1000 * Math.pow(2, attempts), 5 * 60 * 1000);
+}
+
+export function sortOutboxOperations(operations: OutboxOperation[]): OutboxOperation[] {
+  return [...operations].sort((a, b) => a.createdAt - b.createdAt || a.id.localeCompare(b.id));
+}
+
+/**
+ * Decides which fields of an offline edit should be sent to the server
+ * @param local The fields changed offline
+ * @param base The task as it was when the edit was made
+ * @param server The current server copy
+ * @param editedAt When the offline edit was made (ms)
+ * @param strategy How to resolve fields that changed on both sides
+ * @returns The fields to update; empty when nothing needs to be sent
+ */
+export function resolveTaskUpdate(
+  local: Partial<Task>,
+  base: Task | undefined,
+  server: Task,
+  editedAt: number,
+  strategy: ConflictStrategy = 'merge'
+): Partial<Task> {
+  // tasks.updated_at is per row, so a newer server copy means some field changed after the edit
+  const serverIsNewer = !!server.updatedAt && new Date(server.updatedAt).getTime() > editedAt;
+
+  if (strategy === 'last-write-wins' && serverIsNewer) return {};
+
+  const updates: Partial<Task> = {};
+  (Object.keys(local) as (keyof Task)[]).forEach(field => {
+    if (local[field] === server[field]) return;
+
+    const changedOnServer = !base || base[field] !== server[field];
+    if (strategy === 'merge' && serverIsNewer && changedOnServer) return;
+
+    Object.assign(updates, { [field]: local[field] });
+  });
+
+  return updates;
+}
+
+/**
+ * The state of an operation after a failed attempt
+ * @param permanent Stop retrying, e.g. when the task no longer exists
+ */
+export function getFailedOperation(operation: OutboxOperation, message: string, permanent = false): OutboxOperation {
+  const attempts = operation.attempts + 1;
+  return {
+    ...operation,
+    attempts,
+    status: permanent || attempts >= MAX_OUTBOX_ATTEMPTS ? 'failed' : 'pending',
+    nextAttemptAt: Date.now() + getRetryDelay(attempts),
+    error: message
+  };
+}
+
+/**
+ * Whether the service worker may replay an operation while the app is closed.
+ * It only handles task creations and status changes; everything else waits for the app.
+ */
+export function canSyncInBackground(operation: OutboxOperation): boolean {
+  if (operation.type === 'create') {
+    // Attachments still point at blob: URLs that only the page can read
+    return !operation.payload?.description?.includes('](blob:');
+  }
+
+  return operation.type === 'update' &&
+    Object.keys(operation.payload || {}).every(field => field === 'status');
+}
+
+/**
+ * Runs a replay while holding a lock shared by every tab and the service worker,
+ * so the same operation is never sent twice
+ */
+export async function withOutboxLock<T>(replay: () => Promise<T>): Promise<T> {
+  if (!navigator.locks) return replay();
+  return navigator.locks.request('nesttask-outbox', replay);
+}
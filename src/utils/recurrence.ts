@@ -0,0 +1,2 @@
+// Lives with the edge functions so the bot, reminders and calendar feed expand series the same way
+export * from '../../supabase/functions/_shared/recurrence.ts';
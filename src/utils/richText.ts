@@ -0,0 +1,218 @@
+// Parses the small markdown subset used in task descriptions, announcements, notifications
+// and study materials. It only produces a tree of plain values, which RichText renders as
+// React elements, so user text is never turned into HTML.
+
+export type RichTextInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'bold'; children: RichTextInline[] }
+  | { type: 'italic'; children: RichTextInline[] }
+  | { type: 'link'; href: string; children: RichTextInline[] };
+
+export interface RichTextListItem {
+  /** Set for checklist items (`- [ ]` / `- [x]`) */
+  checked?: boolean;
+  children: RichTextInline[];
+}
+
+export type RichTextBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; children: RichTextInline[] }
+  | { type: 'paragraph'; lines: RichTextInline[][] }
+  | { type: 'list'; ordered: boolean; start?: number; items: RichTextListItem[] }
+  | { type: 'code'; text: string };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+const HEADING_REGEX = /^(#{1,6})\s+(.*)$/;
+const CHECKLIST_REGEX = /^\s*[-*+]\s+\[( |x|X)\]\s+(.*)$/;
+const BULLET_REGEX = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_REGEX = /^\s*(\d+)[.)]\s+(.*)$/;
+const FENCE_REGEX = /^\s*```/;
+
+interface InlinePattern {
+  regex: RegExp;
+  /** Produces a link, so it is skipped inside link text */
+  link?: boolean;
+  build: (match: RegExpExecArray) => RichTextInline;
+}
+
+const INLINE_PATTERNS: InlinePattern[] = [
+  {
+    regex: /`([^`\n]+)`/,
+    build: (match) => ({ type: 'code', text: match[1] })
+  },
+  {
+    regex: /\[([^\]\n]+)\]\(([^)\s]+)\)/,
+    link: true,
+    build: (match) => {
+      const href = sanitizeHref(match[2]);
+      const children = parseInlineRichText(match[1], false);
+      return href ? { type: 'link', href, children } : { type: 'text', text: match[0] };
+    }
+  },
+  {
+    regex: /\*\*(?=\S)(.+?)\*\*|__(?=\S)(.+?)__/,
+    build: (match) => ({ type: 'bold', children: parseInlineRichText(match[1] ?? match[2]) })
+  },
+  {
+    // Underscores only count at word edges, so snake_case names stay as they are
+    regex: /\*(?=\S)([^*\n]+?)\*|(?<![\w])_(?=\S)([^_\n]+?)_(?![\w])/,
+    build: (match) => ({ type: 'italic', children: parseInlineRichText(match[1] ?? match[2]) })
+  },
+  {
+    // Trailing punctuation is left out, so "see https://example.com." links without the dot
+    regex: /https?:\/\/[^\s<>]*[^\s<>.,;:!?)]/,
+    link: true,
+    build: (match) => {
+      const href = sanitizeHref(match[0]);
+      return href
+        ? { type: 'link', href, children: [{ type: 'text', text: match[0] }] }
+        : { type: 'text', text: match[0] };
+    }
+  }
+];
+
+/**
+ * Returns the URL if it uses a protocol that is safe to link to, so
+ * `javascript:` and `data:` links are shown as plain text instead
+ */
+export function sanitizeHref(href: string): string | null {
+  try {
+    const url = new URL(href);
+    return SAFE_PROTOCOLS.includes(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parses bold, italic, inline code, `[text](url)` links and bare URLs
+ * @param allowLinks Off inside link text, since links can't be nested
+ */
+export function parseInlineRichText(text: string, allowLinks = true): RichTextInline[] {
+  const nodes: RichTextInline[] = [];
+  let rest = text;
+
+  while (rest) {
+    let earliest: { match: RegExpExecArray; pattern: InlinePattern } | null = null;
+
+    for (const pattern of INLINE_PATTERNS) {
+      if (!allowLinks && pattern.link) continue;
+
+      const match = pattern.regex.exec(rest);
+      if (match && (!earliest || match.index < earliest.match.index)) {
+        earliest = { match, pattern };
+      }
+    }
+
+    if (!earliest) {
+      pushText(nodes, rest);
+      break;
+    }
+
+    const { match, pattern } = earliest;
+    if (match.index > 0) pushText(nodes, rest.slice(0, match.index));
+
+    const node = pattern.build(match);
+    if (node.type === 'text') {
+      pushText(nodes, node.text);
+    } else {
+      nodes.push(node);
+    }
+
+    rest = rest.slice(match.index + match[0].length);
+  }
+
+  return nodes;
+}
+
+/**
+ * Parses headings, paragraphs, bulleted, numbered and checklist items and fenced code
+ */
+export function parseRichText(text: string): RichTextBlock[] {
+  const blocks: RichTextBlock[] = [];
+  const lines = (text || '').replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: RichTextInline[][] | null = null;
+  let list: Extract<RichTextBlock, { type: 'list' }> | null = null;
+
+  const closeOpenBlocks = () => {
+    paragraph = null;
+    list = null;
+  };
+
+  const addListItem = (ordered: boolean, item: RichTextListItem, start?: number) => {
+    paragraph = null;
+    if (!list || list.ordered !== ordered) {
+      list = { type: 'list', ordered, items: [] };
+      if (ordered) list.start = start;
+      blocks.push(list);
+    }
+    list.items.push(item);
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE_REGEX.test(line)) {
+      closeOpenBlocks();
+      const code: string[] = [];
+      while (++i < lines.length && !FENCE_REGEX.test(lines[i])) {
+        code.push(lines[i]);
+      }
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    if (!line.trim()) {
+      closeOpenBlocks();
+      continue;
+    }
+
+    const heading = HEADING_REGEX.exec(line);
+    if (heading) {
+      closeOpenBlocks();
+      blocks.push({
+        type: 'heading',
+        level: Math.min(heading[1].length, 3) as 1 | 2 | 3,
+        children: parseInlineRichText(heading[2])
+      });
+      continue;
+    }
+
+    const checklist = CHECKLIST_REGEX.exec(line);
+    if (checklist) {
+      addListItem(false, { checked: checklist[1] !== ' ', children: parseInlineRichText(checklist[2]) });
+      continue;
+    }
+
+    const bullet = BULLET_REGEX.exec(line);
+    if (bullet) {
+      addListItem(false, { children: parseInlineRichText(bullet[1]) });
+      continue;
+    }
+
+    const ordered = ORDERED_REGEX.exec(line);
+    if (ordered) {
+      addListItem(true, { children: parseInlineRichText(ordered[2]) }, Number(ordered[1]));
+      continue;
+    }
+
+    list = null;
+    if (!paragraph) {
+      paragraph = [];
+      blocks.push({ type: 'paragraph', lines: paragraph });
+    }
+    paragraph.push(parseInlineRichText(line));
+  }
+
+  return blocks;
+}
+
+function pushText(nodes: RichTextInline[], text: string) {
+  const last = nodes[nodes.length - 1];
+  if (last?.type === 'text') {
+    last.text += text;
+  } else {
+    nodes.push({ type: 'text', text });
+  }
+}
@@ -0,0 +1,82 @@
+import type { Routine, RoutineSlot } from '../types/routine';
+import { buildICalendar, type ICalEvent } from './icalendar';
+import { timeToMinutes } from './routineConflicts';
+
+const DAY_CODES: Record<string, { code: string; index: number }> = {
+  sunday: { code: 'SU', index: 0 },
+  monday: { code: 'MO', index: 1 },
+  tuesday: { code: 'TU', index: 2 },
+  wednesday: { code: 'WE', index: 3 },
+  thursday: { code: 'TH', index: 4 },
+  friday: { code: 'FR', index: 5 },
+  saturday: { code: 'SA', index: 6 }
+};
+
+// A semester runs for roughly 16 weeks
+const DEFAULT_WEEKS = 16;
+
+interface RoutineCalendarOptions {
+  section?: string;
+  startDate?: Date;
+  weeks?: number;
+}
+
+/**
+ * Returns the first date on or after `from` that falls on the slot's day, set to the given time
+ */
+function firstOccurrence(from: Date, dayIndex: number, minutes: number): Date {
+  const date = new Date(from);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + ((dayIndex - date.getDay() + 7) % 7));
+  date.setMinutes(minutes);
+  return date;
+}
+
+function slotToEvent(slot: RoutineSlot, startDate: Date, weeks: number): ICalEvent | null {
+  const day = DAY_CODES[slot.dayOfWeek.toLowerCase()];
+  const startMinutes = timeToMinutes(slot.startTime);
+  const endMinutes = timeToMinutes(slot.endTime);
+
+  if (!day || Number.isNaN(startMinutes) || Number.isNaN(endMinutes)) return null;
+
+  const details = [
+    slot.teacherName && `Teacher: ${slot.teacherName}`,
+    slot.section && `Section: ${slot.section}`,
+    slot.roomNumber && `Room: ${slot.roomNumber}`
+  ].filter(Boolean) as string[];
+
+  return {
+    uid: `${slot.id}@nesttask`,
+    summary: slot.courseName || 'Class',
+    start: firstOccurrence(startDate, day.index, startMinutes),
+    end: firstOccurrence(startDate, day.index, endMinutes),
+    description: details.join('\n'),
+    location: slot.roomNumber,
+    rrule: `FREQ=WEEKLY;BYDAY=${day.code};COUNT=${weeks}`
+  };
+}
+
+/**
+ * Builds an iCalendar file with one weekly recurring event per routine slot
+ * @param routine The routine with its slots (teacher names should already be resolved)
+ * @param options Optional section filter, first week and number of weeks
+ * @returns The .ics file contents
+ */
+export function createRoutineICalendar(routine: Routine, options: RoutineCalendarOptions = {}): string {
+  const { section, startDate = new Date(), weeks = DEFAULT_WEEKS } = options;
+
+  const slots = (routine.slots || []).filter(slot =>
+    !slot._isOfflineDeleted &&
+    (!section || (slot.section || '').toLowerCase() === section.toLowerCase())
+  );
+
+  const events = slots
+    .map(slot => slotToEvent(slot, startDate, weeks))
+    .filter((event): event is ICalEvent => event !== null);
+
+  const calendarName = section
+    ? `${routine.name} (Section ${section})`
+    : routine.name;
+
+  return buildICalendar(calendarName, events);
+}
@@ -0,0 +1,131 @@
+import type { Routine, RoutineSlot, RoutineConflict, RoutineConflictType } from '../types/routine';
+
+/**
+ * Converts a time string ("08:00", "08:00:00" or "8:00 AM") to minutes since midnight.
+ * Returns NaN when the value cannot be parsed.
+ */
+export function timeToMinutes(time: string): number {
+  if (!time) return NaN;
+
+  const match = time.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*(AM|PM)?$/i);
+  if (!match) return NaN;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const period = match[3]?.toUpperCase();
+
+  if (period === 'PM' && hours < 12) hours += 12;
+  if (period === 'AM' && hours === 12) hours = 0;
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Checks whether two slots happen on the same day with overlapping time ranges.
+ * Back-to-back slots (one ends when the other starts) do not overlap.
+ */
+export function slotsOverlap(a: RoutineSlot, b: RoutineSlot): boolean {
+  if (a.dayOfWeek.toLowerCase() !== b.dayOfWeek.toLowerCase()) return false;
+
+  const aStart = timeToMinutes(a.startTime);
+  const aEnd = timeToMinutes(a.endTime);
+  const bStart = timeToMinutes(b.startTime);
+  const bEnd = timeToMinutes(b.endTime);
+
+  if ([aStart, aEnd, bStart, bEnd].some(Number.isNaN)) return false;
+
+  return aStart < bEnd && bStart < aEnd;
+}
+
+const normalize = (value?: string) => (value || '').trim().toLowerCase();
+
+const formatRange = (slot: RoutineSlot) =>
+  `${slot.startTime.slice(0, 5)}-${slot.endTime.slice(0, 5)}`;
+
+const describeSlot = (slot: RoutineSlot) => {
+  const parts = [slot.courseName || 'Untitled slot'];
+  if (slot.section) parts.push(`section ${slot.section}`);
+  return `${parts.join(', ')} (${slot.dayOfWeek} ${formatRange(slot)})`;
+};
+
+function buildConflict(type: RoutineConflictType, slot: RoutineSlot, other: RoutineSlot): RoutineConflict {
+  let message: string;
+
+  switch (type) {
+    case 'teacher':
+      message = `${slot.teacherName || 'Teacher'} is already teaching ${describeSlot(other)}`;
+      break;
+    case 'room':
+      message = `Room ${slot.roomNumber} is already used by ${describeSlot(other)}`;
+      break;
+    default:
+      message = slot.section
+        ? `Section ${slot.section} already has ${describeSlot(other)}`
+        : `The class already has ${describeSlot(other)}`;
+  }
+
+  return {
+    type,
+    dayOfWeek: slot.dayOfWeek,
+    slot,
+    conflictingSlot: other,
+    message
+  };
+}
+
+/**
+ * Finds every clash between a single slot and a pool of existing slots.
+ * The slot itself (matched by id) is ignored so that edits don't clash with their old version.
+ */
+export function findSlotConflicts(slot: RoutineSlot, existingSlots: RoutineSlot[]): RoutineConflict[] {
+  const conflicts: RoutineConflict[] = [];
+
+  for (const other of existingSlots) {
+    if (other.id === slot.id || other._isOfflineDeleted) continue;
+    if (!slotsOverlap(slot, other)) continue;
+
+    const sameTeacher = slot.teacherId
+      ? slot.teacherId === other.teacherId
+      : !!normalize(slot.teacherName) && normalize(slot.teacherName) === normalize(other.teacherName);
+
+    if (sameTeacher) {
+      conflicts.push(buildConflict('teacher', slot, other));
+    }
+
+    if (normalize(slot.roomNumber) && normalize(slot.roomNumber) === normalize(other.roomNumber)) {
+      conflicts.push(buildConflict('room', slot, other));
+    }
+
+    // Slots without a section are for the whole class, so two of them clash too
+    if (slot.routineId === other.routineId && normalize(slot.section) === normalize(other.section)) {
+      conflicts.push(buildConflict('section', slot, other));
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Returns the slots that should be checked for clashes when editing a routine:
+ * the routine's own slots plus the slots of every active routine.
+ */
+export function getConflictPool(routines: Routine[], routineId?: string): RoutineSlot[] {
+  return routines
+    .filter(routine => routine.isActive || routine.id === routineId)
+    .flatMap(routine => routine.slots || []);
+}
+
+/**
+ * Builds a full conflict report for a set of routines.
+ * Each clashing pair is reported once per conflict type.
+ */
+export function detectRoutineConflicts(routines: Routine[]): RoutineConflict[] {
+  const slots = routines.flatMap(routine => routine.slots || []);
+  const conflicts: RoutineConflict[] = [];
+
+  slots.forEach((slot, index) => {
+    conflicts.push(...findSlotConflicts(slot, slots.slice(index + 1)));
+  });
+
+  return conflicts;
+}
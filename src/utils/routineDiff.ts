@@ -0,0 +1,128 @@
+import type {
+  RoutineDiff,
+  RoutineSlot,
+  RoutineSlotChange,
+  RoutineSlotField,
+  RoutineSlotMove,
+  RoutineVersion
+} from '../types/routine';
+import { timeToMinutes } from './routineConflicts';
+
+// Changes by the same person less than this far apart belong to the same version
+const VERSION_GAP_MINUTES = 10;
+
+const DAY_ORDER = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const normalize = (value?: string) => (value || '').trim().toLowerCase();
+
+// Slots of the same course and section are the same class, wherever and whenever they happen
+const courseKey = (slot: RoutineSlot) =>
+  `${slot.courseId || normalize(slot.courseName)}|${normalize(slot.section)}`;
+
+function compareSlots(a: RoutineSlot, b: RoutineSlot): number {
+  return DAY_ORDER.indexOf(a.dayOfWeek) - DAY_ORDER.indexOf(b.dayOfWeek) ||
+    timeToMinutes(a.startTime) - timeToMinutes(b.startTime);
+}
+
+/**
+ * Lists what differs between two versions of a slot that are meant to be the same class
+ */
+export function getSlotChanges(from: RoutineSlot, to: RoutineSlot): RoutineSlotField[] {
+  const changes: RoutineSlotField[] = [];
+
+  if (from.dayOfWeek !== to.dayOfWeek) changes.push('day');
+  if (timeToMinutes(from.startTime) !== timeToMinutes(to.startTime) ||
+      timeToMinutes(from.endTime) !== timeToMinutes(to.endTime)) {
+    changes.push('time');
+  }
+  if (normalize(from.roomNumber) !== normalize(to.roomNumber)) changes.push('room');
+  if ((from.teacherId || normalize(from.teacherName)) !== (to.teacherId || normalize(to.teacherName))) {
+    changes.push('teacher');
+  }
+
+  return changes;
+}
+
+/**
+ * Compares the slots of two routines, or two versions of one routine.
+ * Slots are paired by ID first, then by course and section, so a class that changed
+ * day, time, room or teacher shows up as moved rather than removed and added again.
+ */
+export function diffRoutineSlots(before: RoutineSlot[], after: RoutineSlot[]): RoutineDiff {
+  const removed = [...before].sort(compareSlots);
+  const added = [...after].sort(compareSlots);
+  const moved: RoutineSlotMove[] = [];
+  let unchanged = 0;
+
+  const pair = (matches: (from: RoutineSlot, to: RoutineSlot) => boolean) => {
+    for (let i = 0; i < removed.length; i++) {
+      const index = added.findIndex(to => matches(removed[i], to));
+      if (index === -1) continue;
+
+      const [from] = removed.splice(i, 1);
+      const [to] = added.splice(index, 1);
+      const changes = getSlotChanges(from, to);
+
+      if (changes.length === 0) {
+        unchanged++;
+      } else {
+        moved.push({ from, to, changes });
+      }
+      i--;
+    }
+  };
+
+  pair((from, to) => from.id === to.id);
+  pair((from, to) => courseKey(from) === courseKey(to) && getSlotChanges(from, to).length === 0);
+  pair((from, to) => courseKey(from) === courseKey(to));
+
+  return { added, removed, moved, unchanged };
+}
+
+/**
+ * Rebuilds a routine's slots as they were at a point in time by replaying its history
+ */
+export function getRoutineSlotsAt(changes: RoutineSlotChange[], at: string): RoutineSlot[] {
+  const slots = new Map<string, RoutineSlot>();
+  const until = new Date(at).getTime();
+
+  [...changes]
+    .sort((a, b) => new Date(a.changedAt).getTime() - new Date(b.changedAt).getTime())
+    .filter(change => new Date(change.changedAt).getTime() <= until)
+    .forEach(change => {
+      if (change.action === 'removed' || !change.after) {
+        slots.delete(change.slotId);
+      } else {
+        slots.set(change.slotId, change.after);
+      }
+    });
+
+  return Array.from(slots.values());
+}
+
+/**
+ * Groups a routine's history into versions: runs of changes by the same person with
+ * no long pause between them, like one bulk import or one editing session.
+ * The newest version comes first.
+ */
+export function groupRoutineVersions(changes: RoutineSlotChange[]): RoutineVersion[] {
+  const versions: RoutineVersion[] = [];
+
+  [...changes]
+    .sort((a, b) => new Date(a.changedAt).getTime() - new Date(b.changedAt).getTime())
+    .forEach(change => {
+      const current = versions[versions.length - 1];
+      const gap = current
+        ? (new Date(change.changedAt).getTime() - new Date(current.at).getTime()) / 60000
+        : Infinity;
+
+      if (current && current.changedBy === change.changedBy && gap < VERSION_GAP_MINUTES) {
+        current.changes.push(change);
+        current.at = change.changedAt;
+      } else {
+        versions.push({ at: change.changedAt, changedBy: change.changedBy, changes: [change] });
+      }
+    });
+
+  return versions.reverse();
+}
@@ -0,0 +1,192 @@
+import type { Course } from '../types/course';
+import type {
+  GeneratedRoutine,
+  RoutineGeneratorOptions,
+  RoutineSlot,
+  RoutineTimeWindow,
+  UnscheduledSession
+} from '../types/routine';
+import { findSlotConflicts, timeToMinutes } from './routineConflicts';
+
+// Weekly contact minutes per credit hour
+const MINUTES_PER_CREDIT = 50;
+const DEFAULT_CREDIT = 3;
+const DRAFT_ROUTINE_ID = 'draft-routine';
+
+interface Period {
+  dayOfWeek: string;
+  dayIndex: number;
+  startTime: string;
+  endTime: string;
+}
+
+const minutesToTime = (minutes: number) =>
+  `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+
+/**
+ * Splits the allowed time windows of each day into back-to-back periods of the slot duration
+ */
+export function buildPeriods(days: string[], timeWindows: RoutineTimeWindow[], slotDuration: number): Period[] {
+  const periods: Period[] = [];
+  if (slotDuration <= 0) return periods;
+
+  days.forEach((dayOfWeek, dayIndex) => {
+    timeWindows.forEach(window => {
+      const windowStart = timeToMinutes(window.startTime);
+      const windowEnd = timeToMinutes(window.endTime);
+      if (Number.isNaN(windowStart) || Number.isNaN(windowEnd)) return;
+
+      for (let start = windowStart; start + slotDuration <= windowEnd; start += slotDuration) {
+        periods.push({
+          dayOfWeek,
+          dayIndex,
+          startTime: minutesToTime(start),
+          endTime: minutesToTime(start + slotDuration)
+        });
+      }
+    });
+  });
+
+  return periods;
+}
+
+/**
+ * Returns the first period for which `tryPeriod` produces a slot
+ */
+function findFreeSlot(
+  periods: Period[],
+  tryPeriod: (candidate: RoutineSlot) => RoutineSlot | null
+): RoutineSlot | null {
+  for (const period of periods) {
+    const slot = tryPeriod({
+      id: '',
+      routineId: DRAFT_ROUTINE_ID,
+      dayOfWeek: period.dayOfWeek,
+      startTime: period.startTime,
+      endTime: period.endTime,
+      createdAt: ''
+    });
+    if (slot) return slot;
+  }
+  return null;
+}
+
+/**
+ * Number of weekly sessions a course needs, based on its credit
+ */
+export function getSessionsPerWeek(course: Course, slotDuration: number): number {
+  const credit = course.credit ?? DEFAULT_CREDIT;
+  return Math.max(1, Math.round((credit * MINUTES_PER_CREDIT) / slotDuration));
+}
+
+/**
+ * Proposes a clash-free weekly timetable for the given courses.
+ *
+ * Sessions are placed greedily, most constrained courses first. Each session goes to the
+ * least busy day for its course and section, using the first assigned teacher and room that
+ * don't clash with the existing slots or anything already placed. Sessions that can't be
+ * placed are returned in `unscheduled` instead of failing the whole routine.
+ */
+export function generateRoutine({
+  courses,
+  teachers,
+  rooms,
+  days,
+  timeWindows,
+  slotDuration,
+  existingSlots = []
+}: RoutineGeneratorOptions): GeneratedRoutine {
+  const periods = buildPeriods(days, timeWindows, slotDuration);
+  const placed: RoutineSlot[] = [];
+  const unscheduled: UnscheduledSession[] = [];
+
+  // Teachers assigned to each course through teacher_courses, falling back to the course's own teacher
+  const teachersForCourse = (course: Course) =>
+    teachers.filter(teacher =>
+      teacher.courses?.some(c => c.id === course.id) || teacher.id === course.teacherId
+    );
+
+  const queue = courses
+    .map(course => ({
+      course,
+      sessions: getSessionsPerWeek(course, slotDuration),
+      courseTeachers: teachersForCourse(course)
+    }))
+    .sort((a, b) =>
+      b.sessions - a.sessions ||
+      (a.courseTeachers.length || Infinity) - (b.courseTeachers.length || Infinity)
+    );
+
+  const roomOptions = rooms.length > 0 ? rooms : [undefined];
+
+  for (const { course, sessions, courseTeachers } of queue) {
+    const teacherOptions = courseTeachers.length > 0 ? courseTeachers : [undefined];
+    let placedCount = 0;
+
+    for (let session = 0; session < sessions; session++) {
+      const courseDays = placed.filter(slot => slot.courseId === course.id).map(slot => slot.dayOfWeek);
+      const sectionLoad = (day: string) =>
+        placed.filter(slot => slot.dayOfWeek === day && (slot.section || '') === (course.section || '')).length;
+
+      // Prefer days the course isn't on yet, then days with a lighter load for the section
+      const orderedPeriods = [...periods].sort((a, b) =>
+        courseDays.filter(d => d === a.dayOfWeek).length - courseDays.filter(d => d === b.dayOfWeek).length ||
+        sectionLoad(a.dayOfWeek) - sectionLoad(b.dayOfWeek) ||
+        a.dayIndex - b.dayIndex ||
+        timeToMinutes(a.startTime) - timeToMinutes(b.startTime)
+      );
+
+      const candidateSlot = findFreeSlot(orderedPeriods, candidate => {
+        for (const teacher of teacherOptions) {
+          for (const room of roomOptions) {
+            const slot: RoutineSlot = {
+              ...candidate,
+              id: `generated-${placed.length}`,
+              courseId: course.id,
+              courseName: course.name,
+              teacherId: teacher?.id,
+              teacherName: teacher?.name || course.teacher || '',
+              roomNumber: room,
+              section: course.section
+            };
+
+            if (findSlotConflicts(slot, [...existingSlots, ...placed]).length === 0) {
+              return slot;
+            }
+          }
+        }
+        return null;
+      });
+
+      if (!candidateSlot) break;
+
+      placed.push(candidateSlot);
+      placedCount++;
+    }
+
+    if (placedCount < sessions) {
+      unscheduled.push({
+        course,
+        sessionsMissing: sessions - placedCount,
+        reason: periods.length === 0
+          ? 'No time periods fit the selected windows'
+          : 'No free period without a teacher, room or section clash'
+      });
+    }
+  }
+
+  return {
+    slots: placed.map(slot => ({
+      courseId: slot.courseId,
+      courseName: slot.courseName,
+      teacherId: slot.teacherId,
+      teacherName: slot.teacherName,
+      dayOfWeek: slot.dayOfWeek,
+      startTime: slot.startTime,
+      endTime: slot.endTime,
+      roomNumber: slot.roomNumber,
+      section: slot.section
+    })),
+    unscheduled
+  };
+}
@@ -0,0 +1,203 @@
+import type { SearchDocument, SearchField, SearchResult, SearchSources } from '../types/search';
+import { getAnnouncementStatus } from './announcementStatus';
+
+// Field weights: a hit in a title outranks the same hit in a description
+const TITLE_WEIGHT = 3;
+const DETAIL_WEIGHT = 2;
+const BODY_WEIGHT = 1;
+
+// Shortest word a prefix may match, so "a" doesn't match everything
+const MIN_PREFIX_LENGTH = 2;
+
+/**
+ * Splits text into lowercase words without accents, e.g. "Lab-Report Café" -> ["lab", "report", "cafe"]
+ */
+export function tokenize(text?: string): string[] {
+  return (text || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+const field = (weight: number, ...texts: (string | undefined)[]): SearchField => ({
+  tokens: texts.flatMap(text => tokenize(text)),
+  weight
+});
+
+// Longer words get more room for typos
+const allowedTypos = (term: string) => (term.length <= 3 ? 0 : term.length <= 6 ? 1 : 2);
+
+/**
+ * Optimal string alignment distance: Levenshtein plus swapped neighbours,
+ * giving up early once the distance can't stay within max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const twoRowsBack = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, twoRowsBack[j - 2] + 1);
+      }
+
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) return max + 1;
+  }
+
+  return row[b.length];
+}
+
+// How well a query term matches a word: 1 for the same word, less for prefixes and typos, 0 for no match
+function matchTerm(term: string, token: string): number {
+  if (token === term) return 1;
+  if (term.length >= MIN_PREFIX_LENGTH && token.startsWith(term)) return 0.8;
+
+  const maxTypos = allowedTypos(term);
+  if (maxTypos === 0) return 0;
+
+  // Compare against the start of longer words too, so typos in half-typed words still match
+  const candidate = token.length > term.length + maxTypos ? token.slice(0, term.length) : token;
+  const distance = editDistance(term, candidate, maxTypos);
+
+  return distance <= maxTypos ? 0.6 - 0.1 * distance : 0;
+}
+
+/**
+ * Builds the documents the global search runs over.
+ * Draft, scheduled and expired announcements are left out, as are items deleted while offline.
+ */
+export function buildSearchDocuments(sources: SearchSources): SearchDocument[] {
+  const documents: SearchDocument[] = [];
+  const courseNames = new Map(sources.courses.map(course => [course.id, course.name]));
+
+  sources.tasks.forEach(task => {
+    documents.push({
+      type: 'task',
+      id: task.id,
+      title: task.name,
+      subtitle: task.category.replace(/-/g, ' '),
+      fields: [
+        field(TITLE_WEIGHT, task.name),
+        field(DETAIL_WEIGHT, task.category, task.course?.code, task.course?.name),
+        field(BODY_WEIGHT, task.description)
+      ],
+      item: task
+    });
+  });
+
+  sources.courses
+    .filter(course => !course._isOfflineDeleted)
+    .forEach(course => {
+      documents.push({
+        type: 'course',
+        id: course.id,
+        title: course.name,
+        subtitle: [course.code, course.teacher, course.section && `Section ${course.section}`].filter(Boolean).join(' · '),
+        fields: [
+          field(TITLE_WEIGHT, course.name, course.code),
+          field(DETAIL_WEIGHT, course.teacher, course.section)
+        ],
+        item: course
+      });
+    });
+
+  sources.materials
+    .filter(material => !material._isOfflineDeleted)
+    .forEach(material => {
+      const courseName = material.course?.name || courseNames.get(material.courseId);
+      documents.push({
+        type: 'material',
+        id: material.id,
+        title: material.title,
+        subtitle: [material.category, courseName].filter(Boolean).join(' · '),
+        fields: [
+          field(TITLE_WEIGHT, material.title),
+          field(DETAIL_WEIGHT, material.category, courseName, ...(material.originalFileNames || [])),
+          field(BODY_WEIGHT, material.description)
+        ],
+        item: material
+      });
+    });
+
+  sources.teachers
+    .filter(teacher => !teacher._isOfflineDeleted)
+    .forEach(teacher => {
+      documents.push({
+        type: 'teacher',
+        id: teacher.id,
+        title: teacher.name,
+        subtitle: [teacher.department, teacher.officeRoom && `Room ${teacher.officeRoom}`].filter(Boolean).join(' · '),
+        fields: [
+          field(TITLE_WEIGHT, teacher.name),
+          field(DETAIL_WEIGHT, teacher.department, teacher.email, teacher.officeRoom),
+          field(BODY_WEIGHT, ...(teacher.courses || []).flatMap(course => [course.name, course.code]))
+        ],
+        item: teacher
+      });
+    });
+
+  sources.announcements
+    .filter(announcement => getAnnouncementStatus(announcement) === 'live')
+    .forEach(announcement => {
+      documents.push({
+        type: 'announcement',
+        id: announcement.id,
+        title: announcement.title,
+        fields: [
+          field(TITLE_WEIGHT, announcement.title),
+          field(BODY_WEIGHT, announcement.content)
+        ],
+        item: announcement
+      });
+    });
+
+  return documents;
+}
+
+/**
+ * Finds the documents matching every word of the query, best matches first.
+ * Words match whole words, word prefixes, or words with a typo or two.
+ */
+export function searchDocuments(documents: SearchDocument[], query: string): SearchResult[] {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0) return [];
+
+  const results: SearchResult[] = [];
+
+  documents.forEach(document => {
+    let score = 0;
+
+    for (const term of terms) {
+      let best = 0;
+      for (const { tokens, weight } of document.fields) {
+        for (const token of tokens) {
+          best = Math.max(best, matchTerm(term, token) * weight);
+        }
+      }
+
+      // Every word of the query has to match somewhere
+      if (best === 0) return;
+      score += best;
+    }
+
+    results.push({ document, score });
+  });
+
+  return results.sort((a, b) => b.score - a.score || a.document.title.localeCompare(b.document.title));
+}
@@ -0,0 +1,2 @@
+// Lives with the edge functions, which filter by section too
+export * from '../../supabase/functions/_shared/sectionFilter.ts';
@@ -0,0 +1,247 @@
+// Reads CSV and XLSX files for the bulk importers. XLSX files are zip archives of XML,
+// so they are unzipped with the browser's DecompressionStream and read with DOMParser.
+
+export interface ImportField {
+  // Key of the imported record, the same as in the JSON import format
+  key: string;
+  label: string;
+  required?: boolean;
+  // Other column headers that mean this field
+  aliases?: string[];
+}
+
+// Field key -> index of the column it's read from
+export type ColumnMapping = Record<string, number | undefined>;
+
+const SPREADSHEET_EXTENSIONS = ['.csv', '.tsv', '.txt', '.xlsx'];
+
+export function isSpreadsheetFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return SPREADSHEET_EXTENSIONS.some(extension => name.endsWith(extension));
+}
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells with commas, quotes and line
+ * breaks, and picks comma, semicolon or tab as the separator from the first line.
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return removeEmptyRows(rows);
+}
+
+/**
+ * Reads a CSV or XLSX file into rows of cells. For workbooks, only the first sheet is read.
+ */
+export async function readSpreadsheetFile(file: File): Promise<string[][]> {
+  if (file.name.toLowerCase().endsWith('.xlsx')) {
+    return readXlsx(await file.arrayBuffer());
+  }
+  return parseCsv(await file.text());
+}
+
+/**
+ * Matches each field to the column whose header is its key, label or one of its aliases
+ */
+export function guessColumnMapping(headers: string[], fields: ImportField[]): ColumnMapping {
+  const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const normalizedHeaders = headers.map(normalize);
+
+  return Object.fromEntries(fields.map(field => {
+    const names = [field.key, field.label, ...(field.aliases || [])].map(normalize);
+    const index = normalizedHeaders.findIndex(header => names.includes(header));
+    return [field.key, index === -1 ? undefined : index];
+  }));
+}
+
+/**
+ * Turns data rows into records keyed by field, leaving out empty cells
+ */
+export function applyColumnMapping(rows: string[][], mapping: ColumnMapping): Record<string, string>[] {
+  return rows.map(row => {
+    const record: Record<string, string> = {};
+    Object.entries(mapping).forEach(([key, index]) => {
+      const value = index === undefined ? '' : (row[index] ?? '').trim();
+      if (value) record[key] = value;
+    });
+    return record;
+  });
+}
+
+function removeEmptyRows(rows: string[][]): string[][] {
+  return rows.filter(row => row.some(cell => cell.trim()));
+}
+
+// --- XLSX ---
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function readZipEntries(buffer: ArrayBuffer): Map<string, ZipEntry> {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  // The end of central directory record is in the last 64KB + 22 bytes
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error('Not a valid XLSX file');
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Not a valid XLSX file');
+
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    entries.set(name, {
+      name,
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true)
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function readZipText(buffer: ArrayBuffer, entry: ZipEntry): Promise<string> {
+  const view = new DataView(buffer);
+  const start = entry.localHeaderOffset + 30 +
+    view.getUint16(entry.localHeaderOffset + 26, true) +
+    view.getUint16(entry.localHeaderOffset + 28, true);
+  const data = new Uint8Array(buffer, start, entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error('Unsupported compression in XLSX file');
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, 'application/xml');
+}
+
+function elements(parent: Document | Element, tagName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', tagName));
+}
+
+function columnIndex(cellRef: string): number {
+  const letters = cellRef.replace(/[0-9]/g, '');
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+async function readXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const entries = readZipEntries(buffer);
+  const readEntry = async (name: string) => {
+    const entry = entries.get(name);
+    return entry ? parseXml(await readZipText(buffer, entry)) : null;
+  };
+
+  // Find the first sheet through the workbook's relationships
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const workbook = await readEntry('xl/workbook.xml');
+  const relationships = await readEntry('xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook ? elements(workbook, 'sheet')[0] : undefined;
+  const relationshipId = firstSheet?.getAttributeNS(
+    'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+    'id'
+  );
+  const target = relationships && relationshipId
+    ? elements(relationships, 'Relationship').find(rel => rel.getAttribute('Id') === relationshipId)?.getAttribute('Target')
+    : undefined;
+  if (target) {
+    sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+
+  const sharedStringsXml = await readEntry('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml
+    ? elements(sharedStringsXml, 'si').map(item => elements(item, 't').map(t => t.textContent || '').join(''))
+    : [];
+
+  const sheet = await readEntry(sheetPath);
+  if (!sheet) throw new Error('The workbook has no sheets');
+
+  const rows = elements(sheet, 'row').map(rowElement => {
+    const row: string[] = [];
+
+    elements(rowElement, 'c').forEach((cell, position) => {
+      const ref = cell.getAttribute('r');
+      const index = ref ? columnIndex(ref) : position;
+      const type = cell.getAttribute('t');
+      const value = elements(cell, 'v')[0]?.textContent ?? '';
+
+      if (type === 's') {
+        row[index] = sharedStrings[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        row[index] = elements(cell, 't').map(t => t.textContent || '').join('');
+      } else if (type === 'b') {
+        row[index] = value === '1' ? 'TRUE' : 'FALSE';
+      } else {
+        row[index] = value;
+      }
+    });
+
+    return Array.from(row, cell => cell ?? '');
+  });
+
+  return removeEmptyRows(rows);
+}
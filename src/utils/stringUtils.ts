@@ -13,4 +13,25 @@ export function getInitials(name?: string): string {
     .split(' ')
     .map(part => part.charAt(0).toUpperCase())
     .join('');
-} 
\ No newline at end of file
+} 
+
+/**
+ * Formats a file size for display.
+ * For example, 1536 becomes "1.5 KB"
+ *
+ * @param bytes The size in bytes
+ * @returns The size with a unit
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+
+  const units = ['KB', 'MB', 'GB'];
+  let size = bytes / 1024;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+
+  return `${size < 10 ? size.toFixed(1) : Math.round(size)} ${units[unit]}`;
+}
@@ -0,0 +1,2 @@
+// Lives with the edge functions so the subscription feed builds the same events as the export
+export * from '../../supabase/functions/_shared/taskCalendar.ts';
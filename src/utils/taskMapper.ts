@@ -1,14 +1,2 @@
-import type { Task } from '../types';
-
-export function mapTaskFromDB(dbTask: any): Task {
-  return {
-    id: dbTask.id,
-    name: dbTask.name,
-    category: dbTask.category,
-    dueDate: dbTask.due_date,
-    description: dbTask.description,
-    status: dbTask.status,
-    createdAt: dbTask.created_at,
-    isAdminTask: dbTask.is_admin_task
-  };
-}
\ No newline at end of file
+// Lives with the edge functions, which read task rows too
+export * from '../../supabase/functions/_shared/taskMapper.ts';
@@ -0,0 +1,252 @@
+/**
+ * Ordered outbox of task writes made while offline.
+ * Operations are stored in the IndexedDB outbox store and replayed in the order they were made.
+ */
+import { createTask, updateTask, deleteTask, fetchTaskById, isOwnTaskProgress } from '../services/task.service';
+import { saveTaskProgress } from '../services/taskProgress.service';
+import { getProgressDate } from './taskProgress';
+import { saveToIndexedDB, getAllFromIndexedDB, getByIdFromIndexedDB, deleteFromIndexedDB, STORES } from './offlineStorage';
+import { getFailedOperation, resolveTaskUpdate, sortOutboxOperations, withOutboxLock } from './outboxRules';
+import type { Task, NewTask } from '../types/task';
+import type { OutboxOperation, OutboxOperationType, ConflictStrategy } from '../types/outbox';
+
+const TASK_FIELDS: (keyof NewTask & keyof Task)[] = ['name', 'category', 'dueDate', 'description', 'status', 'section', 'courseId'];
+
+export interface OutboxSyncResult {
+  processed: number;
+  failed: number;
+  remaining: number;
+}
+
+/**
+ * Applies operations that haven't reached the server yet on top of a task list,
+ * so a refresh from the server doesn't hide offline changes
+ */
+export function applyOutboxToTasks<T extends Task>(tasks: T[], operations: OutboxOperation[]): T[] {
+  return sortOutboxOperations(operations).reduce((result, operation) => {
+    switch (operation.type) {
+      case 'create':
+        return result.some(task => task.id === operation.entityId)
+          ? result
+          : [...result, { ...operation.payload, id: operation.entityId } as T];
+      case 'update':
+        return result.map(task =>
+          task.id === operation.entityId ? { ...task, ...operation.payload } : task
+        );
+      case 'delete':
+        return result.filter(task => task.id !== operation.entityId);
+      default:
+        return result;
+    }
+  }, tasks);
+}
+
+export async function getOutboxOperations(userId: string): Promise<OutboxOperation[]> {
+  const operations = await getAllFromIndexedDB(STORES.OUTBOX) as OutboxOperation[];
+  return sortOutboxOperations(operations.filter(operation => operation.userId === userId));
+}
+
+/**
+ * Adds an operation to the outbox, folding it into earlier operations where possible:
+ * edits to a task that was created offline are merged into the create, and deleting
+ * such a task removes its operations altogether.
+ */
+export async function enqueueTaskOperation(
+  userId: string,
+  type: OutboxOperationType,
+  entityId: string,
+  label: string,
+  payload?: Partial<Task>,
+  base?: Task
+): Promise<void> {
+  const operations = await getOutboxOperations(userId);
+  const related = operations.filter(operation => operation.entityId === entityId);
+  const pendingCreate = related.find(operation => operation.type === 'create' && operation.attempts === 0);
+
+  if (type === 'update' && pendingCreate) {
+    await saveToIndexedDB(STORES.OUTBOX, {
+      ...pendingCreate,
+      label,
+      payload: { ...pendingCreate.payload, ...payload }
+    });
+    return;
+  }
+
+  if (type === 'delete') {
+    if (pendingCreate) {
+      await Promise.all(related.map(operation => deleteFromIndexedDB(STORES.OUTBOX, operation.id)));
+      return;
+    }
+
+    // Queued edits to a task that is going away don't need to be sent
+    await Promise.all(
+      related
+        .filter(operation => operation.type === 'update' && operation.attempts === 0)
+        .map(operation => deleteFromIndexedDB(STORES.OUTBOX, operation.id))
+    );
+  }
+
+  const operation: OutboxOperation = {
+    id: `${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+    entity: 'task',
+    type,
+    entityId,
+    userId,
+    payload,
+    base,
+    label,
+    createdAt: Date.now(),
+    attempts: 0,
+    status: 'pending'
+  };
+  await saveToIndexedDB(STORES.OUTBOX, operation);
+}
+
+async function replaceTempTask(userId: string, tempId: string, task: Task, operations: OutboxOperation[]) {
+  await deleteFromIndexedDB(STORES.TASKS, tempId);
+  await saveToIndexedDB(STORES.TASKS, { ...task, userId });
+
+  // Point later operations at the server id
+  await Promise.all(
+    operations
+      .filter(operation => operation.entityId === tempId && operation.type !== 'create')
+      .map(operation => {
+        operation.entityId = task.id;
+        return saveToIndexedDB(STORES.OUTBOX, operation);
+      })
+  );
+}
+
+async function markFailed(operation: OutboxOperation, message: string, permanent = false) {
+  await saveToIndexedDB(STORES.OUTBOX, getFailedOperation(operation, message, permanent));
+}
+
+// Only one replay at a time, however many components ask for a sync;
+// the outbox lock also keeps other tabs and the service worker out
+let activeSync: Promise<OutboxSyncResult> | null = null;
+
+/**
+ * Replays the user's queued operations against the server in order.
+ * An operation that fails holds back later operations on the same task until it succeeds.
+ */
+export function processTaskOutbox(
+  userId: string,
+  strategy: ConflictStrategy = 'merge'
+): Promise<OutboxSyncResult> {
+  if (!activeSync) {
+    activeSync = withOutboxLock(() => replayOutbox(userId, strategy)).finally(() => {
+      activeSync = null;
+    });
+  }
+  return activeSync;
+}
+
+async function replayOutbox(userId: string, strategy: ConflictStrategy): Promise<OutboxSyncResult> {
+  const operations = await getOutboxOperations(userId);
+  const blocked = new Set<string>();
+  const now = Date.now();
+  let processed = 0;
+  let failed = 0;
+
+  for (const operation of operations) {
+    const taskId = operation.entityId;
+
+    if (
+      operation.status === 'failed' ||
+      blocked.has(taskId) ||
+      (operation.nextAttemptAt && operation.nextAttemptAt > now)
+    ) {
+      blocked.add(taskId);
+      continue;
+    }
+
+    try {
+      if (operation.type === 'create') {
+        const newTask = Object.fromEntries(
+          TASK_FIELDS.map(field => [field, operation.payload?.[field]])
+        ) as Omit<NewTask, 'attachments'>;
+        const created = await createTask(userId, newTask);
+        await replaceTempTask(userId, taskId, created, operations);
+      } else if (operation.type === 'update') {
+        const server = await fetchTaskById(taskId);
+        if (!server) {
+          await markFailed(operation, 'This task was deleted on the server', true);
+          blocked.add(taskId);
+          failed++;
+          continue;
+        }
+
+        const local = operation.payload || {};
+        if (local.status && await isOwnTaskProgress(server, local)) {
+          // Nobody else writes a student's progress, so there's nothing to resolve
+          await saveTaskProgress(taskId, local.status, getProgressDate(server));
+        } else {
+          const updates = resolveTaskUpdate(local, operation.base, server, operation.createdAt, strategy);
+          if (Object.keys(updates).length > 0) {
+            await updateTask(taskId, updates);
+          }
+        }
+      } else {
+        await deleteTask(taskId);
+      }
+
+      await deleteFromIndexedDB(STORES.OUTBOX, operation.id);
+      processed++;
+    } catch (error) {
+      console.error(`Failed to sync ${operation.type} for task ${taskId}:`, error);
+      await markFailed(operation, (error as Error).message || 'Failed to sync');
+      blocked.add(taskId);
+      failed++;
+    }
+  }
+
+  return {
+    processed,
+    failed,
+    remaining: (await getOutboxOperations(userId)).length
+  };
+}
+
+/**
+ * Puts a failed operation back in the queue for another try
+ */
+export async function retryOutboxOperation(operation: OutboxOperation): Promise<void> {
+  await saveToIndexedDB(STORES.OUTBOX, {
+    ...operation,
+    attempts: 0,
+    status: 'pending',
+    nextAttemptAt: undefined,
+    error: undefined
+  });
+}
+
+/**
+ * Drops an operation and undoes it locally. Discarding an offline create also drops the task and its later edits.
+ */
+export async function discardOutboxOperation(operation: OutboxOperation): Promise<void> {
+  if (operation.type === 'create') {
+    const operations = await getOutboxOperations(operation.userId);
+    await Promise.all(
+      operations
+        .filter(other => other.entityId === operation.entityId)
+        .map(other => deleteFromIndexedDB(STORES.OUTBOX, other.id))
+    );
+    await deleteFromIndexedDB(STORES.TASKS, operation.entityId);
+    return;
+  }
+
+  await deleteFromIndexedDB(STORES.OUTBOX, operation.id);
+
+  // Put back the local copy as it was before the discarded change
+  if (operation.type === 'delete' && operation.base) {
+    await saveToIndexedDB(STORES.TASKS, { ...operation.base, userId: operation.userId });
+  } else if (operation.type === 'update' && operation.base) {
+    const current = await getByIdFromIndexedDB(STORES.TASKS, operation.entityId) as Task | undefined;
+    if (current) {
+      const restored = Object.fromEntries(
+        Object.keys(operation.payload || {}).map(field => [field, operation.base?.[field as keyof Task]])
+      );
+      await saveToIndexedDB(STORES.TASKS, { ...current, ...restored });
+    }
+  }
+}
@@ -0,0 +1,2 @@
+// Lives with the edge functions, which apply students' own progress too
+export * from '../../supabase/functions/_shared/taskProgress.ts';
@@ -0,0 +1,2 @@
+// Lives with the edge functions so task-reminders schedules the same reminders
+export * from '../../supabase/functions/_shared/taskReminders.ts';
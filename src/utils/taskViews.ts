@@ -0,0 +1,124 @@
+import {
+  addDays,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns';
+import type { Task } from '../types/task';
+import type { TaskView, TaskViewDateRange, TaskViewStatus } from '../types/taskView';
+import { isOverdue } from './dateUtils';
+import { tokenize } from './search';
+
+export const taskViewStatusLabels: Record<TaskViewStatus, string> = {
+  all: 'Any status',
+  overdue: 'Due',
+  'in-progress': 'In progress',
+  completed: 'Completed'
+};
+
+export const taskViewDateRangeLabels: Record<TaskViewDateRange, string> = {
+  any: 'Any time',
+  today: 'Due today',
+  'this-week': 'Due this week',
+  'next-7-days': 'Due in the next 7 days',
+  'this-month': 'Due this month',
+  custom: 'Custom dates'
+};
+
+/**
+ * Works out the due date window of a view, or null when it shows any due date
+ * @param now The day "today", "this week" and "this month" are relative to
+ */
+export function getTaskViewDateBounds(
+  view: Pick<TaskView, 'dateRange' | 'from' | 'to'>,
+  now = new Date()
+): { start?: Date; end?: Date } | null {
+  switch (view.dateRange) {
+    case 'today':
+      return { start: startOfDay(now), end: endOfDay(now) };
+    case 'this-week':
+      return { start: startOfWeek(now), end: endOfWeek(now) };
+    case 'next-7-days':
+      return { start: startOfDay(now), end: endOfDay(addDays(now, 6)) };
+    case 'this-month':
+      return { start: startOfMonth(now), end: endOfMonth(now) };
+    case 'custom':
+      return {
+        start: view.from ? startOfDay(parseISO(view.from)) : undefined,
+        end: view.to ? endOfDay(parseISO(view.to)) : undefined
+      };
+    default:
+      return null;
+  }
+}
+
+function matchesStatus(task: Task, status: TaskViewStatus): boolean {
+  switch (status) {
+    case 'overdue':
+      return isOverdue(task.dueDate) && task.status !== 'completed';
+    case 'in-progress':
+      return task.status === 'in-progress';
+    case 'completed':
+      return task.status === 'completed';
+    default:
+      return true;
+  }
+}
+
+/**
+ * Picks the tasks a saved view shows.
+ * Tasks without a course match the view's course when they mention its code or name.
+ */
+export function filterTasksByView(tasks: Task[], view: TaskView, now = new Date()): Task[] {
+  const bounds = getTaskViewDateBounds(view, now);
+  const terms = tokenize(view.query);
+  const courseTerms = view.course
+    ? [view.course.code, view.course.name].filter(Boolean).map(term => term.toLowerCase())
+    : [];
+
+  return tasks.filter(task => {
+    if (view.category && task.category !== view.category) return false;
+    if (!matchesStatus(task, view.status)) return false;
+
+    if (bounds) {
+      const dueDate = parseISO(task.dueDate);
+      if (isNaN(dueDate.getTime())) return false;
+      if (bounds.start && dueDate < bounds.start) return false;
+      if (bounds.end && dueDate > bounds.end) return false;
+    }
+
+    const text = `${task.name} ${task.description}`.toLowerCase();
+
+    if (view.course) {
+      const matchesCourse = task.courseId
+        ? task.courseId === view.course.id
+        : courseTerms.some(term => text.includes(term));
+      if (!matchesCourse) return false;
+    }
+
+    if (terms.length > 0) {
+      const words = tokenize(text);
+      if (!terms.every(term => words.some(word => word.startsWith(term)))) return false;
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Summarises a view's filters, e.g. "Lab report · Due this week · CSE311"
+ */
+export function describeTaskView(view: TaskView): string {
+  return [
+    view.category && view.category.charAt(0).toUpperCase() + view.category.slice(1).replace(/-/g, ' '),
+    view.status !== 'all' && taskViewStatusLabels[view.status],
+    view.dateRange !== 'any' && view.dateRange !== 'custom' && taskViewDateRangeLabels[view.dateRange],
+    view.dateRange === 'custom' && [view.from, view.to].filter(Boolean).join(' – '),
+    view.course?.code,
+    view.query && `"${view.query}"`
+  ].filter(Boolean).join(' · ');
+}
@@ -0,0 +1,129 @@
+import type { Teacher } from '../types/teacher';
+
+// Names at least this similar (0-1) are reported as likely duplicates
+export const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+const TITLES = new Set(['dr', 'prof', 'professor', 'mr', 'mrs', 'ms', 'md', 'engr']);
+
+export type DuplicateReason = 'name' | 'email' | 'phone';
+
+export interface DuplicateTeacherGroup {
+  teachers: Teacher[];
+  reasons: DuplicateReason[];
+  // The record to keep by default: the one with the most courses, then the oldest
+  suggestedSurvivorId: string;
+}
+
+/**
+ * Lowercases a name and drops titles and punctuation, so "Dr. A. Rahman" and
+ * "a rahman" compare equal
+ */
+export function normalizeTeacherName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(part => part && !TITLES.has(part))
+    .join(' ');
+}
+
+/**
+ * Keeps the digits of a phone number, ignoring placeholders like "N/A" and the country code
+ */
+export function normalizePhone(phone?: string): string | null {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-10) : null;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two teacher names from 0 to 1. Word order doesn't matter,
+ * so "Rahman Abdur" matches "Abdur Rahman"
+ */
+export function getNameSimilarity(a: string, b: string): number {
+  const sortWords = (name: string) => normalizeTeacherName(name).split(' ').sort().join(' ');
+  const first = sortWords(a);
+  const second = sortWords(b);
+
+  if (!first || !second) return 0;
+  if (first === second) return 1;
+
+  return 1 - levenshtein(first, second) / Math.max(first.length, second.length);
+}
+
+/**
+ * Finds teachers that are probably the same person: similar names, or the same
+ * email or phone number. Teachers linked through another one end up in the same group.
+ */
+export function findDuplicateTeachers(teachers: Teacher[]): DuplicateTeacherGroup[] {
+  const candidates = teachers.filter(teacher => !teacher._isOffline);
+  const parent = candidates.map((_, i) => i);
+  const reasons = new Map<number, Set<DuplicateReason>>();
+
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const union = (i: number, j: number, reason: DuplicateReason) => {
+    const rootI = find(i);
+    const rootJ = find(j);
+    const merged = new Set([...(reasons.get(rootI) || []), ...(reasons.get(rootJ) || []), reason]);
+    parent[rootJ] = rootI;
+    reasons.set(rootI, merged);
+  };
+
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const a = candidates[i];
+      const b = candidates[j];
+
+      if (a.email && b.email && a.email.trim().toLowerCase() === b.email.trim().toLowerCase()) {
+        union(i, j, 'email');
+      }
+
+      const phoneA = normalizePhone(a.phone);
+      if (phoneA && phoneA === normalizePhone(b.phone)) {
+        union(i, j, 'phone');
+      }
+
+      if (getNameSimilarity(a.name, b.name) >= NAME_SIMILARITY_THRESHOLD) {
+        union(i, j, 'name');
+      }
+    }
+  }
+
+  const groups = new Map<number, Teacher[]>();
+  candidates.forEach((teacher, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), teacher]);
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, group]) => group.length > 1)
+    .map(([root, group]) => {
+      const survivor = [...group].sort((a, b) =>
+        (b.courses?.length || 0) - (a.courses?.length || 0) ||
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      )[0];
+
+      return {
+        teachers: group,
+        reasons: Array.from(reasons.get(root) || []),
+        suggestedSurvivorId: survivor.id
+      };
+    });
+}
@@ -0,0 +1,2 @@
+// Lives with the edge functions so telegram-bot answers with the app's rules
+export * from '../../supabase/functions/_shared/telegramBot.ts';
@@ -0,0 +1,2 @@
+// Lives with the edge functions so telegram-relay routes and retries the same way
+export * from '../../supabase/functions/_shared/telegramRelay.ts';
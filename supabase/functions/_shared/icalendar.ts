@@ -0,0 +1,151 @@
+/**
+ * Helpers for building iCalendar (RFC 5545) files.
+ * Shared by the app and the task-calendar-feed edge function, so keep this file free of browser-only APIs.
+ */
+
+const PRODUCT_ID = '-//NestTask//NestTask Calendar//EN';
+const MAX_LINE_OCTETS = 75;
+
+export interface ICalEvent {
+  uid: string;
+  summary: string;
+  start: Date;
+  end?: Date;
+  allDay?: boolean;
+  description?: string;
+  location?: string;
+  categories?: string[];
+  rrule?: string;
+  // Minutes before the start at which a reminder should fire
+  alarms?: number[];
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/**
+ * Escapes commas, semicolons, backslashes and newlines in a text value
+ */
+export function escapeICalText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds a content line so that no line is longer than 75 octets
+ */
+export function foldICalLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+
+    current += char;
+    currentOctets += octets;
+  }
+
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * Formats a date as a floating local date-time (e.g. 20250105T083000)
+ */
+export function formatICalLocalDateTime(date: Date): string {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}00`;
+}
+
+/**
+ * Formats a date as a UTC date-time (e.g. 20250105T023000Z)
+ */
+export function formatICalUTCDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Formats a date as a date value (e.g. 20250105)
+ */
+export function formatICalDate(date: Date): string {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
+
+function buildEventLines(event: ICalEvent, timestamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${timestamp}`
+  ];
+
+  if (event.allDay) {
+    lines.push(`DTSTART;VALUE=DATE:${formatICalDate(event.start)}`);
+    if (event.end) lines.push(`DTEND;VALUE=DATE:${formatICalDate(event.end)}`);
+  } else {
+    lines.push(`DTSTART:${formatICalLocalDateTime(event.start)}`);
+    if (event.end) lines.push(`DTEND:${formatICalLocalDateTime(event.end)}`);
+  }
+
+  if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+  lines.push(`SUMMARY:${escapeICalText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeICalText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeICalText(event.location)}`);
+  if (event.categories?.length) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeICalText).join(',')}`);
+  }
+
+  event.alarms?.forEach(minutes => {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeICalText(event.summary)}`,
+      `TRIGGER:-PT${minutes}M`,
+      'END:VALARM'
+    );
+  });
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Builds a complete VCALENDAR document from a list of events
+ * @param calendarName Name shown by calendar apps for the subscription
+ * @param events The events to include
+ * @param timeZone Time zone hint for floating times, defaults to the runtime's time zone
+ * @returns The .ics file contents with CRLF line endings
+ */
+export function buildICalendar(
+  calendarName: string,
+  events: ICalEvent[],
+  timeZone: string | undefined = Intl.DateTimeFormat().resolvedOptions().timeZone
+): string {
+  const timestamp = formatICalUTCDateTime(new Date());
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalText(calendarName)}`,
+    ...(timeZone ? [`X-WR-TIMEZONE:${timeZone}`] : []),
+    ...events.flatMap(event => buildEventLines(event, timestamp)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldICalLine).join('\r\n') + '\r\n';
+}
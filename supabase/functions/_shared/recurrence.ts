@@ -0,0 +1,128 @@
+/**
+ * Generates the occurrences of recurring tasks.
+ * Shared with the telegram-bot edge function, so keep this file free of browser-only APIs.
+ */
+import { addDays, addWeeks, format, getDay, parseISO, startOfWeek } from 'date-fns';
+import type { RecurrenceRule, Task } from './types/task.ts';
+
+// Open-ended series are generated this many days past today
+export const RECURRENCE_HORIZON_DAYS = 90;
+
+// Guards against rules that would generate an unbounded number of occurrences
+const MAX_OCCURRENCES = 366;
+
+const OCCURRENCE_ID_SEPARATOR = '::';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Lists the dates a series falls on, from its first due date up to a horizon
+ * @param startDate The due date of the first task of the series (YYYY-MM-DD)
+ * @param rule The recurrence rule
+ * @param horizon The last date to generate (YYYY-MM-DD)
+ */
+export function getOccurrenceDates(startDate: string, rule: RecurrenceRule, horizon: string): string[] {
+  const start = parseISO(startDate.slice(0, 10));
+  const firstKey = toDateKey(start);
+  const lastKey = rule.until && rule.until < horizon ? rule.until : horizon;
+  const interval = Math.max(1, rule.interval || 1);
+  const limit = Math.min(rule.count || MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const dates: string[] = [];
+
+  if (rule.frequency === 'daily') {
+    for (let date = start; dates.length < limit; date = addDays(date, interval)) {
+      const key = toDateKey(date);
+      if (key > lastKey) break;
+      dates.push(key);
+    }
+  } else {
+    const weekdays = rule.weekdays?.length
+      ? [...rule.weekdays].sort((a, b) => a - b)
+      : [getDay(start)];
+
+    for (let week = startOfWeek(start); dates.length < limit; week = addWeeks(week, interval)) {
+      if (toDateKey(week) > lastKey) break;
+
+      for (const weekday of weekdays) {
+        const key = toDateKey(addDays(week, weekday));
+        if (key < firstKey) continue;
+        if (key > lastKey || dates.length >= limit) break;
+        dates.push(key);
+      }
+    }
+  }
+
+  // Removed occurrences still count towards rule.count
+  const exceptions = new Set(rule.exceptions || []);
+  return dates.filter(date => !exceptions.has(date));
+}
+
+export function getOccurrenceId(seriesId: string, occurrenceDate: string): string {
+  return `${seriesId}${OCCURRENCE_ID_SEPARATOR}${occurrenceDate}`;
+}
+
+/**
+ * Splits the id of a generated occurrence into its series id and date
+ * @returns null for ids of stored tasks
+ */
+export function parseOccurrenceId(taskId: string): { seriesId: string; occurrenceDate: string } | null {
+  const [seriesId, occurrenceDate] = taskId.split(OCCURRENCE_ID_SEPARATOR);
+  return occurrenceDate ? { seriesId, occurrenceDate } : null;
+}
+
+/**
+ * Replaces each recurring task with its occurrences. Occurrences that were edited
+ * on their own are stored as separate tasks and take the place of the generated one.
+ * @param horizonDays How far past today to generate open-ended series
+ */
+export function expandRecurringTasks<T extends Task>(tasks: T[], horizonDays = RECURRENCE_HORIZON_DAYS): T[] {
+  const horizon = toDateKey(addDays(new Date(), horizonDays));
+  const editedOccurrences = new Set(
+    tasks
+      .filter(task => task.seriesId && task.occurrenceDate)
+      .map(task => getOccurrenceId(task.seriesId as string, task.occurrenceDate as string))
+  );
+
+  return tasks.flatMap(task => {
+    if (!task.recurrence || task.seriesId) return [task];
+
+    return getOccurrenceDates(task.dueDate, task.recurrence, horizon)
+      .filter(date => !editedOccurrences.has(getOccurrenceId(task.id, date)))
+      .map(date => ({
+        ...task,
+        id: getOccurrenceId(task.id, date),
+        dueDate: date,
+        seriesId: task.id,
+        occurrenceDate: date,
+        // Students keep their own status on each occurrence of an admin task
+        status: task.occurrenceStatuses ? task.occurrenceStatuses[date] || 'my-tasks' : task.status
+      }));
+  });
+}
+
+/**
+ * Short description of a rule, e.g. "Every 2 weeks on Mon, Wed until 2025-06-30"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = Math.max(1, rule.interval || 1);
+  let description: string;
+
+  if (rule.frequency === 'daily') {
+    description = interval === 1 ? 'Every day' : `Every ${interval} days`;
+  } else {
+    description = interval === 1 ? 'Every week' : `Every ${interval} weeks`;
+    if (rule.weekdays?.length) {
+      description += ` on ${[...rule.weekdays].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day]).join(', ')}`;
+    }
+  }
+
+  if (rule.until) {
+    description += ` until ${rule.until}`;
+  } else if (rule.count) {
+    description += `, ${rule.count} times`;
+  }
+
+  return description;
+}
@@ -0,0 +1,24 @@
+/**
+ * Normalises a section label so "a", " A " and "Section A" compare equal
+ */
+export function normalizeSection(section?: string | null): string {
+  return (section || '')
+    .trim()
+    .replace(/^section\s+/i, '')
+    .toUpperCase();
+}
+
+export function isSameSection(a?: string | null, b?: string | null): boolean {
+  const normalizedA = normalizeSection(a);
+  return normalizedA !== '' && normalizedA === normalizeSection(b);
+}
+
+/**
+ * Checks whether content for a section should be shown to a student.
+ * Content without a section is shared by everyone, and students who
+ * haven't picked a section see everything.
+ */
+export function matchesUserSection(itemSection?: string | null, userSection?: string | null): boolean {
+  if (!normalizeSection(userSection) || !normalizeSection(itemSection)) return true;
+  return isSameSection(itemSection, userSection);
+}
@@ -0,0 +1,78 @@
+/**
+ * Task due dates as iCalendar events.
+ * Shared by the app's export and the task-calendar-feed edge function.
+ */
+import { buildICalendar, type ICalEvent } from './icalendar.ts';
+
+// The task fields the calendar uses, so the edge function doesn't need the app's Task type
+export interface CalendarTask {
+  id: string;
+  name: string;
+  category: string;
+  dueDate: string;
+  description: string;
+  status: string;
+  isAdminTask?: boolean;
+}
+
+// Remind one day before and on the morning of the due date (all-day events start at midnight)
+const DEFAULT_ALARMS = [24 * 60, 0];
+
+interface TaskCalendarOptions {
+  calendarName?: string;
+  includeCompleted?: boolean;
+  alarms?: number[];
+  timeZone?: string;
+}
+
+/**
+ * Turns a category slug like "lab-report" into "Lab Report"
+ */
+export function formatCategoryLabel(category: string): string {
+  return category
+    .split('-')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function taskToEvent(task: CalendarTask, alarms: number[]): ICalEvent | null {
+  const [year, month, day] = task.dueDate.slice(0, 10).split('-').map(Number);
+  if (!year || !month || !day) return null;
+
+  const start = new Date(year, month - 1, day);
+  const end = new Date(year, month - 1, day + 1);
+
+  return {
+    uid: `task-${task.id}@nesttask`,
+    summary: `${task.name} (${formatCategoryLabel(task.category)})`,
+    start,
+    end,
+    allDay: true,
+    description: task.description,
+    categories: [formatCategoryLabel(task.category), task.isAdminTask ? 'Class Task' : 'Personal Task'],
+    alarms: task.status === 'completed' ? [] : alarms
+  };
+}
+
+/**
+ * Builds an iCalendar file with an all-day event on the due date of each task
+ * @param tasks The user's personal and admin tasks
+ * @param options Calendar name, whether to include completed tasks, reminder offsets in minutes
+ *   and the time zone hint, which defaults to the runtime's
+ * @returns The .ics file contents
+ */
+export function createTasksICalendar(tasks: CalendarTask[], options: TaskCalendarOptions = {}): string {
+  const {
+    calendarName = 'NestTask Tasks',
+    includeCompleted = false,
+    alarms = DEFAULT_ALARMS,
+    timeZone
+  } = options;
+
+  const events = tasks
+    .filter(task => includeCompleted || task.status !== 'completed')
+    .map(task => taskToEvent(task, alarms))
+    .filter((event): event is ICalEvent => event !== null);
+
+  return buildICalendar(calendarName, events, timeZone);
+}
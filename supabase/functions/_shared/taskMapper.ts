@@ -0,0 +1,21 @@
+import type { Task } from './types/task.ts';
+
+export function mapTaskFromDB(dbTask: any): Task {
+  return {
+    id: dbTask.id,
+    name: dbTask.name,
+    category: dbTask.category,
+    dueDate: dbTask.due_date,
+    description: dbTask.description,
+    status: dbTask.status,
+    createdAt: dbTask.created_at,
+    updatedAt: dbTask.updated_at || undefined,
+    isAdminTask: dbTask.is_admin_task,
+    section: dbTask.section || undefined,
+    courseId: dbTask.course_id || undefined,
+    course: dbTask.course || undefined,
+    recurrence: dbTask.recurrence || undefined,
+    seriesId: dbTask.series_id || undefined,
+    occurrenceDate: dbTask.occurrence_date || undefined
+  };
+}
\ No newline at end of file
@@ -0,0 +1,117 @@
+/**
+ * Students' own progress on admin tasks.
+ * Shared with the telegram-bot edge function, so keep this file free of browser-only APIs.
+ */
+import { format } from 'date-fns';
+import { matchesUserSection } from './sectionFilter.ts';
+import { expandRecurringTasks } from './recurrence.ts';
+import type { User } from './types/auth.ts';
+import type { Task, TaskProgress, TaskStatus } from './types/task.ts';
+
+export interface TaskProgressRow {
+  task_id: string;
+  user_id: string;
+  occurrence_date: string | null;
+  status: TaskStatus;
+  updated_at: string;
+}
+
+export function mapTaskProgressFromDB(row: TaskProgressRow): TaskProgress {
+  return {
+    taskId: row.task_id,
+    userId: row.user_id,
+    occurrenceDate: row.occurrence_date || undefined,
+    status: row.status,
+    updatedAt: row.updated_at
+  };
+}
+
+export interface StudentProgressGroups {
+  notStarted: User[];
+  inProgress: User[];
+  completed: User[];
+}
+
+/**
+ * Students an admin task is meant for: everyone, or only the task's section
+ */
+export function getTaskStudents(task: { section?: string }, users: User[]): User[] {
+  return users.filter(user => user.role === 'user' && matchesUserSection(task.section, user.section));
+}
+
+/**
+ * Sorts a task's students by how far they've got; students without progress haven't started
+ */
+export function groupStudentsByProgress(students: User[], progress: TaskProgress[]): StudentProgressGroups {
+  const statusByUser = new Map(progress.map(entry => [entry.userId, entry.status]));
+  const groups: StudentProgressGroups = { notStarted: [], inProgress: [], completed: [] };
+
+  [...students]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .forEach(student => {
+      const status = statusByUser.get(student.id);
+      if (status === 'completed') groups.completed.push(student);
+      else if (status === 'in-progress') groups.inProgress.push(student);
+      else groups.notStarted.push(student);
+    });
+
+  return groups;
+}
+
+/**
+ * The occurrence a student's status on a task is kept against. The series row of a
+ * recurring task stands for its first occurrence; other tasks have no date
+ * @param occurrenceDate The date of a generated occurrence
+ */
+export function getProgressDate(task: Pick<Task, 'dueDate' | 'recurrence'>, occurrenceDate?: string): string | undefined {
+  if (!task.recurrence) return undefined;
+  return occurrenceDate || task.dueDate.slice(0, 10);
+}
+
+/**
+ * The occurrence of a recurring task that admins follow progress on: the next one due,
+ * or the last one once the series has ended
+ */
+export function getCurrentOccurrenceDate(task: Task): string | undefined {
+  if (!task.recurrence) return undefined;
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const dates = expandRecurringTasks([task]).map(occurrence => occurrence.dueDate);
+  return dates.find(date => date >= today) || dates[dates.length - 1] || getProgressDate(task);
+}
+
+/**
+ * Gives an admin task the student's own statuses in place of the shared one.
+ * Anything the student hasn't moved on is still to do
+ */
+export function applyOwnProgress(task: Task, progress: TaskProgress[]): Task {
+  const own = progress.filter(entry => entry.taskId === task.id);
+
+  if (!task.recurrence) {
+    return { ...task, status: own.find(entry => !entry.occurrenceDate)?.status || 'my-tasks' };
+  }
+
+  const occurrenceStatuses: Record<string, TaskStatus> = {};
+  own.forEach(entry => {
+    if (entry.occurrenceDate) occurrenceStatuses[entry.occurrenceDate] = entry.status;
+  });
+
+  return {
+    ...task,
+    status: occurrenceStatuses[task.dueDate.slice(0, 10)] || 'my-tasks',
+    occurrenceStatuses
+  };
+}
+
+/**
+ * Sets the student's own status on an admin task, or on one occurrence of it
+ */
+export function setOwnStatus(task: Task, status: TaskStatus, progressDate?: string): Task {
+  if (!progressDate) return { ...task, status };
+
+  return {
+    ...task,
+    status: progressDate === getProgressDate(task) ? status : task.status,
+    occurrenceStatuses: { ...task.occurrenceStatuses, [progressDate]: status }
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Helpers for scheduling push reminders before a task's due date.
+ * Shared by the app and the task-reminders edge function, so keep this file free of browser-only APIs.
+ */
+
+export const DEFAULT_REMINDER_OFFSETS = [24 * 60, 60];
+
+// Choices offered in NotificationSettings, in minutes before the due time
+export const REMINDER_OFFSET_OPTIONS = [10, 30, 60, 3 * 60, 6 * 60, 12 * 60, 24 * 60, 2 * 24 * 60, 3 * 24 * 60];
+
+/**
+ * Formats a reminder offset, e.g. 60 -> "1 hour", 2880 -> "2 days"
+ */
+export function formatReminderOffset(minutes: number): string {
+  const plural = (value: number, unit: string) => `${value} ${unit}${value === 1 ? '' : 's'}`;
+
+  if (minutes % (24 * 60) === 0) return plural(minutes / (24 * 60), 'day');
+  if (minutes % 60 === 0) return plural(minutes / 60, 'hour');
+  return plural(minutes, 'minute');
+}
+
+/**
+ * Removes invalid and duplicate offsets and sorts them from furthest to nearest
+ */
+export function normalizeReminderOffsets(offsets: number[]): number[] {
+  return Array.from(new Set(offsets.filter(offset => Number.isInteger(offset) && offset > 0)))
+    .sort((a, b) => b - a);
+}
+
+/**
+ * Resolves the moment a task is due.
+ * Date-only due dates are treated as due at the end of that day in the given UTC offset.
+ * @param dueDate The task's due_date value
+ * @param utcOffset Offset of the institution's time zone, e.g. "+06:00"
+ */
+export function getTaskDueTime(dueDate: string, utcOffset = '+06:00'): Date | null {
+  const value = /^\d{4}-\d{2}-\d{2}$/.test(dueDate)
+    ? `${dueDate}T23:59:00${utcOffset}`
+    : dueDate;
+
+  const time = new Date(value);
+  return isNaN(time.getTime()) ? null : time;
+}
+
+/**
+ * Finds the reminder offsets that have come due and were not sent yet
+ * @param dueTime When the task is due
+ * @param offsets The user's reminder offsets in minutes
+ * @param sentOffsets Offsets already delivered for this task and user
+ * @param now The current time
+ * @returns Offsets to deliver, nearest to the due time first
+ */
+export function getDueReminderOffsets(
+  dueTime: Date,
+  offsets: number[],
+  sentOffsets: number[],
+  now: Date = new Date()
+): number[] {
+  if (now.getTime() >= dueTime.getTime()) return [];
+
+  return normalizeReminderOffsets(offsets)
+    .filter(offset => !sentOffsets.includes(offset))
+    .filter(offset => now.getTime() >= dueTime.getTime() - offset * 60 * 1000)
+    .sort((a, b) => a - b);
+}
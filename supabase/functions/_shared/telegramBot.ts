@@ -0,0 +1,325 @@
+/**
+ * Command handling for the two-way Telegram bot.
+ * Shared with the telegram-bot edge function, so keep this file free of browser-only APIs.
+ * All data access goes through TelegramBotData, so updates can be replayed locally
+ * against fake data.
+ */
+import { expandRecurringTasks } from './recurrence.ts';
+import { matchesUserSection } from './sectionFilter.ts';
+import type { Task } from './types/task.ts';
+import type { RoutineSlot } from './types/routine.ts';
+
+// The parts of a Telegram update the bot reads
+export interface TelegramUpdate {
+  update_id: number;
+  message?: {
+    message_id: number;
+    from?: { id: number; username?: string; first_name?: string };
+    chat: { id: number; type: 'private' | 'group' | 'supergroup' | 'channel' };
+    text?: string;
+  };
+  callback_query?: {
+    id: string;
+    from: { id: number; username?: string };
+    message?: { message_id: number; chat: { id: number } };
+    data?: string;
+  };
+}
+
+// Telegram lets a webhook answer with one Bot API call in its response body
+export type TelegramWebhookReply =
+  | {
+      method: 'sendMessage';
+      chat_id: number;
+      text: string;
+      parse_mode: 'HTML';
+      reply_to_message_id?: number;
+      reply_markup?: { inline_keyboard: { text: string; callback_data: string }[][] };
+    }
+  | {
+      method: 'answerCallbackQuery';
+      callback_query_id: string;
+      text: string;
+      show_alert?: boolean;
+    };
+
+export interface LinkedUser {
+  id: string;
+  section?: string;
+}
+
+export type BotRoutineSlot = Pick<RoutineSlot, 'dayOfWeek' | 'startTime' | 'endTime' | 'roomNumber' | 'section' | 'courseName' | 'teacherName'> & {
+  courseCode?: string;
+};
+
+export interface TelegramBotData {
+  findLinkedUser(telegramUserId: number): Promise<LinkedUser | null>;
+  // Section a group chat belongs to, from its Telegram route
+  getChatSection(chatId: number): Promise<string | undefined>;
+  // Admin tasks plus, when userId is set, the user's own tasks, due on or after `from`.
+  // Recurring tasks are included whatever their first due date. Admin tasks carry the
+  // user's own progress.
+  fetchTasks(userId: string | undefined, from: string): Promise<Task[]>;
+  // Slots of the active routine
+  fetchRoutineSlots(): Promise<BotRoutineSlot[]>;
+  // Marks one of the user's own tasks or occurrences complete, or records that they finished
+  // an admin task; null if it isn't theirs or no longer exists
+  completeTask(userId: string, taskId: string): Promise<Task | null>;
+  // Links the Telegram account to the user who created the link code
+  linkUser(code: string, telegramUserId: number, telegramUsername?: string): Promise<boolean>;
+}
+
+export interface TelegramBotOptions {
+  now?: Date;
+  // Offset of the institution's time zone, e.g. "+06:00"
+  utcOffset?: string;
+  botUsername?: string;
+}
+
+// How far ahead /due looks
+export const DUE_WINDOW_DAYS = 7;
+
+const COMPLETE_PREFIX = 'done:';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const HELP_TEXT = [
+  '<b>NestTask bot</b>',
+  '',
+  '/today - tasks due today',
+  '/tomorrow - tasks due tomorrow',
+  `/due - unfinished tasks for the next ${DUE_WINDOW_DAYS} days`,
+  '/routine [day] - classes for a day, e.g. /routine sun',
+  '/link CODE - link your NestTask account to mark tasks complete from chat'
+].join('\n');
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Splits "/routine@NestTaskBot sun" into its command and arguments.
+ * Commands addressed to another bot are ignored.
+ */
+export function parseBotCommand(text: string, botUsername?: string): { command: string; args: string[] } | null {
+  const [head, ...args] = text.trim().split(/\s+/);
+  const match = head?.match(/^\/([a-z_]+)(?:@(\w+))?$/i);
+  if (!match) return null;
+
+  if (match[2] && botUsername && match[2].toLowerCase() !== botUsername.toLowerCase()) {
+    return null;
+  }
+
+  return { command: match[1].toLowerCase(), args };
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in the institution's time zone
+ */
+export function getLocalDateKey(now: Date, utcOffset = '+06:00'): string {
+  const [, sign, hours, minutes] = utcOffset.match(/^([+-])(\d{2}):?(\d{2})$/) || ['', '+', '00', '00'];
+  const offsetMinutes = (sign === '-' ? -1 : 1) * (Number(hours) * 60 + Number(minutes));
+  return new Date(now.getTime() + offsetMinutes * 60 * 1000).toISOString().slice(0, 10);
+}
+
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+const getWeekday = (dateKey: string) => WEEKDAYS[new Date(`${dateKey}T00:00:00Z`).getUTCDay()];
+
+/**
+ * Resolves the argument of /routine to a day name as stored in routine slots
+ * @param arg e.g. "sun", "Sunday", "today" or "tomorrow"; empty means today
+ * @returns null if the argument isn't a day
+ */
+export function resolveRoutineDay(arg: string | undefined, today: string): string | null {
+  const value = (arg || 'today').toLowerCase();
+  if (value === 'today') return getWeekday(today);
+  if (value === 'tomorrow') return getWeekday(addDaysToDateKey(today, 1));
+  if (value.length < 3) return null;
+
+  return WEEKDAYS.find(day => day.toLowerCase().startsWith(value)) || null;
+}
+
+const formatDateKey = (dateKey: string) =>
+  new Date(`${dateKey}T00:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC'
+  });
+
+function formatTaskLine(task: Task, showDate: boolean): string {
+  const mark = task.status === 'completed' ? '✅' : '▫️';
+  const date = showDate ? ` · ${formatDateKey(task.dueDate.slice(0, 10))}` : '';
+  return `${mark} <b>${escapeHtml(task.name)}</b> (#${task.category})${date}`;
+}
+
+export function formatTaskReply(title: string, tasks: Task[], showDate = false): string {
+  if (tasks.length === 0) {
+    return `<b>${escapeHtml(title)}</b>\n\nNo tasks 🎉`;
+  }
+  return `<b>${escapeHtml(title)}</b>\n\n${tasks.map(task => formatTaskLine(task, showDate)).join('\n')}`;
+}
+
+const formatTime = (time: string) => time.slice(0, 5);
+
+export function formatRoutineReply(day: string, slots: BotRoutineSlot[]): string {
+  if (slots.length === 0) {
+    return `<b>${day}</b>\n\nNo classes scheduled`;
+  }
+
+  const lines = [...slots]
+    .sort((a, b) => a.startTime.localeCompare(b.startTime))
+    .map(slot => {
+      const course = slot.courseCode
+        ? `${escapeHtml(slot.courseCode)} - ${escapeHtml(slot.courseName || '')}`
+        : escapeHtml(slot.courseName || 'Unknown Course');
+      const details = [
+        slot.roomNumber && `Room ${escapeHtml(slot.roomNumber)}`,
+        slot.teacherName && escapeHtml(slot.teacherName),
+        slot.section && `Sec ${escapeHtml(slot.section)}`
+      ].filter(Boolean).join(' · ');
+
+      return `🕘 ${formatTime(slot.startTime)}-${formatTime(slot.endTime)} <b>${course}</b>${details ? `\n      ${details}` : ''}`;
+    });
+
+  return `<b>${day}</b>\n\n${lines.join('\n')}`;
+}
+
+const byDueDate = (a: Task, b: Task) => a.dueDate.localeCompare(b.dueDate) || a.name.localeCompare(b.name);
+
+/**
+ * Tasks the chat should see, the way UpcomingPage shows them: admin tasks for the
+ * section, the linked user's own tasks and the occurrences of recurring tasks
+ */
+function getVisibleTasks(tasks: Task[], section: string | undefined, userId: string | undefined, from: string, to: string): Task[] {
+  return expandRecurringTasks(tasks)
+    .filter(task => task.isAdminTask ? matchesUserSection(task.section, section) : !!userId)
+    .filter(task => {
+      const dueDate = task.dueDate.slice(0, 10);
+      return dueDate >= from && dueDate <= to;
+    })
+    .sort(byDueDate);
+}
+
+// Private chats with a linked user get a button per unfinished task
+function getCompleteButtons(tasks: Task[], userId: string | undefined) {
+  if (!userId) return undefined;
+
+  const buttons = tasks
+    .filter(task => task.status !== 'completed')
+    .slice(0, 10)
+    .map(task => [{
+      text: `✅ ${task.name.slice(0, 40)} · ${formatDateKey(task.dueDate.slice(0, 10))}`,
+      callback_data: `${COMPLETE_PREFIX}${task.id}`
+    }]);
+
+  return buttons.length > 0 ? { inline_keyboard: buttons } : undefined;
+}
+
+/**
+ * Works out the reply to a Telegram update
+ * @returns null for updates the bot doesn't answer
+ */
+export async function handleTelegramUpdate(
+  update: TelegramUpdate,
+  data: TelegramBotData,
+  options: TelegramBotOptions = {}
+): Promise<TelegramWebhookReply | null> {
+  const today = getLocalDateKey(options.now || new Date(), options.utcOffset);
+
+  if (update.callback_query) {
+    const query = update.callback_query;
+    if (!query.data?.startsWith(COMPLETE_PREFIX)) return null;
+
+    const user = await data.findLinkedUser(query.from.id);
+    if (!user) {
+      return {
+        method: 'answerCallbackQuery',
+        callback_query_id: query.id,
+        text: 'Link your NestTask account first with /link',
+        show_alert: true
+      };
+    }
+
+    const task = await data.completeTask(user.id, query.data.slice(COMPLETE_PREFIX.length));
+    return {
+      method: 'answerCallbackQuery',
+      callback_query_id: query.id,
+      text: task ? `Marked "${task.name}" as complete` : 'That task is not yours or no longer exists',
+      show_alert: !task
+    };
+  }
+
+  const message = update.message;
+  if (!message?.text) return null;
+
+  const parsed = parseBotCommand(message.text, options.botUsername);
+  if (!parsed) return null;
+
+  const reply = (text: string, reply_markup?: { inline_keyboard: { text: string; callback_data: string }[][] }): TelegramWebhookReply => ({
+    method: 'sendMessage',
+    chat_id: message.chat.id,
+    text,
+    parse_mode: 'HTML',
+    reply_to_message_id: message.message_id,
+    ...(reply_markup ? { reply_markup } : {})
+  });
+
+  const isPrivate = message.chat.type === 'private';
+  // Personal tasks only show up in a private chat with their owner. Group chats never act
+  // as whoever sent the command; they see the section the chat is routed to
+  const user = isPrivate && message.from ? await data.findLinkedUser(message.from.id) : null;
+  const userId = isPrivate ? user?.id : undefined;
+  const section = isPrivate ? user?.section : await data.getChatSection(message.chat.id);
+
+  switch (parsed.command) {
+    case 'start':
+    case 'link': {
+      const code = parsed.args[0];
+      if (!code) return reply(HELP_TEXT);
+      if (!isPrivate || !message.from) {
+        return reply('Send /link to me in a private chat so your code stays private.');
+      }
+
+      const linked = await data.linkUser(code, message.from.id, message.from.username);
+      return reply(linked
+        ? 'Your NestTask account is linked. Use /due to see your tasks and mark them complete.'
+        : 'That link code is invalid or has expired. Create a new one in NestTask settings.');
+    }
+
+    case 'today':
+    case 'tomorrow': {
+      const date = parsed.command === 'today' ? today : addDaysToDateKey(today, 1);
+      const tasks = getVisibleTasks(await data.fetchTasks(userId, date), section, userId, date, date);
+      const title = `${parsed.command === 'today' ? 'Today' : 'Tomorrow'}, ${formatDateKey(date)}`;
+      return reply(formatTaskReply(title, tasks), getCompleteButtons(tasks, userId));
+    }
+
+    case 'due': {
+      const until = addDaysToDateKey(today, DUE_WINDOW_DAYS);
+      const tasks = getVisibleTasks(await data.fetchTasks(userId, today), section, userId, today, until)
+        .filter(task => task.status !== 'completed');
+      return reply(formatTaskReply(`Due in the next ${DUE_WINDOW_DAYS} days`, tasks, true), getCompleteButtons(tasks, userId));
+    }
+
+    case 'routine': {
+      const day = resolveRoutineDay(parsed.args[0], today);
+      if (!day) return reply('Which day? Try /routine sun or /routine tomorrow');
+
+      const slots = (await data.fetchRoutineSlots())
+        .filter(slot => slot.dayOfWeek === day && matchesUserSection(slot.section, section));
+      return reply(formatRoutineReply(day, slots));
+    }
+
+    case 'help':
+      return reply(HELP_TEXT);
+
+    default:
+      return null;
+  }
+}
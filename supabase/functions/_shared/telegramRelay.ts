@@ -0,0 +1,60 @@
+/**
+ * Retry and routing rules for queued Telegram messages.
+ * Shared with the telegram-relay edge function, so keep this file free of browser-only APIs.
+ */
+import { isSameSection, normalizeSection } from './sectionFilter.ts';
+import type { TelegramRoute, TelegramTarget } from './types/telegram.ts';
+
+// Messages that still fail after this many attempts are marked as failed
+export const MAX_TELEGRAM_ATTEMPTS = 6;
+
+const BASE_RETRY_DELAY = 30 * 1000;
+const MAX_RETRY_DELAY = 60 * 60 * 1000;
+
+/**
+ * Rate limits (429) and Telegram server errors are worth retrying; status 0
+ * stands for a network error. Other errors, like a wrong chat id, won't go away.
+ */
+export function isRetryableTelegramStatus(status: number): boolean {
+  return status === 0 || status === 429 || status >= 500;
+}
+
+/**
+ * How long to wait before the next attempt
+ * @param attempts The number of attempts made so far
+ * @param retryAfterSeconds The retry_after Telegram sends along with a 429
+ */
+export function getTelegramRetryDelay(attempts: number, retryAfterSeconds?: number): number {
+  if (retryAfterSeconds && retryAfterSeconds > 0) {
+    return retryAfterSeconds * 1000;
+  }
+  return Math.min(BASE_RETRY_DELAY * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY);
+}
+
+/**
+ * Picks the chat for a message: the course's own chat, then the chat of the
+ * section (the course's section for course messages), then the default chat.
+ * Messages for a course or section never fall back to the default chat, so
+ * they aren't shown to other sections.
+ * @param courseSection The section of target.courseId, if any
+ * @returns null when no chat is set up for the target
+ */
+export function resolveTelegramRoute(
+  routes: TelegramRoute[],
+  target: TelegramTarget,
+  courseSection?: string
+): TelegramRoute | null {
+  if (target.courseId) {
+    const courseRoute = routes.find(route => route.courseId === target.courseId);
+    if (courseRoute) return courseRoute;
+  }
+
+  const section = target.section || courseSection;
+  if (normalizeSection(section)) {
+    return routes.find(route => !route.courseId && isSameSection(route.section, section)) || null;
+  }
+
+  if (target.courseId) return null;
+
+  return routes.find(route => !route.courseId && !normalizeSection(route.section)) || null;
+}
@@ -0,0 +1,112 @@
+import type { Course } from './course.ts';
+import type { Teacher } from './teacher.ts';
+
+export interface RoutineSlot {
+  id: string;
+  routineId: string;
+  courseId?: string;
+  teacherId?: string;
+  courseName?: string;
+  teacherName?: string;
+  dayOfWeek: string;
+  startTime: string;
+  endTime: string;
+  roomNumber?: string;
+  section?: string;
+  createdAt: string;
+  
+  // Offline tracking properties
+  _isOffline?: boolean;
+  _isOfflineUpdated?: boolean;
+  _isOfflineDeleted?: boolean;
+}
+
+export interface Routine {
+  id: string;
+  name: string;
+  description?: string;
+  semester: string;
+  isActive: boolean;
+  createdAt: string;
+  createdBy?: string;
+  slots?: RoutineSlot[];
+  
+  // Offline tracking properties
+  _isOffline?: boolean;
+  _isOfflineUpdated?: boolean;
+  _isOfflineDeleted?: boolean;
+}
+
+export type RoutineConflictType = 'teacher' | 'room' | 'section';
+
+export interface RoutineConflict {
+  type: RoutineConflictType;
+  dayOfWeek: string;
+  slot: RoutineSlot;
+  conflictingSlot: RoutineSlot;
+  message: string;
+}
+
+export interface RoutineTimeWindow {
+  startTime: string;
+  endTime: string;
+}
+
+export interface RoutineGeneratorOptions {
+  courses: Course[];
+  teachers: Teacher[];
+  rooms: string[];
+  days: string[];
+  timeWindows: RoutineTimeWindow[];
+  slotDuration: number;
+  existingSlots?: RoutineSlot[];
+}
+
+export interface UnscheduledSession {
+  course: Course;
+  sessionsMissing: number;
+  reason: string;
+}
+
+export interface GeneratedRoutine {
+  slots: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>[];
+  unscheduled: UnscheduledSession[];
+}
+
+export type RoutineSlotChangeAction = 'added' | 'updated' | 'removed';
+
+export interface RoutineSlotChange {
+  id: string;
+  routineId: string;
+  slotId: string;
+  action: RoutineSlotChangeAction;
+  // The slot before the change; missing for added slots
+  before?: RoutineSlot;
+  // The slot after the change; missing for removed slots
+  after?: RoutineSlot;
+  changedBy?: string;
+  changedAt: string;
+}
+
+// Changes made close together by the same person, shown as one version of a routine
+export interface RoutineVersion {
+  // Time of the last change in the version
+  at: string;
+  changedBy?: string;
+  changes: RoutineSlotChange[];
+}
+
+export type RoutineSlotField = 'day' | 'time' | 'room' | 'teacher';
+
+export interface RoutineSlotMove {
+  from: RoutineSlot;
+  to: RoutineSlot;
+  changes: RoutineSlotField[];
+}
+
+export interface RoutineDiff {
+  added: RoutineSlot[];
+  removed: RoutineSlot[];
+  moved: RoutineSlotMove[];
+  unchanged: number;
+}
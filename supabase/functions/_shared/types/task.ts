@@ -0,0 +1,102 @@
+import type { Course } from './course.ts';
+
+export type TaskCategory = 
+  | 'presentation' 
+  | 'assignment' 
+  | 'quiz' 
+  | 'lab-report' 
+  | 'lab-final' 
+  | 'lab-performance'
+  | 'task' 
+  | 'documents'
+  | 'blc'
+  | 'groups'
+  | 'project'
+  | 'midterm'
+  | 'final-exam'
+  | 'others' 
+  | 'all';
+
+export type TaskStatus = 'my-tasks' | 'in-progress' | 'completed';
+
+export type RecurrenceFrequency = 'daily' | 'weekly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  // Repeat every N days or weeks
+  interval: number;
+  // Weekly only: days of the week, 0 = Sunday
+  weekdays?: number[];
+  // Last date an occurrence may fall on (YYYY-MM-DD)
+  until?: string;
+  // Number of occurrences, counting the first
+  count?: number;
+  // Occurrence dates removed from the series
+  exceptions?: string[];
+}
+
+export interface Task {
+  id: string;
+  name: string;
+  category: TaskCategory;
+  dueDate: string;
+  description: string;
+  status: TaskStatus;
+  createdAt: string;
+  updatedAt?: string;
+  isAdminTask: boolean;
+  // Section an admin task is meant for; unset means every section
+  section?: string;
+  courseId?: string;
+  // Code and name of the linked course, loaded with the task
+  course?: TaskCourse;
+  // Set on the first task of a series; dueDate is the first occurrence
+  recurrence?: RecurrenceRule;
+  // Set on occurrences of a series, both generated ones and ones edited on their own
+  seriesId?: string;
+  occurrenceDate?: string;
+  // A student's own status on each occurrence of a recurring admin task, by date
+  occurrenceStatuses?: Record<string, TaskStatus>;
+}
+
+export type TaskCourse = Pick<Course, 'id' | 'code' | 'name'>;
+
+// A student's own status on a shared admin task
+export interface TaskProgress {
+  taskId: string;
+  userId: string;
+  // Set for an occurrence of a recurring task
+  occurrenceDate?: string;
+  status: TaskStatus;
+  updatedAt: string;
+}
+
+// How many students have moved an admin task on, for the admin task table
+export interface TaskProgressSummary {
+  taskId: string;
+  occurrenceDate?: string;
+  // In progress or completed
+  started: number;
+  completed: number;
+}
+
+export interface TaskAttachment {
+  id: string;
+  taskId: string;
+  fileName: string;
+  // Size in bytes
+  fileSize: number;
+  mimeType?: string;
+  // Path of the file in the task-attachments storage bucket
+  storagePath: string;
+  url: string;
+  uploadedBy?: string;
+  createdAt: string;
+}
+
+// A file already uploaded to storage, saved with the task it's attached to
+export type NewTaskAttachment = Pick<TaskAttachment, 'fileName' | 'fileSize' | 'mimeType' | 'storagePath'>;
+
+export type NewTask = Omit<Task, 'id' | 'createdAt' | 'updatedAt' | 'isAdminTask' | 'seriesId' | 'occurrenceDate' | 'occurrenceStatuses'> & {
+  attachments?: NewTaskAttachment[];
+};
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { Course } from './course.ts';
+
+export interface Teacher {
+  id: string;
+  name: string;
+  email?: string;
+  phone: string;
+  department?: string;
+  officeRoom?: string;
+  createdAt: string;
+  createdBy: string;
+  courses?: Course[];
+  _isOffline?: boolean;
+  _isOfflineUpdated?: boolean;
+  _isOfflineDeleted?: boolean;
+}
+
+export type NewTeacher = Omit<Teacher, 'id' | 'createdAt' | 'createdBy' | 'courses' | '_isOffline' | '_isOfflineUpdated' | '_isOfflineDeleted'>;
+
+export interface TeacherCourse {
+  teacherId: string;
+  courseId: string;
+  createdAt: string;
+}
+// What deleting a teacher changes, as reported by the delete_teacher database function
+export interface TeacherDeletionImpact {
+  teacher: Pick<Teacher, 'id' | 'name'>;
+  // Teacher the courses and routine slots move to; unset means they're left without a teacher
+  replacement?: Pick<Teacher, 'id' | 'name'>;
+  courses: { id: string; name: string; code: string }[];
+  routineSlots: {
+    id: string;
+    routineId: string;
+    routineName?: string;
+    dayOfWeek: string;
+    startTime: string;
+    endTime: string;
+    courseName?: string;
+    section?: string;
+  }[];
+  // False for a dry run
+  deleted: boolean;
+}
@@ -0,0 +1,47 @@
+export type TelegramMessageStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+// A chat (and optionally a forum topic) that messages for a course or section are sent to.
+// A route without a course or section is the default chat for messages meant for everyone.
+export interface TelegramRoute {
+  id: string;
+  label?: string;
+  chatId: string;
+  messageThreadId?: number;
+  section?: string;
+  courseId?: string;
+  createdAt: string;
+}
+
+export type NewTelegramRoute = Omit<TelegramRoute, 'id' | 'createdAt'>;
+
+// Who a message is meant for; messages without a target go to the default chat
+export interface TelegramTarget {
+  section?: string;
+  courseId?: string;
+}
+
+export interface TelegramMessage {
+  id: string;
+  text: string;
+  photo?: string;
+  section?: string;
+  courseId?: string;
+  status: TelegramMessageStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  // Where the message was delivered
+  chatId?: string;
+  messageThreadId?: number;
+  lastError?: string;
+  createdAt: string;
+  sentAt?: string;
+}
+
+// A user's link between their NestTask and Telegram accounts, used by the two-way bot
+export interface TelegramLink {
+  telegramUsername?: string;
+  linkedAt?: string;
+  // One-time code the user sends to the bot with /link
+  linkCode?: string;
+  linkCodeExpiresAt?: string;
+}
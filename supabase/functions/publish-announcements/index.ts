@@ -0,0 +1,84 @@
+// Publishes scheduled announcements once their publish time has passed and queues
+// them for Telegram. Meant to be run on a schedule (see the 20250701_add_announcement_scheduling migration).
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+const APP_DOMAIN = 'https://nesttask.vercel.app';
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false }
+});
+
+interface AnnouncementRow {
+  id: string;
+  title: string;
+  content: string;
+  audience: 'all' | 'section' | 'course';
+  audience_section: string | null;
+  audience_course_id: string | null;
+}
+
+// Same layout and routing as sendAnnouncementNotification in the app
+function toTelegramMessage(announcement: AnnouncementRow) {
+  const imageUrl = announcement.content.match(/https?:\/\/[^\s]+\.(jpg|jpeg|png|gif|webp)/i)?.[0];
+  const text = `
+
+🎯 <b>${announcement.title}</b>
+
+${announcement.content}
+
+
+🌐 <b><a href="${APP_DOMAIN}">View full details</a></b>`;
+
+  return {
+    text,
+    photo: imageUrl || null,
+    section: announcement.audience === 'section' ? announcement.audience_section : null,
+    course_id: announcement.audience === 'course' ? announcement.audience_course_id : null,
+    created_by: null
+  };
+}
+
+serve(async () => {
+  try {
+    // Marks due announcements as published; the database trigger notifies their audience
+    const { data, error } = await supabase.rpc('publish_due_announcements');
+
+    if (error) throw error;
+
+    const published = (data || []) as AnnouncementRow[];
+
+    if (published.length > 0) {
+      const { error: queueError } = await supabase
+        .from('telegram_messages')
+        .insert(published.map(toTelegramMessage));
+
+      if (queueError) {
+        console.error('Error queueing announcements for Telegram:', queueError);
+      } else {
+        // Send them now rather than on the relay's next scheduled run
+        await fetch(`${SUPABASE_URL}/functions/v1/telegram-relay`, {
+          method: 'POST',
+          headers: { 'Authorization': `Bearer ${SUPABASE_SERVICE_ROLE_KEY}` }
+        }).catch(error => console.error('Error starting the Telegram relay:', error));
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ published: published.length }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error publishing announcements:', error);
+
+    return new Response(
+      JSON.stringify({ error: 'Failed to publish announcements' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
@@ -0,0 +1,105 @@
+// Public iCalendar feed of a user's tasks, identified by their calendar_feed_tokens token.
+// Calendar apps poll it without signing in, so deploy it with --no-verify-jwt.
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createTasksICalendar } from '../_shared/taskCalendar.ts';
+import { matchesUserSection } from '../_shared/sectionFilter.ts';
+import { expandRecurringTasks } from '../_shared/recurrence.ts';
+import { mapTaskFromDB } from '../_shared/taskMapper.ts';
+import { applyOwnProgress, mapTaskProgressFromDB, type TaskProgressRow } from '../_shared/taskProgress.ts';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+// Calendar apps treat the feed's floating times in this zone
+const CALENDAR_TIME_ZONE = Deno.env.get('CALENDAR_TIME_ZONE') ?? 'Asia/Dhaka';
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false }
+});
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET',
+      },
+    });
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get('token');
+    if (!token) {
+      return new Response('Missing token', { status: 400 });
+    }
+
+    // Resolve the token to its user
+    const { data: feedToken, error: tokenError } = await supabase
+      .from('calendar_feed_tokens')
+      .select('user_id')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (tokenError) throw tokenError;
+    if (!feedToken) {
+      return new Response('Invalid token', { status: 404 });
+    }
+
+    const { data: user, error: userError } = await supabase
+      .from('users')
+      .select('section')
+      .eq('id', feedToken.user_id)
+      .maybeSingle();
+
+    if (userError) throw userError;
+
+    // Same tasks as useTasks: the user's own tasks plus the admin tasks for their section
+    const { data: tasks, error: tasksError } = await supabase
+      .from('tasks')
+      .select('id, name, category, due_date, description, status, created_at, is_admin_task, section, recurrence, series_id, occurrence_date')
+      .or(`user_id.eq.${feedToken.user_id},is_admin_task.eq.true`)
+      .order('due_date', { ascending: true });
+
+    if (tasksError) throw tasksError;
+
+    // Admin tasks are shared, so the user's status on them is in their own progress
+    const { data: progress, error: progressError } = await supabase
+      .from('task_progress')
+      .select('*')
+      .eq('user_id', feedToken.user_id);
+
+    if (progressError) throw progressError;
+
+    // The same tasks the app shows and exports: admin tasks for the user's section with
+    // their own statuses, and recurring tasks as their occurrences
+    const ownProgress = ((progress || []) as TaskProgressRow[]).map(mapTaskProgressFromDB);
+    const calendarTasks = expandRecurringTasks(
+      (tasks || [])
+        .map(mapTaskFromDB)
+        .filter(task => !task.isAdminTask || matchesUserSection(task.section, user?.section))
+        .map(task => task.isAdminTask ? applyOwnProgress(task, ownProgress) : task)
+    );
+
+    return new Response(createTasksICalendar(calendarTasks, { timeZone: CALENDAR_TIME_ZONE }), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="nesttask-tasks.ics"',
+        'Cache-Control': 'public, max-age=900',
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+
+    return new Response(
+      JSON.stringify({ error: 'Failed to build calendar feed' }),
+      {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        }
+      }
+    );
+  }
+});
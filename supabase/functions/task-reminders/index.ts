@@ -0,0 +1,289 @@
+// Sends push reminders before task due dates using each user's reminder offsets.
+// Meant to be run on a schedule (see the 20250610_add_task_reminders migration).
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  DEFAULT_REMINDER_OFFSETS,
+  formatReminderOffset,
+  getDueReminderOffsets,
+  getTaskDueTime
+} from '../_shared/taskReminders.ts';
+import { matchesUserSection } from '../_shared/sectionFilter.ts';
+import { expandRecurringTasks, parseOccurrenceId } from '../_shared/recurrence.ts';
+import { mapTaskFromDB } from '../_shared/taskMapper.ts';
+import type { Task } from '../_shared/types/task.ts';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+// Date-only due dates are due at the end of the day in this offset
+const REMINDER_UTC_OFFSET = Deno.env.get('REMINDER_UTC_OFFSET') ?? '+06:00';
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false }
+});
+
+interface TaskRow {
+  id: string;
+  user_id: string;
+}
+
+// A task or one occurrence of a series, with the owner reminders of personal tasks go to
+type ReminderTask = Task & { userId: string };
+
+interface SubscriptionRow {
+  user_id: string;
+  subscription: unknown;
+}
+
+interface ReminderSettingsRow {
+  user_id: string;
+  enabled: boolean;
+  offsets: number[];
+}
+
+interface ProgressRow {
+  task_id: string;
+  user_id: string;
+  occurrence_date: string | null;
+}
+
+interface ReminderLogRow {
+  task_id: string;
+  user_id: string;
+  occurrence_date: string | null;
+  offset_minutes: number;
+}
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+const reminderMessage = (task: Task, offset: number) =>
+  `${task.name} is due in ${formatReminderOffset(offset)}`;
+
+async function sendPush(subscription: unknown, task: Task, offset: number) {
+  const payload = {
+    title: 'Task Reminder',
+    body: reminderMessage(task, offset),
+    tag: `task-reminder-${task.id}`,
+    data: {
+      url: '/',
+      taskId: task.id,
+      type: 'task-reminder'
+    },
+    actions: [
+      {
+        action: 'view',
+        title: 'View Task'
+      }
+    ]
+  };
+
+  // Delivery goes through the push-notification function so the VAPID details live in one place
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/push-notification`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`
+    },
+    body: JSON.stringify({
+      subscription: typeof subscription === 'string' ? JSON.parse(subscription) : subscription,
+      payload: JSON.stringify(payload)
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to send push notification');
+  }
+}
+
+serve(async () => {
+  try {
+    const now = new Date();
+
+    const { data: subscriptions, error: subscriptionsError } = await supabase
+      .from('push_subscriptions')
+      .select('user_id, subscription');
+
+    if (subscriptionsError) throw subscriptionsError;
+
+    const subscriptionsByUser = new Map<string, unknown[]>();
+    ((subscriptions || []) as SubscriptionRow[]).forEach(({ user_id, subscription }) => {
+      subscriptionsByUser.set(user_id, [...(subscriptionsByUser.get(user_id) || []), subscription]);
+    });
+
+    const userIds = Array.from(subscriptionsByUser.keys());
+    if (userIds.length === 0) {
+      return new Response(JSON.stringify({ sent: 0 }), { headers: { 'Content-Type': 'application/json' } });
+    }
+
+    const [{ data: settings, error: settingsError }, { data: profiles, error: profilesError }] = await Promise.all([
+      supabase.from('reminder_settings').select('user_id, enabled, offsets').in('user_id', userIds),
+      supabase.from('users').select('id, section').in('id', userIds)
+    ]);
+
+    if (settingsError) throw settingsError;
+    if (profilesError) throw profilesError;
+
+    const offsetsByUser = new Map<string, number[]>();
+    userIds.forEach(userId => offsetsByUser.set(userId, DEFAULT_REMINDER_OFFSETS));
+    ((settings || []) as ReminderSettingsRow[]).forEach(row => {
+      offsetsByUser.set(row.user_id, row.enabled ? row.offsets || [] : []);
+    });
+
+    const sectionByUser = new Map<string, string | null>(
+      ((profiles || []) as { id: string; section: string | null }[]).map(profile => [profile.id, profile.section])
+    );
+
+    // Only tasks close enough to their due date for the largest offset matter
+    const maxOffset = Math.max(0, ...Array.from(offsetsByUser.values()).flat());
+    const windowEnd = new Date(now.getTime() + (maxOffset + 24 * 60) * 60 * 1000);
+
+    const windowStart = toDateString(new Date(now.getTime() - 24 * 60 * 60 * 1000));
+    const windowEndDate = toDateString(windowEnd);
+
+    // Series can start long before the window, and an edited occurrence must be loaded
+    // to stand in for the generated one, so both are fetched whatever their date
+    const { data: rows, error: tasksError } = await supabase
+      .from('tasks')
+      .select('id, name, category, due_date, description, status, created_at, user_id, is_admin_task, section, recurrence, series_id, occurrence_date')
+      .or(`recurrence.not.is.null,series_id.not.is.null,and(due_date.gte.${windowStart},due_date.lte.${windowEndDate})`);
+
+    if (tasksError) throw tasksError;
+
+    const tasks: ReminderTask[] = expandRecurringTasks(
+      ((rows || []) as TaskRow[]).map(row => ({ ...mapTaskFromDB(row), userId: row.user_id })),
+      Math.ceil((windowEnd.getTime() - now.getTime()) / (24 * 60 * 60 * 1000))
+    )
+      .filter(task => {
+        const dueDate = task.dueDate.slice(0, 10);
+        return dueDate >= windowStart && dueDate <= windowEndDate;
+      })
+      // An admin task's own status isn't any student's; their progress is checked below
+      .filter(task => task.isAdminTask || task.status !== 'completed');
+
+    if (tasks.length === 0) {
+      return new Response(JSON.stringify({ sent: 0 }), { headers: { 'Content-Type': 'application/json' } });
+    }
+
+    // Generated occurrences are logged and tracked against their series, by date
+    const getStoredTask = (task: Task) => {
+      const occurrence = parseOccurrenceId(task.id);
+      return occurrence
+        ? { taskId: occurrence.seriesId, occurrenceDate: occurrence.occurrenceDate }
+        : { taskId: task.id, occurrenceDate: undefined };
+    };
+    const storedTaskIds = Array.from(new Set(tasks.map(task => getStoredTask(task).taskId)));
+    const adminTaskIds = Array.from(new Set(
+      tasks.filter(task => task.isAdminTask).map(task => getStoredTask(task).taskId)
+    ));
+
+    const { data: log, error: logError } = await supabase
+      .from('task_reminder_log')
+      .select('task_id, user_id, occurrence_date, offset_minutes')
+      .in('task_id', storedTaskIds);
+
+    if (logError) throw logError;
+
+    // Students who finished an admin task or one occurrence of it
+    const { data: progress, error: progressError } = await supabase
+      .from('task_progress')
+      .select('task_id, user_id, occurrence_date')
+      .eq('status', 'completed')
+      .in('task_id', adminTaskIds);
+
+    if (progressError) throw progressError;
+
+    const completedBy = new Set(
+      ((progress || []) as ProgressRow[]).map(row => `${row.task_id}:${row.user_id}:${row.occurrence_date || ''}`)
+    );
+    const hasCompleted = (task: Task, userId: string) => {
+      const { taskId, occurrenceDate } = getStoredTask(task);
+      return completedBy.has(`${taskId}:${userId}:${occurrenceDate || ''}`);
+    };
+
+    const sentOffsets = new Map<string, number[]>();
+    ((log || []) as ReminderLogRow[]).forEach(row => {
+      const key = `${row.task_id}:${row.user_id}:${row.occurrence_date || ''}`;
+      sentOffsets.set(key, [...(sentOffsets.get(key) || []), row.offset_minutes]);
+    });
+
+    let sent = 0;
+    const newLogRows: ReminderLogRow[] = [];
+    const inboxRows: { user_id: string; type: string; title: string; message: string; task_id: string }[] = [];
+
+    for (const task of tasks) {
+      const dueTime = getTaskDueTime(task.dueDate, REMINDER_UTC_OFFSET);
+      if (!dueTime) continue;
+
+      const { taskId, occurrenceDate } = getStoredTask(task);
+
+      // Admin tasks go to every subscriber in the task's section, personal tasks to their owner
+      const recipients = task.isAdminTask
+        ? userIds.filter(userId =>
+          matchesUserSection(task.section, sectionByUser.get(userId)) && !hasCompleted(task, userId)
+        )
+        : userIds.filter(userId => userId === task.userId);
+
+      for (const userId of recipients) {
+        const dueOffsets = getDueReminderOffsets(
+          dueTime,
+          offsetsByUser.get(userId) || [],
+          sentOffsets.get(`${taskId}:${userId}:${occurrenceDate || ''}`) || [],
+          now
+        );
+        if (dueOffsets.length === 0) continue;
+
+        // If several reminders came due at once, only send the nearest one
+        const results = await Promise.allSettled(
+          (subscriptionsByUser.get(userId) || []).map(subscription => sendPush(subscription, task, dueOffsets[0]))
+        );
+        results
+          .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+          .forEach(result => console.error('Error sending reminder:', result.reason));
+
+        if (results.some(result => result.status === 'fulfilled')) {
+          sent++;
+          dueOffsets.forEach(offset => newLogRows.push({
+            task_id: taskId,
+            user_id: userId,
+            occurrence_date: occurrenceDate || null,
+            offset_minutes: offset
+          }));
+          inboxRows.push({
+            user_id: userId,
+            type: 'reminder',
+            title: 'Task Reminder',
+            message: reminderMessage(task, dueOffsets[0]),
+            task_id: taskId
+          });
+        }
+      }
+    }
+
+    if (newLogRows.length > 0) {
+      const { error: insertError } = await supabase
+        .from('task_reminder_log')
+        .upsert(newLogRows, { onConflict: 'task_id,user_id,occurrence_date,offset_minutes', ignoreDuplicates: true });
+
+      if (insertError) throw insertError;
+
+      // Keep a copy in the notification inbox
+      const { error: inboxError } = await supabase.from('notifications').insert(inboxRows);
+      if (inboxError) console.error('Error saving reminder notifications:', inboxError);
+    }
+
+    return new Response(
+      JSON.stringify({ sent }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error sending task reminders:', error);
+
+    return new Response(
+      JSON.stringify({ error: 'Failed to send task reminders' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
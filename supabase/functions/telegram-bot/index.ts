@@ -0,0 +1,279 @@
+// Webhook for the two-way Telegram bot. Answers /today, /tomorrow, /due and /routine
+// with the data the app shows, and lets linked users mark their tasks complete.
+// Telegram calls it without a Supabase JWT, so deploy it with --no-verify-jwt and register it with
+//   https://api.telegram.org/bot<token>/setWebhook?url=<function-url>&secret_token=<TELEGRAM_WEBHOOK_SECRET>
+//
+// Updates without that secret are refused, and so is everything while TELEGRAM_WEBHOOK_SECRET is unset.
+//
+// Replies go back in the webhook response, so it can be tried locally without a bot token:
+//   supabase functions serve telegram-bot --no-verify-jwt
+//   curl -X POST http://localhost:54321/functions/v1/telegram-bot -H 'X-Telegram-Bot-Api-Secret-Token: <TELEGRAM_WEBHOOK_SECRET>' \
+//     -d @supabase/functions/telegram-bot/fixtures/today.json
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  handleTelegramUpdate,
+  type BotRoutineSlot,
+  type TelegramBotData,
+  type TelegramUpdate
+} from '../_shared/telegramBot.ts';
+import { parseOccurrenceId } from '../_shared/recurrence.ts';
+import { mapTaskFromDB } from '../_shared/taskMapper.ts';
+import {
+  applyOwnProgress,
+  getProgressDate,
+  mapTaskProgressFromDB,
+  type TaskProgressRow
+} from '../_shared/taskProgress.ts';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+const TELEGRAM_WEBHOOK_SECRET = Deno.env.get('TELEGRAM_WEBHOOK_SECRET') ?? '';
+const TELEGRAM_BOT_USERNAME = Deno.env.get('TELEGRAM_BOT_USERNAME') ?? '';
+// Decides what "today" is for the bot
+const BOT_UTC_OFFSET = Deno.env.get('BOT_UTC_OFFSET') ?? '+06:00';
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false }
+});
+
+interface SlotRow {
+  day_of_week: string;
+  start_time: string;
+  end_time: string;
+  room_number: string | null;
+  section: string | null;
+  course_name: string | null;
+  teacher_name: string | null;
+  courses: { name: string; code: string } | null;
+  teachers: { name: string } | null;
+}
+
+const botData: TelegramBotData = {
+  async findLinkedUser(telegramUserId) {
+    const { data: link, error } = await supabase
+      .from('telegram_links')
+      .select('user_id')
+      .eq('telegram_user_id', telegramUserId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!link) return null;
+
+    const { data: profile } = await supabase
+      .from('users')
+      .select('section')
+      .eq('id', link.user_id)
+      .maybeSingle();
+
+    return { id: link.user_id, section: profile?.section || undefined };
+  },
+
+  async getChatSection(chatId) {
+    const { data, error } = await supabase
+      .from('telegram_routes')
+      .select('section, courses(section)')
+      .eq('chat_id', String(chatId))
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    const route = data as { section: string | null; courses: { section: string | null } | null } | null;
+    return route?.section || route?.courses?.section || undefined;
+  },
+
+  async fetchTasks(userId, from) {
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('*')
+      .or(`due_date.gte.${from},recurrence.not.is.null`)
+      .or(userId ? `is_admin_task.eq.true,user_id.eq.${userId}` : 'is_admin_task.eq.true');
+
+    if (error) throw error;
+
+    // Admin tasks are shared, so their status is the user's own progress;
+    // group chats have no user, so nothing is done there
+    let progress: TaskProgressRow[] = [];
+    if (userId) {
+      const { data: progressRows, error: progressError } = await supabase
+        .from('task_progress')
+        .select('*')
+        .eq('user_id', userId);
+
+      if (progressError) throw progressError;
+      progress = (progressRows || []) as TaskProgressRow[];
+    }
+
+    const ownProgress = progress.map(mapTaskProgressFromDB);
+    return (data || [])
+      .map(mapTaskFromDB)
+      .map(task => task.isAdminTask ? applyOwnProgress(task, ownProgress) : task);
+  },
+
+  async fetchRoutineSlots() {
+    // Same routine RoutinePage opens on: the active one, else the newest
+    const { data: routines, error: routineError } = await supabase
+      .from('routines')
+      .select('id, is_active')
+      .order('is_active', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (routineError) throw routineError;
+    if (!routines?.length) return [];
+
+    const { data, error } = await supabase
+      .from('routine_slots')
+      .select('day_of_week, start_time, end_time, room_number, section, course_name, teacher_name, courses(name, code), teachers(name)')
+      .eq('routine_id', routines[0].id);
+
+    if (error) throw error;
+    return ((data || []) as unknown as SlotRow[]).map((slot): BotRoutineSlot => ({
+      dayOfWeek: slot.day_of_week,
+      startTime: slot.start_time,
+      endTime: slot.end_time,
+      roomNumber: slot.room_number || undefined,
+      section: slot.section || undefined,
+      courseName: slot.course_name || slot.courses?.name,
+      courseCode: slot.courses?.code,
+      teacherName: slot.teacher_name || slot.teachers?.name
+    }));
+  },
+
+  async completeTask(userId, taskId) {
+    const occurrence = parseOccurrenceId(taskId);
+
+    const { data: stored, error: storedError } = await supabase
+      .from('tasks')
+      .select('*')
+      .eq('id', occurrence?.seriesId || taskId)
+      .maybeSingle();
+
+    if (storedError) throw storedError;
+    if (!stored) return null;
+
+    // Admin tasks are shared, so completing one records the user's own progress
+    if (stored.is_admin_task) {
+      const task = mapTaskFromDB(stored);
+      const { error } = await supabase
+        .from('task_progress')
+        .upsert({
+          task_id: task.id,
+          user_id: userId,
+          occurrence_date: getProgressDate(task, occurrence?.occurrenceDate) || null,
+          status: 'completed'
+        }, { onConflict: 'task_id,user_id,occurrence_date' });
+
+      if (error) throw error;
+      return { ...task, status: 'completed' };
+    }
+
+    if (stored.user_id !== userId) return null;
+
+    // A generated occurrence is stored as an edited copy of its series
+    if (occurrence) {
+      const { data, error } = await supabase
+        .from('tasks')
+        .insert({
+          name: stored.name,
+          category: stored.category,
+          due_date: occurrence.occurrenceDate,
+          description: stored.description,
+          status: 'completed',
+          user_id: userId,
+          is_admin_task: false,
+          series_id: stored.id,
+          occurrence_date: occurrence.occurrenceDate
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error completing task occurrence:', error);
+        return null;
+      }
+      return mapTaskFromDB(data);
+    }
+
+    const { data, error } = await supabase
+      .from('tasks')
+      .update({ status: 'completed' })
+      .eq('id', taskId)
+      .eq('user_id', userId)
+      .eq('is_admin_task', false)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? mapTaskFromDB(data) : null;
+  },
+
+  async linkUser(code, telegramUserId, telegramUsername) {
+    const { data: link, error } = await supabase
+      .from('telegram_links')
+      .select('user_id')
+      .eq('link_code', code.toUpperCase())
+      .gt('link_code_expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!link) return false;
+
+    // A Telegram account can only be linked to one NestTask account
+    const { error: unlinkError } = await supabase
+      .from('telegram_links')
+      .update({ telegram_user_id: null, telegram_username: null, linked_at: null })
+      .eq('telegram_user_id', telegramUserId)
+      .neq('user_id', link.user_id);
+
+    if (unlinkError) throw unlinkError;
+
+    const { error: linkError } = await supabase
+      .from('telegram_links')
+      .update({
+        telegram_user_id: telegramUserId,
+        telegram_username: telegramUsername || null,
+        linked_at: new Date().toISOString(),
+        link_code: null,
+        link_code_expires_at: null
+      })
+      .eq('user_id', link.user_id);
+
+    if (linkError) throw linkError;
+    return true;
+  }
+};
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  // Without a secret anyone could post updates as any Telegram user, so refuse them all
+  if (!TELEGRAM_WEBHOOK_SECRET) {
+    console.error('TELEGRAM_WEBHOOK_SECRET is not set');
+    return new Response('Webhook secret not configured', { status: 500 });
+  }
+
+  if (req.headers.get('X-Telegram-Bot-Api-Secret-Token') !== TELEGRAM_WEBHOOK_SECRET) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  try {
+    const update = await req.json() as TelegramUpdate;
+    const reply = await handleTelegramUpdate(update, botData, {
+      utcOffset: BOT_UTC_OFFSET,
+      botUsername: TELEGRAM_BOT_USERNAME || undefined
+    });
+
+    return new Response(
+      reply ? JSON.stringify(reply) : null,
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error handling Telegram update:', error);
+
+    // Answer 200 anyway, otherwise Telegram keeps redelivering the update
+    return new Response(null, { status: 200 });
+  }
+});
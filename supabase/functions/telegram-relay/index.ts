@@ -0,0 +1,217 @@
+// Sends queued Telegram messages, retrying rate limits and server errors with backoff.
+// Called by the app after queueing a message and on a schedule for retries
+// (see the 20250705_add_telegram_relay migration).
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  MAX_TELEGRAM_ATTEMPTS,
+  getTelegramRetryDelay,
+  isRetryableTelegramStatus,
+  resolveTelegramRoute
+} from '../_shared/telegramRelay.ts';
+import type { TelegramRoute } from '../_shared/types/telegram.ts';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+const TELEGRAM_BOT_TOKEN = Deno.env.get('TELEGRAM_BOT_TOKEN') ?? '';
+// Used as the default chat when no default route is set up
+const TELEGRAM_CHAT_ID = Deno.env.get('TELEGRAM_CHAT_ID') ?? '';
+const TELEGRAM_API = `https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}`;
+const BATCH_SIZE = 20;
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false }
+});
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, apikey, x-client-info'
+};
+
+interface MessageRow {
+  id: string;
+  text: string;
+  photo: string | null;
+  section: string | null;
+  course_id: string | null;
+  attempts: number;
+}
+
+interface RouteRow {
+  id: string;
+  label: string | null;
+  chat_id: string;
+  message_thread_id: number | null;
+  section: string | null;
+  course_id: string | null;
+  created_at: string;
+}
+
+interface SendResult {
+  ok: boolean;
+  // 0 when the request never reached Telegram
+  status: number;
+  telegramMessageId?: number;
+  retryAfter?: number;
+  error?: string;
+}
+
+const mapRoute = (row: RouteRow): TelegramRoute => ({
+  id: row.id,
+  label: row.label || undefined,
+  chatId: row.chat_id,
+  messageThreadId: row.message_thread_id ?? undefined,
+  section: row.section || undefined,
+  courseId: row.course_id || undefined,
+  createdAt: row.created_at
+});
+
+async function sendToTelegram(message: MessageRow, route: TelegramRoute): Promise<SendResult> {
+  const body = {
+    chat_id: route.chatId,
+    ...(route.messageThreadId ? { message_thread_id: route.messageThreadId } : {}),
+    parse_mode: 'HTML',
+    ...(message.photo
+      ? { photo: message.photo, caption: message.text }
+      : { text: message.text, disable_web_page_preview: false })
+  };
+
+  try {
+    const response = await fetch(`${TELEGRAM_API}/${message.photo ? 'sendPhoto' : 'sendMessage'}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok || !data.ok) {
+      return {
+        ok: false,
+        status: response.status,
+        retryAfter: data.parameters?.retry_after,
+        error: data.description || `Telegram responded with ${response.status}`
+      };
+    }
+
+    return { ok: true, status: response.status, telegramMessageId: data.result?.message_id };
+  } catch (error) {
+    return { ok: false, status: 0, error: (error as Error).message };
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (!TELEGRAM_BOT_TOKEN) {
+      throw new Error('TELEGRAM_BOT_TOKEN is not set');
+    }
+
+    const { data: claimed, error: claimError } = await supabase
+      .rpc('claim_telegram_messages', { batch_size: BATCH_SIZE });
+
+    if (claimError) throw claimError;
+
+    const messages = (claimed || []) as MessageRow[];
+    const summary = { sent: 0, retrying: 0, failed: 0 };
+
+    if (messages.length === 0) {
+      return new Response(JSON.stringify(summary), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const { data: routeRows, error: routesError } = await supabase
+      .from('telegram_routes')
+      .select('*');
+
+    if (routesError) throw routesError;
+
+    const routes = ((routeRows || []) as RouteRow[]).map(mapRoute);
+    if (TELEGRAM_CHAT_ID && !routes.some(route => !route.courseId && !route.section)) {
+      routes.push({ id: 'default', chatId: TELEGRAM_CHAT_ID, createdAt: new Date().toISOString() });
+    }
+
+    // Course messages without a chat of their own go to the course's section
+    const courseIds = [...new Set(messages.map(message => message.course_id).filter(Boolean))] as string[];
+    const sectionByCourse = new Map<string, string | undefined>();
+    if (courseIds.length > 0) {
+      const { data: courses, error: coursesError } = await supabase
+        .from('courses')
+        .select('id, section')
+        .in('id', courseIds);
+
+      if (coursesError) throw coursesError;
+      ((courses || []) as { id: string; section: string | null }[])
+        .forEach(course => sectionByCourse.set(course.id, course.section || undefined));
+    }
+
+    // One at a time, so a rate limit isn't hit by a burst of parallel requests
+    for (const message of messages) {
+      const route = resolveTelegramRoute(
+        routes,
+        { section: message.section || undefined, courseId: message.course_id || undefined },
+        message.course_id ? sectionByCourse.get(message.course_id) : undefined
+      );
+
+      const result: SendResult = route
+        ? await sendToTelegram(message, route)
+        : { ok: false, status: 404, error: 'No Telegram chat is set up for this section or course' };
+
+      const { error: logError } = await supabase.from('telegram_delivery_log').insert({
+        message_id: message.id,
+        attempt: message.attempts,
+        chat_id: route?.chatId || null,
+        status_code: result.status,
+        error: result.error || null
+      });
+      if (logError) console.error('Error logging Telegram delivery:', logError);
+
+      let update: Record<string, unknown>;
+      if (result.ok) {
+        summary.sent++;
+        update = {
+          status: 'sent',
+          sent_at: new Date().toISOString(),
+          chat_id: route?.chatId,
+          message_thread_id: route?.messageThreadId ?? null,
+          telegram_message_id: result.telegramMessageId ?? null,
+          last_error: null
+        };
+      } else if (isRetryableTelegramStatus(result.status) && message.attempts < MAX_TELEGRAM_ATTEMPTS) {
+        summary.retrying++;
+        update = {
+          status: 'pending',
+          next_attempt_at: new Date(Date.now() + getTelegramRetryDelay(message.attempts, result.retryAfter)).toISOString(),
+          last_error: result.error
+        };
+      } else {
+        summary.failed++;
+        update = { status: 'failed', last_error: result.error };
+      }
+
+      const { error: updateError } = await supabase
+        .from('telegram_messages')
+        .update({ ...update, claimed_at: null })
+        .eq('id', message.id);
+
+      if (updateError) console.error('Error updating Telegram message:', updateError);
+    }
+
+    return new Response(
+      JSON.stringify(summary),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error relaying Telegram messages:', error);
+
+    return new Response(
+      JSON.stringify({ error: 'Failed to relay Telegram messages' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
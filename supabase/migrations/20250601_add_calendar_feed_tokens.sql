@@ -0,0 +1,33 @@
+/*
+  # Add calendar feed tokens
+
+  1. Changes
+    - Create calendar_feed_tokens table holding one secret token per user
+    - The token identifies the user in the task-calendar-feed edge function,
+      so calendar apps can poll the feed without signing in
+
+  2. Security
+    - Enable RLS
+    - Users can only read, create, rotate and delete their own token
+    - The edge function looks tokens up with the service role key
+*/
+
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token text UNIQUE NOT NULL DEFAULT encode(gen_random_bytes(24), 'hex'),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feed_tokens_token ON calendar_feed_tokens(token);
+
+-- Enable RLS
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own calendar feed token" ON calendar_feed_tokens;
+
+CREATE POLICY "Users can manage their own calendar feed token"
+  ON calendar_feed_tokens
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
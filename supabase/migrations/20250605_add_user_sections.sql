@@ -0,0 +1,67 @@
+/*
+  # Add department, batch and section to student profiles
+
+  1. Changes
+    - Add department, batch and section columns to users table (TEXT)
+    - Add section column to tasks table (TEXT) so admin tasks can target one section
+    - Update handle_new_user() to copy the new signup metadata into users
+
+  2. Notes
+    - Safe migration that only adds new nullable columns
+    - Existing users and tasks without a section keep seeing / being shown to everyone
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'department'
+  ) THEN
+    ALTER TABLE users ADD COLUMN department TEXT;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'batch'
+  ) THEN
+    ALTER TABLE users ADD COLUMN batch TEXT;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'section'
+  ) THEN
+    ALTER TABLE users ADD COLUMN section TEXT;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'section'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN section TEXT;
+  END IF;
+END $$;
+
+-- Copy department, batch and section from the signup metadata
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.users (id, email, name, phone, student_id, department, batch, section, role)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data->>'name', split_part(NEW.email, '@', 1)),
+    NEW.raw_user_meta_data->>'phone',
+    NEW.raw_user_meta_data->>'studentId',
+    NULLIF(NEW.raw_user_meta_data->>'department', ''),
+    NULLIF(NEW.raw_user_meta_data->>'batch', ''),
+    NULLIF(NEW.raw_user_meta_data->>'section', ''),
+    COALESCE(NEW.raw_user_meta_data->>'role', 'user')
+  );
+  RETURN NEW;
+END;
+$$;
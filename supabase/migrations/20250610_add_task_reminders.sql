@@ -0,0 +1,55 @@
+/*
+  # Add scheduled task reminders
+
+  1. New Tables
+    - `reminder_settings`
+      - `user_id` (uuid, primary key, references auth.users)
+      - `enabled` (boolean) - whether the user wants due date reminders
+      - `offsets` (integer[]) - minutes before the due time to send a reminder
+      - `updated_at` (timestamptz)
+    - `task_reminder_log`
+      - One row per reminder delivered, so the scheduled function never sends the same reminder twice
+
+  2. Security
+    - Enable RLS on both tables
+    - Users can read and change their own reminder settings
+    - task_reminder_log is only used by the task-reminders function through the service role
+
+  3. Scheduling
+    - The task-reminders edge function should run every 15 minutes, e.g. with pg_cron and pg_net:
+        select cron.schedule(
+          'send-task-reminders',
+          '*/15 * * * *',
+          $$ select net.http_post(
+               url := 'https://<project-ref>.supabase.co/functions/v1/task-reminders',
+               headers := '{"Authorization": "Bearer <service-role-key>"}'::jsonb
+             ) $$
+        );
+*/
+
+CREATE TABLE IF NOT EXISTS reminder_settings (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  enabled boolean NOT NULL DEFAULT true,
+  offsets integer[] NOT NULL DEFAULT '{1440,60}',
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS task_reminder_log (
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  offset_minutes integer NOT NULL,
+  sent_at timestamptz DEFAULT now(),
+  PRIMARY KEY (task_id, user_id, offset_minutes)
+);
+
+-- Enable RLS
+ALTER TABLE reminder_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_reminder_log ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can manage their own reminder settings"
+  ON reminder_settings
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,135 @@
+/*
+  # Add persistent notification inbox
+
+  1. New Tables
+    - `notifications`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users) - recipient
+      - `type` (text) - task, admin-task, announcement or reminder
+      - `title`, `message` (text)
+      - `task_id` / `announcement_id` (uuid, optional) - what the notification is about
+      - `read_at` (timestamptz) - null while unread
+      - `archived_at` (timestamptz) - set when the user clears the notification
+      - `created_at` (timestamptz)
+
+  2. Triggers
+    - New tasks notify their owner; new admin tasks notify every student in the task's section
+    - New announcements notify every user
+
+  3. Security
+    - Enable RLS on notifications
+    - Users can read, update and delete their own notifications
+    - Rows are created by the triggers and by edge functions using the service role
+
+  4. Notes
+    - Existing tasks and announcements are not backfilled, so old items don't show up as unread
+*/
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('task', 'admin-task', 'announcement', 'reminder')),
+  title text NOT NULL,
+  message text NOT NULL DEFAULT '',
+  task_id uuid REFERENCES tasks(id) ON DELETE CASCADE,
+  announcement_id uuid REFERENCES announcements(id) ON DELETE CASCADE,
+  read_at timestamptz,
+  archived_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_created_idx
+  ON notifications (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS notifications_user_unread_idx
+  ON notifications (user_id)
+  WHERE read_at IS NULL AND archived_at IS NULL;
+
+-- Enable RLS
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can read their own notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notifications"
+  ON notifications FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Notify the owner of a new task, or every student in the section of a new admin task
+CREATE OR REPLACE FUNCTION notify_new_task()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_admin_task THEN
+    INSERT INTO notifications (user_id, type, title, message, task_id)
+    SELECT
+      users.id,
+      'admin-task',
+      'New Admin Task',
+      format('Task "%s" has been created', NEW.name),
+      NEW.id
+    FROM users
+    WHERE users.id <> NEW.user_id
+      AND (
+        NEW.section IS NULL
+        OR users.section IS NULL
+        OR upper(trim(users.section)) = upper(trim(NEW.section))
+      );
+  ELSE
+    INSERT INTO notifications (user_id, type, title, message, task_id)
+    VALUES (
+      NEW.user_id,
+      'task',
+      'New Task',
+      format('Task "%s" has been created', NEW.name),
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_task_created_notify ON tasks;
+CREATE TRIGGER on_task_created_notify
+  AFTER INSERT ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_new_task();
+
+-- Notify every user of a new announcement
+CREATE OR REPLACE FUNCTION notify_new_announcement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO notifications (user_id, type, title, message, announcement_id)
+  SELECT users.id, 'announcement', NEW.title, NEW.content, NEW.id
+  FROM users;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_announcement_created_notify ON announcements;
+CREATE TRIGGER on_announcement_created_notify
+  AFTER INSERT ON announcements
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_new_announcement();
+
+-- Deliver new and updated notifications over realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
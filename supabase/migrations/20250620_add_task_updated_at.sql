@@ -0,0 +1,39 @@
+/*
+  # Track when tasks were last changed
+
+  1. Changes
+    - Add updated_at column to tasks table (TIMESTAMPTZ)
+    - Keep it current with a BEFORE UPDATE trigger
+
+  2. Notes
+    - Used by the offline outbox to decide whether the server copy of a task changed
+      after an offline edit was made
+    - Existing rows start with their created_at value
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'updated_at'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN updated_at TIMESTAMPTZ DEFAULT now();
+    UPDATE tasks SET updated_at = created_at;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION set_task_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_task_updated_set_timestamp ON tasks;
+CREATE TRIGGER on_task_updated_set_timestamp
+  BEFORE UPDATE ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION set_task_updated_at();
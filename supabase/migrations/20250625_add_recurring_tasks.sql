@@ -0,0 +1,113 @@
+/*
+  # Recurring tasks
+
+  1. Changes
+    - Add recurrence column to tasks table (JSONB)
+      - { frequency: 'daily' | 'weekly', interval, weekdays?, until?, count?, exceptions? }
+      - Set on the first task of a series; its due_date is the first occurrence
+    - Add series_id and occurrence_date columns to tasks table
+      - Set on an occurrence that was edited on its own; it replaces the generated
+        occurrence for that date
+    - Don't send "new task" notifications for edited occurrences
+
+  2. Security
+    - Only the owner of a series, or an admin, can add edited occurrences to it
+    - Only admins can create admin tasks
+
+  3. Notes
+    - Occurrences are generated in the app, only edited ones are stored
+    - Deleting a series deletes its edited occurrences
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'recurrence'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN recurrence JSONB;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'series_id'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN series_id UUID REFERENCES tasks(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'occurrence_date'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN occurrence_date DATE;
+  END IF;
+END $$;
+
+-- One edited copy per occurrence
+CREATE UNIQUE INDEX IF NOT EXISTS tasks_series_occurrence_idx
+  ON tasks (series_id, occurrence_date)
+  WHERE series_id IS NOT NULL;
+
+-- An edited occurrence replaces the generated one for everyone who sees the series,
+-- so students can't add them to admin series
+DROP POLICY IF EXISTS "tasks_insert_policy" ON tasks;
+
+CREATE POLICY "tasks_insert_policy"
+  ON tasks
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_admin() OR (
+      auth.uid() = user_id AND
+      is_admin_task = false AND
+      (
+        series_id IS NULL OR
+        EXISTS (
+          SELECT 1 FROM tasks series
+          WHERE series.id = series_id AND series.user_id = auth.uid()
+        )
+      )
+    )
+  );
+
+CREATE OR REPLACE FUNCTION notify_new_task()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Editing one occurrence of a series isn't a new task
+  IF NEW.series_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.is_admin_task THEN
+    INSERT INTO notifications (user_id, type, title, message, task_id)
+    SELECT
+      users.id,
+      'admin-task',
+      'New Admin Task',
+      format('Task "%s" has been created', NEW.name),
+      NEW.id
+    FROM users
+    WHERE users.id <> NEW.user_id
+      AND (
+        NEW.section IS NULL
+        OR users.section IS NULL
+        OR upper(trim(users.section)) = upper(trim(NEW.section))
+      );
+  ELSE
+    INSERT INTO notifications (user_id, type, title, message, task_id)
+    VALUES (
+      NEW.user_id,
+      'task',
+      'New Task',
+      format('Task "%s" has been created', NEW.name),
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,230 @@
+/*
+  # Scheduled, expiring and targeted announcements
+
+  1. Changes
+    - Add columns to announcements table
+      - `is_draft` (boolean) - drafts are never published until an admin publishes them
+      - `publish_at` (timestamptz) - when the announcement goes live
+      - `expires_at` (timestamptz, optional) - when it stops being shown
+      - `published_at` (timestamptz) - set once the announcement went live and its
+        notifications were sent
+      - `pinned` (boolean) - pinned announcements are listed first
+      - `audience` (text) - all, section or course
+      - `audience_section` (text) - target section when audience is section
+      - `audience_course_id` (uuid, references courses) - target course when audience is course;
+        a course's students are the students in the course's section
+    - Notifications are created when an announcement goes live instead of when it is inserted
+    - Add publish_due_announcements() to publish scheduled announcements
+
+  2. Security
+    - Students can only read live announcements meant for them
+
+  3. Scheduling
+    - The publish-announcements edge function should run every minute, e.g. with pg_cron and pg_net:
+        select cron.schedule(
+          'publish-announcements',
+          '* * * * *',
+          $$ select net.http_post(
+               url := 'https://<project-ref>.supabase.co/functions/v1/publish-announcements',
+               headers := '{"Authorization": "Bearer <service-role-key>"}'::jsonb
+             ) $$
+        );
+
+  4. Notes
+    - Existing announcements are marked as published so they don't notify again
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'announcements' AND column_name = 'is_draft'
+  ) THEN
+    ALTER TABLE announcements ADD COLUMN is_draft BOOLEAN NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'announcements' AND column_name = 'publish_at'
+  ) THEN
+    ALTER TABLE announcements ADD COLUMN publish_at TIMESTAMPTZ NOT NULL DEFAULT now();
+    UPDATE announcements SET publish_at = created_at WHERE created_at IS NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'announcements' AND column_name = 'expires_at'
+  ) THEN
+    ALTER TABLE announcements ADD COLUMN expires_at TIMESTAMPTZ;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'announcements' AND column_name = 'published_at'
+  ) THEN
+    ALTER TABLE announcements ADD COLUMN published_at TIMESTAMPTZ;
+    UPDATE announcements SET published_at = publish_at;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'announcements' AND column_name = 'pinned'
+  ) THEN
+    ALTER TABLE announcements ADD COLUMN pinned BOOLEAN NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'announcements' AND column_name = 'audience'
+  ) THEN
+    ALTER TABLE announcements ADD COLUMN audience TEXT NOT NULL DEFAULT 'all'
+      CHECK (audience IN ('all', 'section', 'course'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'announcements' AND column_name = 'audience_section'
+  ) THEN
+    ALTER TABLE announcements ADD COLUMN audience_section TEXT;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'announcements' AND column_name = 'audience_course_id'
+  ) THEN
+    ALTER TABLE announcements ADD COLUMN audience_course_id UUID REFERENCES courses(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+-- Scheduled announcements that still have to go live
+CREATE INDEX IF NOT EXISTS announcements_unpublished_idx
+  ON announcements (publish_at)
+  WHERE published_at IS NULL AND NOT is_draft;
+
+-- Whether a user is in an announcement's audience. Students without a section
+-- and courses without a section match everyone, like section filtering in the app.
+CREATE OR REPLACE FUNCTION is_in_announcement_audience(
+  audience text,
+  audience_section text,
+  audience_course_id uuid,
+  target_user_id uuid
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE audience
+    WHEN 'section' THEN EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = target_user_id
+        AND (
+          audience_section IS NULL
+          OR users.section IS NULL
+          OR upper(trim(users.section)) = upper(trim(audience_section))
+        )
+    )
+    WHEN 'course' THEN EXISTS (
+      SELECT 1 FROM users
+      LEFT JOIN courses ON courses.id = audience_course_id
+      WHERE users.id = target_user_id
+        AND (
+          courses.section IS NULL
+          OR users.section IS NULL
+          OR upper(trim(users.section)) = upper(trim(courses.section))
+        )
+    )
+    ELSE true
+  END;
+$$;
+
+-- Mark announcements as published as soon as they are live
+CREATE OR REPLACE FUNCTION set_announcement_published_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.published_at IS NULL
+    AND NOT NEW.is_draft
+    AND NEW.publish_at <= now()
+    AND (NEW.expires_at IS NULL OR NEW.expires_at > now())
+  THEN
+    NEW.published_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_announcement_published_at ON announcements;
+CREATE TRIGGER set_announcement_published_at
+  BEFORE INSERT OR UPDATE ON announcements
+  FOR EACH ROW
+  EXECUTE FUNCTION set_announcement_published_at();
+
+-- Notify the audience of an announcement when it goes live
+CREATE OR REPLACE FUNCTION notify_new_announcement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.published_at IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.published_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, message, announcement_id)
+  SELECT users.id, 'announcement', NEW.title, NEW.content, NEW.id
+  FROM users
+  WHERE is_in_announcement_audience(NEW.audience, NEW.audience_section, NEW.audience_course_id, users.id);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_announcement_created_notify ON announcements;
+CREATE TRIGGER on_announcement_created_notify
+  AFTER INSERT OR UPDATE ON announcements
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_new_announcement();
+
+-- Publish scheduled announcements whose time has come. Returns the announcements
+-- that went live so the caller can relay them.
+CREATE OR REPLACE FUNCTION publish_due_announcements()
+RETURNS SETOF announcements
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE announcements
+  SET published_at = now()
+  WHERE published_at IS NULL
+    AND NOT is_draft
+    AND publish_at <= now()
+    AND (expires_at IS NULL OR expires_at > now())
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION publish_due_announcements() FROM PUBLIC, anon, authenticated;
+
+-- Students only see live announcements meant for them
+DROP POLICY IF EXISTS "Allow users to read announcements" ON announcements;
+
+CREATE POLICY "Allow users to read announcements"
+  ON announcements
+  FOR SELECT
+  TO authenticated
+  USING (
+    is_admin()
+    OR (
+      published_at IS NOT NULL
+      AND (expires_at IS NULL OR expires_at > now())
+      AND is_in_announcement_audience(audience, audience_section, audience_course_id, auth.uid())
+    )
+  );
@@ -0,0 +1,146 @@
+/*
+  # Server-side Telegram relay
+
+  1. New Tables
+    - `telegram_routes`
+      - `id` (uuid, primary key)
+      - `label` (text, optional)
+      - `chat_id` (text) - Telegram chat id, e.g. -1001234567890
+      - `message_thread_id` (integer, optional) - forum topic in the chat
+      - `section` (text, optional) / `course_id` (uuid, optional) - what the chat is for;
+        a route with neither is the default chat
+    - `telegram_messages`
+      - Queue of messages waiting to be sent by the telegram-relay edge function
+      - `section` / `course_id` - who the message is meant for, used to pick the route
+      - `status` (text) - pending, sending, sent or failed
+      - `attempts`, `next_attempt_at`, `last_error` - retry state
+      - `chat_id`, `message_thread_id`, `telegram_message_id` - where it was delivered
+    - `telegram_delivery_log`
+      - One row per attempt to send a message, with the Telegram status code and error
+
+  2. Functions
+    - claim_telegram_messages(batch_size) hands due messages to the relay, skipping
+      messages another run is already sending
+
+  3. Security
+    - Enable RLS on all three tables
+    - Admins manage routes, queue messages and read the delivery log
+    - The bot token only lives in the edge function's TELEGRAM_BOT_TOKEN secret
+
+  4. Scheduling
+    - The app asks telegram-relay to send new messages right away. Retries need the
+      function to also run on a schedule, e.g. with pg_cron and pg_net:
+        select cron.schedule(
+          'telegram-relay',
+          '* * * * *',
+          $$ select net.http_post(
+               url := 'https://<project-ref>.supabase.co/functions/v1/telegram-relay',
+               headers := '{"Authorization": "Bearer <service-role-key>"}'::jsonb
+             ) $$
+        );
+*/
+
+CREATE TABLE IF NOT EXISTS telegram_routes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  label text,
+  chat_id text NOT NULL,
+  message_thread_id integer,
+  section text,
+  course_id uuid REFERENCES courses(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  CHECK (section IS NULL OR course_id IS NULL)
+);
+
+-- One route per course, per section and one default route
+CREATE UNIQUE INDEX IF NOT EXISTS telegram_routes_target_idx
+  ON telegram_routes (coalesce(course_id::text, ''), upper(trim(coalesce(section, ''))));
+
+CREATE TABLE IF NOT EXISTS telegram_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  text text NOT NULL,
+  photo text,
+  section text,
+  course_id uuid REFERENCES courses(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  claimed_at timestamptz,
+  chat_id text,
+  message_thread_id integer,
+  telegram_message_id bigint,
+  last_error text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  sent_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS telegram_messages_due_idx
+  ON telegram_messages (next_attempt_at)
+  WHERE status IN ('pending', 'sending');
+
+CREATE INDEX IF NOT EXISTS telegram_messages_created_idx
+  ON telegram_messages (created_at DESC);
+
+CREATE TABLE IF NOT EXISTS telegram_delivery_log (
+  id bigserial PRIMARY KEY,
+  message_id uuid NOT NULL REFERENCES telegram_messages(id) ON DELETE CASCADE,
+  attempt integer NOT NULL,
+  chat_id text,
+  status_code integer,
+  error text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS telegram_delivery_log_message_idx
+  ON telegram_delivery_log (message_id, attempt);
+
+-- Enable RLS
+ALTER TABLE telegram_routes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE telegram_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE telegram_delivery_log ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Admins can manage telegram routes"
+  ON telegram_routes
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can manage telegram messages"
+  ON telegram_messages
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can read the telegram delivery log"
+  ON telegram_delivery_log
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Hand due messages to the relay. Messages stuck in "sending" for a while
+-- belong to a run that died and are picked up again.
+CREATE OR REPLACE FUNCTION claim_telegram_messages(batch_size integer DEFAULT 20)
+RETURNS SETOF telegram_messages
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE telegram_messages
+  SET status = 'sending',
+      attempts = attempts + 1,
+      claimed_at = now()
+  WHERE id IN (
+    SELECT id FROM telegram_messages
+    WHERE (status = 'pending' AND next_attempt_at <= now())
+      OR (status = 'sending' AND claimed_at < now() - interval '5 minutes')
+    ORDER BY created_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_telegram_messages(integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,72 @@
+/*
+  # Link Telegram accounts for the two-way bot
+
+  1. New Tables
+    - `telegram_links`
+      - `user_id` (uuid, primary key, references auth.users)
+      - `telegram_user_id` (bigint, unique) - set once the user sent their code to the bot
+      - `telegram_username` (text)
+      - `link_code` (text, unique) - one-time code the user sends with /link
+      - `link_code_expires_at` (timestamptz)
+      - `linked_at` (timestamptz)
+
+  2. Functions
+    - create_telegram_link_code() gives the current user a fresh code, valid for 15 minutes
+
+  3. Security
+    - Enable RLS
+    - Users can read and delete (unlink) their own row
+    - Codes are only created through create_telegram_link_code(), and accounts are only
+      linked by the telegram-bot edge function using the service role, so users can't
+      claim someone else's Telegram account
+*/
+
+CREATE TABLE IF NOT EXISTS telegram_links (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  telegram_user_id bigint UNIQUE,
+  telegram_username text,
+  link_code text UNIQUE,
+  link_code_expires_at timestamptz,
+  linked_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE telegram_links ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can read their own telegram link"
+  ON telegram_links
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own telegram link"
+  ON telegram_links
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION create_telegram_link_code()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- pgcrypto lives in the extensions schema, which isn't on this function's search_path
+  code text := upper(encode(extensions.gen_random_bytes(4), 'hex'));
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO telegram_links (user_id, link_code, link_code_expires_at)
+  VALUES (auth.uid(), code, now() + interval '15 minutes')
+  ON CONFLICT (user_id) DO UPDATE
+  SET link_code = EXCLUDED.link_code,
+      link_code_expires_at = EXCLUDED.link_code_expires_at;
+
+  RETURN code;
+END;
+$$;
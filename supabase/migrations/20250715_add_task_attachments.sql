@@ -0,0 +1,74 @@
+/*
+  # Task attachments
+
+  1. New Tables
+    - `task_attachments`
+      - `id` (uuid, primary key)
+      - `task_id` (uuid, references tasks, cascades on delete)
+      - `file_name` (text) - original name of the uploaded file
+      - `file_size` (bigint) - size in bytes
+      - `mime_type` (text)
+      - `storage_path` (text) - path of the file in the task-attachments bucket
+      - `uploaded_by` (uuid, references auth.users)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS
+    - Attachments can be read by anyone who can read their task
+    - Task owners and admins can add attachments to a task
+    - Uploaders and admins can remove an attachment
+
+  3. Notes
+    - Files used to be linked from an "Attached Files:" block in the task description.
+      Those descriptions are left as they are and still shown by the app
+    - Files in storage are removed by the app when their attachment or task is deleted
+*/
+
+CREATE TABLE IF NOT EXISTS task_attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  file_name text NOT NULL,
+  file_size bigint NOT NULL DEFAULT 0,
+  mime_type text,
+  storage_path text NOT NULL UNIQUE,
+  uploaded_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS task_attachments_task_id_idx ON task_attachments(task_id);
+
+-- Enable RLS
+ALTER TABLE task_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "task_attachments_select_policy"
+  ON task_attachments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = task_attachments.task_id
+    )
+  );
+
+CREATE POLICY "task_attachments_insert_policy"
+  ON task_attachments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = task_attachments.task_id
+      AND (tasks.user_id = auth.uid() OR is_admin())
+    )
+  );
+
+CREATE POLICY "task_attachments_delete_policy"
+  ON task_attachments
+  FOR DELETE
+  TO authenticated
+  USING (
+    auth.uid() = uploaded_by OR
+    is_admin()
+  );
@@ -0,0 +1,123 @@
+/*
+  # Delete teachers in one transaction
+
+  1. New Functions
+    - delete_teacher(p_teacher_id, p_replacement_teacher_id, p_dry_run)
+      - Courses and routine slots taught by the teacher are moved to the replacement
+        teacher, or left without a teacher when no replacement is given
+      - The teacher's course links are moved or removed, then the teacher is deleted
+      - With p_dry_run it changes nothing and only reports what would be affected
+      - Returns { teacher, replacement, courses: [...], routine_slots: [...], deleted }
+
+  2. Security
+    - Admins only, checked with is_admin()
+
+  3. Notes
+    - Replaces the step by step deletion that ran in the browser, which could leave
+      courses pointing at a teacher that no longer exists when a step failed half way
+    - Routine slots keep a copy of the teacher's name for display, which is updated
+      or cleared along with teacher_id
+*/
+
+CREATE OR REPLACE FUNCTION delete_teacher(
+  p_teacher_id uuid,
+  p_replacement_teacher_id uuid DEFAULT NULL,
+  p_dry_run boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_teacher teachers%ROWTYPE;
+  v_replacement teachers%ROWTYPE;
+  v_courses jsonb;
+  v_slots jsonb;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can delete teachers';
+  END IF;
+
+  -- Lock the teacher so a concurrent edit can't add courses while we move them
+  SELECT * INTO v_teacher FROM teachers WHERE id = p_teacher_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Teacher not found';
+  END IF;
+
+  IF p_replacement_teacher_id IS NOT NULL THEN
+    IF p_replacement_teacher_id = p_teacher_id THEN
+      RAISE EXCEPTION 'A teacher can''t replace themselves';
+    END IF;
+
+    SELECT * INTO v_replacement FROM teachers WHERE id = p_replacement_teacher_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Replacement teacher not found';
+    END IF;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', c.id,
+    'name', c.name,
+    'code', c.code
+  ) ORDER BY c.code), '[]'::jsonb)
+  INTO v_courses
+  FROM courses c
+  WHERE c.teacher_id = p_teacher_id
+    OR EXISTS (
+      SELECT 1 FROM teacher_courses tc
+      WHERE tc.course_id = c.id AND tc.teacher_id = p_teacher_id
+    );
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', rs.id,
+    'routine_id', rs.routine_id,
+    'routine_name', r.name,
+    'day_of_week', rs.day_of_week,
+    'start_time', rs.start_time,
+    'end_time', rs.end_time,
+    'course_name', COALESCE(rs.course_name, c.name),
+    'section', rs.section
+  ) ORDER BY r.name, rs.day_of_week, rs.start_time), '[]'::jsonb)
+  INTO v_slots
+  FROM routine_slots rs
+  LEFT JOIN routines r ON r.id = rs.routine_id
+  LEFT JOIN courses c ON c.id = rs.course_id
+  WHERE rs.teacher_id = p_teacher_id;
+
+  IF NOT p_dry_run THEN
+    UPDATE courses
+    SET teacher_id = p_replacement_teacher_id
+    WHERE teacher_id = p_teacher_id;
+
+    UPDATE routine_slots
+    SET teacher_id = p_replacement_teacher_id,
+        teacher_name = v_replacement.name
+    WHERE teacher_id = p_teacher_id;
+
+    IF p_replacement_teacher_id IS NOT NULL THEN
+      INSERT INTO teacher_courses (teacher_id, course_id)
+      SELECT p_replacement_teacher_id, course_id
+      FROM teacher_courses
+      WHERE teacher_id = p_teacher_id
+      ON CONFLICT DO NOTHING;
+    END IF;
+
+    DELETE FROM teacher_courses WHERE teacher_id = p_teacher_id;
+    DELETE FROM teachers WHERE id = p_teacher_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'teacher', jsonb_build_object('id', v_teacher.id, 'name', v_teacher.name),
+    'replacement', CASE
+      WHEN p_replacement_teacher_id IS NULL THEN NULL
+      ELSE jsonb_build_object('id', v_replacement.id, 'name', v_replacement.name)
+    END,
+    'courses', v_courses,
+    'routine_slots', v_slots,
+    'deleted', NOT p_dry_run
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION delete_teacher TO authenticated;
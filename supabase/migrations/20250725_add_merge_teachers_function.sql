@@ -0,0 +1,73 @@
+/*
+  # Merge duplicate teachers
+
+  1. New Functions
+    - merge_teachers(p_survivor_id, p_duplicate_ids)
+      - Fills in the survivor's missing email, phone, department and office room from
+        the duplicates
+      - Moves each duplicate's teacher_courses, courses.teacher_id and routine slots onto
+        the survivor and deletes the duplicate, using delete_teacher()
+      - Everything happens in one transaction
+      - Returns the number of merged teachers
+
+  2. Security
+    - Admins only, checked with is_admin() here and in delete_teacher()
+
+  3. Notes
+    - Duplicates usually come from bulk imports with slightly different spellings of a name.
+      The app finds them; this only merges the ones an admin picked
+*/
+
+CREATE OR REPLACE FUNCTION merge_teachers(
+  p_survivor_id uuid,
+  p_duplicate_ids uuid[]
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_duplicate_id uuid;
+  v_merged integer := 0;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can merge teachers';
+  END IF;
+
+  IF p_survivor_id = ANY(p_duplicate_ids) THEN
+    RAISE EXCEPTION 'A teacher can''t be merged into themselves';
+  END IF;
+
+  PERFORM 1 FROM teachers WHERE id = p_survivor_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Teacher to keep not found';
+  END IF;
+
+  -- Keep contact details the survivor is missing, taking the oldest duplicate's first
+  UPDATE teachers t
+  SET email = COALESCE(NULLIF(t.email, ''), d.email),
+      phone = CASE WHEN COALESCE(t.phone, '') IN ('', 'N/A') THEN COALESCE(d.phone, t.phone) ELSE t.phone END,
+      department = COALESCE(NULLIF(t.department, ''), d.department),
+      office_room = COALESCE(NULLIF(t.office_room, ''), d.office_room)
+  FROM (
+    SELECT
+      (array_agg(NULLIF(email, '') ORDER BY created_at) FILTER (WHERE NULLIF(email, '') IS NOT NULL))[1] AS email,
+      (array_agg(phone ORDER BY created_at) FILTER (WHERE COALESCE(phone, '') NOT IN ('', 'N/A')))[1] AS phone,
+      (array_agg(department ORDER BY created_at) FILTER (WHERE NULLIF(department, '') IS NOT NULL))[1] AS department,
+      (array_agg(office_room ORDER BY created_at) FILTER (WHERE NULLIF(office_room, '') IS NOT NULL))[1] AS office_room
+    FROM teachers
+    WHERE id = ANY(p_duplicate_ids)
+  ) d
+  WHERE t.id = p_survivor_id;
+
+  FOREACH v_duplicate_id IN ARRAY p_duplicate_ids LOOP
+    PERFORM delete_teacher(v_duplicate_id, p_survivor_id, false);
+    v_merged := v_merged + 1;
+  END LOOP;
+
+  RETURN v_merged;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION merge_teachers TO authenticated;
@@ -0,0 +1,217 @@
+/*
+  # All-or-nothing bulk imports for courses and routine slots
+
+  1. New Functions
+    - import_courses(p_courses, p_upsert)
+      - p_courses is an array of { code, name, teacher, teacher_id, credit, section,
+        class_time, telegram_group, blc_link, blc_enroll_key }
+      - Teachers are looked up by name and created when missing, like the row by row import
+      - With p_upsert, a course with the same code and section is updated; without it,
+        an existing course with the same code is an error. Fields left blank in the
+        import keep what the course already has
+      - Returns { inserted, updated, created_teachers }
+    - import_routine_slots(p_routine_id, p_slots, p_upsert)
+      - p_slots is an array of routine_slots rows as prepared by the app
+      - With p_upsert, a slot of the routine with the same day, start time and section is updated
+      - Returns { inserted, updated }
+
+  2. Security
+    - Admins only, checked with is_admin()
+
+  3. Notes
+    - Each call is one transaction: the first failing row raises and nothing is written
+    - The app validates rows and checks slot clashes before calling these, so failures
+      here are mostly rows that changed in the meantime
+*/
+
+CREATE OR REPLACE FUNCTION import_courses(
+  p_courses jsonb,
+  p_upsert boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_course jsonb;
+  v_index integer := 0;
+  v_code text;
+  v_section text;
+  v_teacher_name text;
+  v_teacher_id uuid;
+  v_course_id uuid;
+  v_inserted integer := 0;
+  v_updated integer := 0;
+  v_created_teachers integer := 0;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can import courses';
+  END IF;
+
+  FOR v_course IN SELECT * FROM jsonb_array_elements(p_courses) LOOP
+    v_index := v_index + 1;
+    v_code := trim(v_course->>'code');
+    v_section := NULLIF(trim(v_course->>'section'), '');
+    v_teacher_name := NULLIF(trim(v_course->>'teacher'), '');
+    v_teacher_id := NULLIF(v_course->>'teacher_id', '')::uuid;
+
+    IF v_code IS NULL OR v_code = '' OR NULLIF(trim(v_course->>'name'), '') IS NULL THEN
+      RAISE EXCEPTION 'Course #%: Missing course code or title', v_index;
+    END IF;
+
+    IF v_teacher_id IS NULL AND v_teacher_name IS NOT NULL THEN
+      SELECT id INTO v_teacher_id
+      FROM teachers
+      WHERE lower(name) = lower(v_teacher_name)
+      ORDER BY created_at
+      LIMIT 1;
+
+      IF v_teacher_id IS NULL THEN
+        INSERT INTO teachers (name, phone)
+        VALUES (v_teacher_name, 'N/A')
+        RETURNING id INTO v_teacher_id;
+        v_created_teachers := v_created_teachers + 1;
+      END IF;
+    END IF;
+
+    IF p_upsert THEN
+      SELECT id INTO v_course_id
+      FROM courses
+      WHERE lower(code) = lower(v_code)
+        AND section IS NOT DISTINCT FROM v_section
+      FOR UPDATE;
+    ELSE
+      SELECT id INTO v_course_id FROM courses WHERE lower(code) = lower(v_code) LIMIT 1;
+
+      IF v_course_id IS NOT NULL THEN
+        RAISE EXCEPTION 'Course #% (%): A course with this code already exists', v_index, v_code;
+      END IF;
+    END IF;
+
+    IF v_course_id IS NOT NULL THEN
+      UPDATE courses
+      SET name = trim(v_course->>'name'),
+          teacher = COALESCE(v_teacher_name, teacher),
+          teacher_id = COALESCE(v_teacher_id, teacher_id),
+          credit = COALESCE((v_course->>'credit')::integer, credit),
+          class_time = COALESCE(NULLIF(trim(v_course->>'class_time'), ''), class_time),
+          telegram_group = COALESCE(NULLIF(trim(v_course->>'telegram_group'), ''), telegram_group),
+          blc_link = COALESCE(NULLIF(trim(v_course->>'blc_link'), ''), blc_link),
+          blc_enroll_key = COALESCE(NULLIF(trim(v_course->>'blc_enroll_key'), ''), blc_enroll_key)
+      WHERE id = v_course_id;
+      v_updated := v_updated + 1;
+    ELSE
+      INSERT INTO courses (
+        name, code, teacher, class_time, credit, section, teacher_id,
+        telegram_group, blc_link, blc_enroll_key
+      )
+      VALUES (
+        trim(v_course->>'name'),
+        v_code,
+        COALESCE(v_teacher_name, ''),
+        COALESCE(trim(v_course->>'class_time'), ''),
+        (v_course->>'credit')::integer,
+        v_section,
+        v_teacher_id,
+        NULLIF(trim(v_course->>'telegram_group'), ''),
+        NULLIF(trim(v_course->>'blc_link'), ''),
+        NULLIF(trim(v_course->>'blc_enroll_key'), '')
+      )
+      RETURNING id INTO v_course_id;
+      v_inserted := v_inserted + 1;
+    END IF;
+
+    IF v_teacher_id IS NOT NULL THEN
+      INSERT INTO teacher_courses (teacher_id, course_id)
+      VALUES (v_teacher_id, v_course_id)
+      ON CONFLICT DO NOTHING;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'inserted', v_inserted,
+    'updated', v_updated,
+    'created_teachers', v_created_teachers
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION import_routine_slots(
+  p_routine_id uuid,
+  p_slots jsonb,
+  p_upsert boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slot jsonb;
+  v_slot_id uuid;
+  v_section text;
+  v_inserted integer := 0;
+  v_updated integer := 0;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can import routine slots';
+  END IF;
+
+  -- Lock the routine so two imports into it can't interleave
+  PERFORM 1 FROM routines WHERE id = p_routine_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Routine not found';
+  END IF;
+
+  FOR v_slot IN SELECT * FROM jsonb_array_elements(p_slots) LOOP
+    v_section := NULLIF(trim(v_slot->>'section'), '');
+    v_slot_id := NULL;
+
+    IF p_upsert THEN
+      SELECT id INTO v_slot_id
+      FROM routine_slots
+      WHERE routine_id = p_routine_id
+        AND day_of_week = v_slot->>'day_of_week'
+        AND start_time = (v_slot->>'start_time')::time
+        AND section IS NOT DISTINCT FROM v_section
+      LIMIT 1;
+    END IF;
+
+    IF v_slot_id IS NOT NULL THEN
+      UPDATE routine_slots
+      SET course_id = NULLIF(v_slot->>'course_id', '')::uuid,
+          teacher_id = NULLIF(v_slot->>'teacher_id', '')::uuid,
+          course_name = v_slot->>'course_name',
+          teacher_name = v_slot->>'teacher_name',
+          end_time = (v_slot->>'end_time')::time,
+          room_number = NULLIF(v_slot->>'room_number', '')
+      WHERE id = v_slot_id;
+      v_updated := v_updated + 1;
+    ELSE
+      INSERT INTO routine_slots (
+        routine_id, course_id, teacher_id, course_name, teacher_name,
+        day_of_week, start_time, end_time, room_number, section
+      )
+      VALUES (
+        p_routine_id,
+        NULLIF(v_slot->>'course_id', '')::uuid,
+        NULLIF(v_slot->>'teacher_id', '')::uuid,
+        v_slot->>'course_name',
+        v_slot->>'teacher_name',
+        v_slot->>'day_of_week',
+        (v_slot->>'start_time')::time,
+        (v_slot->>'end_time')::time,
+        NULLIF(v_slot->>'room_number', ''),
+        v_section
+      );
+      v_inserted := v_inserted + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('inserted', v_inserted, 'updated', v_updated);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION import_courses TO authenticated;
+GRANT EXECUTE ON FUNCTION import_routine_slots TO authenticated;
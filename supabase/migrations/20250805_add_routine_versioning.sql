@@ -0,0 +1,139 @@
+/*
+  # Routine slot history and cloning
+
+  1. New Tables
+    - routine_slot_history
+      - One row per added, updated or removed routine slot
+      - old_slot and new_slot hold the whole slot row before and after the change
+      - changed_by (uuid, defaults to auth.uid()), changed_at (timestamptz)
+
+  2. New Functions
+    - log_routine_slot_change(): trigger on routine_slots that writes the history
+    - clone_routine(p_routine_id, p_name, p_semester, p_description)
+      - Copies a routine and all its slots into a new, inactive routine
+      - Returns the new routine's id
+
+  3. Security
+    - Enable RLS on routine_slot_history; only admins can read it
+    - History rows are only written by the trigger
+    - clone_routine is admin only, checked with is_admin()
+
+  4. Notes
+    - Existing slots are recorded as added at their created_at time, so replaying the
+      history of any routine gives back its current slots
+    - Slots deleted together with their routine aren't recorded; the routine's history
+      is deleted with it
+*/
+
+CREATE TABLE IF NOT EXISTS routine_slot_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  routine_id uuid NOT NULL REFERENCES routines(id) ON DELETE CASCADE,
+  slot_id uuid NOT NULL,
+  action text NOT NULL CHECK (action IN ('added', 'updated', 'removed')),
+  old_slot jsonb,
+  new_slot jsonb,
+  changed_by uuid DEFAULT auth.uid(),
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_routine_slot_history_routine
+  ON routine_slot_history (routine_id, changed_at);
+
+ALTER TABLE routine_slot_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view routine slot history"
+  ON routine_slot_history
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE OR REPLACE FUNCTION log_routine_slot_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.routine_id IS NOT NULL THEN
+      INSERT INTO routine_slot_history (routine_id, slot_id, action, new_slot)
+      VALUES (NEW.routine_id, NEW.id, 'added', to_jsonb(NEW));
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.routine_id IS NOT NULL AND to_jsonb(OLD) IS DISTINCT FROM to_jsonb(NEW) THEN
+      INSERT INTO routine_slot_history (routine_id, slot_id, action, old_slot, new_slot)
+      VALUES (NEW.routine_id, NEW.id, 'updated', to_jsonb(OLD), to_jsonb(NEW));
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Skip slots removed because their routine was deleted
+  IF EXISTS (SELECT 1 FROM routines WHERE id = OLD.routine_id) THEN
+    INSERT INTO routine_slot_history (routine_id, slot_id, action, old_slot)
+    VALUES (OLD.routine_id, OLD.id, 'removed', to_jsonb(OLD));
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS routine_slot_history_trigger ON routine_slots;
+CREATE TRIGGER routine_slot_history_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON routine_slots
+  FOR EACH ROW
+  EXECUTE FUNCTION log_routine_slot_change();
+
+-- Record the slots that exist today as the start of each routine's history
+INSERT INTO routine_slot_history (routine_id, slot_id, action, new_slot, changed_by, changed_at)
+SELECT rs.routine_id, rs.id, 'added', to_jsonb(rs), NULL, COALESCE(rs.created_at, now())
+FROM routine_slots rs
+WHERE rs.routine_id IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM routine_slot_history h WHERE h.slot_id = rs.id
+  );
+
+CREATE OR REPLACE FUNCTION clone_routine(
+  p_routine_id uuid,
+  p_name text,
+  p_semester text,
+  p_description text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source routines%ROWTYPE;
+  v_routine_id uuid;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can clone routines';
+  END IF;
+
+  SELECT * INTO v_source FROM routines WHERE id = p_routine_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Routine not found';
+  END IF;
+
+  INSERT INTO routines (name, description, semester, is_active, created_by)
+  VALUES (p_name, COALESCE(p_description, v_source.description), p_semester, false, auth.uid())
+  RETURNING id INTO v_routine_id;
+
+  INSERT INTO routine_slots (
+    routine_id, course_id, teacher_id, course_name, teacher_name,
+    day_of_week, start_time, end_time, room_number, section
+  )
+  SELECT
+    v_routine_id, course_id, teacher_id, course_name, teacher_name,
+    day_of_week, start_time, end_time, room_number, section
+  FROM routine_slots
+  WHERE routine_id = p_routine_id;
+
+  RETURN v_routine_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION clone_routine TO authenticated;
@@ -0,0 +1,145 @@
+/*
+  # Derive course class times from active routines
+
+  1. New Functions
+    - course_class_time_from_routines(p_course_id)
+      - Builds a course's class_time string from the slots of every active routine,
+        in the "Day at 08:30 AM - 10:00 AM in Room" format the app already parses
+    - sync_course_class_times(p_course_ids)
+      - Rewrites class_time of the given courses, or of every course when null
+      - Returns how many courses changed
+    - sync_course_class_times_from_slot(), sync_course_class_times_from_routine()
+      - Triggers that keep class_time up to date when slots of an active routine change
+        or a routine is activated or deactivated
+
+  2. Security
+    - sync_course_class_times is admin only, checked with is_admin()
+    - The trigger functions run as the table owner so any slot edit an admin is allowed
+      to make also updates the course
+
+  3. Notes
+    - Routine slots are the single source of truth; class_time is kept only so existing
+      readers of courses keep working
+    - Only slots linked by course_id count; slots that only carry a course_name
+      are left alone
+    - A course with no slot in an active routine gets an empty class_time
+    - Existing class times aren't rewritten here; the course manager lists courses whose
+      class times disagree with the routine so admins can sync them
+*/
+
+CREATE OR REPLACE FUNCTION course_class_time_from_routines(p_course_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(string_agg(class_time, ', ' ORDER BY day_index, start_time), '')
+  FROM (
+    SELECT DISTINCT
+      array_position(
+        ARRAY['Saturday', 'Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
+        rs.day_of_week
+      ) AS day_index,
+      rs.start_time,
+      rs.day_of_week || ' at ' ||
+        to_char(rs.start_time, 'HH12:MI AM') || ' - ' || to_char(rs.end_time, 'HH12:MI AM') ||
+        COALESCE(' in ' || NULLIF(trim(rs.room_number), ''), '') AS class_time
+    FROM routine_slots rs
+    JOIN routines r ON r.id = rs.routine_id
+    WHERE rs.course_id = p_course_id
+      AND r.is_active
+  ) times;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_course_class_times(p_course_ids uuid[] DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated integer;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can sync course class times';
+  END IF;
+
+  UPDATE courses c
+  SET class_time = course_class_time_from_routines(c.id)
+  WHERE (p_course_ids IS NULL OR c.id = ANY(p_course_ids))
+    AND c.class_time IS DISTINCT FROM course_class_time_from_routines(c.id);
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_course_class_times_from_slot()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Slots of inactive routines don't count towards class times, so editing them changes nothing.
+  -- Slots deleted along with their routine still resync, since the routine is gone by now
+  IF NOT EXISTS (
+    SELECT 1 FROM routines r
+    WHERE r.is_active
+      AND r.id IN (
+        SELECT CASE WHEN TG_OP <> 'INSERT' THEN OLD.routine_id END
+        UNION
+        SELECT CASE WHEN TG_OP <> 'DELETE' THEN NEW.routine_id END
+      )
+  ) AND (TG_OP <> 'DELETE' OR EXISTS (SELECT 1 FROM routines WHERE id = OLD.routine_id)) THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE courses c
+  SET class_time = course_class_time_from_routines(c.id)
+  WHERE c.id IN (
+    SELECT course_id FROM (
+      SELECT CASE WHEN TG_OP <> 'INSERT' THEN OLD.course_id END AS course_id
+      UNION
+      SELECT CASE WHEN TG_OP <> 'DELETE' THEN NEW.course_id END
+    ) affected
+    WHERE course_id IS NOT NULL
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_course_class_times_from_routine()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE courses c
+  SET class_time = course_class_time_from_routines(c.id)
+  WHERE c.id IN (
+    SELECT DISTINCT course_id
+    FROM routine_slots
+    WHERE routine_id = NEW.id AND course_id IS NOT NULL
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS routine_slots_sync_course_class_times ON routine_slots;
+CREATE TRIGGER routine_slots_sync_course_class_times
+  AFTER INSERT OR UPDATE OR DELETE ON routine_slots
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_course_class_times_from_slot();
+
+DROP TRIGGER IF EXISTS routines_sync_course_class_times ON routines;
+CREATE TRIGGER routines_sync_course_class_times
+  AFTER UPDATE OF is_active ON routines
+  FOR EACH ROW
+  WHEN (OLD.is_active IS DISTINCT FROM NEW.is_active)
+  EXECUTE FUNCTION sync_course_class_times_from_routine();
+
+GRANT EXECUTE ON FUNCTION sync_course_class_times TO authenticated;
@@ -0,0 +1,44 @@
+/*
+  # Saved task views on user profiles
+
+  1. Changes
+    - Add task_views column to users (jsonb array, defaults to empty)
+    - Each view is a named set of task filters saved by the app: category, status,
+      due date range, course and text query, plus whether it's pinned to the home screen
+
+  2. New Functions
+    - save_task_views(p_views): replaces the signed-in user's saved views
+
+  3. Security
+    - Views are read with the existing "read own profile" policy
+    - Writes go through save_task_views, which only ever touches the caller's row,
+      so the users update policies don't need to change
+
+  4. Notes
+    - The app owns the shape of each view; the database only checks it gets an array
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS task_views jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE OR REPLACE FUNCTION save_task_views(p_views jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF jsonb_typeof(p_views) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Task views must be an array';
+  END IF;
+
+  UPDATE users
+  SET task_views = p_views
+  WHERE id = auth.uid();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_task_views TO authenticated;
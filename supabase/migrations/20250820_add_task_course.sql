@@ -0,0 +1,41 @@
+/*
+  # Link tasks to courses
+
+  1. Changes
+    - Add course_id column to tasks, referencing courses
+    - Index tasks by course for per-course task lists
+    - Backfill course_id on existing tasks that mention exactly one course code
+      in their name or description
+
+  2. Security
+    - No policy changes; course_id is read and written with the rest of the task
+
+  3. Notes
+    - Deleting a course keeps its tasks and clears their course
+    - Tasks mentioning no course code, or several, are left without a course
+*/
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS course_id uuid REFERENCES courses(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_course ON tasks(course_id);
+
+-- Only link a task when the course it mentions is unambiguous
+WITH mentions AS (
+  SELECT t.id AS task_id, c.id AS course_id
+  FROM tasks t
+  JOIN courses c
+    ON c.code <> ''
+   AND (t.name ILIKE '%' || c.code || '%' OR t.description ILIKE '%' || c.code || '%')
+  WHERE t.course_id IS NULL
+),
+single_mentions AS (
+  SELECT task_id, min(course_id::text)::uuid AS course_id
+  FROM mentions
+  GROUP BY task_id
+  HAVING count(DISTINCT course_id) = 1
+)
+UPDATE tasks
+SET course_id = single_mentions.course_id
+FROM single_mentions
+WHERE tasks.id = single_mentions.task_id;
@@ -0,0 +1,94 @@
+/*
+  # Per-student progress on admin tasks
+
+  1. New Tables
+    - `task_progress`
+      - `id` (uuid, primary key)
+      - `task_id` (uuid, references tasks)
+      - `user_id` (uuid, references auth.users)
+      - `occurrence_date` (date) - the occurrence of a recurring task; null for tasks that don't repeat
+      - `status` (text) - the student's own status for the task: my-tasks, in-progress or completed
+      - `updated_at` (timestamptz)
+      - One row per student and admin task or occurrence, created the first time the student changes its status
+
+  2. New Functions
+    - get_task_progress_summary(): how many students started and completed each admin task and occurrence
+
+  3. Security
+    - Enable RLS on task_progress
+    - Students can read and change their own progress, and only on admin tasks
+    - Admins can read everyone's progress
+    - get_task_progress_summary is admin only, checked with is_admin()
+
+  4. Notes
+    - Admin tasks are shared rows, so a student's status no longer goes on the task itself;
+      the status column of an admin task stays whatever the admin set
+    - A student without a progress row hasn't started the task
+    - Occurrences of a recurring task are generated in the app, so they're told apart by date;
+      the series row itself stands for its first occurrence
+*/
+
+CREATE TABLE IF NOT EXISTS task_progress (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  occurrence_date date,
+  status text NOT NULL CHECK (status IN ('my-tasks', 'in-progress', 'completed')),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  -- Also one row for a task that doesn't repeat, where occurrence_date is null
+  CONSTRAINT task_progress_task_user_occurrence_key
+    UNIQUE NULLS NOT DISTINCT (task_id, user_id, occurrence_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_progress_user ON task_progress(user_id);
+
+DROP TRIGGER IF EXISTS on_task_progress_updated_set_timestamp ON task_progress;
+CREATE TRIGGER on_task_progress_updated_set_timestamp
+  BEFORE UPDATE ON task_progress
+  FOR EACH ROW
+  EXECUTE FUNCTION set_task_updated_at();
+
+-- Enable RLS
+ALTER TABLE task_progress ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can manage their own progress on admin tasks"
+  ON task_progress
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (SELECT 1 FROM tasks WHERE tasks.id = task_id AND tasks.is_admin_task = true)
+  );
+
+CREATE POLICY "Admins can view all task progress"
+  ON task_progress
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Counts per task, so the admin view doesn't have to load every progress row
+CREATE OR REPLACE FUNCTION get_task_progress_summary()
+RETURNS TABLE (task_id uuid, occurrence_date date, started integer, completed integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view task progress';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.task_id,
+    p.occurrence_date,
+    count(*) FILTER (WHERE p.status IN ('in-progress', 'completed'))::integer,
+    count(*) FILTER (WHERE p.status = 'completed')::integer
+  FROM task_progress p
+  GROUP BY p.task_id, p.occurrence_date;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_task_progress_summary TO authenticated;
@@ -0,0 +1,25 @@
+/*
+  # Remind about every occurrence of recurring tasks
+
+  1. Changes
+    - `task_reminder_log`
+      - Add `occurrence_date` (date) - the occurrence of a recurring task the reminder was for;
+        null for tasks that don't repeat
+      - Add `id` (uuid) as the primary key, since occurrence_date can be null
+      - One row per task or occurrence, user and offset
+
+  2. Notes
+    - Without the date, the first occurrence's reminders stopped every later occurrence
+      from being reminded about
+    - Existing rows are kept as reminders for tasks that don't repeat
+*/
+
+ALTER TABLE task_reminder_log ADD COLUMN IF NOT EXISTS occurrence_date date;
+
+ALTER TABLE task_reminder_log DROP CONSTRAINT IF EXISTS task_reminder_log_pkey;
+ALTER TABLE task_reminder_log ADD COLUMN IF NOT EXISTS id uuid PRIMARY KEY DEFAULT gen_random_uuid();
+
+ALTER TABLE task_reminder_log DROP CONSTRAINT IF EXISTS task_reminder_log_task_user_occurrence_offset_key;
+ALTER TABLE task_reminder_log
+  ADD CONSTRAINT task_reminder_log_task_user_occurrence_offset_key
+  UNIQUE NULLS NOT DISTINCT (task_id, user_id, occurrence_date, offset_minutes);